@@ -52,6 +52,110 @@ const upload = multer({
   fileFilter: fileFilter
 });
 
+// CSV uploads for batch generation are parsed in memory and never written to disk
+const csvFileFilter = (req, file, cb) => {
+  const isCsv = ['text/csv', 'application/vnd.ms-excel', 'text/plain'].includes(file.mimetype) ||
+    path.extname(file.originalname).toLowerCase() === '.csv';
+
+  if (isCsv) {
+    cb(null, true);
+  } else {
+    cb(new Error('Invalid file type. Batch imports must be CSV files.'), false);
+  }
+};
+
+const csvUpload = multer({
+  storage: multer.memoryStorage(),
+  limits: {
+    fileSize: parseInt(process.env.MAX_FILE_SIZE) || 25 * 1024 * 1024, // 25MB default
+  },
+  fileFilter: csvFileFilter
+});
+
+// Uploaded fonts live in their own folder next to the templates
+const fontDir = path.join(uploadDir, 'fonts');
+if (!fs.existsSync(fontDir)) {
+  fs.mkdirSync(fontDir, { recursive: true });
+}
+
+const fontStorage = multer.diskStorage({
+  destination: (req, file, cb) => {
+    cb(null, fontDir);
+  },
+  filename: (req, file, cb) => {
+    const uniqueSuffix = Date.now() + '-' + Math.round(Math.random() * 1E9);
+    const extension = path.extname(file.originalname).toLowerCase();
+    cb(null, `font-${uniqueSuffix}${extension}`);
+  }
+});
+
+// Browsers report font MIME types inconsistently, so the extension decides
+const fontFileFilter = (req, file, cb) => {
+  const extension = path.extname(file.originalname).toLowerCase();
+
+  if (['.ttf', '.otf', '.woff'].includes(extension)) {
+    cb(null, true);
+  } else {
+    cb(new Error('Invalid file type. Supported font formats: TTF, OTF and WOFF.'), false);
+  }
+};
+
+const fontUpload = multer({
+  storage: fontStorage,
+  limits: {
+    fileSize: parseInt(process.env.MAX_FONT_SIZE) || 10 * 1024 * 1024, // 10MB default
+  },
+  fileFilter: fontFileFilter
+});
+
+// Images for image placeholders are converted to PNG before they are stored, so they
+// are read in memory; the converted files live in their own folder
+const imageDir = path.join(uploadDir, 'images');
+if (!fs.existsSync(imageDir)) {
+  fs.mkdirSync(imageDir, { recursive: true });
+}
+
+const imageFileFilter = (req, file, cb) => {
+  if (file.mimetype.startsWith('image/')) {
+    cb(null, true);
+  } else {
+    cb(new Error('Invalid file type. Supported image formats: JPEG, PNG, GIF, BMP, WebP, SVG and TIFF.'), false);
+  }
+};
+
+const imageUpload = multer({
+  storage: multer.memoryStorage(),
+  limits: {
+    fileSize: parseInt(process.env.MAX_IMAGE_SIZE) || 10 * 1024 * 1024, // 10MB default
+  },
+  fileFilter: imageFileFilter
+});
+
+// Template bundle imports: the bundle JSON plus, for bundles without an embedded
+// background, the background file. Both are read in memory.
+const bundleFileFilter = (req, file, cb) => {
+  if (file.fieldname === 'template') {
+    return fileFilter(req, file, cb);
+  }
+
+  const isJson = file.mimetype === 'application/json' ||
+    path.extname(file.originalname).toLowerCase() === '.json';
+
+  if (isJson) {
+    cb(null, true);
+  } else {
+    cb(new Error('Invalid file type. Template bundles must be JSON files.'), false);
+  }
+};
+
+const bundleUpload = multer({
+  storage: multer.memoryStorage(),
+  limits: {
+    fileSize: parseInt(process.env.MAX_BUNDLE_SIZE) || 50 * 1024 * 1024, // 50MB default
+  },
+  fileFilter: bundleFileFilter
+});
+
 // Error handling middleware for multer
 const handleUploadError = (err, req, res, next) => {
   if (err instanceof multer.MulterError) {
@@ -87,5 +191,9 @@ const handleUploadError = (err, req, res, next) => {
 
 module.exports = {
   upload,
+  csvUpload,
+  fontUpload,
+  imageUpload,
+  bundleUpload,
   handleUploadError
 };
\ No newline at end of file
@@ -1,4 +1,7 @@
 const { body, validationResult } = require('express-validator');
+const { isValidIdFormat } = require('../models/idScheme');
+const { isValidLocale } = require('../models/dateFormat');
+const { PARTICIPANT_NAME_PATTERN, PARTICIPANT_NAME_MESSAGE, normalizeParticipantName } = require('../models/participantName');
 
 // Validation error handler
 const handleValidationErrors = (req, res, next) => {
@@ -32,11 +35,263 @@ const validateLogin = [
 // Certificate creation validation
 const validateCertificateCreation = [
   body('participantName')
+    .customSanitizer(normalizeParticipantName)
+    .isLength({ min: 2, max: 100 })
+    .withMessage('Participant name must be between 2 and 100 characters')
+    .matches(PARTICIPANT_NAME_PATTERN)
+    .withMessage(PARTICIPANT_NAME_MESSAGE),
+  body('fieldValues')
+    .optional()
+    .isObject()
+    .withMessage('Field values must be an object keyed by field key'),
+  body('recipientEmail')
+    .optional({ values: 'falsy' })
     .trim()
+    .isEmail()
+    .withMessage('Please provide a valid recipient email address'),
+  body('sendEmail')
+    .optional()
+    .isBoolean()
+    .withMessage('Send email flag must be a boolean'),
+  body('emailTemplateId')
+    .optional({ values: 'falsy' })
+    .isMongoId()
+    .withMessage('Email template ID must be a valid ID'),
+  body('issuedDate')
+    .optional({ values: 'falsy' })
+    .isISO8601()
+    .withMessage('Issued date must be a valid date'),
+  body('expiryDate')
+    .optional({ values: 'falsy' })
+    .isISO8601()
+    .withMessage('Expiry date must be a valid date')
+    // Compared as calendar days, so a certificate may expire on the day it is issued
+    .custom((expiryDate, { req }) => (
+      expiryDate.slice(0, 10) >= (req.body.issuedDate || new Date().toISOString()).slice(0, 10)
+    ))
+    .withMessage('Expiry date cannot be before the issued date'),
+  handleValidationErrors
+];
+
+// Certificate update validation; a new name or field values reissue the certificate
+const validateCertificateUpdate = [
+  body('participantName')
+    .optional()
+    .customSanitizer(normalizeParticipantName)
     .isLength({ min: 2, max: 100 })
     .withMessage('Participant name must be between 2 and 100 characters')
-    .matches(/^[a-zA-Z\s.'-]+$/)
-    .withMessage('Participant name can only contain letters, spaces, dots, apostrophes, and hyphens'),
+    .matches(PARTICIPANT_NAME_PATTERN)
+    .withMessage(PARTICIPANT_NAME_MESSAGE),
+  body('fieldValues')
+    .optional()
+    .isObject()
+    .withMessage('Field values must be an object keyed by field key'),
+  body('reason')
+    .optional()
+    .trim()
+    .isLength({ max: 500 })
+    .withMessage('Reason cannot exceed 500 characters'),
+  body('notes')
+    .optional()
+    .isString()
+    .withMessage('Notes must be text'),
+  body('tags')
+    .optional()
+    .isArray()
+    .withMessage('Tags must be an array'),
+  body('recipientEmail')
+    .optional({ values: 'null' })
+    .trim()
+    .custom(value => value === '' || /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(value))
+    .withMessage('Please provide a valid recipient email address'),
+  handleValidationErrors
+];
+
+// Certificate revocation validation
+const validateCertificateRevocation = [
+  body('reason')
+    .trim()
+    .isLength({ min: 3, max: 500 })
+    .withMessage('A revocation reason between 3 and 500 characters is required'),
+  body('effectiveDate')
+    .optional({ values: 'falsy' })
+    .isISO8601()
+    .withMessage('Effective date must be a valid date'),
+  handleValidationErrors
+];
+
+const validateCertificateReinstatement = [
+  body('reason')
+    .optional()
+    .trim()
+    .isLength({ max: 500 })
+    .withMessage('Reason cannot exceed 500 characters'),
+  handleValidationErrors
+];
+
+// Certificate renewal validation; dates default to today and the original's validity period
+const validateCertificateRenewal = [
+  body('issuedDate')
+    .optional({ values: 'falsy' })
+    .isISO8601()
+    .withMessage('Issued date must be a valid date'),
+  body('expiryDate')
+    .optional({ values: 'falsy' })
+    .isISO8601()
+    .withMessage('Expiry date must be a valid date')
+    .custom((expiryDate, { req }) => (
+      expiryDate.slice(0, 10) >= (req.body.issuedDate || new Date().toISOString()).slice(0, 10)
+    ))
+    .withMessage('Expiry date cannot be before the issued date'),
+  handleValidationErrors
+];
+
+// Certificate regeneration validation (single and bulk)
+const validateCertificateRegeneration = [
+  body('source')
+    .optional()
+    .isIn(['snapshot', 'template'])
+    .withMessage('Source must be "snapshot" or "template"'),
+  body('certificateIds')
+    .optional()
+    .isArray({ min: 1, max: 500 })
+    .withMessage('Certificate IDs must be an array of 1 to 500 entries'),
+  body('certificateIds.*')
+    .isMongoId()
+    .withMessage('Each certificate ID must be a valid ID'),
+  body('failedOnly')
+    .optional()
+    .isBoolean()
+    .withMessage('Failed-only flag must be a boolean'),
+  handleValidationErrors
+];
+
+// Certificate email validation (single and bulk)
+const validateCertificateSend = [
+  body('emailTemplateId')
+    .optional({ values: 'falsy' })
+    .isMongoId()
+    .withMessage('Email template ID must be a valid ID'),
+  body('recipientEmail')
+    .optional({ values: 'falsy' })
+    .trim()
+    .isEmail()
+    .withMessage('Please provide a valid recipient email address'),
+  body('certificateIds')
+    .optional()
+    .isArray({ min: 1, max: 500 })
+    .withMessage('Certificate IDs must be an array of 1 to 500 entries'),
+  body('certificateIds.*')
+    .isMongoId()
+    .withMessage('Each certificate ID must be a valid ID'),
+  body('unsentOnly')
+    .optional()
+    .isBoolean()
+    .withMessage('Unsent-only flag must be a boolean'),
+  handleValidationErrors
+];
+
+// Email template validation
+const validateEmailTemplate = [
+  body('name')
+    .trim()
+    .isLength({ min: 1, max: 100 })
+    .withMessage('Email template name must be between 1 and 100 characters'),
+  body('subject')
+    .trim()
+    .isLength({ min: 1, max: 200 })
+    .withMessage('Email subject must be between 1 and 200 characters'),
+  body('body')
+    .isLength({ min: 1, max: 10000 })
+    .withMessage('Email body must be between 1 and 10000 characters'),
+  body('deliveryMethod')
+    .optional()
+    .isIn(['attachment', 'link'])
+    .withMessage('Delivery method must be "attachment" or "link"'),
+  body('isDefault')
+    .optional()
+    .isBoolean()
+    .withMessage('Default flag must be a boolean'),
+  handleValidationErrors
+];
+
+// Certificate ID scheme rules; `null` clears the scheme so a fallback applies
+const idSchemeRules = (path) => [
+  body(path)
+    .optional({ values: 'null' })
+    .isObject()
+    .withMessage('ID scheme must be an object'),
+  body(`${path}.mode`)
+    .optional()
+    .isIn(['sequential', 'random'])
+    .withMessage('ID mode must be "sequential" or "random"'),
+  body(`${path}.prefix`)
+    .optional()
+    .trim()
+    .toUpperCase()
+    .matches(/^[A-Z0-9]{0,20}$/)
+    .withMessage('ID prefix can only contain up to 20 letters and numbers'),
+  body(`${path}.format`)
+    .optional()
+    .trim()
+    .toUpperCase()
+    .isLength({ max: 60 })
+    .withMessage('ID format cannot exceed 60 characters')
+    .custom(isValidIdFormat)
+    .withMessage('ID format must contain {SEQ} once and only letters, numbers, hyphens and {PREFIX}, {YYYY}, {YY} or {MM}'),
+  body(`${path}.padding`)
+    .optional()
+    .isInt({ min: 1, max: 12 })
+    .withMessage('Padding must be between 1 and 12 digits'),
+  body(`${path}.randomLength`)
+    .optional()
+    .isInt({ min: 6, max: 32 })
+    .withMessage('Random part must be between 6 and 32 characters'),
+  body(`${path}.checkDigit`)
+    .optional()
+    .isBoolean()
+    .withMessage('Check digit flag must be a boolean')
+];
+
+// Admin ID scheme validation
+const validateIdScheme = [
+  body('idScheme')
+    .exists()
+    .withMessage('ID scheme is required'),
+  ...idSchemeRules('idScheme'),
+  handleValidationErrors
+];
+
+// Credential issuer profile validation
+const validateIssuerProfile = [
+  body('issuerProfile')
+    .exists()
+    .withMessage('Issuer profile is required'),
+  body('issuerProfile.name')
+    .optional({ checkFalsy: true })
+    .trim()
+    .isLength({ min: 2, max: 100 })
+    .withMessage('Issuer name must be between 2 and 100 characters'),
+  body('issuerProfile.url')
+    .optional({ checkFalsy: true })
+    .trim()
+    .isURL({ protocols: ['http', 'https'], require_protocol: true })
+    .withMessage('Issuer website must be a valid http(s) URL'),
+  body('issuerProfile.email')
+    .optional({ checkFalsy: true })
+    .trim()
+    .isEmail()
+    .withMessage('Issuer email must be a valid email address'),
+  body('issuerProfile.description')
+    .optional({ checkFalsy: true })
+    .trim()
+    .isLength({ max: 500 })
+    .withMessage('Issuer description cannot exceed 500 characters'),
+  body('issuerProfile.imageUrl')
+    .optional({ checkFalsy: true })
+    .trim()
+    .isURL({ protocols: ['http', 'https'], require_protocol: true })
+    .withMessage('Issuer image must be a valid http(s) URL'),
   handleValidationErrors
 ];
 
@@ -58,9 +313,41 @@ const validateTemplatePlaceholders = [
       }
       return true;
     }),
+  body('placeholders')
+    .custom((placeholders, { req }) => {
+      // Custom field placeholders must bind to a field declared on the template
+      const fieldKeys = (req.body.fields || []).map(field => field && field.key);
+      placeholders
+        .filter(p => p.type === 'field')
+        .forEach(p => {
+          if (!p.fieldKey || !fieldKeys.includes(p.fieldKey)) {
+            throw new Error(`Placeholder references unknown field "${p.fieldKey || ''}"`);
+          }
+        });
+
+      // Image placeholders draw a library image, a certificate's image field, or both
+      const imageFieldKeys = (req.body.fields || [])
+        .filter(field => field && field.dataType === 'image')
+        .map(field => field.key);
+      const textOnImageField = placeholders.find(p => p.type === 'field' && imageFieldKeys.includes(p.fieldKey));
+      if (textOnImageField) {
+        throw new Error(`Field "${textOnImageField.fieldKey}" holds an image; place it with an image placeholder`);
+      }
+      placeholders
+        .filter(p => p.type === 'image')
+        .forEach(p => {
+          if (p.fieldKey && !imageFieldKeys.includes(p.fieldKey)) {
+            throw new Error(`Image placeholder references unknown image field "${p.fieldKey}"`);
+          }
+          if (!p.fieldKey && !p.assetId) {
+            throw new Error('Image placeholders need an image or an image field');
+          }
+        });
+      return true;
+    }),
   body('placeholders.*.type')
-    .isIn(['name', 'id'])
-    .withMessage('Placeholder type must be either "name" or "id"'),
+    .isIn(['name', 'id', 'qr', 'field', 'image', 'issuedDate', 'expiryDate'])
+    .withMessage('Placeholder type must be "name", "id", "qr", "field", "image", "issuedDate" or "expiryDate"'),
   body('placeholders.*.x')
     .isNumeric()
     .withMessage('X coordinate must be a number'),
@@ -69,8 +356,8 @@ const validateTemplatePlaceholders = [
     .withMessage('Y coordinate must be a number'),
   body('placeholders.*.fontSize')
     .optional()
-    .isInt({ min: 8, max: 200 })
-    .withMessage('Font size must be between 8 and 200'),
+    .isInt({ min: 4, max: 1000 })
+    .withMessage('Font size must be between 4 and 1000'),
   body('placeholders.*.fontFamily')
     .optional()
     .isLength({ min: 1, max: 50 })
@@ -83,6 +370,135 @@ const validateTemplatePlaceholders = [
     .optional()
     .isIn(['normal', 'bold', '100', '200', '300', '400', '500', '600', '700', '800', '900'])
     .withMessage('Font weight must be a valid CSS font-weight value'),
+  body('placeholders.*.width')
+    .optional()
+    .isFloat({ min: 1 })
+    .withMessage('Width must be at least 1px'),
+  body('placeholders.*.height')
+    .optional()
+    .isFloat({ min: 1 })
+    .withMessage('Height must be at least 1px'),
+  body('placeholders.*.overflow')
+    .optional()
+    .isIn(['none', 'shrink', 'wrap', 'ellipsis'])
+    .withMessage('Overflow must be "none", "shrink", "wrap" or "ellipsis"'),
+  body('placeholders.*.minFontSize')
+    .optional()
+    .isFloat({ min: 4, max: 1000 })
+    .withMessage('Minimum font size must be between 4 and 1000'),
+  body('placeholders.*.lineHeight')
+    .optional()
+    .isFloat({ min: 0.5, max: 3 })
+    .withMessage('Line height must be between 0.5 and 3'),
+  body('placeholders')
+    .custom((placeholders) => {
+      placeholders.forEach(p => {
+        if (['shrink', 'wrap', 'ellipsis'].includes(p.overflow) && !p.width) {
+          throw new Error(`Overflow mode "${p.overflow}" needs a box width`);
+        }
+      });
+      return true;
+    }),
+  body('placeholders.*.assetId')
+    .optional({ values: 'falsy' })
+    .isMongoId()
+    .withMessage('Image ID must be a valid ID'),
+  body('placeholders.*.fit')
+    .optional()
+    .isIn(['contain', 'cover', 'stretch'])
+    .withMessage('Image fit must be "contain", "cover" or "stretch"'),
+  body('placeholders.*.opacity')
+    .optional()
+    .isFloat({ min: 0, max: 1 })
+    .withMessage('Opacity must be between 0 and 1'),
+  body('placeholders.*.dateFormat')
+    .optional({ values: 'falsy' })
+    .isLength({ max: 100 })
+    .withMessage('Date format cannot exceed 100 characters'),
+  body('placeholders.*.locale')
+    .optional({ values: 'falsy' })
+    .custom(isValidLocale)
+    .withMessage('Locale must be a supported language tag, such as en-GB or de-DE'),
+  body('placeholders.*.qrUrlTemplate')
+    .optional({ values: 'falsy' })
+    .isLength({ max: 500 })
+    .withMessage('QR URL template cannot exceed 500 characters')
+    .contains('{certificateId}')
+    .withMessage('QR URL template must contain {certificateId}'),
+  body('fields')
+    .optional()
+    .isArray({ max: 50 })
+    .withMessage('Fields must be an array of at most 50 entries')
+    .custom((fields) => {
+      const keys = fields.map(field => field && field.key);
+      if (new Set(keys).size !== keys.length) {
+        throw new Error('Field keys must be unique');
+      }
+      return true;
+    }),
+  body('fields.*.key')
+    .trim()
+    .matches(/^[a-zA-Z][a-zA-Z0-9_]*$/)
+    .withMessage('Field key must start with a letter and contain only letters, numbers and underscores')
+    .isLength({ max: 50 })
+    .withMessage('Field key cannot exceed 50 characters')
+    .not()
+    .isIn(['name', 'id', 'qr', 'field', 'image', 'issuedDate', 'expiryDate'])
+    .withMessage('Field key is reserved'),
+  body('fields.*.label')
+    .trim()
+    .isLength({ min: 1, max: 100 })
+    .withMessage('Field label must be between 1 and 100 characters'),
+  body('fields.*.dataType')
+    .optional()
+    .isIn(['text', 'date', 'number', 'image'])
+    .withMessage('Field data type must be "text", "date", "number" or "image"'),
+  body('fields.*.required')
+    .optional()
+    .isBoolean()
+    .withMessage('Field required flag must be a boolean'),
+  body('fields.*.defaultValue')
+    .optional({ values: 'null' })
+    .isLength({ max: 500 })
+    .withMessage('Default value cannot exceed 500 characters'),
+  ...idSchemeRules('idScheme'),
+  body('note')
+    .optional()
+    .trim()
+    .isLength({ max: 200 })
+    .withMessage('Version note cannot exceed 200 characters'),
+  handleValidationErrors
+];
+
+// Template version rollback validation
+const validateTemplateRestore = [
+  body('note')
+    .optional()
+    .trim()
+    .isLength({ max: 200 })
+    .withMessage('Version note cannot exceed 200 characters'),
+  handleValidationErrors
+];
+
+// Template preview validation; unsaved layouts are checked by the Template schema
+const validateTemplatePreview = [
+  body('values')
+    .optional()
+    .isObject()
+    .withMessage('Values must be an object of placeholder values'),
+  body('values.*')
+    .optional()
+    .isString()
+    .isLength({ max: 500 })
+    .withMessage('Preview values must be text of at most 500 characters'),
+  body('placeholders')
+    .optional()
+    .isArray({ max: 100 })
+    .withMessage('Placeholders must be an array'),
+  body('fields')
+    .optional()
+    .isArray()
+    .withMessage('Fields must be an array'),
   handleValidationErrors
 ];
 
@@ -107,7 +523,18 @@ const validateAdminRegistration = [
 module.exports = {
   validateLogin,
   validateCertificateCreation,
+  validateCertificateUpdate,
+  validateCertificateRevocation,
+  validateCertificateReinstatement,
+  validateCertificateRenewal,
+  validateCertificateRegeneration,
+  validateCertificateSend,
+  validateEmailTemplate,
   validateTemplatePlaceholders,
+  validateTemplateRestore,
+  validateTemplatePreview,
   validateAdminRegistration,
+  validateIdScheme,
+  validateIssuerProfile,
   handleValidationErrors
 };
\ No newline at end of file
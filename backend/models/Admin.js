@@ -1,5 +1,33 @@
 const mongoose = require('mongoose');
 const bcrypt = require('bcryptjs');
+const { idSchemeSchema } = require('./idScheme');
+
+// How an admin appears as the issuer of their verifiable credentials
+const issuerProfileSchema = new mongoose.Schema({
+  name: {
+    type: String,
+    trim: true,
+    maxlength: [100, 'Issuer name cannot exceed 100 characters']
+  },
+  url: {
+    type: String,
+    trim: true
+  },
+  email: {
+    type: String,
+    trim: true,
+    lowercase: true
+  },
+  description: {
+    type: String,
+    trim: true,
+    maxlength: [500, 'Issuer description cannot exceed 500 characters']
+  },
+  imageUrl: {
+    type: String,
+    trim: true
+  }
+}, { _id: false });
 
 const adminSchema = new mongoose.Schema({
   name: {
@@ -41,6 +69,14 @@ const adminSchema = new mongoose.Schema({
   },
   lockUntil: {
     type: Date
+  },
+  // Default numbering for certificates this admin issues from templates without their own scheme
+  idScheme: {
+    type: idSchemeSchema
+  },
+  // Issuer shown in exported credentials; unset fields fall back to the admin's name and the app URL
+  issuerProfile: {
+    type: issuerProfileSchema
   }
 }, {
   timestamps: true,
@@ -1,4 +1,103 @@
 const mongoose = require('mongoose');
+const Counter = require('./Counter');
+const {
+  idSchemeSchema,
+  DEFAULT_ID_SCHEME,
+  toPlainScheme,
+  renderIdFormat,
+  appendCheckDigit,
+  randomIdPart,
+  escapeRegex,
+  isValidCertificateId
+} = require('./idScheme');
+const { PARTICIPANT_NAME_PATTERN, PARTICIPANT_NAME_MESSAGE, normalizeParticipantName } = require('./participantName');
+
+// Attempts at drawing an unused random ID before giving up
+const RANDOM_ID_ATTEMPTS = 5;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Expiry dates are calendar days stored as midnight UTC; a certificate stays valid
+// through its expiry date and expires once the next day starts
+const startOfUtcDay = (at) => new Date(Date.UTC(at.getUTCFullYear(), at.getUTCMonth(), at.getUTCDate()));
+
+// One revoke or reinstate action; kept forever so the reason is never lost
+const statusHistorySchema = new mongoose.Schema({
+  action: {
+    type: String,
+    enum: ['revoked', 'reinstated'],
+    required: [true, 'Status action is required']
+  },
+  reason: {
+    type: String,
+    trim: true,
+    maxlength: [500, 'Reason cannot exceed 500 characters']
+  },
+  effectiveDate: {
+    type: Date
+  },
+  performedBy: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Admin'
+  },
+  performedAt: {
+    type: Date,
+    default: Date.now
+  }
+}, {
+  _id: false
+});
+
+// A superseded issue of the certificate: what it said, where its files were
+// kept and the correction that replaced it
+const versionSchema = new mongoose.Schema({
+  version: {
+    type: Number,
+    required: [true, 'Version number is required'],
+    min: [1, 'Version number must be at least 1']
+  },
+  participantName: {
+    type: String,
+    trim: true
+  },
+  fieldValues: {
+    type: mongoose.Schema.Types.Mixed,
+    default: {}
+  },
+  files: {
+    pdf: {
+      filename: String,
+      size: Number
+    },
+    png: {
+      filename: String,
+      size: Number
+    }
+  },
+  issuedAt: {
+    type: Date
+  },
+  supersededAt: {
+    type: Date,
+    default: Date.now
+  },
+  supersededBy: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Admin'
+  },
+  reason: {
+    type: String,
+    trim: true,
+    maxlength: [500, 'Reason cannot exceed 500 characters']
+  },
+  changes: [{
+    field: String,
+    from: String,
+    to: String
+  }]
+}, {
+  _id: false
+});
 
 const certificateSchema = new mongoose.Schema({
   certificateId: {
@@ -6,7 +105,17 @@ const certificateSchema = new mongoose.Schema({
     required: [true, 'Certificate ID is required'],
     unique: true,
     trim: true,
-    match: [/^CERT-\d{4}-\d{3,}$/, 'Certificate ID must follow format CERT-YYYY-XXX']
+    validate: {
+      validator: function(value) {
+        return isValidCertificateId(value, this.idScheme);
+      },
+      message: props => `Certificate ID "${props.value}" does not match its ID scheme`
+    }
+  },
+  // Scheme the ID was issued under; certificates from before ID schemes have none
+  // and follow CERT-YYYY-NNN
+  idScheme: {
+    type: idSchemeSchema
   },
   participantName: {
     type: String,
@@ -14,7 +123,16 @@ const certificateSchema = new mongoose.Schema({
     trim: true,
     minlength: [2, 'Participant name must be at least 2 characters long'],
     maxlength: [100, 'Participant name cannot exceed 100 characters'],
-    match: [/^[a-zA-Z\s.'-]+$/, 'Participant name can only contain letters, spaces, dots, apostrophes, and hyphens']
+    set: normalizeParticipantName,
+    match: [PARTICIPANT_NAME_PATTERN, PARTICIPANT_NAME_MESSAGE]
+  },
+  // Where the certificate is emailed; optional
+  recipientEmail: {
+    type: String,
+    trim: true,
+    lowercase: true,
+    maxlength: [254, 'Recipient email cannot exceed 254 characters'],
+    match: [/^[^\s@]+@[^\s@]+\.[^\s@]+$/, 'Please provide a valid recipient email address']
   },
   template: {
     type: mongoose.Schema.Types.ObjectId,
@@ -23,12 +141,19 @@ const certificateSchema = new mongoose.Schema({
   },
   templateSnapshot: {
     name: String,
+    // Template version the layout was taken from
+    version: Number,
     filename: String,
+    mimeType: String,
     placeholders: [{
       type: {
         type: String,
-        enum: ['name', 'id']
+        enum: ['name', 'id', 'qr', 'field', 'image', 'issuedDate', 'expiryDate']
       },
+      fieldKey: String,
+      assetId: mongoose.Schema.Types.ObjectId,
+      fit: String,
+      opacity: Number,
       x: Number,
       y: Number,
       fontSize: Number,
@@ -39,12 +164,24 @@ const certificateSchema = new mongoose.Schema({
       textAlign: String,
       rotation: Number,
       width: Number,
-      height: Number
+      height: Number,
+      overflow: String,
+      minFontSize: Number,
+      lineHeight: Number,
+      qrUrlTemplate: String,
+      dateFormat: String,
+      locale: String
+    }],
+    fields: [{
+      key: String,
+      label: String,
+      dataType: String
     }],
     dimensions: {
       width: Number,
       height: Number
-    }
+    },
+    coordinateSpace: String
   },
   generatedFiles: {
     pdf: {
@@ -62,9 +199,29 @@ const certificateSchema = new mongoose.Schema({
   },
   status: {
     type: String,
-    enum: ['pending', 'generated', 'failed', 'archived'],
+    enum: ['pending', 'generated', 'failed', 'archived', 'expired'],
     default: 'pending'
   },
+  // When the expiry sweep moved the certificate from 'generated' to 'expired'
+  expiredAt: {
+    type: Date
+  },
+  // Renewals are new certificates (with their own ID) linked to the one they replace
+  renewalOf: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Certificate'
+  },
+  renewedAs: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Certificate'
+  },
+  // Set while a renewal is being issued, so concurrent requests cannot renew twice
+  renewing: {
+    type: Boolean
+  },
+  renewedAt: {
+    type: Date
+  },
   metadata: {
     generationTime: {
       type: Number, // Time in milliseconds
@@ -85,6 +242,14 @@ const certificateSchema = new mongoose.Schema({
     },
     lastDownloaded: {
       type: Date
+    },
+    regenerationCount: {
+      type: Number,
+      default: 0,
+      min: [0, 'Regeneration count cannot be negative']
+    },
+    lastRegenerated: {
+      type: Date
     }
   },
   createdBy: {
@@ -97,7 +262,15 @@ const certificateSchema = new mongoose.Schema({
     default: Date.now
   },
   expiryDate: {
-    type: Date
+    type: Date,
+    validate: {
+      // Compared as calendar days, so a certificate may expire on the day it is issued
+      validator: function(value) {
+        return !value || !this.issuedDate ||
+          value.toISOString().slice(0, 10) >= this.issuedDate.toISOString().slice(0, 10);
+      },
+      message: 'Expiry date cannot be before the issued date'
+    }
   },
   isActive: {
     type: Boolean,
@@ -112,6 +285,76 @@ const certificateSchema = new mongoose.Schema({
     type: String,
     trim: true,
     maxlength: [1000, 'Notes cannot exceed 1000 characters']
+  },
+  // Problems noticed while rendering, such as fonts missing from the library
+  renderWarnings: [{
+    type: String,
+    trim: true
+  }],
+  // Values of the template's custom fields, keyed by field key
+  fieldValues: {
+    type: mongoose.Schema.Types.Mixed,
+    default: {}
+  },
+  // Number of the current issue; corrections reissue under the same certificate ID
+  version: {
+    type: Number,
+    default: 1,
+    min: [1, 'Version must be at least 1']
+  },
+  versions: [versionSchema],
+  // Current revocation; statusHistory records every change to it
+  revocation: {
+    isRevoked: {
+      type: Boolean,
+      default: false
+    },
+    reason: {
+      type: String,
+      trim: true,
+      maxlength: [500, 'Revocation reason cannot exceed 500 characters']
+    },
+    effectiveDate: {
+      type: Date
+    },
+    revokedBy: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'Admin'
+    },
+    revokedAt: {
+      type: Date
+    }
+  },
+  statusHistory: [statusHistorySchema],
+  // Latest email delivery; each send overwrites it
+  delivery: {
+    status: {
+      type: String,
+      enum: ['queued', 'sent', 'bounced', 'failed']
+    },
+    method: {
+      type: String,
+      enum: ['attachment', 'link']
+    },
+    to: {
+      type: String,
+      trim: true
+    },
+    attempts: {
+      type: Number,
+      default: 0,
+      min: [0, 'Delivery attempts cannot be negative']
+    },
+    messageId: String,
+    lastError: {
+      type: String,
+      trim: true,
+      maxlength: [500, 'Delivery error cannot exceed 500 characters']
+    },
+    queuedAt: Date,
+    sentAt: Date,
+    bouncedAt: Date,
+    failedAt: Date
   }
 }, {
   timestamps: true,
@@ -163,25 +406,244 @@ certificateSchema.methods.archive = function() {
   });
 };
 
-// Static method to generate next certificate ID
-certificateSchema.statics.generateNextId = async function() {
-  const currentYear = new Date().getFullYear();
-  const prefix = `CERT-${currentYear}-`;
-  
-  // Find the latest certificate for the current year
-  const latestCert = await this.findOne({
-    certificateId: { $regex: `^${prefix}` }
-  }).sort({ certificateId: -1 });
-  
-  let nextNumber = 1;
-  if (latestCert) {
-    const lastNumber = parseInt(latestCert.certificateId.split('-')[2]);
-    nextNumber = lastNumber + 1;
+// Instance method to rebuild the template layout recorded when the certificate was issued.
+// The background file and fonts still come from the live template; returns null when
+// the certificate predates snapshots.
+certificateSchema.methods.getSnapshotTemplate = function(currentTemplate) {
+  const snapshot = this.templateSnapshot;
+  if (!snapshot || !snapshot.placeholders || snapshot.placeholders.length === 0) {
+    return null;
   }
-  
-  // Pad with zeros to ensure at least 3 digits
-  const paddedNumber = nextNumber.toString().padStart(3, '0');
-  return `${prefix}${paddedNumber}`;
+
+  return {
+    _id: currentTemplate._id,
+    name: snapshot.name || currentTemplate.name,
+    filename: snapshot.filename || currentTemplate.filename,
+    mimeType: snapshot.mimeType || currentTemplate.mimeType,
+    placeholders: snapshot.placeholders,
+    fields: snapshot.fields,
+    dimensions: snapshot.dimensions,
+    coordinateSpace: snapshot.coordinateSpace,
+    createdBy: currentTemplate.createdBy,
+    // Identifies the background file version for the render cache
+    updatedAt: currentTemplate.updatedAt
+  };
+};
+
+// Instance method to move the current issue into the version history ahead of a correction.
+// `files` are the archived copies of the current files.
+certificateSchema.methods.recordVersion = function({ files, changes, reason, adminId }) {
+  const previous = this.versions[this.versions.length - 1];
+  this.versions.push({
+    version: this.version || 1,
+    participantName: this.participantName,
+    fieldValues: this.fieldValues || {},
+    files,
+    issuedAt: previous ? previous.supersededAt : this.createdAt,
+    supersededAt: new Date(),
+    supersededBy: adminId,
+    reason,
+    changes
+  });
+  this.version = (this.version || 1) + 1;
+};
+
+// Instance method to revoke the certificate, recording why and by whom
+certificateSchema.methods.revoke = function({ reason, effectiveDate, adminId }) {
+  const now = new Date();
+  this.revocation = {
+    isRevoked: true,
+    reason,
+    effectiveDate: effectiveDate || now,
+    revokedBy: adminId,
+    revokedAt: now
+  };
+  this.statusHistory.push({
+    action: 'revoked',
+    reason,
+    effectiveDate: effectiveDate || now,
+    performedBy: adminId,
+    performedAt: now
+  });
+  return this.save();
+};
+
+// Instance method to undo a revocation; the history keeps the original entry
+certificateSchema.methods.reinstate = function({ reason, adminId }) {
+  const now = new Date();
+  this.revocation = { isRevoked: false };
+  this.statusHistory.push({
+    action: 'reinstated',
+    reason,
+    effectiveDate: now,
+    performedBy: adminId,
+    performedAt: now
+  });
+  return this.save();
+};
+
+// Instance method to mark an email of the certificate as waiting to be sent
+certificateSchema.methods.queueDelivery = function({ to, method }) {
+  this.delivery = {
+    status: 'queued',
+    method,
+    to,
+    attempts: this.delivery?.attempts || 0,
+    queuedAt: new Date()
+  };
+  return this.save();
+};
+
+// Revoked certificates stay valid until the revocation's effective date
+certificateSchema.methods.isRevoked = function(at = new Date()) {
+  return !!(this.revocation?.isRevoked && (!this.revocation.effectiveDate || this.revocation.effectiveDate <= at));
+};
+
+// Whether the expiry date has passed, whether or not the sweep has marked it yet
+certificateSchema.methods.hasExpired = function(at = new Date()) {
+  return !!(this.expiryDate && this.expiryDate < startOfUtcDay(at));
+};
+
+// Instance method to describe how third parties should treat this certificate
+certificateSchema.methods.getVerificationState = function() {
+  if (this.isRevoked()) {
+    return 'revoked';
+  }
+  if (this.status === 'archived' || !this.isActive) {
+    return 'archived';
+  }
+  if (this.status === 'expired') {
+    return 'expired';
+  }
+  if (this.status !== 'generated') {
+    return 'unavailable';
+  }
+  if (this.hasExpired()) {
+    return 'expired';
+  }
+  return 'valid';
+};
+
+// Instance method returning the privacy-safe view shown on the public verification page
+certificateSchema.methods.toVerificationJSON = function() {
+  const state = this.getVerificationState();
+  return {
+    certificateId: this.certificateId,
+    participantName: this.participantName,
+    templateName: this.templateSnapshot?.name || null,
+    issuedDate: this.issuedDate,
+    expiryDate: this.expiryDate || null,
+    status: this.status,
+    state,
+    isValid: state === 'valid',
+    isArchived: state === 'archived',
+    isRevoked: state === 'revoked',
+    revocation: state === 'revoked'
+      ? { reason: this.revocation.reason, effectiveDate: this.revocation.effectiveDate }
+      : null,
+    isExpired: this.hasExpired(),
+    // Certificate IDs of the renewal chain, when `renewalOf` and `renewedAs` are populated
+    renewalOf: this.renewalOf?.certificateId || null,
+    renewedAs: this.renewedAs?.certificateId || null,
+    // Corrected certificates are reissued under the same ID
+    version: this.version || 1,
+    reissuedAt: this.versions?.length ? this.versions[this.versions.length - 1].supersededAt : null,
+    // The public preview is withheld once a certificate is deleted or revoked
+    hasThumbnail: !['archived', 'revoked'].includes(state) && !!(this.generatedFiles?.png && this.generatedFiles.png.filename)
+  };
+};
+
+// Static method to capture the template layout a certificate is rendered with
+certificateSchema.statics.createTemplateSnapshot = function(template) {
+  return {
+    name: template.name,
+    version: template.currentVersion || undefined,
+    filename: template.filename,
+    mimeType: template.mimeType,
+    placeholders: template.placeholders,
+    fields: template.fields,
+    dimensions: template.dimensions,
+    coordinateSpace: template.coordinateSpace
+  };
+};
+
+// Highest sequence number already issued for a rendered format such as
+// CERT-2025-{SEQ}, used to seed its counter the first time it is needed
+const findHighestSequence = async (Model, renderedFormat) => {
+  const [before, after] = renderedFormat.split('{SEQ}');
+  const pattern = new RegExp(`^${escapeRegex(before)}(\\d+)${escapeRegex(after)}(?:-[0-9A-Z])?$`);
+
+  const existing = await Model.find({
+    certificateId: { $regex: `^${escapeRegex(before)}` }
+  }).select('certificateId').lean();
+
+  return existing.reduce((highest, { certificateId }) => {
+    const match = certificateId.match(pattern);
+    return match ? Math.max(highest, parseInt(match[1], 10)) : highest;
+  }, 0);
+};
+
+// Static method to generate the next certificate ID for an ID scheme.
+// Sequential IDs come from an atomic counter per rendered prefix and period, so
+// concurrent requests never receive the same number.
+certificateSchema.statics.generateNextId = async function(scheme = DEFAULT_ID_SCHEME, date = new Date()) {
+  const plain = toPlainScheme(scheme);
+  const renderedFormat = renderIdFormat(plain, date);
+
+  if (plain.mode === 'random') {
+    for (let attempt = 0; attempt < RANDOM_ID_ATTEMPTS; attempt++) {
+      const certificateId = appendCheckDigit(renderedFormat.replace('{SEQ}', randomIdPart(plain.randomLength)), plain);
+      if (!(await this.exists({ certificateId }))) {
+        return certificateId;
+      }
+    }
+    throw new Error('Could not generate an unused random certificate ID');
+  }
+
+  const key = `certificate:${renderedFormat}`;
+  if (!(await Counter.exists({ key }))) {
+    await Counter.ensureAtLeast(key, await findHighestSequence(this, renderedFormat));
+  }
+
+  const sequence = await Counter.next(key);
+  return appendCheckDigit(renderedFormat.replace('{SEQ}', String(sequence).padStart(plain.padding, '0')), plain);
+};
+
+// Static method to mark generated certificates whose expiry date has passed as expired.
+// Safe to run on several instances at once: each certificate is only moved once.
+// Returns the expired certificates' IDs and owners.
+certificateSchema.statics.expireDue = async function(now = new Date()) {
+  const due = await this.find({
+    status: 'generated',
+    expiryDate: { $lt: startOfUtcDay(now) }
+  }).select('_id certificateId createdBy').lean();
+
+  if (due.length === 0) {
+    return [];
+  }
+
+  await this.updateMany(
+    { _id: { $in: due.map(certificate => certificate._id) }, status: 'generated' },
+    { $set: { status: 'expired', expiredAt: now } }
+  );
+  return due;
+};
+
+// Static method to find an admin's certificates expiring within the next `days` days
+// that have not been renewed yet, soonest first
+certificateSchema.statics.findExpiring = function(adminId, days, now = new Date()) {
+  const today = startOfUtcDay(now);
+  const until = new Date(today.getTime() + days * DAY_MS);
+  return this.find({
+    createdBy: adminId,
+    isActive: true,
+    status: 'generated',
+    'revocation.isRevoked': { $ne: true },
+    renewedAs: { $exists: false },
+    expiryDate: { $gte: today, $lte: until }
+  })
+    .populate('template', 'name')
+    .sort({ expiryDate: 1 });
 };
 
 // Static method to find by participant name
@@ -239,11 +701,11 @@ certificateSchema.statics.getStatistics = async function() {
   };
 };
 
-// Pre-save middleware to ensure certificate ID is unique
-certificateSchema.pre('save', async function(next) {
+// Pre-validate middleware to assign an ID when none was given
+certificateSchema.pre('validate', async function(next) {
   if (this.isNew && !this.certificateId) {
     try {
-      this.certificateId = await this.constructor.generateNextId();
+      this.certificateId = await this.constructor.generateNextId(this.idScheme || DEFAULT_ID_SCHEME);
     } catch (error) {
       return next(error);
     }
@@ -257,7 +719,10 @@ certificateSchema.index({ participantName: 1 });
 certificateSchema.index({ createdBy: 1 });
 certificateSchema.index({ template: 1 });
 certificateSchema.index({ status: 1 });
+certificateSchema.index({ status: 1, expiryDate: 1 });
 certificateSchema.index({ isActive: 1 });
+certificateSchema.index({ 'revocation.isRevoked': 1 });
+certificateSchema.index({ 'delivery.status': 1 });
 certificateSchema.index({ createdAt: -1 });
 certificateSchema.index({ issuedDate: -1 });
 certificateSchema.index({ participantName: 'text', notes: 'text' });
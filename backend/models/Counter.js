@@ -0,0 +1,39 @@
+const mongoose = require('mongoose');
+
+// Named sequences incremented atomically, e.g. one per certificate ID prefix and period
+const counterSchema = new mongoose.Schema({
+  key: {
+    type: String,
+    required: [true, 'Counter key is required'],
+    unique: true,
+    trim: true
+  },
+  seq: {
+    type: Number,
+    default: 0,
+    min: [0, 'Counter cannot be negative']
+  }
+}, {
+  timestamps: true
+});
+
+// Static method to take the next value of a sequence, creating it at 1 on first use
+counterSchema.statics.next = async function(key) {
+  const counter = await this.findOneAndUpdate(
+    { key },
+    { $inc: { seq: 1 } },
+    { new: true, upsert: true, setDefaultsOnInsert: true }
+  );
+  return counter.seq;
+};
+
+// Static method to raise a sequence to at least `value` without ever lowering it
+counterSchema.statics.ensureAtLeast = function(key, value) {
+  return this.updateOne(
+    { key },
+    { $max: { seq: value } },
+    { upsert: true }
+  );
+};
+
+module.exports = mongoose.model('Counter', counterSchema);
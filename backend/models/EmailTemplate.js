@@ -0,0 +1,101 @@
+const mongoose = require('mongoose');
+
+// Used when an admin sends certificates without having written a template of their own
+const DEFAULT_EMAIL_TEMPLATE = Object.freeze({
+  name: 'Default',
+  subject: 'Your certificate {certificateId}',
+  body: [
+    'Hello {participantName},',
+    '',
+    'Your certificate "{templateName}" was issued on {issuedDate}.',
+    '',
+    'Certificate ID: {certificateId}',
+    'Verify it at any time: {verificationUrl}',
+    '',
+    'Download: {downloadUrl}'
+  ].join('\n'),
+  deliveryMethod: 'attachment'
+});
+
+const emailTemplateSchema = new mongoose.Schema({
+  name: {
+    type: String,
+    required: [true, 'Email template name is required'],
+    trim: true,
+    maxlength: [100, 'Email template name cannot exceed 100 characters']
+  },
+  subject: {
+    type: String,
+    required: [true, 'Email subject is required'],
+    trim: true,
+    maxlength: [200, 'Email subject cannot exceed 200 characters']
+  },
+  // Plain text with merge fields; the HTML part is derived from it
+  body: {
+    type: String,
+    required: [true, 'Email body is required'],
+    maxlength: [10000, 'Email body cannot exceed 10000 characters']
+  },
+  // 'attachment' attaches the PDF; 'link' sends a signed download link instead
+  deliveryMethod: {
+    type: String,
+    enum: ['attachment', 'link'],
+    default: 'attachment'
+  },
+  // Template used when a send request does not name one
+  isDefault: {
+    type: Boolean,
+    default: false
+  },
+  isActive: {
+    type: Boolean,
+    default: true
+  },
+  createdBy: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Admin',
+    required: [true, 'Creator admin ID is required']
+  }
+}, {
+  timestamps: true,
+  toJSON: {
+    transform: function(doc, ret) {
+      delete ret.__v;
+      return ret;
+    }
+  }
+});
+
+// Static method to find the active email templates of an admin
+emailTemplateSchema.statics.findByCreator = function(adminId) {
+  return this.find({ createdBy: adminId, isActive: true }).sort({ isDefault: -1, name: 1 });
+};
+
+// Static method to pick the template a send uses: the requested one, the admin's
+// default, or the built-in default. Returns null when a requested template is missing.
+emailTemplateSchema.statics.resolveForSend = async function(adminId, emailTemplateId) {
+  if (emailTemplateId) {
+    return this.findOne({ _id: emailTemplateId, createdBy: adminId, isActive: true });
+  }
+  const adminDefault = await this.findOne({ createdBy: adminId, isActive: true, isDefault: true });
+  return adminDefault || { ...DEFAULT_EMAIL_TEMPLATE };
+};
+
+// Only one default template per admin
+emailTemplateSchema.pre('save', async function(next) {
+  if (this.isDefault && this.isModified('isDefault')) {
+    try {
+      await this.constructor.updateMany(
+        { createdBy: this.createdBy, _id: { $ne: this._id } },
+        { $set: { isDefault: false } }
+      );
+    } catch (error) {
+      return next(error);
+    }
+  }
+  next();
+});
+
+emailTemplateSchema.index({ createdBy: 1, isActive: 1 });
+
+module.exports = mongoose.model('EmailTemplate', emailTemplateSchema);
@@ -0,0 +1,82 @@
+const mongoose = require('mongoose');
+
+const fontSchema = new mongoose.Schema({
+  family: {
+    type: String,
+    required: [true, 'Font family is required'],
+    trim: true,
+    minlength: [1, 'Font family is required'],
+    maxlength: [50, 'Font family name cannot exceed 50 characters']
+  },
+  weight: {
+    type: String,
+    enum: ['normal', 'bold', '100', '200', '300', '400', '500', '600', '700', '800', '900'],
+    default: 'normal'
+  },
+  style: {
+    type: String,
+    enum: ['normal', 'italic', 'oblique'],
+    default: 'normal'
+  },
+  format: {
+    type: String,
+    enum: ['ttf', 'otf', 'woff'],
+    required: [true, 'Font format is required']
+  },
+  filename: {
+    type: String,
+    required: [true, 'Font filename is required'],
+    trim: true
+  },
+  originalName: {
+    type: String,
+    required: [true, 'Original filename is required'],
+    trim: true
+  },
+  filePath: {
+    type: String,
+    required: [true, 'File path is required'],
+    trim: true
+  },
+  fileSize: {
+    type: Number,
+    required: [true, 'File size is required'],
+    min: [1, 'File size must be greater than 0']
+  },
+  isActive: {
+    type: Boolean,
+    default: true
+  },
+  createdBy: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Admin',
+    required: [true, 'Creator admin ID is required']
+  }
+}, {
+  timestamps: true,
+  toJSON: {
+    transform: function(doc, ret) {
+      delete ret.__v;
+      delete ret.filePath;
+      return ret;
+    }
+  }
+});
+
+// Numeric weight used to pick the closest face for a placeholder
+fontSchema.virtual('numericWeight').get(function() {
+  if (this.weight === 'normal') return 400;
+  if (this.weight === 'bold') return 700;
+  return parseInt(this.weight, 10);
+});
+
+// Static method to find the active font library of an admin
+fontSchema.statics.findByCreator = function(adminId) {
+  return this.find({ createdBy: adminId, isActive: true }).sort({ family: 1, weight: 1 });
+};
+
+// Index for efficient queries
+fontSchema.index({ createdBy: 1, family: 1 });
+fontSchema.index({ isActive: 1 });
+
+module.exports = mongoose.model('Font', fontSchema);
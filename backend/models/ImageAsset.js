@@ -0,0 +1,80 @@
+const mongoose = require('mongoose');
+
+// An uploaded image drawn by image placeholders: a signature or logo placed on a
+// template, or a per-certificate image such as a participant photo. Uploads are
+// converted to PNG so both renderers can draw them.
+const imageAssetSchema = new mongoose.Schema({
+  name: {
+    type: String,
+    required: [true, 'Image name is required'],
+    trim: true,
+    minlength: [1, 'Image name is required'],
+    maxlength: [100, 'Image name cannot exceed 100 characters']
+  },
+  // Library images are picked in the template editor; certificate images are
+  // uploaded for a single certificate and kept out of the library list
+  purpose: {
+    type: String,
+    enum: ['library', 'certificate'],
+    default: 'library'
+  },
+  filename: {
+    type: String,
+    required: [true, 'Image filename is required'],
+    trim: true
+  },
+  originalName: {
+    type: String,
+    required: [true, 'Original filename is required'],
+    trim: true
+  },
+  filePath: {
+    type: String,
+    required: [true, 'File path is required'],
+    trim: true
+  },
+  fileSize: {
+    type: Number,
+    required: [true, 'File size is required'],
+    min: [1, 'File size must be greater than 0']
+  },
+  width: {
+    type: Number,
+    required: [true, 'Image width is required'],
+    min: [1, 'Image width must be at least 1px']
+  },
+  height: {
+    type: Number,
+    required: [true, 'Image height is required'],
+    min: [1, 'Image height must be at least 1px']
+  },
+  isActive: {
+    type: Boolean,
+    default: true
+  },
+  createdBy: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Admin',
+    required: [true, 'Creator admin ID is required']
+  }
+}, {
+  timestamps: true,
+  toJSON: {
+    transform: function(doc, ret) {
+      delete ret.__v;
+      delete ret.filePath;
+      return ret;
+    }
+  }
+});
+
+// Static method to find the active image library of an admin
+imageAssetSchema.statics.findByCreator = function(adminId, purpose = 'library') {
+  return this.find({ createdBy: adminId, purpose, isActive: true }).sort({ name: 1 });
+};
+
+// Index for efficient queries
+imageAssetSchema.index({ createdBy: 1, purpose: 1 });
+imageAssetSchema.index({ isActive: 1 });
+
+module.exports = mongoose.model('ImageAsset', imageAssetSchema);
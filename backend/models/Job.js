@@ -0,0 +1,192 @@
+const mongoose = require('mongoose');
+
+// A unit of background work, such as rendering one certificate. Workers claim
+// queued jobs atomically, so several workers can share the collection.
+const jobSchema = new mongoose.Schema({
+  type: {
+    type: String,
+    required: [true, 'Job type is required'],
+    trim: true
+  },
+  status: {
+    type: String,
+    enum: ['queued', 'running', 'completed', 'failed'],
+    default: 'queued'
+  },
+  payload: {
+    type: mongoose.Schema.Types.Mixed,
+    default: {}
+  },
+  result: {
+    type: mongoose.Schema.Types.Mixed
+  },
+  // Certificate the job works on, if any
+  certificate: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Certificate'
+  },
+  // Groups the jobs of one batch import so its progress can be reported
+  batchId: {
+    type: String,
+    trim: true
+  },
+  // Number of jobs the batch will have once every row is queued; jobs run while later
+  // rows are still being queued, so counting existing jobs would end the batch early
+  batchSize: {
+    type: Number,
+    min: [0, 'Batch size cannot be negative']
+  },
+  createdBy: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Admin',
+    required: [true, 'Creator admin ID is required']
+  },
+  attempts: {
+    type: Number,
+    default: 0,
+    min: [0, 'Attempts cannot be negative']
+  },
+  maxAttempts: {
+    type: Number,
+    default: 3,
+    min: [1, 'Jobs need at least one attempt']
+  },
+  // Earliest time the job may run; pushed back after each failed attempt
+  runAt: {
+    type: Date,
+    default: Date.now
+  },
+  lockedBy: {
+    type: String
+  },
+  lockedAt: {
+    type: Date
+  },
+  lastError: {
+    type: String,
+    trim: true,
+    maxlength: [1000, 'Job error cannot exceed 1000 characters']
+  },
+  startedAt: Date,
+  completedAt: Date,
+  failedAt: Date
+}, {
+  timestamps: true,
+  toJSON: {
+    transform: function(doc, ret) {
+      delete ret.__v;
+      return ret;
+    }
+  }
+});
+
+// Whether a failure of the current attempt will be retried
+jobSchema.methods.canRetry = function() {
+  return this.attempts < this.maxAttempts;
+};
+
+// Instance method to record a successful run
+jobSchema.methods.markCompleted = function(result) {
+  this.status = 'completed';
+  this.result = result;
+  this.completedAt = new Date();
+  this.lockedBy = undefined;
+  this.lockedAt = undefined;
+  return this.save();
+};
+
+// Instance method to record a failed run. Jobs with attempts left go back into the
+// queue after an exponential backoff: retryDelay, 2x, 4x, ...
+jobSchema.methods.markFailed = function(error, retryDelay) {
+  this.lastError = String(error?.message || error).slice(0, 1000);
+  this.lockedBy = undefined;
+  this.lockedAt = undefined;
+
+  if (this.canRetry()) {
+    this.status = 'queued';
+    this.runAt = new Date(Date.now() + retryDelay * Math.pow(2, this.attempts - 1));
+  } else {
+    this.status = 'failed';
+    this.failedAt = new Date();
+  }
+  return this.save();
+};
+
+// Instance method to put a failed job back in the queue with a fresh set of attempts
+jobSchema.methods.requeue = function() {
+  this.status = 'queued';
+  this.attempts = 0;
+  this.runAt = new Date();
+  this.lastError = undefined;
+  this.failedAt = undefined;
+  return this.save();
+};
+
+// Static method to queue a job
+jobSchema.statics.enqueue = function({ type, payload, createdBy, certificate, batchId, batchSize, maxAttempts }) {
+  return this.create({
+    type,
+    payload,
+    createdBy,
+    certificate,
+    batchId,
+    batchSize,
+    ...(maxAttempts && { maxAttempts })
+  });
+};
+
+// Static method to claim the next due job of the given types for a worker.
+// Running jobs whose lock is older than `lockTimeout` ms belong to a worker that
+// died and are claimed again.
+jobSchema.statics.claimNext = function(workerId, types, lockTimeout) {
+  const now = new Date();
+  return this.findOneAndUpdate(
+    {
+      type: { $in: types },
+      $or: [
+        { status: 'queued', runAt: { $lte: now } },
+        { status: 'running', lockedAt: { $lt: new Date(now.getTime() - lockTimeout) } }
+      ]
+    },
+    {
+      $set: {
+        status: 'running',
+        lockedBy: workerId,
+        lockedAt: now,
+        startedAt: now
+      },
+      $inc: { attempts: 1 }
+    },
+    { sort: { runAt: 1 }, new: true }
+  );
+};
+
+// Static method to count a batch's jobs by status. The total is the batch size recorded
+// when the batch was queued, so jobs still to be queued count as outstanding.
+jobSchema.statics.getBatchSummary = async function(batchId, createdBy) {
+  const counts = await this.aggregate([
+    { $match: { batchId, createdBy: new mongoose.Types.ObjectId(String(createdBy)) } },
+    { $group: { _id: '$status', count: { $sum: 1 }, batchSize: { $min: '$batchSize' } } }
+  ]);
+
+  const summary = { total: 0, queued: 0, running: 0, completed: 0, failed: 0 };
+  let batchSize;
+  counts.forEach(({ _id, count, batchSize: size }) => {
+    summary[_id] = count;
+    summary.total += count;
+    if (typeof size === 'number') {
+      batchSize = batchSize === undefined ? size : Math.min(batchSize, size);
+    }
+  });
+  if (batchSize !== undefined) {
+    summary.total = Math.max(summary.total, batchSize);
+  }
+  return summary;
+};
+
+jobSchema.index({ status: 1, runAt: 1 });
+jobSchema.index({ createdBy: 1, createdAt: -1 });
+jobSchema.index({ batchId: 1 });
+jobSchema.index({ certificate: 1 });
+
+module.exports = mongoose.model('Job', jobSchema);
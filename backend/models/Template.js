@@ -1,70 +1,10 @@
 const mongoose = require('mongoose');
+const { idSchemeSchema } = require('./idScheme');
+const { placeholderSchema, fieldSchema } = require('./templateLayout');
 
-const placeholderSchema = new mongoose.Schema({
-  type: {
-    type: String,
-    enum: ['name', 'id'],
-    required: [true, 'Placeholder type is required']
-  },
-  x: {
-    type: Number,
-    required: [true, 'X coordinate is required'],
-    min: [0, 'X coordinate must be non-negative']
-  },
-  y: {
-    type: Number,
-    required: [true, 'Y coordinate is required'],
-    min: [0, 'Y coordinate must be non-negative']
-  },
-  fontSize: {
-    type: Number,
-    default: 24,
-    min: [8, 'Font size must be at least 8px'],
-    max: [200, 'Font size cannot exceed 200px']
-  },
-  fontFamily: {
-    type: String,
-    default: 'Arial',
-    trim: true,
-    maxlength: [50, 'Font family name cannot exceed 50 characters']
-  },
-  color: {
-    type: String,
-    default: '#000000',
-    match: [/^#([A-Fa-f0-9]{6}|[A-Fa-f0-9]{3})$/, 'Color must be a valid hex color code']
-  },
-  fontWeight: {
-    type: String,
-    enum: ['normal', 'bold', '100', '200', '300', '400', '500', '600', '700', '800', '900'],
-    default: 'normal'
-  },
-  fontStyle: {
-    type: String,
-    enum: ['normal', 'italic', 'oblique'],
-    default: 'normal'
-  },
-  textAlign: {
-    type: String,
-    enum: ['left', 'center', 'right'],
-    default: 'left'
-  },
-  rotation: {
-    type: Number,
-    default: 0,
-    min: [-360, 'Rotation cannot be less than -360 degrees'],
-    max: [360, 'Rotation cannot exceed 360 degrees']
-  },
-  width: {
-    type: Number,
-    min: [1, 'Width must be at least 1px']
-  },
-  height: {
-    type: Number,
-    min: [1, 'Height must be at least 1px']
-  }
-}, {
-  _id: false // Don't create separate _id for subdocuments
-});
+// Width of the editor canvas placeholders were positioned on before they were
+// stored in template coordinates
+const LEGACY_EDITOR_WIDTH = 800;
 
 const templateSchema = new mongoose.Schema({
   name: {
@@ -120,6 +60,13 @@ const templateSchema = new mongoose.Schema({
       min: [1, 'Height must be at least 1px']
     }
   },
+  // Unit placeholder geometry is stored in. 'template' means pixels of `dimensions`;
+  // templates saved before this was introduced have no value and use the legacy
+  // editor canvas (see scripts/migrate-placeholder-coordinates.js)
+  coordinateSpace: {
+    type: String,
+    enum: ['template']
+  },
   placeholders: {
     type: [placeholderSchema],
     validate: {
@@ -137,6 +84,27 @@ const templateSchema = new mongoose.Schema({
       message: 'Template must have at least one name placeholder and one id placeholder'
     }
   },
+  fields: {
+    type: [fieldSchema],
+    default: [],
+    validate: {
+      validator: function(fields) {
+        const keys = fields.map(field => field.key);
+        return new Set(keys).size === keys.length;
+      },
+      message: 'Field keys must be unique'
+    }
+  },
+  // How certificates issued from this template are numbered; overrides the admin's scheme
+  idScheme: {
+    type: idSchemeSchema
+  },
+  // Number of the latest layout in the version history; 0 until the layout is first saved
+  currentVersion: {
+    type: Number,
+    default: 0,
+    min: [0, 'Version cannot be negative']
+  },
   isActive: {
     type: Boolean,
     default: true
@@ -195,6 +163,135 @@ templateSchema.methods.incrementUsage = function() {
   return this.updateOne({ $inc: { usageCount: 1 } });
 };
 
+/**
+ * Resolve submitted custom field values against the template's field definitions.
+ * Applies defaults, enforces required fields and normalizes dates and numbers.
+ * @param {Object} input - Raw values keyed by field key
+ * @returns {Object} { values, errors }
+ */
+templateSchema.methods.resolveFieldValues = function(input = {}) {
+  const values = {};
+  const errors = [];
+
+  (this.fields || []).forEach(field => {
+    let raw = input[field.key];
+    raw = raw === undefined || raw === null ? '' : String(raw).trim();
+    if (!raw && field.defaultValue) {
+      raw = field.defaultValue;
+    }
+
+    if (!raw) {
+      if (field.required) {
+        errors.push(`${field.label} is required`);
+      }
+      return;
+    }
+
+    if (field.dataType === 'number') {
+      const number = Number(raw);
+      if (!Number.isFinite(number)) {
+        errors.push(`${field.label} must be a number`);
+        return;
+      }
+      values[field.key] = String(number);
+    } else if (field.dataType === 'image') {
+      if (!mongoose.isValidObjectId(raw)) {
+        errors.push(`${field.label} must be an uploaded image`);
+        return;
+      }
+      values[field.key] = raw;
+    } else if (field.dataType === 'date') {
+      const date = new Date(raw);
+      if (isNaN(date.getTime())) {
+        errors.push(`${field.label} must be a valid date`);
+        return;
+      }
+      values[field.key] = date.toISOString().split('T')[0];
+    } else {
+      if (raw.length > 500) {
+        errors.push(`${field.label} cannot exceed 500 characters`);
+        return;
+      }
+      values[field.key] = raw;
+    }
+  });
+
+  return { values, errors };
+};
+
+/**
+ * Convert placeholders positioned on the legacy editor canvas into template
+ * coordinates. Does nothing for templates that are already converted.
+ * @returns {boolean} Whether the template was changed
+ */
+templateSchema.methods.migrateCoordinates = function() {
+  if (this.coordinateSpace === 'template') {
+    return false;
+  }
+
+  const factor = this.constructor.getLegacyScale(this.dimensions);
+  this.placeholders = this.placeholders.map(p => this.constructor.scalePlaceholder(p.toObject ? p.toObject() : p, factor));
+  this.coordinateSpace = 'template';
+  return true;
+};
+
+/**
+ * Rescale placeholders for a background with different pixel dimensions. Positions
+ * follow each axis; sizes use the smaller factor so text still fits when the aspect
+ * ratio changes. Expects placeholders in template coordinates.
+ * @returns {boolean} Whether the placeholders were changed
+ */
+templateSchema.methods.fitToDimensions = function(dimensions) {
+  const previousWidth = this.dimensions?.width;
+  const previousHeight = this.dimensions?.height;
+  this.dimensions = dimensions;
+
+  if (!previousWidth || !previousHeight) {
+    return false;
+  }
+
+  const scaleX = dimensions.width / previousWidth;
+  const scaleY = dimensions.height / previousHeight;
+  if (scaleX === 1 && scaleY === 1) {
+    return false;
+  }
+
+  const round = value => Math.round(value * 100) / 100;
+  this.placeholders = this.placeholders.map(p => {
+    const placeholder = p.toObject ? p.toObject() : p;
+    const scaled = this.constructor.scalePlaceholder(placeholder, Math.min(scaleX, scaleY));
+    scaled.x = round(placeholder.x * scaleX);
+    scaled.y = round(placeholder.y * scaleY);
+    return scaled;
+  });
+  return true;
+};
+
+// Scale factor from the legacy editor canvas to template coordinates
+templateSchema.statics.getLegacyScale = function(dimensions) {
+  return (dimensions?.width || LEGACY_EDITOR_WIDTH) / LEGACY_EDITOR_WIDTH;
+};
+
+// Scale a placeholder's position, box and font sizes by `factor`
+templateSchema.statics.scalePlaceholder = function(placeholder, factor) {
+  const scaled = { ...placeholder };
+  const round = value => Math.round(value * factor * 100) / 100;
+
+  scaled.x = round(placeholder.x);
+  scaled.y = round(placeholder.y);
+  if (placeholder.width) {
+    scaled.width = Math.max(1, round(placeholder.width));
+  }
+  if (placeholder.height) {
+    scaled.height = Math.max(1, round(placeholder.height));
+  }
+  scaled.fontSize = Math.min(1000, Math.max(4, Math.round((placeholder.fontSize || 24) * factor)));
+  if (placeholder.minFontSize) {
+    scaled.minFontSize = Math.min(scaled.fontSize, Math.max(4, Math.round(placeholder.minFontSize * factor)));
+  }
+  return scaled;
+};
+
 // Static method to find active templates
 templateSchema.statics.findActive = function() {
   return this.find({ isActive: true }).populate('createdBy', 'name email');
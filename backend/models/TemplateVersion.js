@@ -0,0 +1,156 @@
+const mongoose = require('mongoose');
+const { idSchemeSchema } = require('./idScheme');
+const { placeholderSchema, fieldSchema } = require('./templateLayout');
+
+// An immutable copy of a template's layout, recorded every time it is saved.
+// Rolling back records the restored layout as a new version.
+const templateVersionSchema = new mongoose.Schema({
+  template: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Template',
+    required: [true, 'Template ID is required']
+  },
+  version: {
+    type: Number,
+    required: [true, 'Version number is required'],
+    min: [1, 'Version numbers start at 1']
+  },
+  placeholders: [placeholderSchema],
+  fields: [fieldSchema],
+  idScheme: {
+    type: idSchemeSchema
+  },
+  // Background the layout was positioned on
+  filename: String,
+  mimeType: String,
+  dimensions: {
+    width: Number,
+    height: Number
+  },
+  coordinateSpace: {
+    type: String,
+    enum: ['template']
+  },
+  note: {
+    type: String,
+    trim: true,
+    maxlength: [200, 'Version note cannot exceed 200 characters']
+  },
+  // Version whose layout this one restored, for rollbacks
+  restoredFrom: {
+    type: Number
+  },
+  createdBy: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Admin',
+    required: [true, 'Version author is required']
+  }
+}, {
+  timestamps: { createdAt: true, updatedAt: false },
+  toJSON: {
+    transform: function(doc, ret) {
+      delete ret.__v;
+      return ret;
+    }
+  }
+});
+
+// Versions are written once and never changed
+templateVersionSchema.pre('save', function(next) {
+  if (!this.isNew) {
+    return next(new Error('Template versions cannot be modified'));
+  }
+  next();
+});
+
+['updateOne', 'updateMany', 'findOneAndUpdate', 'replaceOne'].forEach(operation => {
+  templateVersionSchema.pre(operation, function(next) {
+    next(new Error('Template versions cannot be modified'));
+  });
+});
+
+// Next version number of a template. Saved templates count on the stored template,
+// so concurrent saves never receive the same number.
+const allocateVersion = async (template) => {
+  if (template.isNew) {
+    return (template.currentVersion || 0) + 1;
+  }
+  const allocated = await template.constructor.findOneAndUpdate(
+    { _id: template._id },
+    { $inc: { currentVersion: 1 } },
+    { new: true, projection: { currentVersion: 1 } }
+  );
+  if (!allocated) {
+    throw new Error('Template not found');
+  }
+  return allocated.currentVersion;
+};
+
+// Hand back a version number that was never kept, unless a later save already took the next one
+const releaseVersion = async (template, version) => {
+  if (template.isNew) {
+    return;
+  }
+  await template.constructor.updateOne(
+    { _id: template._id, currentVersion: version },
+    { $inc: { currentVersion: -1 } }
+  );
+};
+
+// Static method to record a template's current layout as its next version
+templateVersionSchema.statics.record = async function(template, { adminId, note, restoredFrom } = {}) {
+  const version = await allocateVersion(template);
+  let record;
+  try {
+    record = await this.create({
+      template: template._id,
+      version,
+      placeholders: template.placeholders,
+      fields: template.fields,
+      idScheme: template.idScheme,
+      filename: template.filename,
+      mimeType: template.mimeType,
+      dimensions: template.dimensions,
+      coordinateSpace: template.coordinateSpace,
+      note,
+      restoredFrom,
+      createdBy: adminId
+    });
+  } catch (error) {
+    await releaseVersion(template, version);
+    throw error;
+  }
+  template.currentVersion = version;
+  return record;
+};
+
+// Static method to record a template's layout as its next version and save the template
+// pointing at it. The save fails with a DocumentNotFoundError when another save took a
+// later version in the meantime; the version is then removed again.
+templateVersionSchema.statics.commit = async function(template, options) {
+  const record = await this.record(template, options);
+  if (!template.isNew) {
+    template.$where = { currentVersion: record.version };
+  }
+  try {
+    await template.save();
+  } catch (error) {
+    await this.deleteOne({ _id: record._id });
+    await releaseVersion(template, record.version);
+    throw error;
+  } finally {
+    template.$where = undefined;
+  }
+  return record;
+};
+
+// Static method to list a template's versions, newest first
+templateVersionSchema.statics.findByTemplate = function(templateId) {
+  return this.find({ template: templateId })
+    .populate('createdBy', 'name email')
+    .sort({ version: -1 });
+};
+
+templateVersionSchema.index({ template: 1, version: 1 }, { unique: true });
+
+module.exports = mongoose.model('TemplateVersion', templateVersionSchema);
@@ -0,0 +1,109 @@
+// Patterns for date placeholders, e.g. "D MMMM YYYY" -> "18 October 2026". Text in
+// [brackets] is printed as is. Month and weekday names follow the placeholder's locale;
+// ordinals (Do) and words (Dw, YYYYw) are English.
+const DATE_FORMAT_TOKENS = /\[([^\]]*)\]|YYYYw|YYYY|YY|MMMM|MMM|MM|M|dddd|ddd|Dw|Do|DD|D/g;
+
+const DEFAULT_DATE_LOCALE = 'en-US';
+
+const ONES = [
+  'zero', 'one', 'two', 'three', 'four', 'five', 'six', 'seven', 'eight', 'nine', 'ten',
+  'eleven', 'twelve', 'thirteen', 'fourteen', 'fifteen', 'sixteen', 'seventeen', 'eighteen', 'nineteen'
+];
+const TENS = ['', '', 'twenty', 'thirty', 'forty', 'fifty', 'sixty', 'seventy', 'eighty', 'ninety'];
+const ORDINAL_WORDS = {
+  one: 'first', two: 'second', three: 'third', five: 'fifth', eight: 'eighth', nine: 'ninth', twelve: 'twelfth'
+};
+
+const isValidLocale = (locale) => {
+  if (typeof locale !== 'string' || !locale) return false;
+  try {
+    return Intl.DateTimeFormat.supportedLocalesOf([locale]).length > 0;
+  } catch {
+    return false;
+  }
+};
+
+// English words for 0-9999, e.g. 2026 -> "two thousand twenty-six"
+const numberToWords = (value) => {
+  if (value < 20) return ONES[value];
+  if (value < 100) {
+    return TENS[Math.floor(value / 10)] + (value % 10 ? `-${ONES[value % 10]}` : '');
+  }
+  if (value < 1000) {
+    return `${ONES[Math.floor(value / 100)]} hundred` + (value % 100 ? ` ${numberToWords(value % 100)}` : '');
+  }
+  return `${numberToWords(Math.floor(value / 1000))} thousand` + (value % 1000 ? ` ${numberToWords(value % 1000)}` : '');
+};
+
+// "eighteenth", "twenty-first"
+const ordinalWords = (value) => {
+  const words = numberToWords(value);
+  const parts = words.split('-');
+  const last = parts.pop();
+  const ordinal = ORDINAL_WORDS[last] || (last.endsWith('y') ? `${last.slice(0, -1)}ieth` : `${last}th`);
+  return [...parts, ordinal].join('-');
+};
+
+// "1st", "2nd", "11th", "23rd"
+const ordinalSuffix = (value) => {
+  if (value % 100 >= 11 && value % 100 <= 13) return `${value}th`;
+  return `${value}${{ 1: 'st', 2: 'nd', 3: 'rd' }[value % 10] || 'th'}`;
+};
+
+/**
+ * Format a date for a certificate. Dates are calendar days stored at midnight UTC,
+ * so they are read in UTC and print the same day wherever the server runs.
+ * @param {Date|string} value - The date
+ * @param {Object} options - { pattern, locale }; without a pattern the locale's long date is used
+ * @returns {string} The formatted date, or '' for a missing or invalid date
+ */
+const formatDate = (value, { pattern, locale } = {}) => {
+  const date = value instanceof Date ? value : new Date(value);
+  if (!value || isNaN(date.getTime())) {
+    return '';
+  }
+
+  const resolvedLocale = isValidLocale(locale) ? locale : DEFAULT_DATE_LOCALE;
+  const intl = options => new Intl.DateTimeFormat(resolvedLocale, { ...options, timeZone: 'UTC' }).format(date);
+  // Month names as used next to a day, which some languages inflect ("18 октября", not
+  // "октябрь"); languages that number their months ("10月") keep the standalone form
+  const monthName = month => {
+    const part = new Intl.DateTimeFormat(resolvedLocale, { day: 'numeric', month, timeZone: 'UTC' })
+      .formatToParts(date)
+      .find(item => item.type === 'month');
+    return part && !/^\d+$/.test(part.value) ? part.value : intl({ month });
+  };
+
+  if (!pattern) {
+    return intl({ year: 'numeric', month: 'long', day: 'numeric' });
+  }
+
+  const day = date.getUTCDate();
+  const month = date.getUTCMonth() + 1;
+  const year = date.getUTCFullYear();
+
+  return pattern.replace(DATE_FORMAT_TOKENS, (token, literal) => {
+    if (literal !== undefined) return literal;
+    switch (token) {
+      case 'YYYYw': return numberToWords(year);
+      case 'YYYY': return String(year);
+      case 'YY': return String(year % 100).padStart(2, '0');
+      case 'MMMM': return monthName('long');
+      case 'MMM': return monthName('short');
+      case 'MM': return String(month).padStart(2, '0');
+      case 'M': return String(month);
+      case 'dddd': return intl({ weekday: 'long' });
+      case 'ddd': return intl({ weekday: 'short' });
+      case 'Dw': return ordinalWords(day);
+      case 'Do': return ordinalSuffix(day);
+      case 'DD': return String(day).padStart(2, '0');
+      default: return String(day);
+    }
+  });
+};
+
+module.exports = {
+  DEFAULT_DATE_LOCALE,
+  isValidLocale,
+  formatDate
+};
@@ -0,0 +1,199 @@
+const crypto = require('crypto');
+const mongoose = require('mongoose');
+
+// Tokens a certificate ID format may contain; {SEQ} is required exactly once
+const ID_FORMAT_TOKENS = /\{(PREFIX|YYYY|YY|MM|SEQ)\}/g;
+
+// Characters random IDs are drawn from; 0/O and 1/I are left out so IDs can be read back
+const RANDOM_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+
+// Check digits are computed over, and drawn from, digits and letters (Luhn mod 36)
+const CHECK_ALPHABET = '0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZ';
+
+// IDs issued before schemes existed have no scheme snapshot and use this format
+const LEGACY_ID_PATTERN = /^CERT-\d{4}-\d{3,}$/;
+
+const DEFAULT_ID_SCHEME = Object.freeze({
+  mode: 'sequential',
+  prefix: 'CERT',
+  format: '{PREFIX}-{YYYY}-{SEQ}',
+  padding: 3,
+  randomLength: 10,
+  checkDigit: false
+});
+
+const isValidIdFormat = (format) => {
+  if (typeof format !== 'string') return false;
+  const sequenceTokens = format.match(/\{SEQ\}/g) || [];
+  return sequenceTokens.length === 1 && /^[A-Z0-9-]*$/.test(format.replace(ID_FORMAT_TOKENS, ''));
+};
+
+const idSchemeSchema = new mongoose.Schema({
+  // 'sequential' numbers IDs from a counter; 'random' fills {SEQ} with non-guessable characters
+  mode: {
+    type: String,
+    enum: ['sequential', 'random'],
+    default: DEFAULT_ID_SCHEME.mode
+  },
+  prefix: {
+    type: String,
+    trim: true,
+    uppercase: true,
+    default: DEFAULT_ID_SCHEME.prefix,
+    match: [/^[A-Z0-9]{0,20}$/, 'ID prefix can only contain up to 20 letters and numbers']
+  },
+  format: {
+    type: String,
+    trim: true,
+    uppercase: true,
+    default: DEFAULT_ID_SCHEME.format,
+    maxlength: [60, 'ID format cannot exceed 60 characters'],
+    validate: {
+      validator: isValidIdFormat,
+      message: 'ID format must contain {SEQ} once and only letters, numbers, hyphens and {PREFIX}, {YYYY}, {YY} or {MM}'
+    }
+  },
+  // Minimum digits of the sequence number, zero-padded
+  padding: {
+    type: Number,
+    default: DEFAULT_ID_SCHEME.padding,
+    min: [1, 'Padding must be at least 1 digit'],
+    max: [12, 'Padding cannot exceed 12 digits']
+  },
+  randomLength: {
+    type: Number,
+    default: DEFAULT_ID_SCHEME.randomLength,
+    min: [6, 'Random part must be at least 6 characters'],
+    max: [32, 'Random part cannot exceed 32 characters']
+  },
+  // Append a Luhn mod 36 check character so mistyped IDs can be detected
+  checkDigit: {
+    type: Boolean,
+    default: DEFAULT_ID_SCHEME.checkDigit
+  }
+}, {
+  _id: false
+});
+
+const toPlainScheme = (scheme) => {
+  if (!scheme) return null;
+  const plain = typeof scheme.toObject === 'function' ? scheme.toObject() : scheme;
+  return { ...DEFAULT_ID_SCHEME, ...plain };
+};
+
+/**
+ * Pick the scheme a new certificate is numbered with: the template's, then the
+ * issuing admin's, then the default CERT-YYYY-NNN scheme
+ */
+const resolveIdScheme = (template, admin) => {
+  const configured = [template?.idScheme, admin?.idScheme].find(scheme => scheme && scheme.format);
+  return toPlainScheme(configured || DEFAULT_ID_SCHEME);
+};
+
+/**
+ * Substitute the prefix and date tokens, leaving {SEQ} in place
+ */
+const renderIdFormat = (scheme, date = new Date()) => {
+  const year = String(date.getFullYear());
+  const values = {
+    PREFIX: scheme.prefix || '',
+    YYYY: year,
+    YY: year.slice(-2),
+    MM: String(date.getMonth() + 1).padStart(2, '0')
+  };
+  return scheme.format.replace(ID_FORMAT_TOKENS, (token, name) => (name === 'SEQ' ? token : values[name]));
+};
+
+const computeCheckDigit = (value) => {
+  const base = CHECK_ALPHABET.length;
+  const codes = Array.from(value.toUpperCase())
+    .map(char => CHECK_ALPHABET.indexOf(char))
+    .filter(code => code >= 0);
+
+  let sum = 0;
+  let factor = 2;
+  for (let i = codes.length - 1; i >= 0; i--) {
+    const addend = factor * codes[i];
+    sum += Math.floor(addend / base) + (addend % base);
+    factor = factor === 2 ? 1 : 2;
+  }
+  return CHECK_ALPHABET[(base - (sum % base)) % base];
+};
+
+const appendCheckDigit = (id, scheme) => {
+  return scheme.checkDigit ? `${id}-${computeCheckDigit(id)}` : id;
+};
+
+const randomIdPart = (length) => {
+  let part = '';
+  for (let i = 0; i < length; i++) {
+    part += RANDOM_ALPHABET[crypto.randomInt(RANDOM_ALPHABET.length)];
+  }
+  return part;
+};
+
+/**
+ * An example ID in a scheme's format, for previews; no counter is consumed
+ */
+const formatSampleId = (scheme, date = new Date()) => {
+  const sequence = scheme.mode === 'random'
+    ? randomIdPart(scheme.randomLength)
+    : '1'.padStart(scheme.padding, '0');
+  return appendCheckDigit(renderIdFormat(scheme, date).replace('{SEQ}', sequence), scheme);
+};
+
+const escapeRegex = (value) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Regular expression every ID issued under `scheme` matches, for any date
+ */
+const buildIdPattern = (scheme) => {
+  const parts = {
+    PREFIX: escapeRegex(scheme.prefix || ''),
+    YYYY: '\\d{4}',
+    YY: '\\d{2}',
+    MM: '(?:0[1-9]|1[0-2])',
+    SEQ: scheme.mode === 'random'
+      ? `[${RANDOM_ALPHABET}]{${scheme.randomLength}}`
+      : `\\d{${scheme.padding},}`
+  };
+
+  let source = '';
+  let lastIndex = 0;
+  scheme.format.replace(ID_FORMAT_TOKENS, (token, name, offset) => {
+    source += escapeRegex(scheme.format.slice(lastIndex, offset)) + parts[name];
+    lastIndex = offset + token.length;
+    return token;
+  });
+  source += escapeRegex(scheme.format.slice(lastIndex));
+
+  return new RegExp(`^${source}${scheme.checkDigit ? '-[0-9A-Z]' : ''}$`);
+};
+
+const isValidCertificateId = (id, scheme) => {
+  if (typeof id !== 'string') return false;
+  if (!scheme || !scheme.format) {
+    return LEGACY_ID_PATTERN.test(id);
+  }
+
+  const plain = toPlainScheme(scheme);
+  if (!buildIdPattern(plain).test(id)) return false;
+  return !plain.checkDigit || computeCheckDigit(id.slice(0, -2)) === id.slice(-1);
+};
+
+module.exports = {
+  idSchemeSchema,
+  DEFAULT_ID_SCHEME,
+  LEGACY_ID_PATTERN,
+  resolveIdScheme,
+  toPlainScheme,
+  renderIdFormat,
+  computeCheckDigit,
+  appendCheckDigit,
+  randomIdPart,
+  formatSampleId,
+  escapeRegex,
+  isValidIdFormat,
+  buildIdPattern,
+  isValidCertificateId
+};
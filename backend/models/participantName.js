@@ -0,0 +1,25 @@
+// Letters and combining marks of any script, plus the separators names use: spaces, dots,
+// apostrophes (straight and typographic), hyphens, middle dots and the zero-width
+// joiners Indic and Persian spellings need
+const PARTICIPANT_NAME_PATTERN = /^[\p{L}\p{M}\s.'’·・\u200C\u200D-]+$/u;
+
+const PARTICIPANT_NAME_MESSAGE = 'Participant name can only contain letters, spaces, dots, apostrophes, and hyphens';
+
+/**
+ * Compose a name to NFC so "José" typed with a combining accent is stored, matched
+ * and rendered the same as the precomposed form
+ */
+const normalizeParticipantName = (name) => (
+  typeof name === 'string' ? name.normalize('NFC').trim() : name
+);
+
+const isValidParticipantName = (name) => (
+  typeof name === 'string' && PARTICIPANT_NAME_PATTERN.test(name)
+);
+
+module.exports = {
+  PARTICIPANT_NAME_PATTERN,
+  PARTICIPANT_NAME_MESSAGE,
+  normalizeParticipantName,
+  isValidParticipantName
+};
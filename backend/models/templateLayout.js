@@ -0,0 +1,183 @@
+const mongoose = require('mongoose');
+const { isValidLocale } = require('./dateFormat');
+
+// Keys used by built-in placeholder types cannot be reused for custom fields
+const RESERVED_FIELD_KEYS = ['name', 'id', 'qr', 'field', 'image', 'issuedDate', 'expiryDate'];
+
+const fieldSchema = new mongoose.Schema({
+  key: {
+    type: String,
+    required: [true, 'Field key is required'],
+    trim: true,
+    maxlength: [50, 'Field key cannot exceed 50 characters'],
+    match: [/^[a-zA-Z][a-zA-Z0-9_]*$/, 'Field key must start with a letter and contain only letters, numbers and underscores'],
+    validate: {
+      validator: value => !RESERVED_FIELD_KEYS.includes(value),
+      message: props => `"${props.value}" is a reserved field key`
+    }
+  },
+  label: {
+    type: String,
+    required: [true, 'Field label is required'],
+    trim: true,
+    maxlength: [100, 'Field label cannot exceed 100 characters']
+  },
+  // Image fields hold the ID of an image uploaded for the certificate, such as a photo
+  dataType: {
+    type: String,
+    enum: ['text', 'date', 'number', 'image'],
+    default: 'text'
+  },
+  required: {
+    type: Boolean,
+    default: false
+  },
+  defaultValue: {
+    type: String,
+    trim: true,
+    maxlength: [500, 'Default value cannot exceed 500 characters']
+  }
+}, {
+  _id: false
+});
+
+const placeholderSchema = new mongoose.Schema({
+  type: {
+    type: String,
+    enum: ['name', 'id', 'qr', 'field', 'image', 'issuedDate', 'expiryDate'],
+    required: [true, 'Placeholder type is required']
+  },
+  // Key of the template field a `field` placeholder displays, or the image field
+  // whose per-certificate image an `image` placeholder draws
+  fieldKey: {
+    type: String,
+    trim: true
+  },
+  // Library image an `image` placeholder draws; with a fieldKey it is the fallback
+  // for certificates that have no image of their own
+  assetId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'ImageAsset'
+  },
+  // How an image is fitted into its box
+  fit: {
+    type: String,
+    enum: ['contain', 'cover', 'stretch'],
+    default: 'contain'
+  },
+  opacity: {
+    type: Number,
+    default: 1,
+    min: [0, 'Opacity cannot be less than 0'],
+    max: [1, 'Opacity cannot exceed 1']
+  },
+  x: {
+    type: Number,
+    required: [true, 'X coordinate is required'],
+    min: [0, 'X coordinate must be non-negative']
+  },
+  y: {
+    type: Number,
+    required: [true, 'Y coordinate is required'],
+    min: [0, 'Y coordinate must be non-negative']
+  },
+  fontSize: {
+    type: Number,
+    default: 24,
+    min: [4, 'Font size must be at least 4px'],
+    max: [1000, 'Font size cannot exceed 1000px']
+  },
+  fontFamily: {
+    type: String,
+    default: 'Arial',
+    trim: true,
+    maxlength: [50, 'Font family name cannot exceed 50 characters']
+  },
+  color: {
+    type: String,
+    default: '#000000',
+    match: [/^#([A-Fa-f0-9]{6}|[A-Fa-f0-9]{3})$/, 'Color must be a valid hex color code']
+  },
+  fontWeight: {
+    type: String,
+    enum: ['normal', 'bold', '100', '200', '300', '400', '500', '600', '700', '800', '900'],
+    default: 'normal'
+  },
+  fontStyle: {
+    type: String,
+    enum: ['normal', 'italic', 'oblique'],
+    default: 'normal'
+  },
+  textAlign: {
+    type: String,
+    enum: ['left', 'center', 'right'],
+    default: 'left'
+  },
+  rotation: {
+    type: Number,
+    default: 0,
+    min: [-360, 'Rotation cannot be less than -360 degrees'],
+    max: [360, 'Rotation cannot exceed 360 degrees']
+  },
+  width: {
+    type: Number,
+    min: [1, 'Width must be at least 1px']
+  },
+  height: {
+    type: Number,
+    min: [1, 'Height must be at least 1px']
+  },
+  // How text longer than the box `width` is handled
+  overflow: {
+    type: String,
+    enum: ['none', 'shrink', 'wrap', 'ellipsis'],
+    default: 'none'
+  },
+  // Smallest font size shrink and wrap may fall back to
+  minFontSize: {
+    type: Number,
+    default: 8,
+    min: [4, 'Minimum font size must be at least 4px'],
+    max: [1000, 'Minimum font size cannot exceed 1000px']
+  },
+  // Line height for wrapped text, as a multiple of the font size
+  lineHeight: {
+    type: Number,
+    default: 1.2,
+    min: [0.5, 'Line height must be at least 0.5'],
+    max: [3, 'Line height cannot exceed 3']
+  },
+  // Pattern and locale of dates shown by issuedDate, expiryDate and date field placeholders,
+  // e.g. "D MMMM YYYY"; see models/dateFormat.js. Without a pattern the locale's long date is used.
+  dateFormat: {
+    type: String,
+    trim: true,
+    maxlength: [100, 'Date format cannot exceed 100 characters']
+  },
+  locale: {
+    type: String,
+    trim: true,
+    validate: {
+      validator: value => !value || isValidLocale(value),
+      message: props => `"${props.value}" is not a supported locale`
+    }
+  },
+  // Verification URL encoded by QR placeholders; {certificateId} is substituted at render time
+  qrUrlTemplate: {
+    type: String,
+    trim: true,
+    maxlength: [500, 'QR URL template cannot exceed 500 characters'],
+    validate: {
+      validator: value => !value || value.includes('{certificateId}'),
+      message: 'QR URL template must contain {certificateId}'
+    }
+  }
+}, {
+  _id: false // Don't create separate _id for subdocuments
+});
+
+module.exports = {
+  placeholderSchema,
+  fieldSchema,
+  RESERVED_FIELD_KEYS
+};
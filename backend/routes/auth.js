@@ -2,7 +2,9 @@ const express = require('express');
 const jwt = require('jsonwebtoken');
 const Admin = require('../models/Admin');
 const auth = require('../middleware/auth');
-const { validateLogin, validateAdminRegistration } = require('../middleware/validation');
+const signingKeys = require('../services/signingKeys');
+const verifiableCredentials = require('../services/verifiableCredentials');
+const { validateLogin, validateAdminRegistration, validateIdScheme, validateIssuerProfile } = require('../middleware/validation');
 
 const router = express.Router();
 
@@ -298,4 +300,118 @@ router.put('/profile', auth, async (req, res) => {
   }
 });
 
+// @route   PUT /api/auth/id-scheme
+// @desc    Set how certificates issued by this admin are numbered (null restores the default)
+// @access  Private
+router.put('/id-scheme', auth, validateIdScheme, async (req, res) => {
+  try {
+    const admin = await Admin.findById(req.admin.id);
+
+    if (!admin) {
+      return res.status(404).json({
+        success: false,
+        message: 'Admin not found'
+      });
+    }
+
+    admin.idScheme = req.body.idScheme || undefined;
+    await admin.save();
+
+    res.json({
+      success: true,
+      message: 'Certificate ID scheme updated successfully',
+      data: {
+        admin: admin.toJSON()
+      }
+    });
+
+  } catch (error) {
+    console.error('ID scheme update error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error while updating certificate ID scheme'
+    });
+  }
+});
+
+// Issuer profile with the fallbacks credentials use, plus the public key once one exists
+const getIssuerProfileData = async (admin) => {
+  const keyPair = await signingKeys.loadKeyPair(admin._id);
+  return {
+    issuerProfile: admin.issuerProfile || null,
+    resolved: verifiableCredentials.resolveIssuerProfile(admin),
+    issuerId: verifiableCredentials.getIssuerId(admin._id),
+    publicKeyMultibase: keyPair ? signingKeys.toMultibase(keyPair.publicKey) : null
+  };
+};
+
+// @route   GET /api/auth/issuer-profile
+// @desc    Get the issuer profile used in this admin's verifiable credentials
+// @access  Private
+router.get('/issuer-profile', auth, async (req, res) => {
+  try {
+    const admin = await Admin.findById(req.admin.id);
+
+    if (!admin) {
+      return res.status(404).json({
+        success: false,
+        message: 'Admin not found'
+      });
+    }
+
+    res.json({
+      success: true,
+      data: await getIssuerProfileData(admin)
+    });
+
+  } catch (error) {
+    console.error('Get issuer profile error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error while fetching issuer profile'
+    });
+  }
+});
+
+// @route   PUT /api/auth/issuer-profile
+// @desc    Set the issuer profile used in this admin's verifiable credentials (null restores the defaults)
+// @access  Private
+router.put('/issuer-profile', auth, validateIssuerProfile, async (req, res) => {
+  try {
+    const admin = await Admin.findById(req.admin.id);
+
+    if (!admin) {
+      return res.status(404).json({
+        success: false,
+        message: 'Admin not found'
+      });
+    }
+
+    const { name, url, email, description, imageUrl } = req.body.issuerProfile || {};
+    const issuerProfile = { name, url, email, description, imageUrl };
+    Object.keys(issuerProfile).forEach(key => {
+      if (!issuerProfile[key]) delete issuerProfile[key];
+    });
+
+    admin.issuerProfile = Object.keys(issuerProfile).length > 0 ? issuerProfile : undefined;
+    await admin.save();
+
+    res.json({
+      success: true,
+      message: 'Issuer profile updated successfully',
+      data: {
+        admin: admin.toJSON(),
+        ...(await getIssuerProfileData(admin))
+      }
+    });
+
+  } catch (error) {
+    console.error('Issuer profile update error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error while updating issuer profile'
+    });
+  }
+});
+
 module.exports = router;
\ No newline at end of file
@@ -1,24 +1,230 @@
 const express = require('express');
 const path = require('path');
+const crypto = require('crypto');
 const fs = require('fs').promises;
 const archiver = require('archiver');
 const Certificate = require('../models/Certificate');
 const Template = require('../models/Template');
+const Admin = require('../models/Admin');
+const EmailTemplate = require('../models/EmailTemplate');
+const { resolveIdScheme } = require('../models/idScheme');
 const auth = require('../middleware/auth');
-const { validateCertificateCreation } = require('../middleware/validation');
+const {
+  validateCertificateCreation,
+  validateCertificateUpdate,
+  validateCertificateRevocation,
+  validateCertificateReinstatement,
+  validateCertificateRenewal,
+  validateCertificateRegeneration,
+  validateCertificateSend
+} = require('../middleware/validation');
+const { csvUpload, handleUploadError } = require('../middleware/upload');
 const certificateGenerator = require('../services/certificateGenerator');
 const websocketService = require('../services/websocketService');
+const batchImport = require('../services/batchImport');
+const mailer = require('../services/mailer');
+const certificateJobs = require('../services/certificateJobs');
+const verifiableCredentials = require('../services/verifiableCredentials');
 
 const router = express.Router();
 
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Returns a reason the template cannot be used for generation, or null when it is ready
+const getTemplateGenerationError = (template) => {
+  if (!template.placeholders || template.placeholders.length === 0) {
+    return 'Template must have placeholders configured before generating certificates';
+  }
+
+  const hasNamePlaceholder = template.placeholders.some(p => p.type === 'name');
+  const hasIdPlaceholder = template.placeholders.some(p => p.type === 'id');
+
+  if (!hasNamePlaceholder || !hasIdPlaceholder) {
+    return 'Template must have both name and ID placeholders configured';
+  }
+
+  return null;
+};
+
+// Get a certificate ready to be rendered again, by default from the layout recorded at
+// issue time. Rendering from the template's current layout also makes that layout the
+// new snapshot. Returns the source the generation job will render from.
+const prepareRegeneration = async (certificate, source = 'snapshot') => {
+  const template = await Template.findById(certificate.template);
+  if (!template) {
+    throw new Error('The certificate\'s template no longer exists');
+  }
+
+  let usedSource = 'snapshot';
+  if (source !== 'snapshot' || !certificate.getSnapshotTemplate(template)) {
+    // Current layout was requested, or the certificate predates snapshots
+    const templateError = getTemplateGenerationError(template);
+    if (templateError) {
+      throw new Error(templateError);
+    }
+    usedSource = 'template';
+    certificate.templateSnapshot = Certificate.createTemplateSnapshot(template);
+  }
+
+  certificate.status = 'pending';
+  await certificate.save();
+
+  return usedSource;
+};
+
+// Correct a certificate's participant name or field values ahead of rendering it again
+// under the same certificate ID. The current issue and a copy of its files go into the
+// version history first.
+const reissueCertificate = async (certificate, { participantName, fieldValues, changes, reason, adminId }) => {
+  const files = await certificateGenerator.archiveVersionFiles(certificate.certificateId, certificate.version || 1);
+  certificate.recordVersion({ files, changes, reason, adminId });
+
+  if (participantName !== undefined) {
+    certificate.participantName = participantName;
+  }
+  if (fieldValues !== undefined) {
+    certificate.fieldValues = fieldValues;
+    certificate.markModified('fieldValues');
+  }
+
+  certificate.status = 'pending';
+  await certificate.save();
+};
+
+// Create a pending certificate record; its files are rendered by a generation job
+const issueCertificate = async ({
+  template,
+  adminId,
+  participantName,
+  recipientEmail,
+  fieldValues,
+  notes,
+  tags,
+  issuedDate,
+  expiryDate,
+  renewalOf,
+  ipAddress,
+  userAgent
+}) => {
+  // Generate unique certificate ID from the template's or the admin's ID scheme
+  const admin = await Admin.findById(adminId).select('idScheme');
+  const idScheme = resolveIdScheme(template, admin);
+  const certificateId = await Certificate.generateNextId(idScheme);
+
+  // Create certificate record
+  const certificate = new Certificate({
+    certificateId,
+    idScheme,
+    participantName: participantName.trim(),
+    ...(recipientEmail && { recipientEmail }),
+    template: template._id,
+    templateSnapshot: Certificate.createTemplateSnapshot(template),
+    fieldValues: fieldValues || {},
+    status: 'pending',
+    metadata: {
+      generationTime: 0, // Will be updated after generation
+      ipAddress,
+      userAgent
+    },
+    createdBy: adminId,
+    ...(issuedDate && { issuedDate }),
+    ...(expiryDate && { expiryDate }),
+    ...(renewalOf && { renewalOf }),
+    notes: notes?.trim() || '',
+    tags: tags || []
+  });
+
+  await certificate.save();
+
+  // Increment template usage count
+  await template.incrementUsage();
+
+  return certificate;
+};
+
+// Expiry date of a renewal issued on `issuedDate` (YYYY-MM-DD): the original's validity
+// period in calendar days, or none when the original never expired
+const getRenewalExpiryDate = (certificate, issuedDate) => {
+  if (!certificate.expiryDate || !certificate.issuedDate) {
+    return undefined;
+  }
+  const validityDays = Math.round(
+    (Date.parse(certificate.expiryDate.toISOString().slice(0, 10)) -
+      Date.parse(certificate.issuedDate.toISOString().slice(0, 10))) / DAY_MS
+  );
+  return new Date(Date.parse(issuedDate) + validityDays * DAY_MS).toISOString().slice(0, 10);
+};
+
+// Load the email template for a send and check that email can go out at all.
+// Returns { emailTemplate } or { status, message } describing why it cannot.
+const prepareEmailSend = async (adminId, emailTemplateId) => {
+  if (!mailer.isConfigured()) {
+    return { status: 400, message: 'Email delivery is not configured on the server' };
+  }
+  const emailTemplate = await EmailTemplate.resolveForSend(adminId, emailTemplateId);
+  if (!emailTemplate) {
+    return { status: 404, message: 'Email template not found or access denied' };
+  }
+  return { emailTemplate };
+};
+
+// Parse the uploaded CSV and column mapping shared by batch preview and generation
+const prepareBatch = (req, template) => {
+  if (!req.file) {
+    throw new Error('No CSV file uploaded. Please select a CSV file.');
+  }
+
+  let requestedMapping = {};
+  if (req.body.mapping) {
+    try {
+      requestedMapping = typeof req.body.mapping === 'string'
+        ? JSON.parse(req.body.mapping)
+        : req.body.mapping;
+    } catch {
+      throw new Error('Column mapping must be valid JSON');
+    }
+  }
+
+  const { headers, rows, lines } = batchImport.parseCsv(req.file.buffer);
+  const mapping = batchImport.resolveMapping(headers, requestedMapping, template.fields);
+  const mappingErrors = batchImport.validateMapping(headers, mapping);
+  const { entries: rowEntries, errors } = mappingErrors.length === 0
+    ? batchImport.validateRows(rows, mapping, lines)
+    : { entries: [], errors: [] };
+
+  // Check mapped columns against the template's custom field definitions
+  const entries = [];
+  rowEntries.forEach(entry => {
+    const { values, errors: fieldErrors } = template.resolveFieldValues(entry.fields);
+    if (fieldErrors.length > 0) {
+      errors.push({ line: entry.line, participantName: entry.participantName, messages: fieldErrors });
+      return;
+    }
+    entries.push({ ...entry, fieldValues: values });
+  });
+  errors.sort((a, b) => a.line - b.line);
+
+  return { headers, rows, mapping, mappingErrors, entries, errors };
+};
+
 // @route   POST /api/certificate/create
 // @desc    Create new certificate
 // @access  Private
 router.post('/create', auth, validateCertificateCreation, async (req, res) => {
-  const startTime = Date.now();
-  
   try {
-    const { participantName, templateId, placeholderValues, containerDimensions, notes, tags } = req.body;
+    const {
+      participantName,
+      recipientEmail,
+      templateId,
+      placeholderValues,
+      fieldValues,
+      notes,
+      tags,
+      issuedDate,
+      expiryDate,
+      sendEmail,
+      emailTemplateId
+    } = req.body;
 
     // Find and validate template
     const template = await Template.findOne({
@@ -35,89 +241,60 @@ router.post('/create', auth, validateCertificateCreation, async (req, res) => {
     }
 
     // Check if template has required placeholders
-    if (!template.placeholders || template.placeholders.length === 0) {
+    const templateError = getTemplateGenerationError(template);
+    if (templateError) {
       return res.status(400).json({
         success: false,
-        message: 'Template must have placeholders configured before generating certificates'
+        message: templateError
       });
     }
 
-    const hasNamePlaceholder = template.placeholders.some(p => p.type === 'name');
-    const hasIdPlaceholder = template.placeholders.some(p => p.type === 'id');
-
-    if (!hasNamePlaceholder || !hasIdPlaceholder) {
+    const { values: resolvedFieldValues, errors: fieldErrors } = template.resolveFieldValues(fieldValues);
+    if (fieldErrors.length > 0) {
       return res.status(400).json({
         success: false,
-        message: 'Template must have both name and ID placeholders configured'
+        message: 'Validation failed',
+        errors: fieldErrors.map(message => ({ field: 'fieldValues', message }))
       });
     }
 
-    // Generate unique certificate ID
-    const certificateId = await Certificate.generateNextId();
+    // Check email settings before issuing so a bad request doesn't leave an unsent certificate
+    let emailTemplate;
+    if (sendEmail) {
+      if (!recipientEmail) {
+        return res.status(400).json({
+          success: false,
+          message: 'A recipient email is required to send the certificate'
+        });
+      }
+      const emailSend = await prepareEmailSend(req.admin.id, emailTemplateId);
+      if (!emailSend.emailTemplate) {
+        return res.status(emailSend.status).json({
+          success: false,
+          message: emailSend.message
+        });
+      }
+      emailTemplate = emailSend.emailTemplate;
+    }
 
-    // Create certificate record
-    const certificate = new Certificate({
-      certificateId,
-      participantName: participantName.trim(),
-      template: template._id,
-      templateSnapshot: {
-        name: template.name,
-        filename: template.filename,
-        placeholders: template.placeholders,
-        dimensions: template.dimensions
-      },
-      status: 'pending',
-      metadata: {
-        generationTime: 0, // Will be updated after generation
-        ipAddress: req.ip,
-        userAgent: req.get('User-Agent')
-      },
-      createdBy: req.admin.id,
-      notes: notes?.trim() || '',
-      tags: tags || []
+    const certificate = await issueCertificate({
+      template,
+      adminId: req.admin.id,
+      participantName,
+      recipientEmail,
+      fieldValues: resolvedFieldValues,
+      notes,
+      tags,
+      issuedDate,
+      expiryDate,
+      ipAddress: req.ip,
+      userAgent: req.get('User-Agent')
     });
 
-    await certificate.save();
-
-    // Increment template usage count
-    await template.incrementUsage();
-
-    // Generate actual certificate files
-    try {
-      const generatedFiles = await certificateGenerator.generateCertificate(
-        certificate,
-        template,
-        placeholderValues,
-        containerDimensions
-      );
-      
-      // Calculate generation time
-      const generationTime = Date.now() - startTime;
-      certificate.metadata.generationTime = generationTime;
-      certificate.status = 'generated';
-      
-      // Set generated files info
-      certificate.generatedFiles = {
-        pdf: {
-          filename: generatedFiles.pdf.filename,
-          path: generatedFiles.pdf.path,
-          size: generatedFiles.pdf.size,
-          url: `/api/certificate/${certificate._id}/download/pdf`
-        },
-        png: {
-          filename: generatedFiles.png.filename,
-          path: generatedFiles.png.path,
-          size: generatedFiles.png.size,
-          url: `/api/certificate/${certificate._id}/download/png`
-        }
-      };
-    } catch (genError) {
-      console.error('Certificate file generation failed:', genError);
-      certificate.status = 'failed';
-      certificate.generatedFiles = {};
-    }
-
-    await certificate.save();
+    const job = await certificateJobs.enqueueGeneration(certificate, {
+      placeholderValues,
+      emailTemplate
+    });
 
     // Populate references for response
     await certificate.populate([
@@ -125,11 +302,12 @@ router.post('/create', auth, validateCertificateCreation, async (req, res) => {
       { path: 'createdBy', select: 'name email' }
     ]);
 
-    res.status(201).json({
+    res.status(202).json({
       success: true,
-      message: 'Certificate created successfully',
+      message: 'Certificate created and queued for generation',
       data: {
-        certificate: certificate.toJSON()
+        certificate: certificate.toJSON(),
+        jobId: job._id
       }
     });
 
@@ -143,6 +321,13 @@ router.post('/create', auth, validateCertificateCreation, async (req, res) => {
       });
     }
 
+    if (error.name === 'ValidationError') {
+      return res.status(400).json({
+        success: false,
+        message: Object.values(error.errors).map(err => err.message).join(', ')
+      });
+    }
+
     res.status(500).json({
       success: false,
       message: 'Server error during certificate creation'
@@ -150,6 +335,221 @@ router.post('/create', auth, validateCertificateCreation, async (req, res) => {
   }
 });
 
+// @route   POST /api/certificate/batch/preview
+// @desc    Dry-run a CSV batch: resolve column mapping and validate every row
+// @access  Private
+router.post('/batch/preview', auth, csvUpload.single('file'), handleUploadError, async (req, res) => {
+  try {
+    const { templateId } = req.body;
+
+    const template = await Template.findOne({
+      _id: templateId,
+      createdBy: req.admin.id,
+      isActive: true
+    });
+
+    if (!template) {
+      return res.status(404).json({
+        success: false,
+        message: 'Template not found or access denied'
+      });
+    }
+
+    let batch;
+    try {
+      batch = prepareBatch(req, template);
+    } catch (parseError) {
+      return res.status(400).json({
+        success: false,
+        message: parseError.message
+      });
+    }
+
+    const { headers, rows, mapping, mappingErrors, entries, errors } = batch;
+
+    res.json({
+      success: true,
+      message: errors.length === 0 && mappingErrors.length === 0
+        ? `All ${rows.length} rows are valid`
+        : `Found problems in ${mappingErrors.length > 0 ? 'the column mapping' : `${errors.length} of ${rows.length} rows`}`,
+      data: {
+        headers,
+        mapping,
+        mappingErrors,
+        templateError: getTemplateGenerationError(template),
+        fields: template.fields,
+        totalRows: rows.length,
+        validRows: entries.length,
+        errors,
+        sampleRows: rows.slice(0, 5)
+      }
+    });
+
+  } catch (error) {
+    console.error('Batch preview error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error while validating batch'
+    });
+  }
+});
+
+// @route   POST /api/certificate/batch
+// @desc    Generate one certificate per CSV row against a template
+// @access  Private
+router.post('/batch', auth, csvUpload.single('file'), handleUploadError, async (req, res) => {
+  try {
+    const { templateId } = req.body;
+
+    const template = await Template.findOne({
+      _id: templateId,
+      createdBy: req.admin.id,
+      isActive: true
+    });
+
+    if (!template) {
+      return res.status(404).json({
+        success: false,
+        message: 'Template not found or access denied'
+      });
+    }
+
+    const templateError = getTemplateGenerationError(template);
+    if (templateError) {
+      return res.status(400).json({
+        success: false,
+        message: templateError
+      });
+    }
+
+    let batch;
+    try {
+      batch = prepareBatch(req, template);
+    } catch (parseError) {
+      return res.status(400).json({
+        success: false,
+        message: parseError.message
+      });
+    }
+
+    const { mappingErrors, entries, errors } = batch;
+
+    // Nothing is generated unless every row passes validation
+    if (mappingErrors.length > 0 || errors.length > 0) {
+      return res.status(400).json({
+        success: false,
+        message: 'Batch validation failed. Fix the listed rows and try again.',
+        data: {
+          mappingErrors,
+          errors
+        }
+      });
+    }
+
+    // Multipart form fields arrive as strings
+    const sendEmail = req.body.sendEmail === true || req.body.sendEmail === 'true';
+    let emailTemplate;
+    if (sendEmail) {
+      const emailSend = await prepareEmailSend(req.admin.id, req.body.emailTemplateId);
+      if (!emailSend.emailTemplate) {
+        return res.status(emailSend.status).json({
+          success: false,
+          message: emailSend.message
+        });
+      }
+      emailTemplate = emailSend.emailTemplate;
+    }
+
+    const total = entries.length;
+    const batchId = crypto.randomUUID();
+    const results = [];
+
+    websocketService.sendBatchProgress(req.admin.id, {
+      batchId,
+      status: 'started',
+      total,
+      processed: 0,
+      succeeded: 0,
+      failed: 0,
+      message: `Queued generation of ${total} certificates...`,
+      percentage: 0
+    });
+
+    // Rows are only recorded here; generation jobs render them in the background
+    for (const entry of entries) {
+      try {
+        const certificate = await issueCertificate({
+          template,
+          adminId: req.admin.id,
+          participantName: entry.participantName,
+          recipientEmail: entry.recipientEmail,
+          fieldValues: entry.fieldValues,
+          notes: entry.notes,
+          tags: entry.tags,
+          issuedDate: entry.issuedDate,
+          expiryDate: entry.expiryDate,
+          ipAddress: req.ip,
+          userAgent: req.get('User-Agent')
+        });
+
+        const job = await certificateJobs.enqueueGeneration(certificate, {
+          emailTemplate,
+          batchId,
+          batchSize: total
+        });
+
+        results.push({
+          line: entry.line,
+          participantName: certificate.participantName,
+          certificateId: certificate.certificateId,
+          _id: certificate._id,
+          status: certificate.status,
+          jobId: job._id
+        });
+      } catch (rowError) {
+        console.error(`Batch row ${entry.line} failed:`, rowError);
+        results.push({
+          line: entry.line,
+          participantName: entry.participantName,
+          status: 'failed',
+          error: rowError.message
+        });
+      }
+    }
+
+    const queued = results.filter(r => r.jobId).length;
+
+    // Rows that could not be queued will never finish, so the batch ends with the queued ones
+    if (queued > 0 && queued < total) {
+      await certificateJobs.resizeBatch(batchId, req.admin.id, queued);
+    }
+
+    const summary = {
+      total,
+      queued,
+      failed: total - queued
+    };
+
+    res.status(202).json({
+      success: true,
+      message: `Queued ${queued} of ${total} certificates for generation`,
+      data: {
+        batchId,
+        summary,
+        results
+      }
+    });
+
+  } catch (error) {
+    console.error('Batch generation error:', error);
+    websocketService.sendBatchError(req.admin.id, error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error during batch generation'
+    });
+  }
+});
+
 // @route   GET /api/certificate
 // @desc    Get all certificates for current admin
 // @access  Private
@@ -160,6 +560,7 @@ router.get('/', auth, async (req, res) => {
       limit = 10, 
       search, 
       status, 
+      deliveryStatus,
       templateId,
       startDate,
       endDate,
@@ -173,8 +574,16 @@ router.get('/', auth, async (req, res) => {
       isActive: true
     };
 
-    if (status && ['pending', 'generated', 'failed', 'archived'].includes(status)) {
+    if (status && ['pending', 'generated', 'failed', 'archived', 'expired'].includes(status)) {
       query.status = status;
+    } else if (status === 'revoked') {
+      query['revocation.isRevoked'] = true;
+    }
+
+    if (deliveryStatus && ['queued', 'sent', 'bounced', 'failed'].includes(deliveryStatus)) {
+      query['delivery.status'] = deliveryStatus;
+    } else if (deliveryStatus === 'unsent') {
+      query['delivery.status'] = { $exists: false };
     }
 
     if (templateId) {
@@ -191,6 +600,7 @@ router.get('/', auth, async (req, res) => {
       query.$or = [
         { participantName: { $regex: search, $options: 'i' } },
         { certificateId: { $regex: search, $options: 'i' } },
+        { recipientEmail: { $regex: search, $options: 'i' } },
         { notes: { $regex: search, $options: 'i' } }
       ];
     }
@@ -235,6 +645,31 @@ router.get('/', auth, async (req, res) => {
   }
 });
 
+// @route   GET /api/certificate/expiring
+// @desc    Certificates expiring within the next `days` days (default 90) that have not been renewed
+// @access  Private
+router.get('/expiring', auth, async (req, res) => {
+  try {
+    const days = Math.min(Math.max(parseInt(req.query.days) || 90, 1), 365);
+    const certificates = await Certificate.findExpiring(req.admin.id, days);
+
+    res.json({
+      success: true,
+      data: {
+        certificates,
+        days
+      }
+    });
+
+  } catch (error) {
+    console.error('Get expiring certificates error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error while fetching expiring certificates'
+    });
+  }
+});
+
 // @route   GET /api/certificate/:id
 // @desc    Get single certificate
 // @access  Private
@@ -245,7 +680,11 @@ router.get('/:id', auth, async (req, res) => {
       createdBy: req.admin.id
     }).populate([
       { path: 'template', select: 'name description' },
-      { path: 'createdBy', select: 'name email' }
+      { path: 'createdBy', select: 'name email' },
+      { path: 'statusHistory.performedBy', select: 'name email' },
+      { path: 'versions.supersededBy', select: 'name email' },
+      { path: 'renewalOf', select: 'certificateId' },
+      { path: 'renewedAs', select: 'certificateId status' }
     ]);
 
     if (!certificate) {
@@ -272,16 +711,16 @@ router.get('/:id', auth, async (req, res) => {
 });
 
 // @route   GET /api/certificate/:id/download/:format
-// @desc    Download certificate in specified format
+// @desc    Download certificate in specified format (vc is a signed Open Badges 3.0 credential)
 // @access  Private
 router.get('/:id/download/:format', auth, async (req, res) => {
   try {
     const { id, format } = req.params;
     
-    if (!['pdf', 'png'].includes(format)) {
+    if (!['pdf', 'png', 'vc'].includes(format)) {
       return res.status(400).json({
         success: false,
-        message: 'Invalid format. Supported formats: pdf, png'
+        message: 'Invalid format. Supported formats: pdf, png, vc'
       });
     }
 
@@ -298,13 +737,38 @@ router.get('/:id/download/:format', auth, async (req, res) => {
       });
     }
 
-    if (certificate.status !== 'generated') {
+    // Admins keep access to the files of expired certificates
+    if (!['generated', 'expired'].includes(certificate.status)) {
       return res.status(400).json({
         success: false,
         message: 'Certificate is not ready for download'
       });
     }
 
+    if (format === 'vc') {
+      if (certificate.getVerificationState() === 'revoked') {
+        return res.status(400).json({
+          success: false,
+          message: 'Revoked certificates cannot be exported as credentials'
+        });
+      }
+
+      const [admin, template] = await Promise.all([
+        Admin.findById(req.admin.id),
+        Template.findById(certificate.template).select('name description')
+      ]);
+      const credential = await verifiableCredentials.signCredential(
+        verifiableCredentials.buildCredential(certificate, admin, template),
+        admin._id
+      );
+
+      await certificate.incrementDownloadCount();
+
+      res.setHeader('Content-Type', 'application/ld+json');
+      res.setHeader('Content-Disposition', `attachment; filename="${certificate.certificateId}.credential.json"`);
+      return res.send(JSON.stringify(credential, null, 2));
+    }
+
     const fileInfo = certificate.generatedFiles[format];
     if (!fileInfo) {
       return res.status(404).json({
@@ -344,11 +808,11 @@ router.get('/:id/download/:format', auth, async (req, res) => {
 });
 
 // @route   PUT /api/certificate/:id
-// @desc    Update certificate details
+// @desc    Update certificate details; a changed name or field values reissue it as a new version
 // @access  Private
-router.put('/:id', auth, async (req, res) => {
+router.put('/:id', auth, validateCertificateUpdate, async (req, res) => {
   try {
-    const { notes, tags } = req.body;
+    const { notes, tags, participantName, fieldValues, reason, recipientEmail } = req.body;
     const certificateId = req.params.id;
 
     const certificate = await Certificate.findOne({
@@ -363,23 +827,120 @@ router.put('/:id', auth, async (req, res) => {
       });
     }
 
+    // Work out what a reissue would change
+    const changes = [];
+    let newName;
+    let newFieldValues;
+
+    if (participantName !== undefined && participantName !== certificate.participantName) {
+      newName = participantName;
+      changes.push({ field: 'participantName', from: certificate.participantName, to: participantName });
+    }
+
+    const template = await Template.findById(certificate.template);
+
+    if (fieldValues !== undefined) {
+      if (!template) {
+        return res.status(400).json({
+          success: false,
+          message: 'Field values cannot be changed because the certificate\'s template no longer exists'
+        });
+      }
+
+      const currentValues = certificate.fieldValues || {};
+      const { values, errors: fieldErrors } = template.resolveFieldValues({ ...currentValues, ...fieldValues });
+      if (fieldErrors.length > 0) {
+        return res.status(400).json({
+          success: false,
+          message: 'Validation failed',
+          errors: fieldErrors.map(message => ({ field: 'fieldValues', message }))
+        });
+      }
+
+      // Keep values for fields the template no longer defines, unless they were cleared
+      const mergedValues = { ...currentValues, ...values };
+      Object.keys(fieldValues).forEach(key => {
+        if (!(key in values)) {
+          delete mergedValues[key];
+        }
+      });
+
+      new Set([...Object.keys(currentValues), ...Object.keys(mergedValues)]).forEach(key => {
+        const from = String(currentValues[key] ?? '');
+        const to = String(mergedValues[key] ?? '');
+        if (from !== to) {
+          changes.push({ field: `fieldValues.${key}`, from, to });
+        }
+      });
+      if (changes.some(change => change.field.startsWith('fieldValues.'))) {
+        newFieldValues = mergedValues;
+      }
+    }
+
     // Update certificate
     if (notes !== undefined) certificate.notes = notes.trim();
     if (tags !== undefined) certificate.tags = tags;
+    if (recipientEmail !== undefined) certificate.recipientEmail = recipientEmail || undefined;
+
+    const reissued = changes.length > 0;
+    if (reissued) {
+      if (!template) {
+        return res.status(400).json({
+          success: false,
+          message: 'Certificate cannot be reissued because its template no longer exists'
+        });
+      }
 
-    await certificate.save();
+      // Notes, tags and the recipient email can still be edited on these
+      if (!certificate.isActive) {
+        return res.status(400).json({
+          success: false,
+          message: 'Archived certificates cannot be reissued'
+        });
+      }
+
+      if (certificate.revocation?.isRevoked) {
+        return res.status(400).json({
+          success: false,
+          message: 'Revoked certificates cannot be reissued'
+        });
+      }
+
+      if (certificate.status === 'pending') {
+        return res.status(400).json({
+          success: false,
+          message: 'Certificate is still being generated; reissue it once generation finishes'
+        });
+      }
+
+      await reissueCertificate(certificate, {
+        participantName: newName,
+        fieldValues: newFieldValues,
+        changes,
+        reason: reason?.trim() || undefined,
+        adminId: req.admin.id
+      });
+      await certificateJobs.enqueueGeneration(certificate);
+    } else {
+      await certificate.save();
+    }
 
     // Populate references for response
     await certificate.populate([
       { path: 'template', select: 'name description' },
-      { path: 'createdBy', select: 'name email' }
+      { path: 'createdBy', select: 'name email' },
+      { path: 'statusHistory.performedBy', select: 'name email' },
+      { path: 'versions.supersededBy', select: 'name email' }
     ]);
 
     res.json({
       success: true,
-      message: 'Certificate updated successfully',
+      message: reissued
+        ? `Certificate reissued as version ${certificate.version}; its files are being generated`
+        : 'Certificate updated successfully',
       data: {
-        certificate: certificate.toJSON()
+        certificate: certificate.toJSON(),
+        reissued
       }
     });
 
@@ -392,6 +953,592 @@ router.put('/:id', auth, async (req, res) => {
   }
 });
 
+// @route   GET /api/certificate/:id/versions/:version/download/:format
+// @desc    Download the files of a superseded certificate version
+// @access  Private
+router.get('/:id/versions/:version/download/:format', auth, async (req, res) => {
+  try {
+    const { id, format } = req.params;
+    const versionNumber = parseInt(req.params.version, 10);
+
+    if (!['pdf', 'png'].includes(format)) {
+      return res.status(400).json({
+        success: false,
+        message: 'Invalid format. Supported formats: pdf, png'
+      });
+    }
+
+    const certificate = await Certificate.findOne({
+      _id: id,
+      createdBy: req.admin.id,
+      isActive: true
+    });
+
+    if (!certificate) {
+      return res.status(404).json({
+        success: false,
+        message: 'Certificate not found or access denied'
+      });
+    }
+
+    const version = certificate.versions.find(v => v.version === versionNumber);
+    if (!version || !version.files?.[format]?.filename) {
+      return res.status(404).json({
+        success: false,
+        message: `Version ${req.params.version} has no ${format.toUpperCase()} file`
+      });
+    }
+
+    const fileInfo = await certificateGenerator.getVersionFileInfo(certificate.certificateId, versionNumber, format);
+    if (!fileInfo.exists) {
+      return res.status(404).json({
+        success: false,
+        message: `${format.toUpperCase()} file not found on disk`
+      });
+    }
+
+    res.setHeader('Content-Type', format === 'pdf' ? 'application/pdf' : 'image/png');
+    res.setHeader('Content-Disposition', `attachment; filename="${fileInfo.filename}"`);
+    res.setHeader('Content-Length', fileInfo.size);
+    res.sendFile(path.resolve(fileInfo.path));
+
+  } catch (error) {
+    console.error('Download certificate version error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error during certificate version download'
+    });
+  }
+});
+
+// @route   POST /api/certificate/bulk-regenerate
+// @desc    Re-render several certificates, or every failed one when no IDs are given
+// @access  Private
+router.post('/bulk-regenerate', auth, validateCertificateRegeneration, async (req, res) => {
+  try {
+    const { certificateIds, failedOnly = false, source = 'snapshot' } = req.body;
+
+    if (!certificateIds && !failedOnly) {
+      return res.status(400).json({
+        success: false,
+        message: 'Please provide certificate IDs or set failedOnly to retry failed certificates'
+      });
+    }
+
+    const query = {
+      createdBy: req.admin.id,
+      isActive: true
+    };
+    if (certificateIds) {
+      query._id = { $in: certificateIds };
+    }
+    if (failedOnly) {
+      query.status = 'failed';
+    }
+
+    const certificates = await Certificate.find(query).limit(500);
+    const results = [];
+
+    for (const certificate of certificates) {
+      try {
+        const usedSource = await prepareRegeneration(certificate, source);
+        const job = await certificateJobs.enqueueGeneration(certificate, { regenerate: true });
+        results.push({
+          _id: certificate._id,
+          certificateId: certificate.certificateId,
+          status: certificate.status,
+          source: usedSource,
+          jobId: job._id
+        });
+      } catch (regenerateError) {
+        console.error(`Regeneration of ${certificate.certificateId} failed:`, regenerateError);
+        results.push({
+          _id: certificate._id,
+          certificateId: certificate.certificateId,
+          status: certificate.status,
+          error: regenerateError.message
+        });
+      }
+    }
+
+    const queued = results.filter(r => r.jobId).length;
+
+    res.status(202).json({
+      success: true,
+      message: `Queued ${queued} of ${results.length} certificates for regeneration`,
+      data: {
+        results,
+        summary: {
+          total: results.length,
+          queued,
+          failed: results.length - queued
+        }
+      }
+    });
+
+  } catch (error) {
+    console.error('Bulk regenerate error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error while regenerating certificates'
+    });
+  }
+});
+
+// @route   POST /api/certificate/:id/regenerate
+// @desc    Re-render a certificate's files from its stored snapshot or the template's current layout
+// @access  Private
+router.post('/:id/regenerate', auth, validateCertificateRegeneration, async (req, res) => {
+  try {
+    const { source = 'snapshot' } = req.body;
+
+    const certificate = await Certificate.findOne({
+      _id: req.params.id,
+      createdBy: req.admin.id,
+      isActive: true
+    });
+
+    if (!certificate) {
+      return res.status(404).json({
+        success: false,
+        message: 'Certificate not found or access denied'
+      });
+    }
+
+    let usedSource;
+    try {
+      usedSource = await prepareRegeneration(certificate, source);
+    } catch (regenerateError) {
+      return res.status(400).json({
+        success: false,
+        message: regenerateError.message
+      });
+    }
+
+    const job = await certificateJobs.enqueueGeneration(certificate, { regenerate: true });
+
+    await certificate.populate([
+      { path: 'template', select: 'name description' },
+      { path: 'createdBy', select: 'name email' }
+    ]);
+
+    res.status(202).json({
+      success: true,
+      message: usedSource === 'snapshot'
+        ? 'Certificate queued for regeneration from its stored layout'
+        : 'Certificate queued for regeneration from the current template layout',
+      data: {
+        certificate: certificate.toJSON(),
+        source: usedSource,
+        jobId: job._id
+      }
+    });
+
+  } catch (error) {
+    console.error('Regenerate certificate error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error while regenerating certificate'
+    });
+  }
+});
+
+// @route   POST /api/certificate/bulk-send
+// @desc    Email several certificates to their recipients, or every unsent one when no IDs are given
+// @access  Private
+router.post('/bulk-send', auth, validateCertificateSend, async (req, res) => {
+  try {
+    const { certificateIds, unsentOnly = false, emailTemplateId } = req.body;
+
+    if (!certificateIds && !unsentOnly) {
+      return res.status(400).json({
+        success: false,
+        message: 'Please provide certificate IDs or set unsentOnly to send every unsent certificate'
+      });
+    }
+
+    const emailSend = await prepareEmailSend(req.admin.id, emailTemplateId);
+    if (!emailSend.emailTemplate) {
+      return res.status(emailSend.status).json({
+        success: false,
+        message: emailSend.message
+      });
+    }
+
+    const query = {
+      createdBy: req.admin.id,
+      isActive: true
+    };
+    if (certificateIds) {
+      query._id = { $in: certificateIds };
+    }
+    if (unsentOnly) {
+      query.recipientEmail = { $exists: true, $ne: '' };
+      query['delivery.status'] = { $exists: false };
+    }
+
+    const certificates = await Certificate.find(query).limit(500);
+    const results = [];
+
+    for (const certificate of certificates) {
+      const deliveryError = certificateJobs.getDeliveryError(certificate);
+      if (deliveryError) {
+        results.push({
+          _id: certificate._id,
+          certificateId: certificate.certificateId,
+          queued: false,
+          error: deliveryError
+        });
+        continue;
+      }
+
+      await certificateJobs.enqueueEmail(certificate, emailSend.emailTemplate);
+      results.push({
+        _id: certificate._id,
+        certificateId: certificate.certificateId,
+        queued: true
+      });
+    }
+
+    const queued = results.filter(r => r.queued).length;
+
+    res.status(202).json({
+      success: true,
+      message: `Queued ${queued} of ${results.length} certificates for email delivery`,
+      data: {
+        results,
+        summary: {
+          total: results.length,
+          queued,
+          skipped: results.length - queued
+        }
+      }
+    });
+
+  } catch (error) {
+    console.error('Bulk send error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error while sending certificates'
+    });
+  }
+});
+
+// @route   POST /api/certificate/:id/send
+// @desc    Email a certificate to its recipient, optionally setting a new recipient address
+// @access  Private
+router.post('/:id/send', auth, validateCertificateSend, async (req, res) => {
+  try {
+    const { emailTemplateId, recipientEmail } = req.body;
+
+    const certificate = await Certificate.findOne({
+      _id: req.params.id,
+      createdBy: req.admin.id,
+      isActive: true
+    });
+
+    if (!certificate) {
+      return res.status(404).json({
+        success: false,
+        message: 'Certificate not found or access denied'
+      });
+    }
+
+    if (recipientEmail) {
+      certificate.recipientEmail = recipientEmail;
+    }
+
+    const deliveryError = certificateJobs.getDeliveryError(certificate);
+    if (deliveryError) {
+      return res.status(400).json({
+        success: false,
+        message: deliveryError
+      });
+    }
+
+    const emailSend = await prepareEmailSend(req.admin.id, emailTemplateId);
+    if (!emailSend.emailTemplate) {
+      return res.status(emailSend.status).json({
+        success: false,
+        message: emailSend.message
+      });
+    }
+
+    await certificateJobs.enqueueEmail(certificate, emailSend.emailTemplate);
+
+    res.status(202).json({
+      success: true,
+      message: `Certificate queued for delivery to ${certificate.recipientEmail}`,
+      data: {
+        certificate: certificate.toJSON()
+      }
+    });
+
+  } catch (error) {
+    console.error('Send certificate error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error while sending certificate'
+    });
+  }
+});
+
+// @route   POST /api/certificate/:id/revoke
+// @desc    Revoke a certificate with a reason
+// @access  Private
+router.post('/:id/revoke', auth, validateCertificateRevocation, async (req, res) => {
+  try {
+    const { reason, effectiveDate } = req.body;
+
+    const certificate = await Certificate.findOne({
+      _id: req.params.id,
+      createdBy: req.admin.id
+    });
+
+    if (!certificate) {
+      return res.status(404).json({
+        success: false,
+        message: 'Certificate not found or access denied'
+      });
+    }
+
+    if (certificate.revocation?.isRevoked) {
+      return res.status(400).json({
+        success: false,
+        message: 'Certificate is already revoked'
+      });
+    }
+
+    await certificate.revoke({
+      reason,
+      effectiveDate: effectiveDate ? new Date(effectiveDate) : undefined,
+      adminId: req.admin.id
+    });
+
+    await certificate.populate([
+      { path: 'template', select: 'name description' },
+      { path: 'createdBy', select: 'name email' },
+      { path: 'statusHistory.performedBy', select: 'name email' }
+    ]);
+
+    res.json({
+      success: true,
+      message: 'Certificate revoked successfully',
+      data: {
+        certificate: certificate.toJSON()
+      }
+    });
+
+  } catch (error) {
+    console.error('Revoke certificate error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error while revoking certificate'
+    });
+  }
+});
+
+// @route   POST /api/certificate/:id/reinstate
+// @desc    Undo a certificate revocation
+// @access  Private
+router.post('/:id/reinstate', auth, validateCertificateReinstatement, async (req, res) => {
+  try {
+    const certificate = await Certificate.findOne({
+      _id: req.params.id,
+      createdBy: req.admin.id
+    });
+
+    if (!certificate) {
+      return res.status(404).json({
+        success: false,
+        message: 'Certificate not found or access denied'
+      });
+    }
+
+    if (!certificate.revocation?.isRevoked) {
+      return res.status(400).json({
+        success: false,
+        message: 'Certificate is not revoked'
+      });
+    }
+
+    await certificate.reinstate({
+      reason: req.body.reason,
+      adminId: req.admin.id
+    });
+
+    await certificate.populate([
+      { path: 'template', select: 'name description' },
+      { path: 'createdBy', select: 'name email' },
+      { path: 'statusHistory.performedBy', select: 'name email' }
+    ]);
+
+    res.json({
+      success: true,
+      message: 'Certificate reinstated successfully',
+      data: {
+        certificate: certificate.toJSON()
+      }
+    });
+
+  } catch (error) {
+    console.error('Reinstate certificate error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error while reinstating certificate'
+    });
+  }
+});
+
+// @route   POST /api/certificate/:id/renew
+// @desc    Issue a successor certificate, linked to the original, from the template's current layout
+// @access  Private
+router.post('/:id/renew', auth, validateCertificateRenewal, async (req, res) => {
+  try {
+    const certificate = await Certificate.findOne({
+      _id: req.params.id,
+      createdBy: req.admin.id,
+      isActive: true
+    }).populate('renewedAs', 'certificateId');
+
+    if (!certificate) {
+      return res.status(404).json({
+        success: false,
+        message: 'Certificate not found or access denied'
+      });
+    }
+
+    if (certificate.renewedAs) {
+      return res.status(400).json({
+        success: false,
+        message: `Certificate has already been renewed as ${certificate.renewedAs.certificateId}`
+      });
+    }
+
+    if (certificate.revocation?.isRevoked) {
+      return res.status(400).json({
+        success: false,
+        message: 'Revoked certificates cannot be renewed'
+      });
+    }
+
+    if (!['generated', 'expired'].includes(certificate.status)) {
+      return res.status(400).json({
+        success: false,
+        message: 'Only generated or expired certificates can be renewed'
+      });
+    }
+
+    const template = await Template.findOne({
+      _id: certificate.template,
+      createdBy: req.admin.id,
+      isActive: true
+    });
+
+    if (!template) {
+      return res.status(400).json({
+        success: false,
+        message: 'Certificate cannot be renewed because its template no longer exists'
+      });
+    }
+
+    const templateError = getTemplateGenerationError(template);
+    if (templateError) {
+      return res.status(400).json({
+        success: false,
+        message: templateError
+      });
+    }
+
+    // Field values carry over, checked against the template's current fields
+    const { values: fieldValues, errors: fieldErrors } = template.resolveFieldValues(certificate.fieldValues || {});
+    if (fieldErrors.length > 0) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation failed',
+        errors: fieldErrors.map(message => ({ field: 'fieldValues', message }))
+      });
+    }
+
+    const issuedDate = (req.body.issuedDate || new Date().toISOString()).slice(0, 10);
+    // A null expiry date renews without one; leaving it out keeps the original's validity period
+    const expiryDate = req.body.expiryDate === undefined
+      ? getRenewalExpiryDate(certificate, issuedDate)
+      : req.body.expiryDate || undefined;
+
+    // Claim the original before issuing, so a repeated request cannot issue a second successor
+    const claimed = await Certificate.findOneAndUpdate(
+      { _id: certificate._id, renewedAs: { $exists: false }, renewing: { $ne: true } },
+      { $set: { renewing: true } }
+    );
+
+    if (!claimed) {
+      return res.status(409).json({
+        success: false,
+        message: 'Certificate is already being renewed or has been renewed'
+      });
+    }
+
+    let successor;
+    try {
+      successor = await issueCertificate({
+        template,
+        adminId: req.admin.id,
+        participantName: certificate.participantName,
+        recipientEmail: certificate.recipientEmail,
+        fieldValues,
+        notes: certificate.notes,
+        tags: certificate.tags,
+        issuedDate,
+        expiryDate,
+        renewalOf: certificate._id,
+        ipAddress: req.ip,
+        userAgent: req.get('User-Agent')
+      });
+    } catch (error) {
+      await Certificate.updateOne({ _id: certificate._id }, { $unset: { renewing: 1 } });
+      throw error;
+    }
+
+    await Certificate.updateOne(
+      { _id: certificate._id },
+      { $set: { renewedAs: successor._id, renewedAt: new Date() }, $unset: { renewing: 1 } }
+    );
+
+    const job = await certificateJobs.enqueueGeneration(successor);
+
+    await successor.populate([
+      { path: 'template', select: 'name description' },
+      { path: 'createdBy', select: 'name email' },
+      { path: 'renewalOf', select: 'certificateId' }
+    ]);
+
+    res.status(202).json({
+      success: true,
+      message: `Certificate renewed as ${successor.certificateId}; its files are being generated`,
+      data: {
+        certificate: successor.toJSON(),
+        jobId: job._id
+      }
+    });
+
+  } catch (error) {
+    console.error('Renew certificate error:', error);
+
+    if (error.name === 'ValidationError') {
+      return res.status(400).json({
+        success: false,
+        message: Object.values(error.errors).map(err => err.message).join(', ')
+      });
+    }
+
+    res.status(500).json({
+      success: false,
+      message: 'Server error while renewing certificate'
+    });
+  }
+});
+
 // @route   DELETE /api/certificate/bulk
 // @desc    Delete all certificates for current admin (hard delete)
 // @access  Private
@@ -718,7 +1865,7 @@ router.post('/bulk-download', auth, async (req, res) => {
         }
         
         // Create a safe filename
-        const safeFileName = `${certificate.participantName.replace(/[^a-zA-Z0-9\s-_]/g, '')}_${certificate.certificateId}.${format}`;
+        const safeFileName = `${certificate.participantName.replace(/[^\p{L}\p{M}\p{N}\s_-]/gu, '')}_${certificate.certificateId}.${format}`;
         
         // Add file to archive
         archive.file(fullPath, { name: safeFileName });
@@ -0,0 +1,197 @@
+const express = require('express');
+const EmailTemplate = require('../models/EmailTemplate');
+const auth = require('../middleware/auth');
+const { validateEmailTemplate } = require('../middleware/validation');
+const mailer = require('../services/mailer');
+
+const router = express.Router();
+
+// @route   GET /api/email-template
+// @desc    List the current admin's email templates and the merge fields they can use
+// @access  Private
+router.get('/', auth, async (req, res) => {
+  try {
+    const emailTemplates = await EmailTemplate.findByCreator(req.admin.id);
+
+    res.json({
+      success: true,
+      data: {
+        emailTemplates: emailTemplates.map(emailTemplate => emailTemplate.toJSON()),
+        mergeFields: mailer.getMergeFields(),
+        isConfigured: mailer.isConfigured()
+      }
+    });
+
+  } catch (error) {
+    console.error('Get email templates error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error while fetching email templates'
+    });
+  }
+});
+
+// @route   POST /api/email-template
+// @desc    Create an email template
+// @access  Private
+router.post('/', auth, validateEmailTemplate, async (req, res) => {
+  try {
+    const { name, subject, body, deliveryMethod, isDefault } = req.body;
+
+    const emailTemplate = new EmailTemplate({
+      name,
+      subject,
+      body,
+      deliveryMethod,
+      isDefault: !!isDefault,
+      createdBy: req.admin.id
+    });
+    await emailTemplate.save();
+
+    res.status(201).json({
+      success: true,
+      message: 'Email template created successfully',
+      data: {
+        emailTemplate: emailTemplate.toJSON()
+      }
+    });
+
+  } catch (error) {
+    console.error('Create email template error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error while creating email template'
+    });
+  }
+});
+
+// @route   PUT /api/email-template/:id
+// @desc    Update an email template
+// @access  Private
+router.put('/:id', auth, validateEmailTemplate, async (req, res) => {
+  try {
+    const emailTemplate = await EmailTemplate.findOne({
+      _id: req.params.id,
+      createdBy: req.admin.id,
+      isActive: true
+    });
+
+    if (!emailTemplate) {
+      return res.status(404).json({
+        success: false,
+        message: 'Email template not found or access denied'
+      });
+    }
+
+    const { name, subject, body, deliveryMethod, isDefault } = req.body;
+    emailTemplate.name = name;
+    emailTemplate.subject = subject;
+    emailTemplate.body = body;
+    if (deliveryMethod !== undefined) emailTemplate.deliveryMethod = deliveryMethod;
+    if (isDefault !== undefined) emailTemplate.isDefault = isDefault;
+    await emailTemplate.save();
+
+    res.json({
+      success: true,
+      message: 'Email template updated successfully',
+      data: {
+        emailTemplate: emailTemplate.toJSON()
+      }
+    });
+
+  } catch (error) {
+    console.error('Update email template error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error while updating email template'
+    });
+  }
+});
+
+// @route   POST /api/email-template/:id/test
+// @desc    Send a sample rendering of an email template to the current admin
+// @access  Private
+router.post('/:id/test', auth, async (req, res) => {
+  try {
+    const emailTemplate = await EmailTemplate.findOne({
+      _id: req.params.id,
+      createdBy: req.admin.id,
+      isActive: true
+    });
+
+    if (!emailTemplate) {
+      return res.status(404).json({
+        success: false,
+        message: 'Email template not found or access denied'
+      });
+    }
+
+    if (!mailer.isConfigured()) {
+      return res.status(400).json({
+        success: false,
+        message: 'Email delivery is not configured on the server'
+      });
+    }
+
+    try {
+      await mailer.sendTest(emailTemplate, req.admin.email);
+    } catch (sendError) {
+      console.error('Test email failed:', sendError);
+      return res.status(502).json({
+        success: false,
+        message: `Test email could not be sent: ${sendError.message}`
+      });
+    }
+
+    res.json({
+      success: true,
+      message: `Test email sent to ${req.admin.email}`
+    });
+
+  } catch (error) {
+    console.error('Send test email error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error while sending test email'
+    });
+  }
+});
+
+// @route   DELETE /api/email-template/:id
+// @desc    Delete an email template
+// @access  Private
+router.delete('/:id', auth, async (req, res) => {
+  try {
+    const emailTemplate = await EmailTemplate.findOne({
+      _id: req.params.id,
+      createdBy: req.admin.id,
+      isActive: true
+    });
+
+    if (!emailTemplate) {
+      return res.status(404).json({
+        success: false,
+        message: 'Email template not found or access denied'
+      });
+    }
+
+    // Soft delete; a deleted default falls back to the built-in template
+    emailTemplate.isActive = false;
+    emailTemplate.isDefault = false;
+    await emailTemplate.save();
+
+    res.json({
+      success: true,
+      message: 'Email template deleted successfully'
+    });
+
+  } catch (error) {
+    console.error('Delete email template error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error while deleting email template'
+    });
+  }
+});
+
+module.exports = router;
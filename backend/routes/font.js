@@ -0,0 +1,209 @@
+const express = require('express');
+const path = require('path');
+const fs = require('fs').promises;
+const Font = require('../models/Font');
+const auth = require('../middleware/auth');
+const { fontUpload, handleUploadError } = require('../middleware/upload');
+const fontLibrary = require('../services/fontLibrary');
+
+const router = express.Router();
+
+const FONT_MIME_TYPES = {
+  ttf: 'font/ttf',
+  otf: 'font/otf',
+  woff: 'font/woff'
+};
+
+// @route   GET /api/font
+// @desc    List the current admin's font library
+// @access  Private
+router.get('/', auth, async (req, res) => {
+  try {
+    const fonts = await Font.findByCreator(req.admin.id);
+
+    res.json({
+      success: true,
+      data: {
+        fonts: fonts.map(font => font.toJSON())
+      }
+    });
+
+  } catch (error) {
+    console.error('Get fonts error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error while fetching fonts'
+    });
+  }
+});
+
+// @route   POST /api/font/upload
+// @desc    Upload a TTF, OTF or WOFF font file
+// @access  Private
+router.post('/upload', auth, fontUpload.single('font'), handleUploadError, async (req, res) => {
+  try {
+    if (!req.file) {
+      return res.status(400).json({
+        success: false,
+        message: 'No file uploaded. Please select a font file.'
+      });
+    }
+
+    const family = (req.body.family || '').trim();
+    const weight = req.body.weight || 'normal';
+    const style = req.body.style || 'normal';
+
+    if (!family || family.length > 50) {
+      await fs.unlink(req.file.path).catch(console.error);
+      return res.status(400).json({
+        success: false,
+        message: 'Font family is required and cannot exceed 50 characters'
+      });
+    }
+
+    // The extension is only a hint; check the file really is a font
+    const format = fontLibrary.detectFormat(req.file.path);
+    if (!format) {
+      await fs.unlink(req.file.path).catch(console.error);
+      return res.status(400).json({
+        success: false,
+        message: 'The uploaded file is not a valid TTF, OTF or WOFF font'
+      });
+    }
+
+    const existingFont = await Font.findOne({
+      createdBy: req.admin.id,
+      family,
+      weight,
+      style,
+      isActive: true
+    });
+
+    if (existingFont) {
+      await fs.unlink(req.file.path).catch(console.error);
+      return res.status(400).json({
+        success: false,
+        message: `"${family}" already has a ${weight} ${style} face. Delete it before uploading a replacement.`
+      });
+    }
+
+    const font = new Font({
+      family,
+      weight,
+      style,
+      format,
+      filename: req.file.filename,
+      originalName: req.file.originalname,
+      filePath: req.file.path,
+      fileSize: req.file.size,
+      createdBy: req.admin.id
+    });
+
+    await font.save();
+
+    res.status(201).json({
+      success: true,
+      message: 'Font uploaded successfully',
+      data: {
+        font: font.toJSON()
+      }
+    });
+
+  } catch (error) {
+    console.error('Font upload error:', error);
+
+    if (req.file) {
+      await fs.unlink(req.file.path).catch(console.error);
+    }
+
+    if (error.name === 'ValidationError') {
+      return res.status(400).json({
+        success: false,
+        message: Object.values(error.errors).map(err => err.message).join(', ')
+      });
+    }
+
+    res.status(500).json({
+      success: false,
+      message: 'Server error during font upload'
+    });
+  }
+});
+
+// @route   GET /api/font/:id/file
+// @desc    Serve a font file for previews in the editor
+// @access  Private
+router.get('/:id/file', auth, async (req, res) => {
+  try {
+    const font = await Font.findOne({
+      _id: req.params.id,
+      createdBy: req.admin.id,
+      isActive: true
+    });
+
+    if (!font) {
+      return res.status(404).json({
+        success: false,
+        message: 'Font not found or access denied'
+      });
+    }
+
+    try {
+      await fs.access(font.filePath);
+    } catch (error) {
+      return res.status(404).json({
+        success: false,
+        message: 'Font file not found on server'
+      });
+    }
+
+    res.setHeader('Content-Type', FONT_MIME_TYPES[font.format]);
+    res.setHeader('Cache-Control', 'private, max-age=86400');
+    res.sendFile(path.resolve(font.filePath));
+
+  } catch (error) {
+    console.error('Serve font file error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error while serving font file'
+    });
+  }
+});
+
+// @route   DELETE /api/font/:id
+// @desc    Remove a font from the library
+// @access  Private
+router.delete('/:id', auth, async (req, res) => {
+  try {
+    const font = await Font.findOne({
+      _id: req.params.id,
+      createdBy: req.admin.id,
+      isActive: true
+    });
+
+    if (!font) {
+      return res.status(404).json({
+        success: false,
+        message: 'Font not found or access denied'
+      });
+    }
+
+    // Soft delete - the file stays so node-canvas registrations remain valid
+    font.isActive = false;
+    await font.save();
+
+    res.json({
+      success: true,
+      message: 'Font deleted successfully'
+    });
+
+  } catch (error) {
+    console.error('Delete font error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error while deleting font'
+    });
+  }
+});
+
+module.exports = router;
@@ -0,0 +1,182 @@
+const express = require('express');
+const path = require('path');
+const fs = require('fs').promises;
+const ImageAsset = require('../models/ImageAsset');
+const auth = require('../middleware/auth');
+const { imageUpload, handleUploadError } = require('../middleware/upload');
+const imageLibrary = require('../services/imageLibrary');
+
+const router = express.Router();
+
+// @route   GET /api/image
+// @desc    List the current admin's image library
+// @access  Private
+router.get('/', auth, async (req, res) => {
+  try {
+    const images = await ImageAsset.findByCreator(req.admin.id);
+
+    res.json({
+      success: true,
+      data: {
+        images: images.map(image => image.toJSON())
+      }
+    });
+
+  } catch (error) {
+    console.error('Get images error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error while fetching images'
+    });
+  }
+});
+
+// @route   POST /api/image/upload
+// @desc    Upload an image for image placeholders, or for a single certificate
+// @access  Private
+router.post('/upload', auth, imageUpload.single('image'), handleUploadError, async (req, res) => {
+  try {
+    if (!req.file) {
+      return res.status(400).json({
+        success: false,
+        message: 'No file uploaded. Please select an image.'
+      });
+    }
+
+    const name = (req.body.name || '').trim();
+    const purpose = req.body.purpose || 'library';
+
+    if (name.length > 100) {
+      return res.status(400).json({
+        success: false,
+        message: 'Image name cannot exceed 100 characters'
+      });
+    }
+    if (!['library', 'certificate'].includes(purpose)) {
+      return res.status(400).json({
+        success: false,
+        message: 'Image purpose must be "library" or "certificate"'
+      });
+    }
+
+    let image;
+    try {
+      image = await imageLibrary.saveImage(req.file.buffer, {
+        name,
+        purpose,
+        originalName: req.file.originalname,
+        adminId: req.admin.id
+      });
+    } catch (error) {
+      if (error.name === 'ValidationError') {
+        throw error;
+      }
+      return res.status(400).json({
+        success: false,
+        message: error.message
+      });
+    }
+
+    res.status(201).json({
+      success: true,
+      message: 'Image uploaded successfully',
+      data: {
+        image: image.toJSON()
+      }
+    });
+
+  } catch (error) {
+    console.error('Image upload error:', error);
+
+    if (error.name === 'ValidationError') {
+      return res.status(400).json({
+        success: false,
+        message: Object.values(error.errors).map(err => err.message).join(', ')
+      });
+    }
+
+    res.status(500).json({
+      success: false,
+      message: 'Server error during image upload'
+    });
+  }
+});
+
+// @route   GET /api/image/:id/file
+// @desc    Serve an image for the template editor and certificate forms
+// @access  Private
+router.get('/:id/file', auth, async (req, res) => {
+  try {
+    // Deleted images are still served so templates that use them show what they draw
+    const image = await ImageAsset.findOne({
+      _id: req.params.id,
+      createdBy: req.admin.id
+    });
+
+    if (!image) {
+      return res.status(404).json({
+        success: false,
+        message: 'Image not found or access denied'
+      });
+    }
+
+    try {
+      await fs.access(image.filePath);
+    } catch (error) {
+      return res.status(404).json({
+        success: false,
+        message: 'Image file not found on server'
+      });
+    }
+
+    res.setHeader('Content-Type', 'image/png');
+    res.setHeader('Cache-Control', 'private, max-age=86400');
+    res.sendFile(path.resolve(image.filePath));
+
+  } catch (error) {
+    console.error('Serve image file error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error while serving image file'
+    });
+  }
+});
+
+// @route   DELETE /api/image/:id
+// @desc    Remove an image from the library
+// @access  Private
+router.delete('/:id', auth, async (req, res) => {
+  try {
+    const image = await ImageAsset.findOne({
+      _id: req.params.id,
+      createdBy: req.admin.id,
+      isActive: true
+    });
+
+    if (!image) {
+      return res.status(404).json({
+        success: false,
+        message: 'Image not found or access denied'
+      });
+    }
+
+    // Soft delete - templates that still reference the image show it in the editor,
+    // but certificates rendered from now on leave it out
+    image.isActive = false;
+    await image.save();
+
+    res.json({
+      success: true,
+      message: 'Image deleted successfully'
+    });
+
+  } catch (error) {
+    console.error('Delete image error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error while deleting image'
+    });
+  }
+});
+
+module.exports = router;
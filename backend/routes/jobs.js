@@ -0,0 +1,216 @@
+const express = require('express');
+const mongoose = require('mongoose');
+const Job = require('../models/Job');
+const auth = require('../middleware/auth');
+const jobQueue = require('../services/jobQueue');
+const renderPool = require('../services/renderPool');
+
+const router = express.Router();
+
+// @route   GET /api/jobs
+// @desc    List the current admin's background jobs
+// @access  Private
+router.get('/', auth, async (req, res) => {
+  try {
+    const {
+      page = 1,
+      limit = 20,
+      status,
+      type,
+      batchId
+    } = req.query;
+
+    const query = {
+      createdBy: req.admin.id
+    };
+
+    if (status && ['queued', 'running', 'completed', 'failed'].includes(status)) {
+      query.status = status;
+    }
+    if (type) {
+      query.type = type;
+    }
+    if (batchId) {
+      query.batchId = batchId;
+    }
+
+    const skip = (parseInt(page) - 1) * parseInt(limit);
+
+    const jobs = await Job.find(query)
+      .populate('certificate', 'certificateId participantName status')
+      .sort({ createdAt: -1 })
+      .skip(skip)
+      .limit(parseInt(limit));
+
+    const total = await Job.countDocuments(query);
+
+    res.json({
+      success: true,
+      data: {
+        jobs,
+        pagination: {
+          current: parseInt(page),
+          pages: Math.ceil(total / parseInt(limit)),
+          total,
+          limit: parseInt(limit)
+        }
+      }
+    });
+
+  } catch (error) {
+    console.error('Get jobs error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error while fetching jobs'
+    });
+  }
+});
+
+// @route   GET /api/jobs/metrics
+// @desc    Render pool throughput and the current admin's job counts
+// @access  Private
+router.get('/metrics', auth, async (req, res) => {
+  try {
+    const counts = await Job.aggregate([
+      { $match: { createdBy: new mongoose.Types.ObjectId(String(req.admin.id)) } },
+      { $group: { _id: '$status', count: { $sum: 1 } } }
+    ]);
+
+    const jobs = { queued: 0, running: 0, completed: 0, failed: 0 };
+    counts.forEach(({ _id, count }) => {
+      jobs[_id] = count;
+    });
+
+    res.json({
+      success: true,
+      data: {
+        renderPool: renderPool.getMetrics(),
+        jobs
+      }
+    });
+
+  } catch (error) {
+    console.error('Get job metrics error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error while fetching job metrics'
+    });
+  }
+});
+
+// @route   GET /api/jobs/batches/:batchId
+// @desc    Get the progress of a batch and the outcome of each of its certificates
+// @access  Private
+router.get('/batches/:batchId', auth, async (req, res) => {
+  try {
+    const { batchId } = req.params;
+
+    const jobs = await Job.find({ batchId, createdBy: req.admin.id })
+      .populate('certificate', 'certificateId participantName status')
+      .sort({ createdAt: 1 });
+
+    if (jobs.length === 0) {
+      return res.status(404).json({
+        success: false,
+        message: 'Batch not found or access denied'
+      });
+    }
+
+    const summary = await Job.getBatchSummary(batchId, req.admin.id);
+
+    res.json({
+      success: true,
+      data: {
+        batchId,
+        summary,
+        isComplete: summary.completed + summary.failed === summary.total,
+        jobs
+      }
+    });
+
+  } catch (error) {
+    console.error('Get batch jobs error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error while fetching batch'
+    });
+  }
+});
+
+// @route   GET /api/jobs/:id
+// @desc    Get a single job
+// @access  Private
+router.get('/:id', auth, async (req, res) => {
+  try {
+    const job = await Job.findOne({
+      _id: req.params.id,
+      createdBy: req.admin.id
+    }).populate('certificate', 'certificateId participantName status');
+
+    if (!job) {
+      return res.status(404).json({
+        success: false,
+        message: 'Job not found or access denied'
+      });
+    }
+
+    res.json({
+      success: true,
+      data: {
+        job
+      }
+    });
+
+  } catch (error) {
+    console.error('Get job error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error while fetching job'
+    });
+  }
+});
+
+// @route   POST /api/jobs/:id/retry
+// @desc    Queue a failed job again
+// @access  Private
+router.post('/:id/retry', auth, async (req, res) => {
+  try {
+    const job = await Job.findOne({
+      _id: req.params.id,
+      createdBy: req.admin.id
+    });
+
+    if (!job) {
+      return res.status(404).json({
+        success: false,
+        message: 'Job not found or access denied'
+      });
+    }
+
+    if (job.status !== 'failed') {
+      return res.status(400).json({
+        success: false,
+        message: 'Only failed jobs can be retried'
+      });
+    }
+
+    await jobQueue.retry(job);
+
+    res.status(202).json({
+      success: true,
+      message: 'Job queued again',
+      data: {
+        job
+      }
+    });
+
+  } catch (error) {
+    console.error('Retry job error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error while retrying job'
+    });
+  }
+});
+
+module.exports = router;
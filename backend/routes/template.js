@@ -2,13 +2,38 @@ const express = require('express');
 const path = require('path');
 const fs = require('fs').promises;
 const sharp = require('sharp');
+const Admin = require('../models/Admin');
 const Template = require('../models/Template');
+const TemplateVersion = require('../models/TemplateVersion');
+const { resolveIdScheme, formatSampleId } = require('../models/idScheme');
+const certificateGenerator = require('../services/certificateGenerator');
+const pdfTemplate = require('../services/pdfTemplate');
+const templateBundle = require('../services/templateBundle');
 const auth = require('../middleware/auth');
-const { upload, handleUploadError } = require('../middleware/upload');
-const { validateTemplatePlaceholders } = require('../middleware/validation');
+const { upload, bundleUpload, handleUploadError } = require('../middleware/upload');
+const { validateTemplatePlaceholders, validateTemplateRestore, validateTemplatePreview } = require('../middleware/validation');
 
 const router = express.Router();
 
+// Previews are scaled down to this width so the response stays small
+const PREVIEW_MAX_WIDTH = 1600;
+
+// Values shown for custom fields that have no default when previewing
+const SAMPLE_PARTICIPANT_NAME = 'Alexandra Sample';
+const sampleFieldValue = (field) => {
+  if (field.dataType === 'date') {
+    return new Date().toISOString().split('T')[0];
+  }
+  if (field.dataType === 'number') {
+    return '42';
+  }
+  // Image placeholders fall back to their library image instead
+  if (field.dataType === 'image') {
+    return '';
+  }
+  return field.label;
+};
+
 // @route   POST /api/template/upload
 // @desc    Upload certificate template
 // @access  Private
@@ -49,21 +74,37 @@ router.post('/upload', auth, upload.single('template'), handleUploadError, async
       });
     }
 
-    // Get actual image dimensions using Sharp
+    // PDF templates are measured in points from their first page, which is also
+    // rasterized now so the editor preview and PNG output are ready to use
     let dimensions;
-    try {
-      const metadata = await sharp(req.file.path).metadata();
-      dimensions = {
-        width: metadata.width,
-        height: metadata.height
-      };
-    } catch (error) {
-      console.error('Error getting image dimensions:', error);
-      // Fallback to default dimensions if Sharp fails
-      dimensions = {
-        width: 800,
-        height: 600
-      };
+    if (req.file.mimetype === 'application/pdf') {
+      try {
+        dimensions = await pdfTemplate.getPageSize(req.file.path);
+        await pdfTemplate.ensureRaster(req.file.path);
+      } catch (error) {
+        console.error('Error reading PDF template:', error);
+        await fs.unlink(req.file.path).catch(console.error);
+        return res.status(400).json({
+          success: false,
+          message: 'Could not read the PDF. Make sure it is not encrypted or damaged.'
+        });
+      }
+    } else {
+      // Get actual image dimensions using Sharp
+      try {
+        const metadata = await sharp(req.file.path).metadata();
+        dimensions = {
+          width: metadata.width,
+          height: metadata.height
+        };
+      } catch (error) {
+        console.error('Error getting image dimensions:', error);
+        // Fallback to default dimensions if Sharp fails
+        dimensions = {
+          width: 800,
+          height: 600
+        };
+      }
     }
 
     // Create template record
@@ -76,6 +117,7 @@ router.post('/upload', auth, upload.single('template'), handleUploadError, async
       fileSize: req.file.size,
       mimeType: req.file.mimetype,
       dimensions,
+      coordinateSpace: 'template',
       placeholders: [], // Will be set later via placeholders endpoint
       createdBy: req.admin.id
     });
@@ -108,12 +150,175 @@ router.post('/upload', auth, upload.single('template'), handleUploadError, async
   }
 });
 
+// Template names are unique among an admin's active templates; copies and imports
+// that would clash are suffixed, e.g. "Award (copy)", "Award (copy 2)"
+const findAvailableName = async (adminId, name, label) => {
+  const base = name.slice(0, 100 - label.length - 6).trim();
+  for (let attempt = 1; ; attempt++) {
+    const candidate = `${base} (${attempt === 1 ? label : `${label} ${attempt}`})`;
+    const taken = await Template.exists({ name: candidate, createdBy: adminId, isActive: true });
+    if (!taken) {
+      return candidate;
+    }
+  }
+};
+
+// @route   POST /api/template/import
+// @desc    Create a template from an exported bundle; bundles without a background are uploaded with one as `template`
+// @access  Private
+router.post('/import', auth, bundleUpload.fields([
+  { name: 'bundle', maxCount: 1 },
+  { name: 'template', maxCount: 1 }
+]), handleUploadError, async (req, res) => {
+  let background;
+  try {
+    const bundleFile = req.files?.bundle?.[0];
+    const backgroundFile = req.files?.template?.[0];
+
+    if (!bundleFile) {
+      return res.status(400).json({
+        success: false,
+        message: 'No bundle uploaded. Please select a template bundle file.'
+      });
+    }
+
+    let bundle;
+    try {
+      bundle = templateBundle.parseBundle(bundleFile.buffer);
+    } catch (error) {
+      return res.status(400).json({
+        success: false,
+        message: error.message
+      });
+    }
+
+    if (!bundle.background && !backgroundFile) {
+      return res.status(400).json({
+        success: false,
+        message: 'This bundle has no background image. Upload one with it to import the layout.'
+      });
+    }
+
+    const requestedName = (req.body.name || bundle.name || '').trim();
+    if (requestedName.length < 2) {
+      return res.status(400).json({
+        success: false,
+        message: 'Template name is required and must be at least 2 characters long'
+      });
+    }
+
+    try {
+      // An uploaded background takes the place of the bundle's own
+      background = await templateBundle.writeBackground(backgroundFile
+        ? { buffer: backgroundFile.buffer, mimeType: backgroundFile.mimetype, originalName: backgroundFile.originalname }
+        : { ...bundle.background, buffer: Buffer.from(bundle.background.data, 'base64') });
+    } catch (error) {
+      console.error('Error reading imported background:', error);
+      return res.status(400).json({
+        success: false,
+        message: 'Could not read the template background. Make sure it is a valid image or an unencrypted PDF.'
+      });
+    }
+
+    const nameTaken = await Template.exists({ name: requestedName, createdBy: req.admin.id, isActive: true });
+    const name = nameTaken ? await findAvailableName(req.admin.id, requestedName, 'imported') : requestedName;
+
+    const template = new Template({
+      name,
+      description: typeof bundle.description === 'string' ? bundle.description.trim() : '',
+      filename: background.filename,
+      originalName: background.originalName,
+      filePath: background.filePath,
+      fileSize: background.fileSize,
+      mimeType: background.mimeType,
+      dimensions: background.dimensions,
+      coordinateSpace: bundle.coordinateSpace === 'template' ? 'template' : undefined,
+      placeholders: bundle.placeholders,
+      fields: bundle.fields || [],
+      idScheme: bundle.idScheme || undefined,
+      createdBy: req.admin.id,
+      lastModifiedBy: req.admin.id
+    });
+
+    // Fit the layout to this background: template coordinates scale with its width,
+    // older layouts (such as test-template.json) were positioned on the legacy editor canvas
+    if (template.coordinateSpace === 'template') {
+      const factor = bundle.dimensions?.width ? background.dimensions.width / bundle.dimensions.width : 1;
+      if (factor !== 1) {
+        template.placeholders = template.placeholders.map(p => Template.scalePlaceholder(p.toObject(), factor));
+      }
+    } else {
+      template.migrateCoordinates();
+    }
+
+    await template.validate();
+    const fonts = await templateBundle.importFonts(bundle.fonts, req.admin.id);
+    const { idMap, ...images } = await templateBundle.importImages(bundle.images, req.admin.id);
+    template.placeholders.forEach(placeholder => {
+      if (placeholder.assetId && idMap.has(String(placeholder.assetId))) {
+        placeholder.assetId = idMap.get(String(placeholder.assetId));
+      }
+    });
+    if (template.placeholders.length > 0) {
+      await TemplateVersion.commit(template, {
+        adminId: req.admin.id,
+        note: `Imported from ${bundleFile.originalname}`.slice(0, 200)
+      });
+    } else {
+      await template.save();
+    }
+
+    await template.populate('createdBy', 'name email');
+
+    res.status(201).json({
+      success: true,
+      message: `Template imported as "${template.name}"`,
+      data: {
+        template: template.toJSON(),
+        fonts,
+        images
+      }
+    });
+
+  } catch (error) {
+    console.error('Template import error:', error);
+
+    if (background) {
+      await fs.unlink(background.filePath).catch(console.error);
+    }
+
+    if (error.name === 'ValidationError') {
+      return res.status(400).json({
+        success: false,
+        message: `The bundle's layout is invalid: ${Object.values(error.errors).map(err => err.message).join(', ')}`
+      });
+    }
+
+    res.status(500).json({
+      success: false,
+      message: 'Server error during template import'
+    });
+  }
+});
+
+// Templates laid out before version history existed get their current layout recorded
+// as version 1 before it is first changed, so it can still be restored
+const recordExistingLayout = async (template) => {
+  if (template.currentVersion || template.placeholders.length === 0) {
+    return;
+  }
+  await TemplateVersion.record(template, {
+    adminId: template.lastModifiedBy || template.createdBy,
+    note: 'Layout saved before version history'
+  });
+};
+
 // @route   POST /api/template/:id/placeholders
-// @desc    Save template placeholders
+// @desc    Save template placeholders as a new template version
 // @access  Private
 router.post('/:id/placeholders', auth, validateTemplatePlaceholders, async (req, res) => {
   try {
-    const { placeholders, dimensions } = req.body;
+    const { placeholders, fields, idScheme, note } = req.body;
     const templateId = req.params.id;
 
     // Find template
@@ -130,28 +335,50 @@ router.post('/:id/placeholders', auth, validateTemplatePlaceholders, async (req,
       });
     }
 
-    // Update template with placeholders and dimensions
+    await recordExistingLayout(template);
+
+    // Placeholders arrive in template coordinates; dimensions always come from
+    // the uploaded image so they stay a stable reference for those coordinates
     template.placeholders = placeholders;
-    if (dimensions) {
-      template.dimensions = dimensions;
+    template.coordinateSpace = 'template';
+    if (fields) {
+      template.fields = fields;
+    }
+    if (idScheme !== undefined) {
+      template.idScheme = idScheme || undefined;
     }
     template.lastModifiedBy = req.admin.id;
 
-    await template.save();
+    // Only layouts that pass validation become versions
+    await template.validate();
+    const version = await TemplateVersion.commit(template, {
+      adminId: req.admin.id,
+      note: note || undefined
+    });
 
     // Populate creator info for response
     await template.populate('createdBy', 'name email');
 
     res.json({
       success: true,
-      message: 'Template placeholders saved successfully',
+      message: `Template placeholders saved as version ${version.version}`,
       data: {
-        template: template.toJSON()
+        template: template.toJSON(),
+        version: version.toJSON()
       }
     });
 
   } catch (error) {
     console.error('Save placeholders error:', error);
+
+    // Another save of the same template took the version number first
+    if (error.code === 11000 || error.name === 'DocumentNotFoundError') {
+      return res.status(409).json({
+        success: false,
+        message: 'The template was saved by someone else at the same time. Reload it and try again.'
+      });
+    }
+
     res.status(500).json({
       success: false,
       message: 'Server error while saving placeholders'
@@ -159,6 +386,272 @@ router.post('/:id/placeholders', auth, validateTemplatePlaceholders, async (req,
   }
 });
 
+// @route   GET /api/template/:id/versions
+// @desc    List a template's layout versions, newest first
+// @access  Private
+router.get('/:id/versions', auth, async (req, res) => {
+  try {
+    const template = await Template.findOne({
+      _id: req.params.id,
+      createdBy: req.admin.id
+    });
+
+    if (!template) {
+      return res.status(404).json({
+        success: false,
+        message: 'Template not found or access denied'
+      });
+    }
+
+    const versions = await TemplateVersion.findByTemplate(template._id);
+
+    res.json({
+      success: true,
+      data: {
+        currentVersion: template.currentVersion,
+        versions: versions.map(version => version.toJSON())
+      }
+    });
+
+  } catch (error) {
+    console.error('Get template versions error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error while fetching template versions'
+    });
+  }
+});
+
+// @route   POST /api/template/:id/versions/:version/restore
+// @desc    Roll a template's layout back to an earlier version, recorded as a new version
+// @access  Private
+router.post('/:id/versions/:version/restore', auth, validateTemplateRestore, async (req, res) => {
+  try {
+    const template = await Template.findOne({
+      _id: req.params.id,
+      createdBy: req.admin.id,
+      isActive: true
+    });
+
+    if (!template) {
+      return res.status(404).json({
+        success: false,
+        message: 'Template not found or access denied'
+      });
+    }
+
+    const versionNumber = parseInt(req.params.version, 10);
+    const version = await TemplateVersion.findOne({
+      template: template._id,
+      version: versionNumber
+    });
+
+    if (!version) {
+      return res.status(404).json({
+        success: false,
+        message: `Version ${req.params.version} not found`
+      });
+    }
+
+    if (version.version === template.currentVersion) {
+      return res.status(400).json({
+        success: false,
+        message: `Version ${version.version} is already the current layout`
+      });
+    }
+
+    const placeholders = version.placeholders.map(p => p.toObject());
+    // Coordinates are relative to the background the version was laid out on
+    const factor = version.coordinateSpace === 'template' && version.dimensions?.width && template.dimensions?.width
+      ? template.dimensions.width / version.dimensions.width
+      : 1;
+
+    template.placeholders = factor === 1
+      ? placeholders
+      : placeholders.map(p => Template.scalePlaceholder(p, factor));
+    template.fields = version.fields.map(f => f.toObject());
+    template.idScheme = version.idScheme ? version.idScheme.toObject() : undefined;
+    template.coordinateSpace = version.coordinateSpace;
+    template.lastModifiedBy = req.admin.id;
+
+    await template.validate();
+    const restored = await TemplateVersion.commit(template, {
+      adminId: req.admin.id,
+      note: req.body.note || `Restored version ${version.version}`,
+      restoredFrom: version.version
+    });
+
+    await template.populate('createdBy', 'name email');
+
+    res.json({
+      success: true,
+      message: `Version ${version.version} restored as version ${restored.version}`,
+      data: {
+        template: template.toJSON(),
+        version: restored.toJSON()
+      }
+    });
+
+  } catch (error) {
+    console.error('Restore template version error:', error);
+
+    // Another save of the same template took the version number first
+    if (error.code === 11000 || error.name === 'DocumentNotFoundError') {
+      return res.status(409).json({
+        success: false,
+        message: 'The template was saved by someone else at the same time. Reload it and try again.'
+      });
+    }
+
+    res.status(500).json({
+      success: false,
+      message: 'Server error while restoring template version'
+    });
+  }
+});
+
+// @route   POST /api/template/:id/duplicate
+// @desc    Copy a template, its background and its layout under a new name
+// @access  Private
+router.post('/:id/duplicate', auth, async (req, res) => {
+  let copiedFilePath;
+  try {
+    const template = await Template.findOne({
+      _id: req.params.id,
+      createdBy: req.admin.id,
+      isActive: true
+    });
+
+    if (!template) {
+      return res.status(404).json({
+        success: false,
+        message: 'Template not found or access denied'
+      });
+    }
+
+    let name = typeof req.body.name === 'string' ? req.body.name.trim() : '';
+    if (name) {
+      const existingTemplate = await Template.exists({ name, createdBy: req.admin.id, isActive: true });
+      if (existingTemplate) {
+        return res.status(400).json({
+          success: false,
+          message: 'A template with this name already exists'
+        });
+      }
+    } else {
+      name = await findAvailableName(req.admin.id, template.name, 'copy');
+    }
+
+    try {
+      await fs.access(template.filePath);
+    } catch (error) {
+      return res.status(404).json({
+        success: false,
+        message: 'Template file not found on server'
+      });
+    }
+
+    const { filename, filePath } = await templateBundle.copyBackground(template);
+    copiedFilePath = filePath;
+
+    const duplicate = new Template({
+      ...templateBundle.getLayout(template),
+      name,
+      description: template.description,
+      filename,
+      originalName: template.originalName,
+      filePath,
+      fileSize: template.fileSize,
+      mimeType: template.mimeType,
+      tags: template.tags,
+      createdBy: req.admin.id,
+      lastModifiedBy: req.admin.id
+    });
+
+    await duplicate.validate();
+    if (duplicate.placeholders.length > 0) {
+      await TemplateVersion.commit(duplicate, {
+        adminId: req.admin.id,
+        note: `Duplicated from "${template.name}"`.slice(0, 200)
+      });
+    } else {
+      await duplicate.save();
+    }
+
+    await duplicate.populate('createdBy', 'name email');
+
+    res.status(201).json({
+      success: true,
+      message: `Template duplicated as "${duplicate.name}"`,
+      data: {
+        template: duplicate.toJSON()
+      }
+    });
+
+  } catch (error) {
+    console.error('Duplicate template error:', error);
+
+    if (copiedFilePath) {
+      await fs.unlink(copiedFilePath).catch(console.error);
+    }
+
+    if (error.name === 'ValidationError') {
+      return res.status(400).json({
+        success: false,
+        message: Object.values(error.errors).map(err => err.message).join(', ')
+      });
+    }
+
+    res.status(500).json({
+      success: false,
+      message: 'Server error while duplicating template'
+    });
+  }
+});
+
+// @route   GET /api/template/:id/export
+// @desc    Download a template as a portable bundle: layout, background and custom fonts
+// @access  Private
+router.get('/:id/export', auth, async (req, res) => {
+  try {
+    const template = await Template.findOne({
+      _id: req.params.id,
+      createdBy: req.admin.id,
+      isActive: true
+    });
+
+    if (!template) {
+      return res.status(404).json({
+        success: false,
+        message: 'Template not found or access denied'
+      });
+    }
+
+    try {
+      await fs.access(template.filePath);
+    } catch (error) {
+      return res.status(404).json({
+        success: false,
+        message: 'Template file not found on server'
+      });
+    }
+
+    const bundle = await templateBundle.exportTemplate(template);
+    const safeName = template.name.replace(/[^a-zA-Z0-9_-]+/g, '-').replace(/^-+|-+$/g, '') || 'template';
+
+    res.setHeader('Content-Type', 'application/json');
+    res.setHeader('Content-Disposition', `attachment; filename="${safeName}.template.json"`);
+    res.send(JSON.stringify(bundle, null, 2));
+
+  } catch (error) {
+    console.error('Export template error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error while exporting template'
+    });
+  }
+});
+
 // @route   GET /api/template
 // @desc    Get all templates for current admin
 // @access  Private
@@ -400,11 +893,11 @@ router.delete('/:id', auth, async (req, res) => {
 });
 
 // @route   OPTIONS /api/template/:id/file
-// @desc    Handle CORS preflight for template file
+// @desc    Handle CORS preflight for template file and preview
 // @access  Public
-router.options('/:id/file', (req, res) => {
+router.options(['/:id/file', '/:id/preview'], (req, res) => {
   res.setHeader('Access-Control-Allow-Origin', process.env.FRONTEND_URL || 'http://localhost:3000');
-  res.setHeader('Access-Control-Allow-Methods', 'GET, OPTIONS');
+  res.setHeader('Access-Control-Allow-Methods', 'GET, POST, PUT, OPTIONS');
   res.setHeader('Access-Control-Allow-Headers', 'Authorization, Content-Type');
   res.setHeader('Access-Control-Allow-Credentials', 'true');
   res.status(200).end();
@@ -456,4 +949,232 @@ router.get('/:id/file', auth, async (req, res) => {
   }
 });
 
+// @route   PUT /api/template/:id/file
+// @desc    Replace a template's background, rescaling its layout; the old file stays for past certificates
+// @access  Private
+router.put('/:id/file', auth, upload.single('template'), handleUploadError, async (req, res) => {
+  try {
+    if (!req.file) {
+      return res.status(400).json({
+        success: false,
+        message: 'No file uploaded. Please select a template file.'
+      });
+    }
+
+    const template = await Template.findOne({
+      _id: req.params.id,
+      createdBy: req.admin.id,
+      isActive: true
+    });
+
+    if (!template) {
+      await fs.unlink(req.file.path).catch(console.error);
+      return res.status(404).json({
+        success: false,
+        message: 'Template not found or access denied'
+      });
+    }
+
+    let dimensions;
+    try {
+      dimensions = await templateBundle.measureBackground(req.file.path, req.file.mimetype);
+    } catch (error) {
+      console.error('Error reading replacement background:', error);
+      await fs.unlink(req.file.path).catch(console.error);
+      return res.status(400).json({
+        success: false,
+        message: 'Could not read the new background. Make sure it is a valid image or an unencrypted PDF.'
+      });
+    }
+
+    await recordExistingLayout(template);
+
+    const previousDimensions = {
+      width: template.dimensions.width,
+      height: template.dimensions.height
+    };
+    template.migrateCoordinates();
+    const rescaled = template.fitToDimensions(dimensions);
+
+    template.filename = req.file.filename;
+    template.originalName = req.file.originalname;
+    template.filePath = req.file.path;
+    template.fileSize = req.file.size;
+    template.mimeType = req.file.mimetype;
+    template.lastModifiedBy = req.admin.id;
+
+    await template.validate();
+    const version = await TemplateVersion.commit(template, {
+      adminId: req.admin.id,
+      note: `Background replaced with ${req.file.originalname}`.slice(0, 200)
+    });
+
+    await template.populate('createdBy', 'name email');
+
+    res.json({
+      success: true,
+      message: rescaled
+        ? `Background replaced and placeholders rescaled from ${previousDimensions.width}×${previousDimensions.height} to ${dimensions.width}×${dimensions.height}`
+        : 'Background replaced',
+      data: {
+        template: template.toJSON(),
+        version: version.toJSON(),
+        rescaled,
+        previousDimensions
+      }
+    });
+
+  } catch (error) {
+    console.error('Replace template file error:', error);
+
+    if (req.file) {
+      await fs.unlink(req.file.path).catch(console.error);
+    }
+
+    // Another save of the same template took the version number first
+    if (error.code === 11000 || error.name === 'DocumentNotFoundError') {
+      return res.status(409).json({
+        success: false,
+        message: 'The template was saved by someone else at the same time. Reload it and try again.'
+      });
+    }
+
+    res.status(500).json({
+      success: false,
+      message: 'Server error while replacing template file'
+    });
+  }
+});
+
+// @route   GET /api/template/:id/preview
+// @desc    Serve the template as an image for the editor; PDF templates are rasterized
+// @access  Private
+router.get('/:id/preview', auth, async (req, res) => {
+  try {
+    const template = await Template.findOne({
+      _id: req.params.id,
+      createdBy: req.admin.id,
+      isActive: true
+    });
+
+    if (!template) {
+      return res.status(404).json({
+        success: false,
+        message: 'Template not found or access denied'
+      });
+    }
+
+    try {
+      await fs.access(template.filePath);
+    } catch (error) {
+      return res.status(404).json({
+        success: false,
+        message: 'Template file not found on server'
+      });
+    }
+
+    const isPdf = pdfTemplate.isPdf(template);
+    const previewPath = isPdf ? await pdfTemplate.ensureRaster(template.filePath) : template.filePath;
+
+    res.setHeader('Content-Type', isPdf ? 'image/png' : template.mimeType);
+    res.setHeader('Access-Control-Allow-Origin', process.env.FRONTEND_URL || 'http://localhost:3000');
+    res.setHeader('Access-Control-Allow-Credentials', 'true');
+    res.sendFile(path.resolve(previewPath));
+
+  } catch (error) {
+    console.error('Serve template preview error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error while serving template preview'
+    });
+  }
+});
+
+// @route   POST /api/template/:id/preview
+// @desc    Render a watermarked PNG with sample or supplied values; no certificate or ID is issued
+// @access  Private
+router.post('/:id/preview', auth, validateTemplatePreview, async (req, res) => {
+  try {
+    const { values = {}, placeholders, fields } = req.body;
+
+    const template = await Template.findOne({
+      _id: req.params.id,
+      createdBy: req.admin.id,
+      isActive: true
+    });
+
+    if (!template) {
+      return res.status(404).json({
+        success: false,
+        message: 'Template not found or access denied'
+      });
+    }
+
+    // Unsaved editor changes are previewed on the in-memory document, which is never saved
+    if (placeholders) {
+      template.placeholders = placeholders;
+      template.coordinateSpace = 'template';
+    }
+    if (fields) {
+      template.fields = fields;
+    }
+    await template.validate();
+
+    const admin = await Admin.findById(req.admin.id).select('idScheme');
+    const certificateId = values.id?.trim() || formatSampleId(resolveIdScheme(template, admin));
+    const participantName = values.name?.trim() || SAMPLE_PARTICIPANT_NAME;
+    // Issued today and valid for a year unless sample dates are given
+    const issuedDate = new Date(values.issuedDate?.trim() || new Date().toISOString().split('T')[0]);
+    const expiryDate = values.expiryDate?.trim()
+      ? new Date(values.expiryDate.trim())
+      : new Date(Date.UTC(issuedDate.getUTCFullYear() + 1, issuedDate.getUTCMonth(), issuedDate.getUTCDate()));
+    const fieldValues = {};
+    (template.fields || []).forEach(field => {
+      fieldValues[field.key] = values[field.key]?.trim() || field.defaultValue || sampleFieldValue(field);
+    });
+
+    const startTime = Date.now();
+    const { png, warnings } = await certificateGenerator.generatePreview(
+      template,
+      { certificateId, participantName, fieldValues, issuedDate, expiryDate },
+      { name: participantName, id: certificateId }
+    );
+    const image = await sharp(png)
+      .resize({ width: PREVIEW_MAX_WIDTH, withoutEnlargement: true })
+      .png()
+      .toBuffer();
+
+    res.json({
+      success: true,
+      data: {
+        image: `data:image/png;base64,${image.toString('base64')}`,
+        values: {
+          name: participantName,
+          id: certificateId,
+          issuedDate: isNaN(issuedDate.getTime()) ? '' : issuedDate.toISOString().split('T')[0],
+          expiryDate: isNaN(expiryDate.getTime()) ? '' : expiryDate.toISOString().split('T')[0],
+          ...fieldValues
+        },
+        warnings,
+        renderTime: Date.now() - startTime
+      }
+    });
+
+  } catch (error) {
+    console.error('Render template preview error:', error);
+
+    if (error.name === 'ValidationError') {
+      return res.status(400).json({
+        success: false,
+        message: Object.values(error.errors).map(err => err.message).join(', ')
+      });
+    }
+
+    res.status(500).json({
+      success: false,
+      message: 'Server error while rendering preview'
+    });
+  }
+});
+
 module.exports = router;
\ No newline at end of file
@@ -0,0 +1,254 @@
+const express = require('express');
+const path = require('path');
+const sharp = require('sharp');
+const mongoose = require('mongoose');
+const Admin = require('../models/Admin');
+const Certificate = require('../models/Certificate');
+const certificateGenerator = require('../services/certificateGenerator');
+const mailer = require('../services/mailer');
+const verifiableCredentials = require('../services/verifiableCredentials');
+
+const router = express.Router();
+
+// Width of the public thumbnail; large enough to read, too small to pass off as the original
+const THUMBNAIL_WIDTH = 600;
+
+const findCertificate = (certificateId) => {
+  return Certificate.findOne({
+    certificateId: String(certificateId).trim().toUpperCase()
+  });
+};
+
+// @route   GET /api/verify/issuers/:adminId
+// @desc    Issuer profile of exported credentials, with the public key that verifies them
+// @access  Public
+router.get('/issuers/:adminId', async (req, res) => {
+  try {
+    const admin = mongoose.isValidObjectId(req.params.adminId)
+      ? await Admin.findOne({ _id: req.params.adminId, isActive: true })
+      : null;
+
+    if (!admin) {
+      return res.status(404).json({
+        success: false,
+        message: 'Issuer not found'
+      });
+    }
+
+    res.setHeader('Content-Type', 'application/ld+json');
+    res.send(JSON.stringify(await verifiableCredentials.buildIssuerDocument(admin), null, 2));
+
+  } catch (error) {
+    console.error('Get issuer profile error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error while fetching issuer profile'
+    });
+  }
+});
+
+// @route   POST /api/verify/credential
+// @desc    Check the proof of an exported credential and the current state of its certificate
+// @access  Public
+router.post('/credential', async (req, res) => {
+  try {
+    const credential = req.body?.credential || req.body;
+    const result = await verifiableCredentials.verifyCredential(credential);
+
+    let certificate = null;
+    if (result.verified && result.certificateId) {
+      certificate = await findCertificate(result.certificateId)
+        .populate('renewalOf', 'certificateId')
+        .populate('renewedAs', 'certificateId');
+      // The signing key belongs to one admin; a certificate of another admin is not this credential's
+      if (certificate && String(certificate.createdBy) !== result.adminId) {
+        certificate = null;
+      }
+    }
+
+    const verification = certificate ? certificate.toVerificationJSON() : null;
+    const isValid = result.verified && !!verification?.isValid;
+
+    res.json({
+      success: true,
+      message: !result.verified
+        ? result.error
+        : !verification
+          ? 'Credential proof is valid but its certificate no longer exists'
+          : isValid
+            ? 'Credential is valid'
+            : verification.isRevoked
+              ? 'Credential proof is valid but the certificate has been revoked'
+              : verification.state === 'expired'
+                ? 'Credential proof is valid but the certificate has expired'
+                : 'Credential proof is valid but the certificate is not valid',
+      data: {
+        isValid,
+        proofVerified: result.verified,
+        error: result.error,
+        certificate: verification
+      }
+    });
+
+  } catch (error) {
+    console.error('Verify credential error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error while verifying credential'
+    });
+  }
+});
+
+// @route   GET /api/verify/:certificateId
+// @desc    Verify a certificate by its public ID
+// @access  Public
+router.get('/:certificateId', async (req, res) => {
+  try {
+    const certificate = await findCertificate(req.params.certificateId)
+      .populate('renewalOf', 'certificateId')
+      .populate('renewedAs', 'certificateId');
+
+    if (!certificate) {
+      return res.status(404).json({
+        success: false,
+        message: 'No certificate exists with this ID'
+      });
+    }
+
+    const verification = certificate.toVerificationJSON();
+
+    res.json({
+      success: true,
+      message: verification.isValid
+        ? 'Certificate is valid'
+        : verification.isRevoked
+          ? 'Certificate has been revoked'
+          : verification.state === 'expired' ? 'Certificate has expired' : 'Certificate is not valid',
+      data: {
+        certificate: verification
+      }
+    });
+
+  } catch (error) {
+    console.error('Verify certificate error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error while verifying certificate'
+    });
+  }
+});
+
+// @route   GET /api/verify/:certificateId/thumbnail
+// @desc    Serve a downscaled PNG preview of a certificate
+// @access  Public
+router.get('/:certificateId/thumbnail', async (req, res) => {
+  try {
+    const certificate = await findCertificate(req.params.certificateId);
+
+    // Deleted certificates are out of public view
+    if (!certificate || !certificate.isActive || certificate.status === 'archived' ||
+      !certificate.generatedFiles?.png?.filename) {
+      return res.status(404).json({
+        success: false,
+        message: 'Certificate preview not available'
+      });
+    }
+
+    if (certificate.getVerificationState() === 'revoked') {
+      return res.status(410).json({
+        success: false,
+        message: 'This certificate is no longer available'
+      });
+    }
+
+    const fileInfo = await certificateGenerator.getFileInfo(certificate.certificateId, 'png');
+    if (!fileInfo.exists) {
+      return res.status(404).json({
+        success: false,
+        message: 'Certificate preview not available'
+      });
+    }
+
+    const thumbnail = await sharp(fileInfo.path)
+      .resize({ width: THUMBNAIL_WIDTH, withoutEnlargement: true })
+      .png()
+      .toBuffer();
+
+    // The verification page is served from another origin
+    res.setHeader('Cross-Origin-Resource-Policy', 'cross-origin');
+    res.setHeader('Content-Type', 'image/png');
+    res.setHeader('Cache-Control', 'public, max-age=300');
+    res.send(thumbnail);
+
+  } catch (error) {
+    console.error('Verify thumbnail error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error while loading certificate preview'
+    });
+  }
+});
+
+// @route   GET /api/verify/:certificateId/download
+// @desc    Download a certificate PDF through the signed link sent by email
+// @access  Public (signed token)
+router.get('/:certificateId/download', async (req, res) => {
+  try {
+    let tokenCertificateId;
+    try {
+      tokenCertificateId = mailer.verifyDownloadToken(String(req.query.token || ''));
+    } catch {
+      return res.status(401).json({
+        success: false,
+        message: 'This download link is invalid or has expired'
+      });
+    }
+
+    const certificate = await findCertificate(req.params.certificateId);
+
+    if (!certificate || certificate.certificateId !== tokenCertificateId) {
+      return res.status(401).json({
+        success: false,
+        message: 'This download link is invalid or has expired'
+      });
+    }
+
+    if (certificate.getVerificationState() === 'revoked' || !certificate.isActive) {
+      return res.status(410).json({
+        success: false,
+        message: 'This certificate is no longer available'
+      });
+    }
+
+    if (certificate.getVerificationState() === 'expired') {
+      return res.status(410).json({
+        success: false,
+        message: 'This certificate has expired'
+      });
+    }
+
+    const fileInfo = await certificateGenerator.getFileInfo(certificate.certificateId, 'pdf');
+    if (certificate.status !== 'generated' || !fileInfo.exists) {
+      return res.status(404).json({
+        success: false,
+        message: 'Certificate file not available'
+      });
+    }
+
+    await certificate.incrementDownloadCount();
+
+    res.setHeader('Content-Type', 'application/pdf');
+    res.setHeader('Content-Disposition', `attachment; filename="${fileInfo.filename}"`);
+    res.setHeader('Content-Length', fileInfo.size);
+    res.sendFile(path.resolve(fileInfo.path));
+
+  } catch (error) {
+    console.error('Certificate link download error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error during certificate download'
+    });
+  }
+});
+
+module.exports = router;
@@ -0,0 +1,92 @@
+/**
+ * One-time migration: convert placeholder coordinates from the legacy 800px
+ * editor canvas to template coordinates (pixels of `template.dimensions`).
+ *
+ * Templates and certificate snapshots that already have a `coordinateSpace`
+ * are skipped, so the script is safe to run more than once.
+ *
+ * Usage: node scripts/migrate-placeholder-coordinates.js [--dry-run]
+ */
+require('dotenv').config();
+const mongoose = require('mongoose');
+const Template = require('../models/Template');
+const Certificate = require('../models/Certificate');
+
+const dryRun = process.argv.includes('--dry-run');
+
+const migrateTemplates = async () => {
+  const templates = await Template.find({ coordinateSpace: { $exists: false } });
+  let migrated = 0;
+
+  for (const template of templates) {
+    try {
+      template.migrateCoordinates();
+      console.log(`Template ${template._id} (${template.name}): scale ${Template.getLegacyScale(template.dimensions).toFixed(3)}`);
+
+      if (!dryRun) {
+        await Template.updateOne(
+          { _id: template._id },
+          { $set: { placeholders: template.placeholders, coordinateSpace: 'template' } },
+          { timestamps: false }
+        );
+      }
+      migrated++;
+    } catch (error) {
+      console.error(`Failed to migrate template ${template._id}:`, error.message);
+    }
+  }
+
+  return { found: templates.length, migrated };
+};
+
+const migrateCertificateSnapshots = async () => {
+  const certificates = await Certificate.find({
+    'templateSnapshot.placeholders.0': { $exists: true },
+    'templateSnapshot.coordinateSpace': { $exists: false }
+  }).select('certificateId templateSnapshot').lean();
+  let migrated = 0;
+
+  for (const certificate of certificates) {
+    try {
+      const snapshot = certificate.templateSnapshot;
+      const factor = Template.getLegacyScale(snapshot.dimensions);
+      const placeholders = snapshot.placeholders.map(p => Template.scalePlaceholder(p, factor));
+
+      if (!dryRun) {
+        await Certificate.updateOne(
+          { _id: certificate._id },
+          {
+            $set: {
+              'templateSnapshot.placeholders': placeholders,
+              'templateSnapshot.coordinateSpace': 'template'
+            }
+          },
+          { timestamps: false }
+        );
+      }
+      migrated++;
+    } catch (error) {
+      console.error(`Failed to migrate certificate ${certificate.certificateId}:`, error.message);
+    }
+  }
+
+  return { found: certificates.length, migrated };
+};
+
+const run = async () => {
+  await mongoose.connect(process.env.MONGODB_URI || 'mongodb://localhost:27017/certificate-generator');
+  console.log(`Migrating placeholder coordinates${dryRun ? ' (dry run)' : ''}...`);
+
+  const templates = await migrateTemplates();
+  const certificates = await migrateCertificateSnapshots();
+
+  console.log(`Templates: ${templates.migrated}/${templates.found} migrated`);
+  console.log(`Certificate snapshots: ${certificates.migrated}/${certificates.found} migrated`);
+};
+
+run()
+  .catch(error => {
+    console.error('Migration failed:', error);
+    process.exitCode = 1;
+  })
+  .finally(() => mongoose.disconnect());
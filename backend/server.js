@@ -5,11 +5,19 @@ const cors = require('cors');
 const helmet = require('helmet');
 const rateLimit = require('express-rate-limit');
 const websocketService = require('./services/websocketService');
+const jobQueue = require('./services/jobQueue');
+const renderPool = require('./services/renderPool');
+const expirySweep = require('./services/expirySweep');
 require('dotenv').config();
 
 const authRoutes = require('./routes/auth');
 const templateRoutes = require('./routes/template');
 const certificateRoutes = require('./routes/certificate');
+const verifyRoutes = require('./routes/verify');
+const fontRoutes = require('./routes/font');
+const imageRoutes = require('./routes/image');
+const emailTemplateRoutes = require('./routes/emailTemplate');
+const jobRoutes = require('./routes/jobs');
 
 const app = express();
 const PORT = process.env.PORT || 5000;
@@ -57,10 +65,27 @@ const uploadLimiter = rateLimit({
   legacyHeaders: false,
 });
 
+// Public verification rate limiting (discourages certificate ID enumeration)
+const verifyLimiter = rateLimit({
+  windowMs: 15 * 60 * 1000, // 15 minutes
+  max: 100, // 100 lookups per 15 minutes
+  message: {
+    success: false,
+    message: 'Too many verification requests, please try again later.',
+    retryAfter: '15 minutes'
+  },
+  standardHeaders: true,
+  legacyHeaders: false,
+});
+
 app.use(generalLimiter);
 app.use('/api/auth/login', authLimiter);
 app.use('/api/template/upload', uploadLimiter);
 app.use('/api/certificate/create', uploadLimiter);
+app.use('/api/certificate/batch', uploadLimiter);
+app.use('/api/font/upload', uploadLimiter);
+app.use('/api/image/upload', uploadLimiter);
+app.use('/api/verify', verifyLimiter);
 
 // CORS configuration
 // CORS configuration for production
@@ -116,7 +141,14 @@ mongoose.connect(process.env.MONGODB_URI || 'mongodb://localhost:27017/certifica
   useNewUrlParser: true,
   useUnifiedTopology: true,
 })
-.then(() => console.log('✅ MongoDB connected successfully'))
+.then(() => {
+  console.log('✅ MongoDB connected successfully');
+  // Background workers run in the API process unless disabled, e.g. on web-only replicas
+  if (process.env.JOB_WORKER_ENABLED !== 'false') {
+    jobQueue.start();
+    expirySweep.start();
+  }
+})
 .catch((err) => console.error('❌ MongoDB connection error:', err));
 
 // Global request logging
@@ -136,6 +168,11 @@ app.use((req, res, next) => {
 app.use('/api/auth', authRoutes);
 app.use('/api/template', templateRoutes);
 app.use('/api/certificate', certificateRoutes);
+app.use('/api/verify', verifyRoutes);
+app.use('/api/font', fontRoutes);
+app.use('/api/image', imageRoutes);
+app.use('/api/email-template', emailTemplateRoutes);
+app.use('/api/jobs', jobRoutes);
 
 // Health check endpoint
 app.get('/api/health', (req, res) => {
@@ -167,6 +204,9 @@ app.use('*', (req, res) => {
 // Graceful shutdown
 process.on('SIGTERM', () => {
   console.log('SIGTERM received, shutting down gracefully');
+  jobQueue.stop();
+  expirySweep.stop();
+  renderPool.close();
   mongoose.connection.close(() => {
     console.log('MongoDB connection closed');
     process.exit(0);
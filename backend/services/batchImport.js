@@ -0,0 +1,221 @@
+const { parse } = require('csv-parse/sync');
+const { PARTICIPANT_NAME_MESSAGE, normalizeParticipantName, isValidParticipantName } = require('../models/participantName');
+
+// Certificate fields a CSV column can be mapped onto
+const MAPPABLE_FIELDS = ['participantName', 'recipientEmail', 'tags', 'notes', 'issuedDate', 'expiryDate'];
+
+// Header names we recognise when guessing the column mapping
+const FIELD_ALIASES = {
+  participantName: ['participantname', 'participant', 'name', 'fullname', 'attendee', 'recipient'],
+  recipientEmail: ['recipientemail', 'email', 'emailaddress', 'mail'],
+  tags: ['tags', 'tag', 'labels'],
+  notes: ['notes', 'note', 'comments', 'comment'],
+  issuedDate: ['issueddate', 'issued', 'issuedate', 'date'],
+  expiryDate: ['expirydate', 'expiry', 'expires', 'expirationdate']
+};
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+class BatchImportService {
+  constructor() {
+    this.maxRows = parseInt(process.env.BATCH_MAX_ROWS) || 1000;
+  }
+
+  /**
+   * Parse an uploaded CSV buffer into headers and row objects
+   * @param {Buffer|string} input - Raw CSV content
+   * @returns {Object} { headers, rows, lines } where lines[i] is the 1-based CSV line row i starts on
+   */
+  parseCsv(input) {
+    let records;
+    try {
+      // Line endings are unified so line numbers count the same for CRLF, CR and LF files
+      records = parse(String(input).replace(/\r\n?/g, '\n'), {
+        bom: true,
+        skip_empty_lines: true,
+        trim: true,
+        relax_column_count: true,
+        info: true
+      });
+    } catch (error) {
+      throw new Error(`Could not parse CSV file: ${error.message}`);
+    }
+
+    if (records.length === 0) {
+      throw new Error('CSV file is empty');
+    }
+
+    // A record starts on the line after the previous one ended, past any blank lines
+    // skipped in between; quoted fields can span several lines
+    const lines = records.map(({ info }, index) => {
+      const previous = records[index - 1]?.info;
+      return previous
+        ? previous.lines + 1 + (info.empty_lines - previous.empty_lines)
+        : 1 + info.empty_lines;
+    });
+
+    const headers = records[0].record.map(header => String(header));
+    if (headers.some(header => !header)) {
+      throw new Error('CSV header row contains an empty column name');
+    }
+    if (new Set(headers).size !== headers.length) {
+      throw new Error('CSV header row contains duplicate column names');
+    }
+
+    const rows = records.slice(1).map(({ record }) => {
+      const row = {};
+      headers.forEach((header, index) => {
+        row[header] = record[index] !== undefined ? String(record[index]) : '';
+      });
+      return row;
+    });
+
+    if (rows.length === 0) {
+      throw new Error('CSV file has a header row but no participants');
+    }
+    if (rows.length > this.maxRows) {
+      throw new Error(`CSV file has ${rows.length} rows; the maximum per batch is ${this.maxRows}`);
+    }
+
+    return { headers, rows, lines: lines.slice(1) };
+  }
+
+  /**
+   * Merge a client supplied column mapping with guesses based on header names.
+   * Custom columns are mapped under `fields`, keyed by the template field they fill.
+   * @param {Array} templateFields - Field definitions of the target template
+   */
+  resolveMapping(headers, requested = {}, templateFields = []) {
+    const normalize = value => String(value).toLowerCase().replace(/[^a-z0-9]/g, '');
+    const mapping = { fields: {} };
+
+    MAPPABLE_FIELDS.forEach(field => {
+      if (requested[field] !== undefined) {
+        mapping[field] = requested[field] || null;
+        return;
+      }
+      const guess = headers.find(header => FIELD_ALIASES[field].includes(normalize(header)));
+      mapping[field] = guess || null;
+    });
+
+    if (requested.fields && typeof requested.fields === 'object') {
+      Object.entries(requested.fields).forEach(([key, column]) => {
+        if (key && column) {
+          mapping.fields[key] = column;
+        }
+      });
+    } else {
+      templateFields.forEach(field => {
+        const guess = headers.find(header =>
+          [normalize(field.key), normalize(field.label)].includes(normalize(header))
+        );
+        if (guess) {
+          mapping.fields[field.key] = guess;
+        }
+      });
+    }
+
+    return mapping;
+  }
+
+  /**
+   * Check that every column referenced by the mapping exists in the CSV
+   */
+  validateMapping(headers, mapping) {
+    const errors = [];
+
+    if (!mapping.participantName) {
+      errors.push('A column must be mapped to the participant name');
+    }
+
+    const referenced = [
+      ...MAPPABLE_FIELDS.map(field => mapping[field]),
+      ...Object.values(mapping.fields)
+    ].filter(Boolean);
+
+    referenced.forEach(column => {
+      if (!headers.includes(column)) {
+        errors.push(`Mapped column "${column}" does not exist in the CSV file`);
+      }
+    });
+
+    return errors;
+  }
+
+  /**
+   * Convert CSV rows into certificate entries, collecting every validation error
+   * @param {Array} [lines] - CSV line each row starts on, as returned by parseCsv
+   * @returns {Object} { entries, errors } where errors carry 1-based CSV line numbers
+   */
+  validateRows(rows, mapping, lines = []) {
+    const entries = [];
+    const errors = [];
+
+    rows.forEach((row, index) => {
+      // Without line numbers, assume the header is line 1 and one row per line after it
+      const line = lines[index] || index + 2;
+      const rowErrors = [];
+      const value = field => (mapping[field] ? (row[mapping[field]] || '').trim() : '');
+
+      const participantName = normalizeParticipantName(value('participantName'));
+      if (!participantName) {
+        rowErrors.push('Participant name is required');
+      } else if (participantName.length < 2 || participantName.length > 100) {
+        rowErrors.push('Participant name must be between 2 and 100 characters');
+      } else if (!isValidParticipantName(participantName)) {
+        rowErrors.push(PARTICIPANT_NAME_MESSAGE);
+      }
+
+      const recipientEmail = value('recipientEmail').toLowerCase();
+      if (recipientEmail && (recipientEmail.length > 254 || !EMAIL_PATTERN.test(recipientEmail))) {
+        rowErrors.push(`Recipient email "${recipientEmail}" is not a valid email address`);
+      }
+
+      const tags = value('tags')
+        .split(/[;|]/)
+        .map(tag => tag.trim())
+        .filter(Boolean);
+      if (tags.some(tag => tag.length > 30)) {
+        rowErrors.push('Tags cannot exceed 30 characters');
+      }
+
+      const notes = value('notes');
+      if (notes.length > 1000) {
+        rowErrors.push('Notes cannot exceed 1000 characters');
+      }
+
+      const parseDate = (field, label) => {
+        const raw = value(field);
+        if (!raw) return undefined;
+        const date = new Date(raw);
+        if (isNaN(date.getTime())) {
+          rowErrors.push(`${label} "${raw}" is not a valid date`);
+          return undefined;
+        }
+        return date;
+      };
+      const issuedDate = parseDate('issuedDate', 'Issued date');
+      const expiryDate = parseDate('expiryDate', 'Expiry date');
+      // Certificates without an issued date are issued today; compared as calendar days
+      if (expiryDate && expiryDate.toISOString().slice(0, 10) < (issuedDate || new Date()).toISOString().slice(0, 10)) {
+        rowErrors.push('Expiry date cannot be before the issued date');
+      }
+
+      const fields = {};
+      Object.entries(mapping.fields).forEach(([key, column]) => {
+        fields[key] = (row[column] || '').trim();
+      });
+
+      if (rowErrors.length > 0) {
+        errors.push({ line, participantName, messages: rowErrors });
+        return;
+      }
+
+      entries.push({ line, participantName, recipientEmail: recipientEmail || undefined, tags, notes, issuedDate, expiryDate, fields });
+    });
+
+    return { entries, errors };
+  }
+}
+
+module.exports = new BatchImportService();
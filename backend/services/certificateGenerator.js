@@ -1,14 +1,25 @@
 const PDFDocument = require('pdfkit');
 const { createCanvas, loadImage, registerFont } = require('canvas');
 const sharp = require('sharp');
+const QRCode = require('qrcode');
 const fs = require('fs').promises;
 const fsSync = require('fs');
 const path = require('path');
+const fontLibrary = require('./fontLibrary');
+const imageLibrary = require('./imageLibrary');
+const scriptFonts = require('./scriptFonts');
+const pdfTemplate = require('./pdfTemplate');
+const renderPool = require('./renderPool');
+const Template = require('../models/Template');
+const { formatDate } = require('../models/dateFormat');
 
 class CertificateGenerator {
   constructor() {
     this.outputDir = path.join(__dirname, '../generated');
     this.fontMap = this.initializeFontMap();
+    // Decoded template backgrounds, keyed by template filename and updatedAt
+    this.templateImageCache = new Map();
+    this.templateImageCacheSize = parseInt(process.env.RENDER_CACHE_SIZE) || 10;
     this.ensureOutputDir();
   }
 
@@ -167,6 +178,362 @@ class CertificateGenerator {
     return this.fontMap[type][fontFamily] || (type === 'pdf' ? 'Helvetica' : 'Arial');
   }
 
+  /**
+   * Pick the PDFKit standard font variant for a weight and style.
+   * Weights of 600 and above use the bold face.
+   */
+  getStandardPdfFont(baseFont, fontWeight = 'normal', fontStyle = 'normal') {
+    const bold = this.getNumericWeight(fontWeight) >= 600;
+    const italic = fontStyle === 'italic' || fontStyle === 'oblique';
+    const family = baseFont.split('-')[0];
+
+    if (family === 'Times') {
+      if (bold && italic) return 'Times-BoldItalic';
+      if (bold) return 'Times-Bold';
+      if (italic) return 'Times-Italic';
+      return 'Times-Roman';
+    }
+
+    // Helvetica and Courier share the same variant naming
+    if (bold && italic) return `${family}-BoldOblique`;
+    if (bold) return `${family}-Bold`;
+    if (italic) return `${family}-Oblique`;
+    return family;
+  }
+
+  getNumericWeight(fontWeight) {
+    if (!fontWeight || fontWeight === 'normal') return 400;
+    if (fontWeight === 'bold') return 700;
+    return parseInt(fontWeight, 10) || 400;
+  }
+
+  /**
+   * Shared text layout used by both PNG and PDF output so the formats cannot drift.
+   *
+   * The placeholder's (x, y) is the anchor: the top-left corner of its text box and
+   * the point rotation turns around. With a `width` the text is aligned inside that
+   * box; without one, alignment is relative to the anchor itself. The overflow mode
+   * decides what happens when the text is wider than the box.
+   *
+   * @param {Object} placeholder - Placeholder definition in template coordinates
+   * @param {string} value - Text to draw
+   * @param {Function} measure - (text, fontSize) => width in output pixels
+   * @param {number} scaleX - Horizontal template-to-output scale
+   * @param {number} scaleY - Vertical template-to-output scale
+   * @returns {Object} { anchorX, anchorY, rotation, fontSize, lines } where each line
+   *   has its text and the offset of its top-left corner from the anchor
+   */
+  layoutText(placeholder, value, measure, scaleX, scaleY) {
+    const boxWidth = placeholder.width ? placeholder.width * scaleX : 0;
+    const boxHeight = placeholder.height ? placeholder.height * scaleY : 0;
+    const lineHeight = placeholder.lineHeight || 1.2;
+    const maxFontSize = (placeholder.fontSize || 24) * scaleX;
+    const minFontSize = Math.min((placeholder.minFontSize || 8) * scaleX, maxFontSize);
+    const overflow = boxWidth ? placeholder.overflow || 'none' : 'none';
+
+    let fontSize = maxFontSize;
+    let lines = [value];
+
+    if (overflow === 'shrink') {
+      fontSize = this.shrinkToFit(fontSize, minFontSize, size => measure(value, size) <= boxWidth);
+      if (measure(value, fontSize) > boxWidth) {
+        lines = [this.truncateWithEllipsis(value, boxWidth, text => measure(text, fontSize))];
+      }
+    } else if (overflow === 'wrap') {
+      const fits = size => {
+        const wrapped = this.wrapText(value, boxWidth, text => measure(text, size));
+        return !boxHeight || wrapped.length * size * lineHeight <= boxHeight;
+      };
+      fontSize = this.shrinkToFit(fontSize, minFontSize, fits);
+      lines = this.wrapText(value, boxWidth, text => measure(text, fontSize));
+
+      // Still too tall at the minimum size: keep what fits and mark the cut
+      if (boxHeight && lines.length * fontSize * lineHeight > boxHeight) {
+        const maxLines = Math.max(1, Math.floor(boxHeight / (fontSize * lineHeight)));
+        const kept = lines.slice(0, maxLines);
+        kept[maxLines - 1] = this.truncateWithEllipsis(
+          `${kept[maxLines - 1]}\u2026`, boxWidth, text => measure(text, fontSize)
+        );
+        lines = kept;
+      }
+    } else if (overflow === 'ellipsis') {
+      lines = [this.truncateWithEllipsis(value, boxWidth, text => measure(text, fontSize))];
+    }
+
+    const align = placeholder.textAlign || 'left';
+    return {
+      anchorX: placeholder.x * scaleX,
+      anchorY: placeholder.y * scaleY,
+      rotation: placeholder.rotation || 0,
+      fontSize,
+      lines: lines.map((text, index) => {
+        const textWidth = measure(text, fontSize);
+        let offsetX = 0;
+        if (align === 'center') {
+          offsetX = boxWidth ? (boxWidth - textWidth) / 2 : -textWidth / 2;
+        } else if (align === 'right') {
+          offsetX = boxWidth ? boxWidth - textWidth : -textWidth;
+        }
+        return { text, offsetX, offsetY: index * fontSize * lineHeight };
+      })
+    };
+  }
+
+  /**
+   * Largest font size between min and max for which `fits` holds, to half a pixel
+   */
+  shrinkToFit(maxSize, minSize, fits) {
+    if (fits(maxSize)) return maxSize;
+    if (!fits(minSize)) return minSize;
+
+    let low = minSize;
+    let high = maxSize;
+    while (high - low > 0.5) {
+      const mid = (low + high) / 2;
+      if (fits(mid)) {
+        low = mid;
+      } else {
+        high = mid;
+      }
+    }
+    return low;
+  }
+
+  /**
+   * Break text into lines no wider than maxWidth, splitting words only when a
+   * single word is wider than the box
+   */
+  wrapText(text, maxWidth, measure) {
+    const lines = [];
+    let current = '';
+
+    text.split(/\s+/).filter(Boolean).forEach(word => {
+      const candidate = current ? `${current} ${word}` : word;
+      if (measure(candidate) <= maxWidth) {
+        current = candidate;
+        return;
+      }
+      if (current) {
+        lines.push(current);
+      }
+      // Hard-break words that cannot fit on a line of their own
+      current = '';
+      for (const char of word) {
+        if (current && measure(current + char) > maxWidth) {
+          lines.push(current);
+          current = '';
+        }
+        current += char;
+      }
+    });
+
+    if (current) {
+      lines.push(current);
+    }
+    return lines.length > 0 ? lines : [''];
+  }
+
+  /**
+   * Shorten text with a trailing ellipsis until it fits maxWidth
+   */
+  truncateWithEllipsis(text, maxWidth, measure) {
+    if (measure(text) <= maxWidth) return text;
+
+    const ellipsis = '\u2026';
+    const chars = Array.from(text.replace(/\u2026$/, ''));
+    let low = 0;
+    let high = chars.length;
+    while (low < high) {
+      const mid = Math.ceil((low + high) / 2);
+      if (measure(chars.slice(0, mid).join('').trimEnd() + ellipsis) <= maxWidth) {
+        low = mid;
+      } else {
+        high = mid - 1;
+      }
+    }
+    return chars.slice(0, low).join('').trimEnd() + ellipsis;
+  }
+
+  /**
+   * Shared image layout for PNG and PDF output. Like text, the placeholder's (x, y)
+   * is the top-left corner of its box and the point rotation turns around.
+   *
+   * `contain` fits the whole image inside the box, `cover` fills the box and crops
+   * the overflow (the caller clips to `box`), and `stretch` fills the box exactly.
+   *
+   * @param {Object} placeholder - Image placeholder in template coordinates
+   * @param {Object} image - { width, height } of the image file
+   * @returns {Object} { anchorX, anchorY, rotation, opacity, box, draw } where box and
+   *   draw are { x, y, width, height } rectangles relative to the anchor
+   */
+  layoutImage(placeholder, image, scaleX, scaleY) {
+    const boxWidth = (placeholder.width || 120) * scaleX;
+    const boxHeight = (placeholder.height || placeholder.width || 120) * scaleY;
+    const fit = placeholder.fit || 'contain';
+
+    let width = boxWidth;
+    let height = boxHeight;
+    if (fit !== 'stretch') {
+      const ratio = fit === 'cover'
+        ? Math.max(boxWidth / image.width, boxHeight / image.height)
+        : Math.min(boxWidth / image.width, boxHeight / image.height);
+      width = image.width * ratio;
+      height = image.height * ratio;
+    }
+
+    return {
+      anchorX: placeholder.x * scaleX,
+      anchorY: placeholder.y * scaleY,
+      rotation: placeholder.rotation || 0,
+      opacity: placeholder.opacity ?? 1,
+      box: { x: 0, y: 0, width: boxWidth, height: boxHeight },
+      // Centered in the box, so contain letterboxes and cover crops evenly
+      draw: { x: (boxWidth - width) / 2, y: (boxHeight - height) / 2, width, height }
+    };
+  }
+
+  /**
+   * List the text placeholders whose font is neither uploaded nor built in,
+   * so the certificate records that it was rendered with a substitute
+   */
+  getFontWarnings(template, fontsByFamily) {
+    const missing = new Set();
+    template.placeholders
+      .filter(p => !['qr', 'image'].includes(p.type))
+      .forEach(p => {
+        const family = p.fontFamily || 'Arial';
+        if (!fontsByFamily.has(family) && !fontLibrary.isBuiltIn(family)) {
+          missing.add(family);
+        }
+      });
+
+    return [...missing].map(family =>
+      `Font "${family}" is not in the font library; rendered with ${this.getSystemFont(family, 'canvas')} (PNG) and ${this.getSystemFont(family, 'pdf')} (PDF)`
+    );
+  }
+
+  /**
+   * List the scripts in a certificate's text that neither the placeholder's font nor
+   * any installed fallback font covers, so missing glyphs are recorded instead of
+   * silently drawn as boxes
+   */
+  getScriptWarnings(certificate, template, placeholderValues, fontsByFamily) {
+    const warnings = new Set();
+    template.placeholders
+      .filter(p => !['qr', 'image'].includes(p.type))
+      .forEach(p => {
+        const value = this.getPlaceholderValue(certificate, template, p, placeholderValues);
+        if (!value) return;
+
+        scriptFonts.getUncoveredScripts(value, this.getPdfFont(p, fontsByFamily), p.fontWeight).forEach(script => {
+          warnings.add(`No installed font covers the ${script} text of the "${p.fieldKey || p.type}" placeholder; some characters may not render`);
+        });
+      });
+    return [...warnings];
+  }
+
+  /**
+   * List the image placeholders whose image is missing, deleted or belongs to another
+   * admin, so the certificate records that it was rendered without them
+   */
+  getImageWarnings(certificate, template, placeholderValues, imagesById) {
+    const warnings = [];
+    template.placeholders
+      .filter(p => p.type === 'image')
+      .forEach(p => {
+        const id = imageLibrary.getImageAssetId(certificate, p, placeholderValues);
+        const label = p.fieldKey ? `"${p.fieldKey}" image` : 'image';
+        if (!id) {
+          warnings.push(`No image was supplied for the ${label} placeholder; it was left out`);
+        } else if (!imagesById.has(id)) {
+          warnings.push(`Image ${id} of the ${label} placeholder is not in the image library; it was left out`);
+        }
+      });
+    return warnings;
+  }
+
+  /**
+   * Build the verification URL a QR placeholder encodes for a certificate
+   * @param {string} certificateId - Public certificate ID
+   * @param {string} urlTemplate - Optional per-placeholder template containing {certificateId}
+   */
+  getVerificationUrl(certificateId, urlTemplate) {
+    const template = urlTemplate ||
+      process.env.VERIFICATION_URL_TEMPLATE ||
+      `${process.env.FRONTEND_URL || 'http://localhost:3000'}/verify/{certificateId}`;
+    return template.replace(/\{certificateId\}/g, encodeURIComponent(certificateId));
+  }
+
+  /**
+   * Render a QR code for a placeholder as a PNG buffer of the given pixel size
+   */
+  async renderQRCode(certificate, placeholder, size) {
+    const url = this.getVerificationUrl(certificate.certificateId, placeholder.qrUrlTemplate);
+    return QRCode.toBuffer(url, {
+      type: 'png',
+      errorCorrectionLevel: 'M',
+      margin: 1,
+      width: Math.max(Math.round(size), 21),
+      color: {
+        dark: placeholder.color || '#000000',
+        light: '#ffffff'
+      }
+    });
+  }
+
+  /**
+   * Resolve the text a placeholder displays. Custom field placeholders read the
+   * values stored on the certificate, date placeholders format the certificate's
+   * dates; other built-in types use the supplied values.
+   */
+  getPlaceholderValue(certificate, template, placeholder, placeholderValues) {
+    const dateOptions = { pattern: placeholder.dateFormat, locale: placeholder.locale };
+    if (placeholder.type === 'issuedDate' || placeholder.type === 'expiryDate') {
+      return formatDate(certificate[placeholder.type], dateOptions).normalize('NFC');
+    }
+
+    if (placeholder.type !== 'field') {
+      return (placeholderValues[placeholder.type] || '').normalize('NFC');
+    }
+
+    const value = certificate.fieldValues?.[placeholder.fieldKey] ?? placeholderValues[placeholder.fieldKey];
+    if (!value) {
+      return '';
+    }
+
+    const field = (template.fields || []).find(f => f.key === placeholder.fieldKey);
+    if (field?.dataType === 'date') {
+      const formatted = formatDate(value, dateOptions);
+      if (formatted) {
+        return formatted.normalize('NFC');
+      }
+    }
+
+    // Composed form, so accented letters match the precomposed glyphs fonts carry
+    return String(value).normalize('NFC');
+  }
+
+  /**
+   * Scale from the template's placeholder coordinates to the rendered image.
+   * Placeholders are stored relative to `template.dimensions`, so this only
+   * depends on the template itself, never on how a browser displayed it.
+   */
+  getCoordinateScale(template, imageWidth, imageHeight) {
+    const dimensions = template.dimensions?.width && template.dimensions?.height
+      ? template.dimensions
+      : { width: imageWidth, height: imageHeight };
+    const scaleX = imageWidth / dimensions.width;
+    const scaleY = imageHeight / dimensions.height;
+
+    if (template.coordinateSpace === 'template') {
+      return { scaleX, scaleY };
+    }
+
+    // Not migrated yet: placeholders were positioned on the fixed-width editor canvas
+    const legacyScale = scaleX * Template.getLegacyScale(dimensions);
+    return { scaleX: legacyScale, scaleY: legacyScale };
+  }
+
   async ensureOutputDir() {
     try {
       await fs.access(this.outputDir);
@@ -175,6 +542,38 @@ class CertificateGenerator {
     }
   }
 
+  /**
+   * Decode a template's background image, reusing the decode for later certificates.
+   * A template saved again gets a new key, so replaced files are picked up.
+   * @returns {Object} { image, buffer, cacheHit }
+   */
+  async getTemplateImage(template, templateImagePath) {
+    const key = `${template.filename}:${template.updatedAt ? new Date(template.updatedAt).getTime() : 0}`;
+    const cached = this.templateImageCache.get(key);
+    if (cached) {
+      // Re-insert to keep the map ordered from least to most recently used
+      this.templateImageCache.delete(key);
+      this.templateImageCache.set(key, cached);
+      return { ...cached, cacheHit: true };
+    }
+
+    const buffer = await fs.readFile(templateImagePath);
+    const entry = { image: await loadImage(buffer), buffer };
+
+    // Older versions of the same template will not be rendered again
+    for (const cachedKey of this.templateImageCache.keys()) {
+      if (cachedKey.startsWith(`${template.filename}:`)) {
+        this.templateImageCache.delete(cachedKey);
+      }
+    }
+    this.templateImageCache.set(key, entry);
+    while (this.templateImageCache.size > this.templateImageCacheSize) {
+      this.templateImageCache.delete(this.templateImageCache.keys().next().value);
+    }
+
+    return { ...entry, cacheHit: false };
+  }
+
   /**
    * Generate certificate in both PDF and PNG formats
    * @param {Object} certificate - Certificate data
@@ -182,17 +581,30 @@ class CertificateGenerator {
    * @param {Object} placeholderValues - Values to replace placeholders
    * @returns {Object} Generated file paths
    */
-  async generateCertificate(certificate, template, placeholderValues, containerDimensions) {
+  async generateCertificate(certificate, template, placeholderValues) {
     try {
-      const templateImagePath = path.join(__dirname, '../uploads', template.filename);
+      const templateFilePath = path.join(__dirname, '../uploads', template.filename);
       
-      // Generate PNG first
-       const pngPath = await this.generatePNG(certificate, template, placeholderValues, templateImagePath, containerDimensions);
+      // PNG output draws on a rasterized copy of a PDF template's first page
+      const templateImagePath = pdfTemplate.isPdf(template)
+        ? await pdfTemplate.ensureRaster(templateFilePath)
+        : templateFilePath;
       
-      // Generate PDF with direct text overlay
-      const pdfPath = await this.generatePDF(certificate, template, placeholderValues, templateImagePath, containerDimensions);
+      // Resolve uploaded fonts once for both formats
+      const fontsByFamily = await fontLibrary.loadTemplateFonts(template);
+      const imagesById = await imageLibrary.loadPlaceholderImages(template, certificate, placeholderValues);
+      const warnings = [
+        ...this.getFontWarnings(template, fontsByFamily),
+        ...this.getScriptWarnings(certificate, template, placeholderValues, fontsByFamily),
+        ...this.getImageWarnings(certificate, template, placeholderValues, imagesById)
+      ];
+      warnings.forEach(warning => console.warn(`${certificate.certificateId}: ${warning}`));
+      
+      const task = { certificate, template, placeholderValues, templateFilePath, templateImagePath, fontsByFamily, imagesById };
+      const { pngPath, pdfPath } = await renderPool.render(task, () => this.renderFiles(task));
       
       return {
+        warnings,
         pdf: {
           path: pdfPath,
           filename: `${certificate.certificateId}.pdf`,
@@ -210,70 +622,99 @@ class CertificateGenerator {
     }
   }
 
+  /**
+   * Render the PNG and PDF files of a certificate from one decode of the template
+   * background. Runs in a render worker, or in-process when the pool is disabled.
+   * @returns {Object} { pngPath, pdfPath, cacheHit }
+   */
+  async renderFiles({ certificate, template, placeholderValues, templateFilePath, templateImagePath, fontsByFamily, imagesById }) {
+    const { image, buffer, cacheHit } = await this.getTemplateImage(template, templateImagePath);
+    
+    // Generate PNG first
+    const pngPath = await this.generatePNG(certificate, template, placeholderValues, image, fontsByFamily, imagesById);
+    
+    // Generate PDF with direct text overlay; PDF templates keep their original vector page
+    const pdfPath = pdfTemplate.isPdf(template)
+      ? await this.generatePDFFromTemplatePDF(certificate, template, placeholderValues, templateFilePath, fontsByFamily, imagesById)
+      : await this.generatePDF(certificate, template, placeholderValues, image, buffer, fontsByFamily, imagesById);
+    
+    return { pngPath, pdfPath, cacheHit };
+  }
+
+  /**
+   * Render a watermarked PNG of a template filled with sample values, without
+   * issuing a certificate or writing any files
+   * @param {Object} template - Template data, possibly with unsaved layout changes
+   * @param {Object} certificate - Sample certificate data (certificateId, participantName, fieldValues)
+   * @param {Object} placeholderValues - Values for the built-in placeholders
+   * @returns {Object} { png, warnings }
+   */
+  async generatePreview(template, certificate, placeholderValues) {
+    const templateFilePath = path.join(__dirname, '../uploads', template.filename);
+    const templateImagePath = pdfTemplate.isPdf(template)
+      ? await pdfTemplate.ensureRaster(templateFilePath)
+      : templateFilePath;
+
+    const fontsByFamily = await fontLibrary.loadTemplateFonts(template);
+    const imagesById = await imageLibrary.loadPlaceholderImages(template, certificate, placeholderValues);
+    const warnings = [
+      ...this.getFontWarnings(template, fontsByFamily),
+      ...this.getScriptWarnings(certificate, template, placeholderValues, fontsByFamily),
+      ...this.getImageWarnings(certificate, template, placeholderValues, imagesById)
+    ];
+
+    const task = { certificate, template, placeholderValues, templateFilePath, templateImagePath, fontsByFamily, imagesById };
+    const { png } = await renderPool.render(task, () => this.renderPreview(task), 'preview');
+
+    // Buffers posted back from a worker arrive as plain Uint8Arrays
+    return { png: Buffer.from(png), warnings };
+  }
+
+  /**
+   * Draw the preview PNG. Runs in a render worker, or in-process when the pool is disabled.
+   * @returns {Object} { png, cacheHit }
+   */
+  async renderPreview({ certificate, template, placeholderValues, templateImagePath, fontsByFamily, imagesById }) {
+    const { image, cacheHit } = await this.getTemplateImage(template, templateImagePath);
+    const canvas = await this.drawPNG(certificate, template, placeholderValues, image, fontsByFamily, imagesById);
+    this.drawWatermark(canvas, 'PREVIEW');
+    return { png: canvas.toBuffer('image/png'), cacheHit };
+  }
+
+  /**
+   * Tile diagonal text across a canvas so a preview can't pass for an issued certificate
+   */
+  drawWatermark(canvas, text) {
+    const ctx = canvas.getContext('2d');
+    const fontSize = Math.max(24, Math.round(Math.min(canvas.width, canvas.height) / 8));
+
+    ctx.save();
+    ctx.font = `bold ${fontSize}px Arial`;
+    ctx.fillStyle = 'rgba(220, 38, 38, 0.25)';
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'middle';
+    ctx.translate(canvas.width / 2, canvas.height / 2);
+    ctx.rotate(-Math.PI / 6);
+
+    // Cover the whole canvas whatever the rotation, offsetting alternate rows
+    const stepX = ctx.measureText(text).width + fontSize * 2;
+    const stepY = fontSize * 3;
+    const reach = Math.hypot(canvas.width, canvas.height) / 2;
+    for (let row = 0, y = -reach; y <= reach; row++, y += stepY) {
+      const offset = row % 2 === 0 ? 0 : stepX / 2;
+      for (let x = -reach; x <= reach + stepX; x += stepX) {
+        ctx.fillText(text, x - offset, y);
+      }
+    }
+    ctx.restore();
+  }
+
   /**
    * Generate PNG certificate with overlaid text
    */
-  async generatePNG(certificate, template, placeholderValues, templateImagePath, containerDimensions) {
+  async generatePNG(certificate, template, placeholderValues, templateImage, fontsByFamily = new Map(), imagesById = new Map()) {
     try {
-      // Load the template image
-      const templateImage = await loadImage(templateImagePath);
-      
-      // Create canvas with template dimensions
-      const canvas = createCanvas(templateImage.width, templateImage.height);
-      const ctx = canvas.getContext('2d');
-      
-      // Draw the template image
-      ctx.drawImage(templateImage, 0, 0);
-      
-      // Calculate scaling factors using actual frontend container dimensions
-      const actualWidth = templateImage.width;
-      const actualHeight = templateImage.height;
-      
-      // Use actual frontend container dimensions if provided, otherwise fallback
-      const frontendDisplayWidth = containerDimensions?.width || 800;
-      const frontendDisplayHeight = containerDimensions?.height || (frontendDisplayWidth * actualHeight / actualWidth);
-      
-      // Scale factor to convert frontend coordinates to actual image coordinates
-      const scaleX = actualWidth / frontendDisplayWidth;
-      const scaleY = actualHeight / frontendDisplayHeight;
-      
-      console.log('=== PNG Generation Debug Info ===');
-      console.log('Template dimensions:', { actualWidth, actualHeight });
-      console.log('Container dimensions from frontend:', containerDimensions);
-      console.log('Frontend display size:', { frontendDisplayWidth, frontendDisplayHeight });
-      console.log('Scale factors:', { scaleX, scaleY });
-      
-      // Overlay placeholder text
-        template.placeholders.forEach((placeholder, index) => {
-          const value = placeholderValues[placeholder.type] || '';
-          if (value) {
-            // Scale the coordinates from frontend to actual image size
-            const scaledX = placeholder.x * scaleX;
-            const scaledY = placeholder.y * scaleY;
-            const scaledFontSize = (placeholder.fontSize || 24) * scaleX;
-            
-            console.log(`Placeholder ${index} (${placeholder.type}):`);
-            console.log('  Original coords:', { x: placeholder.x, y: placeholder.y });
-            console.log('  Scaled coords:', { x: scaledX, y: scaledY });
-            console.log('  Original font size:', placeholder.fontSize || 24);
-            console.log('  Scaled font size:', scaledFontSize);
-            console.log('  Value:', value);
-            
-            // Set font properties
-            const fontFamily = placeholder.fontFamily || 'Arial';
-            const systemFont = this.getSystemFont(fontFamily, 'canvas');
-            const fontWeight = placeholder.fontWeight || 'normal';
-            
-            console.log(`  Font mapping: ${fontFamily} -> ${systemFont}`);
-            ctx.font = `${fontWeight} ${scaledFontSize}px ${systemFont}`;
-            ctx.fillStyle = placeholder.color || '#000000';
-            ctx.textAlign = placeholder.textAlign || 'left';
-            ctx.textBaseline = 'top';
-            
-            // Draw text at scaled placeholder position
-            ctx.fillText(value, scaledX, scaledY);
-          }
-        });
+      const canvas = await this.drawPNG(certificate, template, placeholderValues, templateImage, fontsByFamily, imagesById);
       
       // Save PNG
       const pngPath = path.join(this.outputDir, `${certificate.certificateId}.png`);
@@ -287,16 +728,123 @@ class CertificateGenerator {
     }
   }
 
+  /**
+   * Draw a certificate's placeholders over the template image
+   * @returns {Canvas} The drawn canvas
+   */
+  async drawPNG(certificate, template, placeholderValues, templateImage, fontsByFamily = new Map(), imagesById = new Map()) {
+    // node-canvas only picks up fonts registered before the canvas exists
+    fontLibrary.registerCanvasFonts(fontsByFamily);
+    scriptFonts.registerCanvasFonts();
+    
+    // Create canvas with template dimensions
+    const canvas = createCanvas(templateImage.width, templateImage.height);
+    const ctx = canvas.getContext('2d');
+    
+    // Draw the template image
+    ctx.drawImage(templateImage, 0, 0);
+    
+    // Scale factors from template coordinates to actual image pixels
+    const { scaleX, scaleY } = this.getCoordinateScale(template, templateImage.width, templateImage.height);
+    
+    console.log('=== PNG Generation Debug Info ===');
+    console.log('Image size:', { width: templateImage.width, height: templateImage.height });
+    console.log('Template dimensions:', template.dimensions);
+    console.log('Scale factors:', { scaleX, scaleY });
+    
+    // Overlay placeholders
+    for (const [index, placeholder] of template.placeholders.entries()) {
+      // QR codes encode the verification URL rather than a user supplied value
+      if (placeholder.type === 'qr') {
+        const width = (placeholder.width || 120) * scaleX;
+        const height = (placeholder.height || placeholder.width || 120) * scaleY;
+        const size = Math.min(width, height);
+        const qrImage = await loadImage(await this.renderQRCode(certificate, placeholder, size));
+        ctx.drawImage(qrImage, placeholder.x * scaleX, placeholder.y * scaleY, size, size);
+        continue;
+      }
+
+      if (placeholder.type === 'image') {
+        const asset = imagesById.get(imageLibrary.getImageAssetId(certificate, placeholder, placeholderValues));
+        if (!asset) continue;
+
+        const layout = this.layoutImage(placeholder, asset, scaleX, scaleY);
+        const image = await loadImage(asset.filePath);
+        ctx.save();
+        ctx.translate(layout.anchorX, layout.anchorY);
+        ctx.rotate(layout.rotation * Math.PI / 180);
+        ctx.globalAlpha = layout.opacity;
+        ctx.beginPath();
+        ctx.rect(layout.box.x, layout.box.y, layout.box.width, layout.box.height);
+        ctx.clip();
+        ctx.drawImage(image, layout.draw.x, layout.draw.y, layout.draw.width, layout.draw.height);
+        ctx.restore();
+        continue;
+      }
+
+      const value = this.getPlaceholderValue(certificate, template, placeholder, placeholderValues);
+      if (value) {
+        // Scale the coordinates from template to actual image size
+        const scaledX = placeholder.x * scaleX;
+        const scaledY = placeholder.y * scaleY;
+        const scaledFontSize = (placeholder.fontSize || 24) * scaleX;
+        
+        console.log(`Placeholder ${index} (${placeholder.type}):`);
+        console.log('  Original coords:', { x: placeholder.x, y: placeholder.y });
+        console.log('  Scaled coords:', { x: scaledX, y: scaledY });
+        console.log('  Original font size:', placeholder.fontSize || 24);
+        console.log('  Scaled font size:', scaledFontSize);
+        console.log('  Value:', value);
+        
+        // Set font properties
+        const fontFamily = placeholder.fontFamily || 'Arial';
+        const fontWeight = placeholder.fontWeight || 'normal';
+        const fontStyle = placeholder.fontStyle || 'normal';
+        const customFonts = fontsByFamily.get(fontFamily);
+        const canvasFont = customFonts
+          ? `"${fontLibrary.getCanvasFamily(customFonts[0])}"`
+          : this.getSystemFont(fontFamily, 'canvas');
+        
+        // Pango shapes the text and orders right-to-left runs; listing the fallback faces
+        // for the text's scripts keeps it from picking an arbitrary font for missing glyphs
+        const fontList = [
+          canvasFont,
+          ...scriptFonts.getCanvasFallbackFamilies(value, fontWeight).map(family => `"${family}"`)
+        ].join(', ');
+        
+        console.log(`  Font mapping: ${fontFamily} -> ${fontList}`);
+        const setFont = size => {
+          ctx.font = `${fontStyle} ${fontWeight} ${size}px ${fontList}`;
+        };
+        const layout = this.layoutText(placeholder, value, (text, size) => {
+          setFont(size);
+          return ctx.measureText(text).width;
+        }, scaleX, scaleY);
+        
+        setFont(layout.fontSize);
+        ctx.fillStyle = placeholder.color || '#000000';
+        ctx.textAlign = 'left';
+        ctx.textBaseline = 'top';
+        
+        // Draw text relative to the anchor so rotation turns around it
+        ctx.save();
+        ctx.translate(layout.anchorX, layout.anchorY);
+        ctx.rotate(layout.rotation * Math.PI / 180);
+        layout.lines.forEach(line => ctx.fillText(line.text, line.offsetX, line.offsetY));
+        ctx.restore();
+      }
+    }
+    
+    return canvas;
+  }
+
   /**
    * Generate PDF certificate with overlaid text using coordinate scaling
    */
-  async generatePDF(certificate, template, placeholderValues, templateImagePath, containerDimensions) {
+  async generatePDF(certificate, template, placeholderValues, templateImage, templateImageBuffer, fontsByFamily = new Map(), imagesById = new Map()) {
     try {
       const pdfPath = path.join(this.outputDir, `${certificate.certificateId}.pdf`);
       
-      // Load the template image to get dimensions
-      const templateImage = await loadImage(templateImagePath);
-      
       // Create PDF document
       const doc = new PDFDocument({
         size: [templateImage.width, templateImage.height],
@@ -308,47 +856,15 @@ class CertificateGenerator {
       doc.pipe(stream);
       
       // Draw the template image as background
-      doc.image(templateImagePath, 0, 0, {
+      doc.image(templateImageBuffer, 0, 0, {
         width: templateImage.width,
         height: templateImage.height
       });
       
-      // Calculate scaling factors using actual frontend container dimensions
-      const actualWidth = templateImage.width;
-      const actualHeight = templateImage.height;
-      
-      // Use actual frontend container dimensions if provided, otherwise fallback
-      const frontendDisplayWidth = containerDimensions?.width || 800;
-      const frontendDisplayHeight = containerDimensions?.height || (frontendDisplayWidth * actualHeight / actualWidth);
+      // Scale factors from template coordinates to actual image pixels
+      const { scaleX, scaleY } = this.getCoordinateScale(template, templateImage.width, templateImage.height);
       
-      // Scale factor to convert frontend coordinates to actual image coordinates
-      const scaleX = actualWidth / frontendDisplayWidth;
-      const scaleY = actualHeight / frontendDisplayHeight;
-      
-      // Add placeholder text
-      template.placeholders.forEach(placeholder => {
-        const value = placeholderValues[placeholder.type] || '';
-        if (value) {
-          // Scale the coordinates from frontend to actual image size
-          const scaledX = placeholder.x * scaleX;
-          const scaledY = placeholder.y * scaleY;
-          const scaledFontSize = (placeholder.fontSize || 24) * scaleX;
-          
-          // Set font properties
-          const fontFamily = placeholder.fontFamily || 'Arial';
-          const systemFont = this.getSystemFont(fontFamily, 'pdf');
-          
-          console.log(`  PDF Font mapping: ${fontFamily} -> ${systemFont}`);
-          doc.font(systemFont);
-          doc.fontSize(scaledFontSize);
-          doc.fillColor(placeholder.color || '#000000');
-          
-          // Position and draw text
-          doc.text(value, scaledX, scaledY, {
-            align: placeholder.textAlign || 'left'
-          });
-        }
-      });
+      await this.drawPDFPlaceholders(doc, certificate, template, placeholderValues, fontsByFamily, imagesById, scaleX, scaleY);
       
       // Finalize PDF
       doc.end();
@@ -366,6 +882,121 @@ class CertificateGenerator {
     }
   }
 
+  /**
+   * The PDF font a text placeholder asks for: the file of an uploaded face, or a standard font name
+   */
+  getPdfFont(placeholder, fontsByFamily) {
+    const fontFamily = placeholder.fontFamily || 'Arial';
+    const customFonts = fontsByFamily.get(fontFamily);
+    return customFonts
+      ? path.resolve(fontLibrary.pickFace(customFonts, placeholder.fontWeight, placeholder.fontStyle).filePath)
+      : this.getStandardPdfFont(this.getSystemFont(fontFamily, 'pdf'), placeholder.fontWeight, placeholder.fontStyle);
+  }
+
+  /**
+   * Draw every placeholder onto a PDFKit document
+   */
+  async drawPDFPlaceholders(doc, certificate, template, placeholderValues, fontsByFamily, imagesById, scaleX, scaleY) {
+    for (const placeholder of template.placeholders) {
+      if (placeholder.type === 'qr') {
+        const width = (placeholder.width || 120) * scaleX;
+        const height = (placeholder.height || placeholder.width || 120) * scaleY;
+        const size = Math.min(width, height);
+        // Render at 4x so the code stays crisp when the PDF is printed
+        const qrBuffer = await this.renderQRCode(certificate, placeholder, size * 4);
+        doc.image(qrBuffer, placeholder.x * scaleX, placeholder.y * scaleY, { width: size, height: size });
+        continue;
+      }
+
+      if (placeholder.type === 'image') {
+        const asset = imagesById.get(imageLibrary.getImageAssetId(certificate, placeholder, placeholderValues));
+        if (!asset) continue;
+
+        const layout = this.layoutImage(placeholder, asset, scaleX, scaleY);
+        doc.save();
+        doc.rotate(layout.rotation, { origin: [layout.anchorX, layout.anchorY] });
+        doc.opacity(layout.opacity);
+        doc.rect(layout.anchorX + layout.box.x, layout.anchorY + layout.box.y, layout.box.width, layout.box.height).clip();
+        doc.image(asset.filePath, layout.anchorX + layout.draw.x, layout.anchorY + layout.draw.y, {
+          width: layout.draw.width,
+          height: layout.draw.height
+        });
+        doc.restore();
+        continue;
+      }
+
+      const value = this.getPlaceholderValue(certificate, template, placeholder, placeholderValues);
+      if (value) {
+        // Text the placeholder's font has no glyphs for switches to a fallback face
+        const fontFamily = placeholder.fontFamily || 'Arial';
+        const pdfFont = scriptFonts.selectPdfFont(value, this.getPdfFont(placeholder, fontsByFamily), placeholder.fontWeight);
+        
+        console.log(`  PDF Font mapping: ${fontFamily} -> ${pdfFont.src}${pdfFont.fallback ? ' (fallback)' : ''}`);
+        doc.font(pdfFont.src, pdfFont.postscriptName);
+        doc.fillColor(placeholder.color || '#000000');
+        
+        const layout = this.layoutText(placeholder, value, (text, size) => {
+          doc.fontSize(size);
+          return doc.widthOfString(text);
+        }, scaleX, scaleY);
+        doc.fontSize(layout.fontSize);
+        
+        // Position and draw text; alignment and wrapping are already resolved by the layout
+        doc.save();
+        doc.rotate(layout.rotation, { origin: [layout.anchorX, layout.anchorY] });
+        layout.lines.forEach(line => {
+          // PDFKit shapes each word on its own, so right-to-left runs are laid out whole
+          // (any features option does that) and drawn in visual order
+          let x = layout.anchorX + line.offsetX;
+          scriptFonts.getVisualRuns(line.text).forEach(run => {
+            const options = { lineBreak: false, ...(run.rtl && { features: [] }) };
+            doc.text(run.text, x, layout.anchorY + line.offsetY, options);
+            x += doc.widthOfString(run.text, options);
+          });
+        });
+        doc.restore();
+      }
+    }
+  }
+
+  /**
+   * Generate the PDF for a PDF template: placeholders are drawn onto a transparent
+   * overlay that is then stamped onto the template's original first page, so its
+   * vector artwork and text are preserved for print.
+   */
+  async generatePDFFromTemplatePDF(certificate, template, placeholderValues, templatePdfPath, fontsByFamily = new Map(), imagesById = new Map()) {
+    try {
+      const pdfPath = path.join(this.outputDir, `${certificate.certificateId}.pdf`);
+      const { width, height } = await pdfTemplate.getPageSize(templatePdfPath);
+      
+      const doc = new PDFDocument({
+        size: [width, height],
+        margins: { top: 0, bottom: 0, left: 0, right: 0 }
+      });
+      
+      const chunks = [];
+      doc.on('data', chunk => chunks.push(chunk));
+      const finished = new Promise((resolve, reject) => {
+        doc.on('end', resolve);
+        doc.on('error', reject);
+      });
+      
+      // The overlay page is the size of the template page, in points
+      const { scaleX, scaleY } = this.getCoordinateScale(template, width, height);
+      await this.drawPDFPlaceholders(doc, certificate, template, placeholderValues, fontsByFamily, imagesById, scaleX, scaleY);
+      
+      doc.end();
+      await finished;
+      
+      await pdfTemplate.overlayFirstPage(templatePdfPath, Buffer.concat(chunks), pdfPath);
+      
+      return pdfPath;
+    } catch (error) {
+      console.error('PDF generation error:', error);
+      throw new Error(`Failed to generate PDF: ${error.message}`);
+    }
+  }
+
   /**
    * Get generated file info
    */
@@ -389,6 +1020,41 @@ class CertificateGenerator {
     }
   }
 
+  /**
+   * Copy a certificate's current files aside as a numbered version before it is
+   * reissued, so earlier issues stay downloadable
+   * @returns {Object} Filename and size of each format that existed
+   */
+  async archiveVersionFiles(certificateId, version) {
+    const versionDir = path.join(this.outputDir, 'versions');
+    await fs.mkdir(versionDir, { recursive: true });
+
+    const files = {};
+    for (const format of ['pdf', 'png']) {
+      const current = await this.getFileInfo(certificateId, format);
+      if (!current.exists) continue;
+
+      const filename = `${certificateId}-v${version}.${format}`;
+      await fs.copyFile(current.path, path.join(versionDir, filename));
+      files[format] = { filename, size: current.size };
+    }
+    return files;
+  }
+
+  /**
+   * Get info for a file archived by archiveVersionFiles
+   */
+  async getVersionFileInfo(certificateId, version, format) {
+    const filename = `${certificateId}-v${version}.${format}`;
+    const filePath = path.join(this.outputDir, 'versions', filename);
+    try {
+      const stats = await fs.stat(filePath);
+      return { path: filePath, filename, size: stats.size, exists: true };
+    } catch {
+      return { path: filePath, filename, size: 0, exists: false };
+    }
+  }
+
   /**
    * Delete generated files
    */
@@ -0,0 +1,241 @@
+const Certificate = require('../models/Certificate');
+const Template = require('../models/Template');
+const Job = require('../models/Job');
+const certificateGenerator = require('./certificateGenerator');
+const jobQueue = require('./jobQueue');
+const mailer = require('./mailer');
+const websocketService = require('./websocketService');
+
+const GENERATE_JOB = 'certificate.generate';
+const EMAIL_JOB = 'certificate.email';
+
+// Background work on certificates: rendering files and emailing them. Certificates
+// wait in 'pending' until their generation job completes or runs out of attempts.
+class CertificateJobService {
+  constructor() {
+    jobQueue.register(GENERATE_JOB, {
+      run: job => this.runGeneration(job),
+      onFailed: job => this.markGenerationFailed(job),
+      onSettled: job => this.reportBatchProgress(job),
+      onRetry: job => Certificate.updateOne({ _id: job.certificate, status: 'failed' }, { $set: { status: 'pending' } })
+    });
+    jobQueue.register(EMAIL_JOB, {
+      run: job => this.runEmail(job),
+      onFailed: job => this.markEmailFailed(job),
+      onRetry: job => Certificate.updateOne({ _id: job.certificate, 'delivery.status': 'failed' }, { $set: { 'delivery.status': 'queued' } })
+    });
+  }
+
+  /**
+   * Returns a reason the certificate cannot be emailed, or null when it can be
+   */
+  getDeliveryError(certificate) {
+    if (!certificate.recipientEmail) {
+      return 'Certificate has no recipient email';
+    }
+    if (certificate.status === 'expired' || certificate.hasExpired()) {
+      return 'Expired certificates cannot be sent';
+    }
+    if (certificate.status !== 'generated') {
+      return 'Certificate files have not been generated';
+    }
+    if (certificate.isRevoked()) {
+      return 'Revoked certificates cannot be sent';
+    }
+    return null;
+  }
+
+  /**
+   * Queue rendering of a certificate's files. The certificate should already be saved
+   * with the template snapshot it is to be rendered from.
+   * @param {Object} options - `placeholderValues` for the render (name and ID by default),
+   *   `regenerate` to count the render as a regeneration, `emailTemplate` to email the
+   *   certificate once generated, `batchId` and `batchSize` to report progress as part of a batch
+   * @returns {Object} The queued job
+   */
+  enqueueGeneration(certificate, { placeholderValues, regenerate = false, emailTemplate, batchId, batchSize } = {}) {
+    return jobQueue.enqueue(GENERATE_JOB, {
+      placeholderValues,
+      regenerate,
+      ...(emailTemplate && {
+        emailTemplate: emailTemplate.toObject ? emailTemplate.toObject() : emailTemplate
+      })
+    }, {
+      createdBy: certificate.createdBy,
+      certificate: certificate._id,
+      batchId,
+      batchSize
+    });
+  }
+
+  /**
+   * Mark a certificate as queued for email and queue its delivery
+   * @returns {Object} The queued job
+   */
+  async enqueueEmail(certificate, emailTemplate) {
+    await certificate.queueDelivery({
+      to: certificate.recipientEmail,
+      method: emailTemplate.deliveryMethod || 'attachment'
+    });
+    return jobQueue.enqueue(EMAIL_JOB, {
+      emailTemplate: emailTemplate.toObject ? emailTemplate.toObject() : emailTemplate
+    }, {
+      createdBy: certificate.createdBy,
+      certificate: certificate._id
+    });
+  }
+
+  /**
+   * Render a certificate's PDF/PNG files and record them on the (unsaved) document
+   * @throws {Error} When rendering fails; the certificate is left unchanged
+   */
+  async renderFiles(certificate, template, placeholderValues) {
+    const startTime = Date.now();
+    const generatedFiles = await certificateGenerator.generateCertificate(
+      certificate,
+      template,
+      placeholderValues
+    );
+
+    certificate.metadata.generationTime = Date.now() - startTime;
+    if (['pending', 'failed'].includes(certificate.status)) {
+      // Regenerating a certificate past its expiry date leaves it expired
+      if (certificate.hasExpired()) {
+        certificate.status = 'expired';
+        certificate.expiredAt = certificate.expiredAt || new Date();
+      } else {
+        certificate.status = 'generated';
+      }
+    }
+    certificate.renderWarnings = generatedFiles.warnings || [];
+
+    certificate.generatedFiles = {
+      pdf: {
+        filename: generatedFiles.pdf.filename,
+        path: generatedFiles.pdf.path,
+        size: generatedFiles.pdf.size,
+        url: `/api/certificate/${certificate._id}/download/pdf`
+      },
+      png: {
+        filename: generatedFiles.png.filename,
+        path: generatedFiles.png.path,
+        size: generatedFiles.png.size,
+        url: `/api/certificate/${certificate._id}/download/png`
+      }
+    };
+  }
+
+  async runGeneration(job) {
+    const certificate = await Certificate.findById(job.certificate);
+    if (!certificate) {
+      throw new Error('Certificate no longer exists');
+    }
+
+    const template = await Template.findById(certificate.template);
+    if (!template) {
+      throw new Error('The certificate\'s template no longer exists');
+    }
+
+    const { placeholderValues, regenerate, emailTemplate } = job.payload || {};
+    await this.renderFiles(
+      certificate,
+      certificate.getSnapshotTemplate(template) || template,
+      placeholderValues || { name: certificate.participantName, id: certificate.certificateId }
+    );
+
+    if (regenerate) {
+      certificate.metadata.regenerationCount = (certificate.metadata.regenerationCount || 0) + 1;
+      certificate.metadata.lastRegenerated = new Date();
+    }
+    await certificate.save();
+
+    let emailQueued = false;
+    if (emailTemplate && !this.getDeliveryError(certificate)) {
+      await this.enqueueEmail(certificate, emailTemplate);
+      emailQueued = true;
+    }
+
+    return {
+      certificateId: certificate.certificateId,
+      status: certificate.status,
+      emailQueued
+    };
+  }
+
+  async markGenerationFailed(job) {
+    await Certificate.updateOne(
+      { _id: job.certificate, status: 'pending' },
+      { $set: { status: 'failed', generatedFiles: {} } }
+    );
+  }
+
+  async runEmail(job) {
+    const certificate = await Certificate.findById(job.certificate);
+    // Sent, re-queued by a later send, or deleted in the meantime
+    if (!certificate || certificate.delivery?.status !== 'queued') {
+      return { skipped: true };
+    }
+
+    // Failures with attempts left rethrow; the last one is recorded on the certificate
+    await mailer.deliver(certificate, job.payload.emailTemplate, { retryable: job.canRetry() });
+    if (certificate.delivery.status === 'failed') {
+      throw new Error(certificate.delivery.lastError);
+    }
+    return {
+      certificateId: certificate.certificateId,
+      status: certificate.delivery.status
+    };
+  }
+
+  async markEmailFailed(job) {
+    await Certificate.updateOne(
+      { _id: job.certificate, 'delivery.status': 'queued' },
+      { $set: { 'delivery.status': 'failed', 'delivery.failedAt': new Date(), 'delivery.lastError': job.lastError } }
+    );
+  }
+
+  /**
+   * Change the number of jobs a batch is expected to have, and report its progress
+   * again in case every remaining job has already finished
+   */
+  async resizeBatch(batchId, createdBy, batchSize) {
+    await Job.updateMany({ batchId, createdBy }, { $set: { batchSize } });
+    await this.reportBatchProgress({ batchId, createdBy });
+  }
+
+  /**
+   * Push the progress of the batch a finished job belongs to
+   */
+  async reportBatchProgress(job) {
+    if (!job.batchId) {
+      return;
+    }
+
+    const summary = await Job.getBatchSummary(job.batchId, job.createdBy);
+    const processed = summary.completed + summary.failed;
+    const progress = {
+      batchId: job.batchId,
+      total: summary.total,
+      processed,
+      succeeded: summary.completed,
+      failed: summary.failed,
+      percentage: Math.round((processed / summary.total) * 100)
+    };
+
+    if (processed < summary.total) {
+      websocketService.sendBatchProgress(job.createdBy, {
+        ...progress,
+        status: 'processing',
+        message: `Generated ${processed}/${summary.total} certificates...`
+      });
+    } else {
+      websocketService.sendBatchComplete(job.createdBy, {
+        ...progress,
+        status: 'completed',
+        message: `Generated ${summary.completed} of ${summary.total} certificates`
+      });
+    }
+  }
+}
+
+module.exports = new CertificateJobService();
@@ -0,0 +1,56 @@
+const Certificate = require('../models/Certificate');
+
+// Periodically marks certificates whose expiry date has passed as 'expired', so they
+// stop verifying, downloading through emailed links and being sent
+class ExpirySweepService {
+  constructor() {
+    this.interval = parseInt(process.env.EXPIRY_SWEEP_INTERVAL_MS) || 60 * 60 * 1000;
+    this.timer = null;
+    this.isSweeping = false;
+  }
+
+  /**
+   * Sweep now and then every interval; safe to call more than once
+   */
+  start() {
+    if (this.timer) {
+      return;
+    }
+    this.timer = setInterval(() => this.sweep(), this.interval);
+    console.log(`Expiry sweep started (every ${Math.round(this.interval / 1000)}s)`);
+    this.sweep();
+  }
+
+  stop() {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Mark every certificate past its expiry date as expired
+   * @returns {Array} The certificates expired by this sweep
+   */
+  async sweep() {
+    if (this.isSweeping) {
+      return [];
+    }
+    this.isSweeping = true;
+
+    try {
+      const expired = await Certificate.expireDue();
+      if (expired.length > 0) {
+        console.log(`Expiry sweep marked ${expired.length} certificate(s) as expired`);
+      }
+      return expired;
+    } catch (error) {
+      console.error('Expiry sweep error:', error);
+      return [];
+    } finally {
+      this.isSweeping = false;
+    }
+  }
+}
+
+module.exports = new ExpirySweepService();
@@ -0,0 +1,126 @@
+const path = require('path');
+const fsSync = require('fs');
+const { registerFont } = require('canvas');
+const Font = require('../models/Font');
+
+// Fonts every renderer can draw without an uploaded file
+const BUILT_IN_FAMILIES = ['Arial', 'Helvetica', 'Times New Roman', 'Times', 'Georgia', 'Verdana', 'Courier New', 'Courier'];
+
+// Magic numbers at the start of supported font files
+const FONT_SIGNATURES = {
+  ttf: ['00010000', '74727565'], // 0x00010000 or "true"
+  otf: ['4f54544f'], // "OTTO"
+  woff: ['774f4646'] // "wOFF"
+};
+
+class FontLibraryService {
+  constructor() {
+    // Files already registered with node-canvas; registering twice leaks Pango descriptors
+    this.registeredFiles = new Set();
+  }
+
+  /**
+   * Detect the format of a font file from its header bytes
+   * @param {string} filePath - Path of the uploaded file
+   * @returns {string|null} ttf, otf, woff or null when the file is not a font
+   */
+  detectFormat(filePath) {
+    const fd = fsSync.openSync(filePath, 'r');
+    try {
+      const header = Buffer.alloc(4);
+      fsSync.readSync(fd, header, 0, 4, 0);
+      return this.detectBufferFormat(header);
+    } finally {
+      fsSync.closeSync(fd);
+    }
+  }
+
+  /**
+   * Detect the format of font data already in memory
+   * @returns {string|null} ttf, otf, woff or null when the data is not a font
+   */
+  detectBufferFormat(buffer) {
+    const signature = buffer.subarray(0, 4).toString('hex');
+    const match = Object.entries(FONT_SIGNATURES).find(([, signatures]) => signatures.includes(signature));
+    return match ? match[0] : null;
+  }
+
+  /**
+   * Family name a custom font is registered under with node-canvas.
+   * Scoped per admin so two libraries can use the same family name.
+   */
+  getCanvasFamily(font) {
+    return `${font.family} ${font.createdBy}`;
+  }
+
+  /**
+   * Load the custom fonts a template's placeholders use, grouped by family
+   * @returns {Map<string, Array>} family -> font documents
+   */
+  async loadTemplateFonts(template) {
+    const families = [...new Set((template.placeholders || []).map(p => p.fontFamily).filter(Boolean))];
+    const fontsByFamily = new Map();
+
+    if (families.length === 0 || !template.createdBy) {
+      return fontsByFamily;
+    }
+
+    const fonts = await Font.find({
+      createdBy: template.createdBy._id || template.createdBy,
+      family: { $in: families },
+      isActive: true
+    });
+
+    fonts.forEach(font => {
+      if (!fsSync.existsSync(path.resolve(font.filePath))) {
+        console.error(`Font file missing on disk: ${font.filePath}`);
+        return;
+      }
+      if (!fontsByFamily.has(font.family)) {
+        fontsByFamily.set(font.family, []);
+      }
+      fontsByFamily.get(font.family).push(font);
+    });
+
+    return fontsByFamily;
+  }
+
+  /**
+   * Register fonts with node-canvas. Must run before the canvas is created.
+   */
+  registerCanvasFonts(fontsByFamily) {
+    for (const fonts of fontsByFamily.values()) {
+      fonts.forEach(font => {
+        const filePath = path.resolve(font.filePath);
+        if (this.registeredFiles.has(filePath)) {
+          return;
+        }
+        registerFont(filePath, {
+          family: this.getCanvasFamily(font),
+          weight: font.weight,
+          style: font.style
+        });
+        this.registeredFiles.add(filePath);
+      });
+    }
+  }
+
+  /**
+   * Pick the face of a family closest to the requested weight and style
+   */
+  pickFace(fonts, weight = 'normal', style = 'normal') {
+    const target = weight === 'bold' ? 700 : weight === 'normal' ? 400 : parseInt(weight, 10) || 400;
+    const sameStyle = fonts.filter(font => font.style === style);
+    const candidates = sameStyle.length > 0 ? sameStyle : fonts;
+
+    return candidates.reduce((best, font) =>
+      Math.abs(font.numericWeight - target) < Math.abs(best.numericWeight - target) ? font : best
+    );
+  }
+
+  isBuiltIn(family) {
+    return BUILT_IN_FAMILIES.includes(family);
+  }
+}
+
+module.exports = new FontLibraryService();
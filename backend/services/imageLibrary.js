@@ -0,0 +1,108 @@
+const path = require('path');
+const fs = require('fs').promises;
+const fsSync = require('fs');
+const mongoose = require('mongoose');
+const sharp = require('sharp');
+const ImageAsset = require('../models/ImageAsset');
+
+// Longest side uploads are scaled down to; enough for a full-width logo on a printed certificate
+const MAX_IMAGE_DIMENSION = parseInt(process.env.MAX_IMAGE_DIMENSION) || 3000;
+
+class ImageLibraryService {
+  constructor() {
+    this.imageDir = path.join(process.env.UPLOAD_PATH || './uploads', 'images');
+  }
+
+  /**
+   * Store an uploaded image as PNG, which both node-canvas and PDFKit can draw with
+   * transparency, and add it to the admin's images
+   * @param {Buffer} buffer - Uploaded file contents
+   * @param {Object} details - { name, purpose, originalName, adminId }
+   * @throws {Error} When the file cannot be read as an image
+   */
+  async saveImage(buffer, { name, purpose = 'library', originalName, adminId }) {
+    let output;
+    try {
+      output = await sharp(buffer)
+        .rotate() // Apply EXIF orientation, so phone photos are drawn upright
+        .resize({ width: MAX_IMAGE_DIMENSION, height: MAX_IMAGE_DIMENSION, fit: 'inside', withoutEnlargement: true })
+        .png()
+        .toBuffer({ resolveWithObject: true });
+    } catch (error) {
+      throw new Error('The uploaded file is not a readable image');
+    }
+
+    const uniqueSuffix = Date.now() + '-' + Math.round(Math.random() * 1E9);
+    const filename = `image-${uniqueSuffix}.png`;
+    const filePath = path.join(this.imageDir, filename);
+    await fs.writeFile(filePath, output.data);
+
+    try {
+      return await ImageAsset.create({
+        name: name || path.basename(originalName, path.extname(originalName)),
+        purpose,
+        filename,
+        originalName,
+        filePath,
+        fileSize: output.info.size,
+        width: output.info.width,
+        height: output.info.height,
+        createdBy: adminId
+      });
+    } catch (error) {
+      await fs.unlink(filePath).catch(console.error);
+      throw error;
+    }
+  }
+
+  /**
+   * ID of the image an image placeholder draws: the certificate's value of the bound
+   * image field when it has one, otherwise the placeholder's library image
+   */
+  getImageAssetId(certificate, placeholder, placeholderValues = {}) {
+    const certificateImage = placeholder.fieldKey
+      ? certificate.fieldValues?.[placeholder.fieldKey] ?? placeholderValues[placeholder.fieldKey]
+      : null;
+    const id = certificateImage || placeholder.assetId;
+    return id ? String(id) : null;
+  }
+
+  /**
+   * Load the images a certificate's image placeholders draw. Only images owned by the
+   * template's creator are used, so a certificate cannot draw another admin's upload.
+   * @returns {Map<string, Object>} image ID -> { filePath, width, height }
+   */
+  async loadPlaceholderImages(template, certificate, placeholderValues) {
+    const ids = [...new Set((template.placeholders || [])
+      .filter(p => p.type === 'image')
+      .map(p => this.getImageAssetId(certificate, p, placeholderValues))
+      .filter(id => id && mongoose.isValidObjectId(id)))];
+    const imagesById = new Map();
+
+    if (ids.length === 0 || !template.createdBy) {
+      return imagesById;
+    }
+
+    const images = await ImageAsset.find({
+      _id: { $in: ids },
+      createdBy: template.createdBy._id || template.createdBy,
+      isActive: true
+    });
+
+    images.forEach(image => {
+      if (!fsSync.existsSync(path.resolve(image.filePath))) {
+        console.error(`Image file missing on disk: ${image.filePath}`);
+        return;
+      }
+      imagesById.set(String(image._id), {
+        filePath: path.resolve(image.filePath),
+        width: image.width,
+        height: image.height
+      });
+    });
+
+    return imagesById;
+  }
+}
+
+module.exports = new ImageLibraryService();
@@ -0,0 +1,173 @@
+const os = require('os');
+const Job = require('../models/Job');
+const websocketService = require('./websocketService');
+const renderPool = require('./renderPool');
+
+class JobQueueService {
+  constructor() {
+    this.handlers = new Map();
+    this.workerId = `${os.hostname()}:${process.pid}`;
+    // Enough jobs in flight to keep every render worker busy
+    this.concurrency = parseInt(process.env.JOB_CONCURRENCY) || Math.max(2, renderPool.size);
+    this.pollInterval = parseInt(process.env.JOB_POLL_INTERVAL_MS) || 1000;
+    this.retryDelay = parseInt(process.env.JOB_RETRY_DELAY_MS) || 5000;
+    // Running jobs not finished within this time are assumed lost and claimed again
+    this.lockTimeout = parseInt(process.env.JOB_LOCK_TIMEOUT_MS) || 10 * 60 * 1000;
+    this.active = 0;
+    this.isRunning = false;
+    this.isPolling = false;
+    this.timer = null;
+  }
+
+  /**
+   * Register how jobs of a type are processed
+   * @param {string} type - Job type, e.g. 'certificate.generate'
+   * @param {Object} handler - { run(job), onFailed(job, error)?, onSettled(job)?, onRetry(job)? }.
+   *   `run` resolves with the job result or throws to fail the attempt; `onFailed`
+   *   runs once the job has no attempts left; `onSettled` after every final outcome;
+   *   `onRetry` when a failed job is queued again by hand.
+   */
+  register(type, handler) {
+    this.handlers.set(type, handler);
+  }
+
+  /**
+   * Queue a job and wake the workers
+   * @returns {Object} The saved job
+   */
+  async enqueue(type, payload, { createdBy, certificate, batchId, batchSize, maxAttempts } = {}) {
+    const job = await Job.enqueue({
+      type,
+      payload,
+      createdBy,
+      certificate,
+      batchId,
+      batchSize,
+      maxAttempts: maxAttempts || parseInt(process.env.JOB_MAX_ATTEMPTS) || undefined
+    });
+    this.notify(job);
+    if (this.isRunning) {
+      setImmediate(() => this.poll());
+    }
+    return job;
+  }
+
+  /**
+   * Queue a failed job again with a fresh set of attempts
+   * @returns {Object} The saved job
+   */
+  async retry(job) {
+    await job.requeue();
+    const handler = this.handlers.get(job.type);
+    if (handler && handler.onRetry) {
+      await handler.onRetry(job);
+    }
+    this.notify(job);
+    if (this.isRunning) {
+      setImmediate(() => this.poll());
+    }
+    return job;
+  }
+
+  /**
+   * Start claiming jobs; safe to call more than once
+   */
+  start() {
+    if (this.isRunning) {
+      return;
+    }
+    this.isRunning = true;
+    this.timer = setInterval(() => this.poll(), this.pollInterval);
+    console.log(`Job worker ${this.workerId} started (concurrency ${this.concurrency})`);
+    this.poll();
+  }
+
+  /**
+   * Stop claiming new jobs; running jobs finish, or are reclaimed after the lock timeout
+   */
+  stop() {
+    this.isRunning = false;
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  async poll() {
+    if (!this.isRunning || this.isPolling) {
+      return;
+    }
+    this.isPolling = true;
+
+    try {
+      while (this.isRunning && this.active < this.concurrency) {
+        const job = await Job.claimNext(this.workerId, [...this.handlers.keys()], this.lockTimeout);
+        if (!job) {
+          break;
+        }
+
+        this.active++;
+        this.process(job).finally(() => {
+          this.active--;
+          this.poll();
+        });
+      }
+    } catch (error) {
+      console.error('Job polling error:', error);
+    } finally {
+      this.isPolling = false;
+    }
+  }
+
+  async process(job) {
+    const handler = this.handlers.get(job.type);
+    this.notify(job);
+
+    try {
+      const result = await handler.run(job);
+      await job.markCompleted(result);
+    } catch (error) {
+      console.error(`Job ${job._id} (${job.type}) attempt ${job.attempts}/${job.maxAttempts} failed:`, error);
+      try {
+        await job.markFailed(error, this.retryDelay);
+        if (job.status === 'failed' && handler.onFailed) {
+          await handler.onFailed(job, error);
+        }
+      } catch (recordError) {
+        console.error(`Could not record failure of job ${job._id}:`, recordError);
+      }
+    }
+
+    this.notify(job);
+
+    if (['completed', 'failed'].includes(job.status) && handler.onSettled) {
+      try {
+        await handler.onSettled(job);
+      } catch (error) {
+        console.error(`Settled hook of job ${job._id} failed:`, error);
+      }
+    }
+  }
+
+  /**
+   * Push a job's state to the admin who queued it
+   */
+  notify(job) {
+    if (!job.createdBy) {
+      return;
+    }
+    websocketService.sendProgressUpdate(job.createdBy, {
+      operation: 'job',
+      jobId: job._id,
+      type: job.type,
+      status: job.status,
+      attempts: job.attempts,
+      maxAttempts: job.maxAttempts,
+      certificateId: job.certificate,
+      batchId: job.batchId,
+      error: job.lastError
+    });
+  }
+}
+
+module.exports = new JobQueueService();
@@ -0,0 +1,255 @@
+const nodemailer = require('nodemailer');
+const jwt = require('jsonwebtoken');
+const certificateGenerator = require('./certificateGenerator');
+
+// Merge fields an email subject or body may contain; {fields.<key>} inserts a custom field value
+const MERGE_FIELDS = [
+  'participantName',
+  'certificateId',
+  'templateName',
+  'issuedDate',
+  'expiryDate',
+  'verificationUrl',
+  'downloadUrl'
+];
+
+// Purpose claim that keeps download tokens from being used as admin tokens and vice versa
+const DOWNLOAD_TOKEN_PURPOSE = 'certificate-download';
+
+class MailerService {
+  constructor() {
+    this.transport = null;
+    this.from = process.env.MAIL_FROM || 'Certificates <no-reply@localhost>';
+    this.linkExpiresIn = process.env.CERTIFICATE_LINK_EXPIRES_IN || '30d';
+  }
+
+  /**
+   * Whether an SMTP server has been configured through the environment
+   */
+  isConfigured() {
+    return !!(process.env.SMTP_URL || process.env.SMTP_HOST);
+  }
+
+  /**
+   * Create the SMTP transport on first use. SMTP_URL takes precedence over the
+   * individual SMTP_* settings; a local catcher such as Mailpit only needs SMTP_HOST and SMTP_PORT.
+   */
+  getTransport() {
+    if (this.transport) {
+      return this.transport;
+    }
+    if (!this.isConfigured()) {
+      throw new Error('Email delivery is not configured. Set SMTP_URL or SMTP_HOST.');
+    }
+
+    this.transport = process.env.SMTP_URL
+      ? nodemailer.createTransport(process.env.SMTP_URL)
+      : nodemailer.createTransport({
+        host: process.env.SMTP_HOST,
+        port: parseInt(process.env.SMTP_PORT) || 587,
+        secure: process.env.SMTP_SECURE === 'true',
+        ...(process.env.SMTP_USER && {
+          auth: {
+            user: process.env.SMTP_USER,
+            pass: process.env.SMTP_PASS
+          }
+        })
+      });
+
+    return this.transport;
+  }
+
+  /**
+   * Sign a token that lets the recipient download the certificate PDF without logging in
+   */
+  createDownloadToken(certificate) {
+    return jwt.sign(
+      { certificateId: certificate.certificateId, purpose: DOWNLOAD_TOKEN_PURPOSE },
+      process.env.JWT_SECRET,
+      { expiresIn: this.linkExpiresIn }
+    );
+  }
+
+  /**
+   * Check a download token and return the certificate ID it was issued for
+   * @throws {Error} When the token is invalid, expired or meant for something else
+   */
+  verifyDownloadToken(token) {
+    const decoded = jwt.verify(token, process.env.JWT_SECRET);
+    if (decoded.purpose !== DOWNLOAD_TOKEN_PURPOSE) {
+      throw new Error('Token is not a certificate download token');
+    }
+    return decoded.certificateId;
+  }
+
+  /**
+   * Public download link for a certificate, served by the verification API
+   */
+  getDownloadUrl(certificate) {
+    const apiUrl = process.env.PUBLIC_API_URL || `http://localhost:${process.env.PORT || 5000}/api`;
+    const token = this.createDownloadToken(certificate);
+    return `${apiUrl}/verify/${encodeURIComponent(certificate.certificateId)}/download?token=${token}`;
+  }
+
+  /**
+   * Values substituted for the merge fields of an email template
+   */
+  getMergeValues(certificate) {
+    const formatDate = date => (date ? new Date(date).toLocaleDateString('en-US', {
+      year: 'numeric',
+      month: 'long',
+      day: 'numeric'
+    }) : '');
+
+    const values = {
+      participantName: certificate.participantName,
+      certificateId: certificate.certificateId,
+      templateName: certificate.templateSnapshot?.name || '',
+      issuedDate: formatDate(certificate.issuedDate),
+      expiryDate: formatDate(certificate.expiryDate),
+      verificationUrl: certificateGenerator.getVerificationUrl(certificate.certificateId),
+      downloadUrl: this.getDownloadUrl(certificate)
+    };
+
+    Object.entries(certificate.fieldValues || {}).forEach(([key, value]) => {
+      values[`fields.${key}`] = value === undefined || value === null ? '' : String(value);
+    });
+
+    return values;
+  }
+
+  /**
+   * Replace {mergeField} tokens; unknown tokens are left as written
+   */
+  renderText(text, values) {
+    return text.replace(/\{([a-zA-Z]+(?:\.[a-zA-Z][a-zA-Z0-9_]*)?)\}/g, (token, name) => (
+      Object.prototype.hasOwnProperty.call(values, name) ? values[name] : token
+    ));
+  }
+
+  /**
+   * HTML version of a rendered plain-text body: escaped, with links and line breaks
+   */
+  toHtml(text) {
+    const escaped = text
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;');
+    const linked = escaped.replace(/https?:\/\/[^\s<]+/g, url => `<a href="${url}">${url}</a>`);
+    return `<div style="font-family: Arial, sans-serif; line-height: 1.5">${linked.replace(/\n/g, '<br>')}</div>`;
+  }
+
+  /**
+   * Render an email template for a certificate into nodemailer message options
+   */
+  async buildMessage(certificate, emailTemplate, to) {
+    const values = this.getMergeValues(certificate);
+    const body = this.renderText(emailTemplate.body, values);
+    const message = {
+      from: this.from,
+      to,
+      subject: this.renderText(emailTemplate.subject, values).replace(/[\r\n]+/g, ' '),
+      text: body,
+      html: this.toHtml(body)
+    };
+
+    if (emailTemplate.deliveryMethod !== 'link') {
+      const fileInfo = await certificateGenerator.getFileInfo(certificate.certificateId, 'pdf');
+      if (!fileInfo.exists) {
+        throw new Error('Certificate PDF not found on disk');
+      }
+      message.attachments = [{
+        filename: fileInfo.filename,
+        path: fileInfo.path,
+        contentType: 'application/pdf'
+      }];
+    }
+
+    return message;
+  }
+
+  /**
+   * SMTP rejections of the recipient (5xx replies or rejected addresses) count as bounces;
+   * anything else, such as an unreachable server, is a failure that can be retried
+   */
+  isBounce(error) {
+    return (Array.isArray(error.rejected) && error.rejected.length > 0) ||
+      (error.responseCode >= 500 && error.responseCode < 600);
+  }
+
+  /**
+   * Send a certificate to its recipient and record the outcome on the certificate
+   * @param {Object} options - `retryable`: leave the delivery queued and rethrow on a
+   *   failure that is not a bounce, so the calling job can try again
+   * @returns {Object} The saved certificate
+   */
+  async deliver(certificate, emailTemplate, { retryable = false } = {}) {
+    const to = certificate.delivery?.to || certificate.recipientEmail;
+    const attempts = (certificate.delivery?.attempts || 0) + 1;
+    const delivery = {
+      method: emailTemplate.deliveryMethod || 'attachment',
+      to,
+      attempts,
+      queuedAt: certificate.delivery?.queuedAt || new Date()
+    };
+    let retryError = null;
+
+    try {
+      const message = await this.buildMessage(certificate, emailTemplate, to);
+      const info = await this.getTransport().sendMail(message);
+
+      if (info.rejected && info.rejected.length > 0 && (!info.accepted || info.accepted.length === 0)) {
+        certificate.delivery = { ...delivery, status: 'bounced', bouncedAt: new Date(), lastError: `Recipient rejected: ${info.rejected.join(', ')}` };
+      } else {
+        certificate.delivery = { ...delivery, status: 'sent', sentAt: new Date(), messageId: info.messageId };
+      }
+    } catch (error) {
+      console.error(`Email delivery of ${certificate.certificateId} failed:`, error);
+      if (this.isBounce(error)) {
+        certificate.delivery = { ...delivery, status: 'bounced', bouncedAt: new Date(), lastError: String(error.response || error.message).slice(0, 500) };
+      } else if (retryable) {
+        certificate.delivery = { ...delivery, status: 'queued', lastError: String(error.message).slice(0, 500) };
+        retryError = error;
+      } else {
+        certificate.delivery = { ...delivery, status: 'failed', failedAt: new Date(), lastError: String(error.message).slice(0, 500) };
+      }
+    }
+
+    await certificate.save();
+    if (retryError) {
+      throw retryError;
+    }
+    return certificate;
+  }
+
+  /**
+   * Send a sample rendering of an email template, used to check the SMTP settings
+   */
+  async sendTest(emailTemplate, to) {
+    const values = {
+      participantName: 'Jane Doe',
+      certificateId: 'CERT-2025-001',
+      templateName: 'Sample Certificate',
+      issuedDate: new Date().toLocaleDateString('en-US', { year: 'numeric', month: 'long', day: 'numeric' }),
+      expiryDate: '',
+      verificationUrl: certificateGenerator.getVerificationUrl('CERT-2025-001'),
+      downloadUrl: `${process.env.PUBLIC_API_URL || `http://localhost:${process.env.PORT || 5000}/api`}/verify/CERT-2025-001/download`
+    };
+    const body = this.renderText(emailTemplate.body, values);
+
+    return this.getTransport().sendMail({
+      from: this.from,
+      to,
+      subject: `[Test] ${this.renderText(emailTemplate.subject, values).replace(/[\r\n]+/g, ' ')}`,
+      text: body,
+      html: this.toHtml(body)
+    });
+  }
+
+  getMergeFields() {
+    return [...MERGE_FIELDS, 'fields.<key>'];
+  }
+}
+
+module.exports = new MailerService();
@@ -0,0 +1,163 @@
+const path = require('path');
+const fs = require('fs').promises;
+const fsSync = require('fs');
+const { PDFDocument, degrees } = require('pdf-lib');
+
+// Resolution page 1 of a PDF template is rasterized at for previews and PNG output
+const RASTER_DPI = parseInt(process.env.PDF_TEMPLATE_DPI) || 150;
+
+const PDFJS_ROOT = path.dirname(require.resolve('pdfjs-dist/package.json'));
+
+class PdfTemplateService {
+  constructor() {
+    // pdfjs-dist is published as an ES module, so it is imported lazily
+    this.pdfjsPromise = null;
+    // Rasterizations in progress, keyed by output path, so concurrent requests share one render
+    this.pendingRasters = new Map();
+  }
+
+  isPdf(template) {
+    return template.mimeType === 'application/pdf';
+  }
+
+  loadPdfjs() {
+    if (!this.pdfjsPromise) {
+      this.pdfjsPromise = import('pdfjs-dist/legacy/build/pdf.mjs');
+    }
+    return this.pdfjsPromise;
+  }
+
+  /**
+   * Read the first page's visible box (crop box) and rotation
+   * @returns {Object} { box, rotation, width, height } where width and height are
+   *   the page size in points as displayed, i.e. with rotation applied
+   */
+  async getPageGeometry(pdfPath) {
+    const pdf = await PDFDocument.load(await fs.readFile(pdfPath), { updateMetadata: false });
+    if (pdf.getPageCount() === 0) {
+      throw new Error('PDF has no pages');
+    }
+
+    const page = pdf.getPage(0);
+    const box = page.getCropBox();
+    const rotation = ((page.getRotation().angle % 360) + 360) % 360;
+    const sideways = rotation === 90 || rotation === 270;
+
+    return {
+      box,
+      rotation,
+      pageCount: pdf.getPageCount(),
+      width: sideways ? box.height : box.width,
+      height: sideways ? box.width : box.height
+    };
+  }
+
+  /**
+   * Page size of a PDF template, used as the template's dimensions
+   */
+  async getPageSize(pdfPath) {
+    const { width, height } = await this.getPageGeometry(pdfPath);
+    return {
+      width: Math.round(width * 100) / 100,
+      height: Math.round(height * 100) / 100
+    };
+  }
+
+  /**
+   * Where the rasterized first page of a PDF template is cached
+   */
+  getRasterPath(pdfPath) {
+    const name = path.basename(pdfPath, path.extname(pdfPath));
+    return path.join(path.dirname(pdfPath), 'previews', `${name}.png`);
+  }
+
+  /**
+   * Rasterize page 1 of a PDF template unless a cached image already exists
+   * @returns {string} Path of the PNG image
+   */
+  async ensureRaster(pdfPath) {
+    const rasterPath = this.getRasterPath(pdfPath);
+    if (fsSync.existsSync(rasterPath)) {
+      return rasterPath;
+    }
+
+    if (!this.pendingRasters.has(rasterPath)) {
+      const render = this.renderFirstPage(pdfPath, rasterPath)
+        .finally(() => this.pendingRasters.delete(rasterPath));
+      this.pendingRasters.set(rasterPath, render);
+    }
+    await this.pendingRasters.get(rasterPath);
+    return rasterPath;
+  }
+
+  async renderFirstPage(pdfPath, outputPath) {
+    const pdfjs = await this.loadPdfjs();
+    const document = await pdfjs.getDocument({
+      data: new Uint8Array(await fs.readFile(pdfPath)),
+      standardFontDataUrl: path.join(PDFJS_ROOT, 'standard_fonts/'),
+      cMapUrl: path.join(PDFJS_ROOT, 'cmaps/'),
+      cMapPacked: true,
+      isEvalSupported: false
+    }).promise;
+
+    try {
+      const page = await document.getPage(1);
+      const viewport = page.getViewport({ scale: RASTER_DPI / 72 });
+      const { canvas, context } = document.canvasFactory.create(
+        Math.ceil(viewport.width),
+        Math.ceil(viewport.height)
+      );
+
+      // PDFs may rely on a white page; keep the PNG opaque like the printed page
+      context.fillStyle = '#ffffff';
+      context.fillRect(0, 0, canvas.width, canvas.height);
+      await page.render({ canvasContext: context, viewport }).promise;
+
+      await fs.mkdir(path.dirname(outputPath), { recursive: true });
+      await fs.writeFile(outputPath, canvas.toBuffer('image/png'));
+      page.cleanup();
+    } finally {
+      await document.destroy();
+    }
+  }
+
+  /**
+   * Draw a one-page overlay PDF on top of the template's original first page,
+   * keeping the template's vector content untouched.
+   * @param {string} pdfPath - Original PDF template
+   * @param {Buffer} overlayBytes - Overlay sized to the displayed page, in points
+   * @param {string} outputPath - Where to write the combined PDF
+   */
+  async overlayFirstPage(pdfPath, overlayBytes, outputPath) {
+    const source = await PDFDocument.load(await fs.readFile(pdfPath), { updateMetadata: false });
+    const output = await PDFDocument.create();
+    const [page] = await output.copyPages(source, [0]);
+    output.addPage(page);
+
+    const box = page.getCropBox();
+    const rotation = ((page.getRotation().angle % 360) + 360) % 360;
+    const [overlay] = await output.embedPdf(overlayBytes, [0]);
+
+    // The overlay is laid out upright; counter-rotate it so it reads upright once the
+    // viewer applies the page's /Rotate
+    const origins = {
+      0: [box.x, box.y],
+      90: [box.x + box.width, box.y],
+      180: [box.x + box.width, box.y + box.height],
+      270: [box.x, box.y + box.height]
+    };
+    const [x, y] = origins[rotation] || origins[0];
+
+    page.drawPage(overlay, {
+      x,
+      y,
+      width: overlay.width,
+      height: overlay.height,
+      rotate: degrees(rotation)
+    });
+
+    await fs.writeFile(outputPath, await output.save());
+  }
+}
+
+module.exports = new PdfTemplateService();
@@ -0,0 +1,228 @@
+const os = require('os');
+const path = require('path');
+const { Worker } = require('worker_threads');
+
+// Completions counted towards the throughput figure
+const THROUGHPUT_WINDOW_MS = 60 * 1000;
+
+// Renders certificate files on worker threads so decoding and drawing never block
+// the API's event loop. Each worker keeps its own cache of decoded template images.
+class RenderPoolService {
+  constructor() {
+    const configuredSize = parseInt(process.env.RENDER_POOL_SIZE);
+    // RENDER_POOL_SIZE=0 renders on the main thread
+    this.size = Number.isNaN(configuredSize) ? Math.max(1, os.cpus().length - 1) : configuredSize;
+    this.taskTimeout = parseInt(process.env.RENDER_TIMEOUT_MS) || 2 * 60 * 1000;
+    this.workers = [];
+    this.queue = [];
+    this.nextTaskId = 1;
+    this.isClosing = false;
+    this.metrics = {
+      startedAt: new Date(),
+      rendered: 0,
+      failed: 0,
+      totalRenderMs: 0,
+      cacheHits: 0,
+      cacheMisses: 0,
+      workerRestarts: 0
+    };
+    this.recentCompletions = [];
+  }
+
+  isEnabled() {
+    return this.size > 0;
+  }
+
+  /**
+   * Render a certificate's files, on a worker when the pool is enabled
+   * @param {Object} task - Arguments for certificateGenerator.renderFiles (or renderPreview)
+   * @param {Function} renderInProcess - Renders the task on the main thread when the pool is disabled
+   * @param {string} kind - 'files' for certificate files, 'preview' for a watermarked preview
+   * @returns {Object} { pngPath, pdfPath } for files, { png } for previews
+   */
+  async render(task, renderInProcess, kind = 'files') {
+    const startTime = Date.now();
+    try {
+      const result = this.isEnabled()
+        ? await this.runOnWorker({ kind, ...this.serializeTask(task) })
+        : await renderInProcess();
+      this.recordCompletion(Date.now() - startTime, result.cacheHit);
+      return result;
+    } catch (error) {
+      this.metrics.failed++;
+      throw error;
+    }
+  }
+
+  /**
+   * Reduce a task to plain data that can be posted to a worker
+   */
+  serializeTask({ certificate, template, placeholderValues, templateFilePath, templateImagePath, fontsByFamily, imagesById }) {
+    const plainTemplate = template.toObject ? template.toObject() : template;
+    return {
+      certificate: {
+        _id: String(certificate._id),
+        certificateId: certificate.certificateId,
+        participantName: certificate.participantName,
+        fieldValues: certificate.fieldValues || {},
+        issuedDate: certificate.issuedDate,
+        expiryDate: certificate.expiryDate
+      },
+      // Round-trip through JSON so ObjectIds and Dates become plain values
+      template: JSON.parse(JSON.stringify(plainTemplate)),
+      placeholderValues: placeholderValues || {},
+      templateFilePath,
+      templateImagePath,
+      fontsByFamily: [...fontsByFamily.entries()].map(([family, fonts]) => [
+        family,
+        fonts.map(font => ({
+          family: font.family,
+          weight: font.weight,
+          style: font.style,
+          filePath: font.filePath,
+          numericWeight: font.numericWeight,
+          createdBy: String(font.createdBy)
+        }))
+      ]),
+      imagesById: [...imagesById.entries()]
+    };
+  }
+
+  runOnWorker(payload) {
+    return new Promise((resolve, reject) => {
+      this.queue.push({ id: this.nextTaskId++, payload, resolve, reject });
+      this.dispatch();
+    });
+  }
+
+  dispatch() {
+    while (this.queue.length > 0) {
+      let worker = this.workers.find(w => !w.task);
+      if (!worker && this.workers.length < this.size) {
+        worker = this.spawnWorker();
+      }
+      if (!worker) {
+        return;
+      }
+
+      const task = this.queue.shift();
+      worker.task = task;
+      worker.timer = setTimeout(() => {
+        // A hung render would hold the worker forever; replace it
+        this.failWorker(worker, new Error(`Rendering timed out after ${this.taskTimeout}ms`));
+      }, this.taskTimeout);
+      worker.thread.postMessage({ id: task.id, ...task.payload });
+    }
+  }
+
+  spawnWorker() {
+    const worker = {
+      thread: new Worker(path.join(__dirname, 'renderWorker.js')),
+      task: null,
+      timer: null
+    };
+
+    worker.thread.on('message', message => {
+      const { task } = worker;
+      if (!task || task.id !== message.id) {
+        return;
+      }
+      clearTimeout(worker.timer);
+      worker.task = null;
+
+      if (message.error) {
+        task.reject(new Error(message.error));
+      } else {
+        task.resolve(message.result);
+      }
+      this.dispatch();
+    });
+
+    worker.thread.on('error', error => {
+      console.error('Render worker crashed:', error);
+      this.failWorker(worker, error);
+    });
+
+    worker.thread.on('exit', code => {
+      if (code !== 0 && !this.isClosing) {
+        this.failWorker(worker, new Error(`Render worker exited with code ${code}`));
+      }
+    });
+
+    this.workers.push(worker);
+    return worker;
+  }
+
+  /**
+   * Drop a broken worker, failing the task it was running; the next dispatch spawns a replacement
+   */
+  failWorker(worker, error) {
+    if (!this.workers.includes(worker)) {
+      return;
+    }
+    this.workers = this.workers.filter(w => w !== worker);
+    clearTimeout(worker.timer);
+    if (worker.task) {
+      worker.task.reject(error);
+      worker.task = null;
+    }
+    this.metrics.workerRestarts++;
+    worker.thread.terminate();
+    this.dispatch();
+  }
+
+  recordCompletion(durationMs, cacheHit) {
+    const now = Date.now();
+    this.metrics.rendered++;
+    this.metrics.totalRenderMs += durationMs;
+    if (cacheHit) {
+      this.metrics.cacheHits++;
+    } else {
+      this.metrics.cacheMisses++;
+    }
+
+    this.recentCompletions.push(now);
+    while (this.recentCompletions.length > 0 && this.recentCompletions[0] < now - THROUGHPUT_WINDOW_MS) {
+      this.recentCompletions.shift();
+    }
+  }
+
+  /**
+   * Throughput and utilisation figures for monitoring
+   */
+  getMetrics() {
+    const now = Date.now();
+    const recent = this.recentCompletions.filter(time => time >= now - THROUGHPUT_WINDOW_MS).length;
+    const lookups = this.metrics.cacheHits + this.metrics.cacheMisses;
+
+    return {
+      enabled: this.isEnabled(),
+      size: this.size,
+      workers: this.workers.length,
+      busyWorkers: this.workers.filter(w => w.task).length,
+      queued: this.queue.length,
+      rendered: this.metrics.rendered,
+      failed: this.metrics.failed,
+      workerRestarts: this.metrics.workerRestarts,
+      averageRenderMs: this.metrics.rendered > 0 ? Math.round(this.metrics.totalRenderMs / this.metrics.rendered) : 0,
+      renderedLastMinute: recent,
+      cacheHitRate: lookups > 0 ? Math.round((this.metrics.cacheHits / lookups) * 1000) / 1000 : 0,
+      since: this.metrics.startedAt
+    };
+  }
+
+  /**
+   * Stop all workers; queued renders are rejected
+   */
+  async close() {
+    this.isClosing = true;
+    this.queue.splice(0).forEach(task => task.reject(new Error('Render pool is shutting down')));
+    await Promise.all(this.workers.map(worker => {
+      clearTimeout(worker.timer);
+      return worker.thread.terminate();
+    }));
+    this.workers = [];
+  }
+}
+
+module.exports = new RenderPoolService();
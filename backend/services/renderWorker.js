@@ -0,0 +1,20 @@
+const { parentPort } = require('worker_threads');
+const certificateGenerator = require('./certificateGenerator');
+
+// Entry point of a render pool worker: renders one certificate (or preview) per message.
+// Decoded template images stay cached in this thread between messages.
+parentPort.on('message', async ({ id, kind, fontsByFamily, imagesById, ...task }) => {
+  try {
+    const render = kind === 'preview'
+      ? certificateGenerator.renderPreview.bind(certificateGenerator)
+      : certificateGenerator.renderFiles.bind(certificateGenerator);
+    const result = await render({
+      ...task,
+      fontsByFamily: new Map(fontsByFamily),
+      imagesById: new Map(imagesById)
+    });
+    parentPort.postMessage({ id, result });
+  } catch (error) {
+    parentPort.postMessage({ id, error: error.message });
+  }
+});
@@ -0,0 +1,328 @@
+const path = require('path');
+const fsSync = require('fs');
+const fontkit = require('fontkit');
+const { registerFont } = require('canvas');
+
+// Folders searched for fallback fonts; the Docker image installs the Noto packages under /usr/share/fonts
+const DEFAULT_FALLBACK_FONT_DIRS = ['/usr/share/fonts', '/usr/local/share/fonts'];
+
+// Scripts participant names are commonly written in, each with the fallback faces that cover
+// it, best first. A face is a file name, or { file, postscriptName } for one face of a font
+// collection. Kana and Hangul come before Han so Japanese and Korean names get their own forms.
+const SCRIPTS = [
+  {
+    name: 'Arabic',
+    pattern: /\p{Script=Arabic}/u,
+    regular: ['NotoSansArabic-Regular.ttf', 'NotoNaskhArabic-Regular.ttf'],
+    bold: ['NotoSansArabic-Bold.ttf', 'NotoNaskhArabic-Bold.ttf']
+  },
+  {
+    name: 'Hebrew',
+    pattern: /\p{Script=Hebrew}/u,
+    regular: ['NotoSansHebrew-Regular.ttf'],
+    bold: ['NotoSansHebrew-Bold.ttf']
+  },
+  {
+    name: 'Devanagari',
+    pattern: /\p{Script=Devanagari}/u,
+    regular: ['NotoSansDevanagari-Regular.ttf'],
+    bold: ['NotoSansDevanagari-Bold.ttf']
+  },
+  {
+    name: 'Bengali',
+    pattern: /\p{Script=Bengali}/u,
+    regular: ['NotoSansBengali-Regular.ttf'],
+    bold: ['NotoSansBengali-Bold.ttf']
+  },
+  {
+    name: 'Tamil',
+    pattern: /\p{Script=Tamil}/u,
+    regular: ['NotoSansTamil-Regular.ttf'],
+    bold: ['NotoSansTamil-Bold.ttf']
+  },
+  {
+    name: 'Thai',
+    pattern: /\p{Script=Thai}/u,
+    regular: ['NotoSansThai-Regular.ttf'],
+    bold: ['NotoSansThai-Bold.ttf']
+  },
+  {
+    name: 'Korean',
+    pattern: /\p{Script=Hangul}/u,
+    regular: [{ file: 'NotoSansCJK-Regular.ttc', postscriptName: 'NotoSansCJKkr-Regular' }, 'NotoSansKR-Regular.otf'],
+    bold: [{ file: 'NotoSansCJK-Bold.ttc', postscriptName: 'NotoSansCJKkr-Bold' }, 'NotoSansKR-Bold.otf']
+  },
+  {
+    name: 'Japanese',
+    pattern: /[\p{Script=Hiragana}\p{Script=Katakana}]/u,
+    regular: [{ file: 'NotoSansCJK-Regular.ttc', postscriptName: 'NotoSansCJKjp-Regular' }, 'NotoSansJP-Regular.otf'],
+    bold: [{ file: 'NotoSansCJK-Bold.ttc', postscriptName: 'NotoSansCJKjp-Bold' }, 'NotoSansJP-Bold.otf']
+  },
+  {
+    name: 'Chinese',
+    pattern: /\p{Script=Han}/u,
+    regular: [{ file: 'NotoSansCJK-Regular.ttc', postscriptName: 'NotoSansCJKsc-Regular' }, 'NotoSansSC-Regular.otf'],
+    bold: [{ file: 'NotoSansCJK-Bold.ttc', postscriptName: 'NotoSansCJKsc-Bold' }, 'NotoSansSC-Bold.otf']
+  },
+  {
+    name: 'Latin, Greek and Cyrillic',
+    pattern: /[\p{Script=Latin}\p{Script=Greek}\p{Script=Cyrillic}]/u,
+    regular: ['NotoSans-Regular.ttf', 'DejaVuSans.ttf'],
+    bold: ['NotoSans-Bold.ttf', 'DejaVuSans-Bold.ttf']
+  }
+];
+
+// Letters of right-to-left scripts. Digits are left out: they keep left-to-right order inside RTL text.
+const RTL_LETTER = /(?!\p{Nd})[\p{Script=Arabic}\p{Script=Hebrew}\p{Script=Syriac}\p{Script=Thaana}\p{Script=Nko}]/u;
+const STRONG_LTR = /[\p{L}\p{Nd}]/u;
+const COMBINING_MARK = /\p{M}/u;
+
+// Characters that need no glyph of their own: spaces, controls and format characters such as ZWJ
+const GLYPHLESS = /[\s\p{Cc}\p{Cf}]/u;
+
+// Characters the PDF standard fonts can draw: their WinAnsi encoding
+const WIN_ANSI = /^[\u0020-\u007E\u00A0-\u00FF\u0152\u0153\u0160\u0161\u0178\u017D\u017E\u0192\u02C6\u02DC\u2013\u2014\u2018-\u201A\u201C-\u201E\u2020-\u2022\u2026\u2030\u2039\u203A\u20AC\u2122\s]*$/u;
+
+// Script-aware font fallback, so names in any script render with real glyphs instead of boxes.
+// PNG output hands the fallback families to Pango, which shapes and orders the text itself;
+// PDF output switches to a fallback face when the placeholder's font lacks glyphs, and draws
+// right-to-left runs in visual order because PDFKit lays text out one word at a time.
+class ScriptFontService {
+  constructor() {
+    this.fontDirs = (process.env.FALLBACK_FONT_DIRS || '')
+      .split(',')
+      .map(dir => dir.trim())
+      .filter(Boolean);
+    if (this.fontDirs.length === 0) {
+      this.fontDirs = DEFAULT_FALLBACK_FONT_DIRS;
+    }
+    // Font file name -> path, built on first use
+    this.fileIndex = null;
+    // Parsed fontkit fonts by path and face, for glyph coverage checks
+    this.openFonts = new Map();
+    this.canvasRegistered = false;
+  }
+
+  /**
+   * Find every font file under the fallback folders, keyed by file name
+   */
+  getFileIndex() {
+    if (this.fileIndex) return this.fileIndex;
+
+    this.fileIndex = new Map();
+    const walk = (dir, depth) => {
+      let entries;
+      try {
+        entries = fsSync.readdirSync(dir, { withFileTypes: true });
+      } catch (error) {
+        return;
+      }
+      entries.forEach(entry => {
+        const fullPath = path.join(dir, entry.name);
+        if (entry.isDirectory() && depth < 4) {
+          walk(fullPath, depth + 1);
+        } else if (entry.isFile() && /\.(ttf|otf|ttc)$/i.test(entry.name) && !this.fileIndex.has(entry.name)) {
+          this.fileIndex.set(entry.name, fullPath);
+        }
+      });
+    };
+    this.fontDirs.forEach(dir => walk(dir, 0));
+    return this.fileIndex;
+  }
+
+  /**
+   * Parse a font file with fontkit, or null when it cannot be read
+   */
+  openFont(filePath, postscriptName) {
+    const key = `${filePath}#${postscriptName || ''}`;
+    if (!this.openFonts.has(key)) {
+      let font = null;
+      try {
+        font = fontkit.openSync(filePath, postscriptName);
+      } catch (error) {
+        console.error(`Could not read font ${filePath}:`, error.message);
+      }
+      this.openFonts.set(key, font);
+    }
+    return this.openFonts.get(key);
+  }
+
+  /**
+   * The scripts a text is written in, in fallback order
+   */
+  detectScripts(text) {
+    return SCRIPTS.filter(script => script.pattern.test(text));
+  }
+
+  /**
+   * Locate the installed fallback face of a script, preferring the bold face for heavy weights
+   * @returns {Object|null} { filePath, postscriptName, family }
+   */
+  getFallbackFace(script, weight = 'normal') {
+    const numericWeight = weight === 'bold' ? 700 : parseInt(weight, 10) || 400;
+    const candidates = numericWeight >= 600 ? [...script.bold, ...script.regular] : script.regular;
+    const index = this.getFileIndex();
+
+    for (const candidate of candidates) {
+      const { file, postscriptName } = typeof candidate === 'string' ? { file: candidate } : candidate;
+      const filePath = index.get(file);
+      if (!filePath) continue;
+
+      const font = this.openFont(filePath, postscriptName);
+      if (font) {
+        return { filePath, postscriptName, family: font.familyName };
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Whether a font has a glyph for every visible character of the text
+   * @param {string} src - Path of a font file, or the name of a PDF standard font
+   */
+  coversText(src, text, postscriptName) {
+    if (!path.isAbsolute(src)) {
+      return WIN_ANSI.test(text);
+    }
+    const font = this.openFont(src, postscriptName);
+    return Boolean(font) && Array.from(text).every(char =>
+      GLYPHLESS.test(char) || font.hasGlyphForCodePoint(char.codePointAt(0))
+    );
+  }
+
+  /**
+   * Choose the PDF font for a text: the placeholder's own font when it has every glyph,
+   * otherwise the first fallback face that does
+   * @param {string} src - The placeholder's font file path or standard font name
+   * @returns {Object} { src, postscriptName, fallback }
+   */
+  selectPdfFont(text, src, weight) {
+    if (this.coversText(src, text)) {
+      return { src, fallback: false };
+    }
+
+    const scripts = this.detectScripts(text);
+    const generic = SCRIPTS[SCRIPTS.length - 1];
+    if (!scripts.includes(generic)) {
+      scripts.push(generic);
+    }
+
+    let best = null;
+    for (const script of scripts) {
+      const face = this.getFallbackFace(script, weight);
+      if (!face) continue;
+      if (this.coversText(face.filePath, text, face.postscriptName)) {
+        return { src: face.filePath, postscriptName: face.postscriptName, fallback: true };
+      }
+      // Mixed-script text no single face covers: use the face of the first script found
+      best = best || face;
+    }
+
+    return best
+      ? { src: best.filePath, postscriptName: best.postscriptName, fallback: true }
+      : { src, fallback: false };
+  }
+
+  /**
+   * Family names of the fallback faces for the scripts in a text, for a canvas font list
+   */
+  getCanvasFallbackFamilies(text, weight) {
+    const families = this.detectScripts(text)
+      .map(script => this.getFallbackFace(script, weight))
+      .filter(Boolean)
+      .map(face => face.family);
+    return [...new Set(families)];
+  }
+
+  /**
+   * Register the installed fallback faces with node-canvas, once per process.
+   * Collections are left to fontconfig, which already indexes the system font folders.
+   */
+  registerCanvasFonts() {
+    if (this.canvasRegistered) return;
+    this.canvasRegistered = true;
+
+    SCRIPTS.forEach(script => {
+      ['normal', 'bold'].forEach(weight => {
+        const face = this.getFallbackFace(script, weight);
+        if (!face || face.postscriptName) return;
+        try {
+          registerFont(face.filePath, { family: face.family, weight });
+        } catch (error) {
+          console.error(`Could not register fallback font ${face.filePath}:`, error.message);
+        }
+      });
+    });
+  }
+
+  /**
+   * Scripts in a text that the font chosen for it still cannot draw
+   * @param {string} src - The placeholder's font file path or standard font name
+   * @returns {string[]} Script names
+   */
+  getUncoveredScripts(text, src, weight) {
+    const selected = this.selectPdfFont(text, src, weight);
+    if (this.coversText(selected.src, text, selected.postscriptName)) return [];
+
+    return this.detectScripts(text)
+      .filter(script => {
+        const chars = Array.from(text).filter(char => script.pattern.test(char)).join('');
+        return !this.coversText(selected.src, chars, selected.postscriptName);
+      })
+      .map(script => script.name);
+  }
+
+  isRightToLeft(text) {
+    const strong = Array.from(text).find(char => RTL_LETTER.test(char) || STRONG_LTR.test(char));
+    return Boolean(strong) && RTL_LETTER.test(strong);
+  }
+
+  /**
+   * Split a line into directional runs in the order they are drawn, left to right.
+   * A simplified bidi algorithm: neutrals between runs of the same direction join them,
+   * other neutrals take the direction of the line, set by its first strong character.
+   * @returns {Array} [{ text, rtl }]
+   */
+  getVisualRuns(text) {
+    if (!RTL_LETTER.test(text)) {
+      return [{ text, rtl: false }];
+    }
+
+    const chars = Array.from(text);
+    const types = [];
+    chars.forEach((char, i) => {
+      if (RTL_LETTER.test(char)) {
+        types.push('rtl');
+      } else if (STRONG_LTR.test(char)) {
+        types.push('ltr');
+      } else if (COMBINING_MARK.test(char) && i > 0) {
+        types.push(types[i - 1]);
+      } else {
+        types.push(null);
+      }
+    });
+
+    const base = this.isRightToLeft(text) ? 'rtl' : 'ltr';
+    const resolved = types.map((type, i) => {
+      if (type) return type;
+      const before = types.slice(0, i).reverse().find(Boolean);
+      const after = types.slice(i + 1).find(Boolean);
+      return before && before === after ? before : base;
+    });
+
+    const runs = [];
+    chars.forEach((char, i) => {
+      const rtl = resolved[i] === 'rtl';
+      const last = runs[runs.length - 1];
+      if (last && last.rtl === rtl) {
+        last.text += char;
+      } else {
+        runs.push({ text: char, rtl });
+      }
+    });
+
+    return base === 'rtl' ? runs.reverse() : runs;
+  }
+}
+
+module.exports = new ScriptFontService();
@@ -0,0 +1,176 @@
+const crypto = require('crypto');
+const fs = require('fs').promises;
+const path = require('path');
+
+const BASE58_ALPHABET = '123456789ABCDEFGHJKLMNPQRSTUVWXYZabcdefghijkmnopqrstuvwxyz';
+
+// Multicodec prefix of an Ed25519 public key inside a Multikey
+const ED25519_MULTICODEC = Buffer.from([0xed, 0x01]);
+
+/**
+ * Encode bytes as base58 (Bitcoin alphabet)
+ */
+const encodeBase58 = (bytes) => {
+  const digits = [];
+  for (const byte of bytes) {
+    let carry = byte;
+    for (let i = 0; i < digits.length; i++) {
+      carry += digits[i] * 256;
+      digits[i] = carry % 58;
+      carry = Math.floor(carry / 58);
+    }
+    while (carry > 0) {
+      digits.push(carry % 58);
+      carry = Math.floor(carry / 58);
+    }
+  }
+
+  let result = '';
+  for (let i = 0; i < bytes.length && bytes[i] === 0; i++) {
+    result += BASE58_ALPHABET[0];
+  }
+  for (let i = digits.length - 1; i >= 0; i--) {
+    result += BASE58_ALPHABET[digits[i]];
+  }
+  return result;
+};
+
+/**
+ * Decode a base58 (Bitcoin alphabet) string
+ * @throws {Error} When the string contains characters outside the alphabet
+ */
+const decodeBase58 = (value) => {
+  const bytes = [];
+  for (const char of value) {
+    let carry = BASE58_ALPHABET.indexOf(char);
+    if (carry < 0) {
+      throw new Error('Invalid base58 character');
+    }
+    for (let i = 0; i < bytes.length; i++) {
+      carry += bytes[i] * 58;
+      bytes[i] = carry & 0xff;
+      carry >>= 8;
+    }
+    while (carry > 0) {
+      bytes.push(carry & 0xff);
+      carry >>= 8;
+    }
+  }
+
+  let leadingZeros = 0;
+  while (leadingZeros < value.length && value[leadingZeros] === BASE58_ALPHABET[0]) {
+    leadingZeros++;
+  }
+  return Buffer.concat([Buffer.alloc(leadingZeros), Buffer.from(bytes.reverse())]);
+};
+
+// Keeps one Ed25519 signing key per admin on local disk; keys are created the first
+// time an admin issues a credential and never leave the server
+class SigningKeyService {
+  constructor() {
+    this.keyDir = path.resolve(process.env.SIGNING_KEY_DIR || path.join(__dirname, '../keys'));
+    this.cache = new Map();
+  }
+
+  getKeyPath(adminId) {
+    return path.join(this.keyDir, `${String(adminId)}.ed25519.pem`);
+  }
+
+  /**
+   * Load an admin's key pair, creating it when the admin has none yet
+   * @returns {Promise<{privateKey: KeyObject, publicKey: KeyObject}>}
+   */
+  async getKeyPair(adminId) {
+    const existing = await this.loadKeyPair(adminId);
+    if (existing) {
+      return existing;
+    }
+
+    await fs.mkdir(this.keyDir, { recursive: true, mode: 0o700 });
+    const { privateKey } = crypto.generateKeyPairSync('ed25519');
+    const pem = privateKey.export({ type: 'pkcs8', format: 'pem' });
+
+    try {
+      // 'wx' so two requests racing to create a key cannot overwrite each other's
+      await fs.writeFile(this.getKeyPath(adminId), pem, { mode: 0o600, flag: 'wx' });
+    } catch (error) {
+      if (error.code !== 'EEXIST') {
+        throw error;
+      }
+    }
+
+    return this.loadKeyPair(adminId);
+  }
+
+  /**
+   * Load an admin's key pair without creating one
+   * @returns {Promise<{privateKey: KeyObject, publicKey: KeyObject}|null>}
+   */
+  async loadKeyPair(adminId) {
+    const cacheKey = String(adminId);
+    if (this.cache.has(cacheKey)) {
+      return this.cache.get(cacheKey);
+    }
+
+    let pem;
+    try {
+      pem = await fs.readFile(this.getKeyPath(adminId), 'utf8');
+    } catch (error) {
+      if (error.code === 'ENOENT') {
+        return null;
+      }
+      throw error;
+    }
+
+    const privateKey = crypto.createPrivateKey(pem);
+    const keyPair = { privateKey, publicKey: crypto.createPublicKey(privateKey) };
+    this.cache.set(cacheKey, keyPair);
+    return keyPair;
+  }
+
+  /**
+   * Public key as a Multikey `publicKeyMultibase` value
+   */
+  toMultibase(publicKey) {
+    const raw = Buffer.from(publicKey.export({ format: 'jwk' }).x, 'base64url');
+    return `z${encodeBase58(Buffer.concat([ED25519_MULTICODEC, raw]))}`;
+  }
+
+  /**
+   * Public key from a Multikey `publicKeyMultibase` value
+   * @throws {Error} When the value is not a base58btc Ed25519 Multikey
+   */
+  fromMultibase(value) {
+    if (typeof value !== 'string' || !value.startsWith('z')) {
+      throw new Error('Public key must be base58btc multibase encoded');
+    }
+    const bytes = decodeBase58(value.slice(1));
+    if (bytes.length !== 34 || !bytes.subarray(0, 2).equals(ED25519_MULTICODEC)) {
+      throw new Error('Public key is not an Ed25519 Multikey');
+    }
+    return crypto.createPublicKey({
+      key: { kty: 'OKP', crv: 'Ed25519', x: bytes.subarray(2).toString('base64url') },
+      format: 'jwk'
+    });
+  }
+
+  /**
+   * Signature or other bytes as a base58btc multibase string
+   */
+  encodeMultibase(bytes) {
+    return `z${encodeBase58(bytes)}`;
+  }
+
+  /**
+   * Bytes of a base58btc multibase string
+   * @throws {Error} When the value is not base58btc multibase encoded
+   */
+  decodeMultibase(value) {
+    if (typeof value !== 'string' || !value.startsWith('z')) {
+      throw new Error('Value must be base58btc multibase encoded');
+    }
+    return decodeBase58(value.slice(1));
+  }
+}
+
+module.exports = new SigningKeyService();
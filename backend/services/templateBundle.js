@@ -0,0 +1,317 @@
+const path = require('path');
+const fs = require('fs').promises;
+const sharp = require('sharp');
+const mongoose = require('mongoose');
+const Font = require('../models/Font');
+const ImageAsset = require('../models/ImageAsset');
+const fontLibrary = require('./fontLibrary');
+const imageLibrary = require('./imageLibrary');
+const pdfTemplate = require('./pdfTemplate');
+
+const BUNDLE_FORMAT = 'certificate-template';
+const BUNDLE_VERSION = 1;
+
+// Background types accepted by template uploads, with the extension they are stored under
+const BACKGROUND_EXTENSIONS = {
+  'image/jpeg': '.jpg',
+  'image/jpg': '.jpg',
+  'image/png': '.png',
+  'image/gif': '.gif',
+  'image/bmp': '.bmp',
+  'image/webp': '.webp',
+  'image/svg+xml': '.svg',
+  'image/tiff': '.tiff',
+  'image/tif': '.tiff',
+  'application/pdf': '.pdf'
+};
+
+// Portable template bundles: a single JSON document holding the layout, the background
+// file and the custom fonts and library images the layout uses, all base64 encoded. A bundle without a
+// background (such as test-template.json) can be imported together with an uploaded file.
+class TemplateBundleService {
+  constructor() {
+    this.uploadDir = process.env.UPLOAD_PATH || './uploads';
+    this.fontDir = path.join(this.uploadDir, 'fonts');
+  }
+
+  uniqueFilename(prefix, extension) {
+    const uniqueSuffix = Date.now() + '-' + Math.round(Math.random() * 1E9);
+    return `${prefix}-${uniqueSuffix}${extension}`;
+  }
+
+  /**
+   * The parts of a template that describe its layout, as plain data
+   */
+  getLayout(template) {
+    const plain = template.toObject ? template.toObject() : template;
+    return {
+      placeholders: plain.placeholders || [],
+      fields: plain.fields || [],
+      idScheme: plain.idScheme || undefined,
+      dimensions: plain.dimensions,
+      coordinateSpace: plain.coordinateSpace
+    };
+  }
+
+  /**
+   * Copy a template's background to a new file, so a duplicate can be changed or
+   * removed without touching the original
+   * @returns {Object} { filename, filePath }
+   */
+  async copyBackground(template) {
+    const filename = this.uniqueFilename('template', path.extname(template.filename));
+    const filePath = path.join(this.uploadDir, filename);
+    await fs.copyFile(template.filePath, filePath);
+    return { filename, filePath };
+  }
+
+  /**
+   * Build the export bundle of a template
+   * @returns {Object} The bundle, ready to be serialized as JSON
+   */
+  async exportTemplate(template) {
+    const background = await fs.readFile(template.filePath);
+    const fontsByFamily = await fontLibrary.loadTemplateFonts(template);
+
+    const fonts = [];
+    for (const familyFonts of fontsByFamily.values()) {
+      for (const font of familyFonts) {
+        fonts.push({
+          family: font.family,
+          weight: font.weight,
+          style: font.style,
+          format: font.format,
+          originalName: font.originalName,
+          data: (await fs.readFile(font.filePath)).toString('base64')
+        });
+      }
+    }
+
+    // Library images of image placeholders; per-certificate images belong to certificates
+    const assetIds = template.placeholders
+      .filter(p => p.type === 'image' && p.assetId)
+      .map(p => p.assetId);
+    const assets = await ImageAsset.find({ _id: { $in: assetIds }, createdBy: template.createdBy._id || template.createdBy });
+
+    const images = [];
+    for (const asset of assets) {
+      try {
+        images.push({
+          id: String(asset._id),
+          name: asset.name,
+          originalName: asset.originalName,
+          data: (await fs.readFile(asset.filePath)).toString('base64')
+        });
+      } catch (error) {
+        console.error(`Image file missing on disk: ${asset.filePath}`);
+      }
+    }
+
+    const { placeholders, fields, idScheme, dimensions, coordinateSpace } = this.getLayout(template);
+
+    return {
+      format: BUNDLE_FORMAT,
+      formatVersion: BUNDLE_VERSION,
+      exportedAt: new Date().toISOString(),
+      name: template.name,
+      description: template.description || '',
+      dimensions,
+      coordinateSpace,
+      placeholders,
+      fields,
+      ...(idScheme && { idScheme }),
+      background: {
+        originalName: template.originalName,
+        mimeType: template.mimeType,
+        data: background.toString('base64')
+      },
+      fonts,
+      images
+    };
+  }
+
+  /**
+   * Parse and check the shape of an uploaded bundle
+   * @param {Buffer|string} input - Raw JSON
+   * @throws {Error} When the bundle is not valid JSON or not a template bundle
+   */
+  parseBundle(input) {
+    let bundle;
+    try {
+      bundle = JSON.parse(input.toString('utf8').replace(/^\uFEFF/, ''));
+    } catch (error) {
+      throw new Error(`Could not parse bundle: ${error.message}`);
+    }
+
+    if (!bundle || typeof bundle !== 'object' || Array.isArray(bundle)) {
+      throw new Error('Bundle must be a JSON object');
+    }
+    if (bundle.format !== undefined && bundle.format !== BUNDLE_FORMAT) {
+      throw new Error(`Unsupported bundle format "${bundle.format}"`);
+    }
+    if (bundle.formatVersion !== undefined && bundle.formatVersion > BUNDLE_VERSION) {
+      throw new Error(`Bundle format version ${bundle.formatVersion} is newer than this server supports`);
+    }
+    if (!Array.isArray(bundle.placeholders)) {
+      throw new Error('Bundle has no placeholders list');
+    }
+    if (bundle.fields !== undefined && !Array.isArray(bundle.fields)) {
+      throw new Error('Bundle fields must be a list');
+    }
+    if (bundle.fonts !== undefined && !Array.isArray(bundle.fonts)) {
+      throw new Error('Bundle fonts must be a list');
+    }
+    if (bundle.images !== undefined && !Array.isArray(bundle.images)) {
+      throw new Error('Bundle images must be a list');
+    }
+    if (bundle.background) {
+      if (!BACKGROUND_EXTENSIONS[bundle.background.mimeType]) {
+        throw new Error(`Unsupported background type "${bundle.background.mimeType}"`);
+      }
+      if (typeof bundle.background.data !== 'string' || bundle.background.data.length === 0) {
+        throw new Error('Bundle background has no data');
+      }
+    }
+
+    return bundle;
+  }
+
+  /**
+   * Write an imported background to the upload folder and measure it
+   * @param {Object} background - { buffer, mimeType, originalName }
+   * @returns {Object} File details for the new template
+   */
+  async writeBackground({ buffer, mimeType, originalName }) {
+    const filename = this.uniqueFilename('template', BACKGROUND_EXTENSIONS[mimeType]);
+    const filePath = path.join(this.uploadDir, filename);
+    await fs.writeFile(filePath, buffer);
+
+    try {
+      return {
+        filename,
+        filePath,
+        fileSize: buffer.length,
+        mimeType,
+        originalName: originalName || filename,
+        dimensions: await this.measureBackground(filePath, mimeType)
+      };
+    } catch (error) {
+      await fs.unlink(filePath).catch(console.error);
+      throw error;
+    }
+  }
+
+  /**
+   * Measure a background the same way uploads are measured; PDFs are rasterized for the editor
+   * @throws {Error} When the file cannot be read as an image or PDF
+   */
+  async measureBackground(filePath, mimeType) {
+    if (mimeType === 'application/pdf') {
+      const dimensions = await pdfTemplate.getPageSize(filePath);
+      await pdfTemplate.ensureRaster(filePath);
+      return dimensions;
+    }
+
+    const metadata = await sharp(filePath).metadata();
+    if (!metadata.width || !metadata.height) {
+      throw new Error('Could not read the background image');
+    }
+    return { width: metadata.width, height: metadata.height };
+  }
+
+  /**
+   * Add a bundle's fonts to an admin's library. Faces the library already has are
+   * kept as they are, so imports never replace fonts other templates use.
+   * @returns {Object} { imported, skipped } - descriptions of the faces
+   */
+  async importFonts(fonts = [], adminId) {
+    const imported = [];
+    const skipped = [];
+
+    for (const entry of fonts) {
+      const family = (entry.family || '').trim();
+      const weight = entry.weight || 'normal';
+      const style = entry.style || 'normal';
+      const label = `${family} ${weight} ${style}`;
+
+      if (!family || typeof entry.data !== 'string') {
+        skipped.push(`${family ? label : 'Unnamed font'} (no font data)`);
+        continue;
+      }
+
+      const existing = await Font.findOne({ createdBy: adminId, family, weight, style, isActive: true });
+      if (existing) {
+        skipped.push(`${label} (already in your library)`);
+        continue;
+      }
+
+      const buffer = Buffer.from(entry.data, 'base64');
+      const format = fontLibrary.detectBufferFormat(buffer);
+      if (!format) {
+        skipped.push(`${label} (not a valid TTF, OTF or WOFF font)`);
+        continue;
+      }
+
+      const filename = this.uniqueFilename('font', `.${format}`);
+      const filePath = path.join(this.fontDir, filename);
+      await fs.writeFile(filePath, buffer);
+
+      try {
+        await Font.create({
+          family,
+          weight,
+          style,
+          format,
+          filename,
+          originalName: entry.originalName || filename,
+          filePath,
+          fileSize: buffer.length,
+          createdBy: adminId
+        });
+        imported.push(label);
+      } catch (error) {
+        await fs.unlink(filePath).catch(console.error);
+        skipped.push(`${label} (${error.message})`);
+      }
+    }
+
+    return { imported, skipped };
+  }
+
+  /**
+   * Add a bundle's images to an admin's library. Each import adds new copies, since
+   * images have no identity beyond their ID in the exporting server.
+   * @returns {Object} { imported, skipped, idMap } where idMap maps the bundle's image
+   *   IDs to the new ones
+   */
+  async importImages(images = [], adminId) {
+    const imported = [];
+    const skipped = [];
+    const idMap = new Map();
+
+    for (const entry of images) {
+      const label = (entry.name || entry.originalName || 'Unnamed image').toString().slice(0, 100);
+
+      if (typeof entry.data !== 'string' || !mongoose.isValidObjectId(entry.id)) {
+        skipped.push(`${label} (no image data)`);
+        continue;
+      }
+
+      try {
+        const image = await imageLibrary.saveImage(Buffer.from(entry.data, 'base64'), {
+          name: label,
+          originalName: entry.originalName || `${label}.png`,
+          adminId
+        });
+        idMap.set(String(entry.id), String(image._id));
+        imported.push(label);
+      } catch (error) {
+        skipped.push(`${label} (${error.message})`);
+      }
+    }
+
+    return { imported, skipped, idMap };
+  }
+}
+
+module.exports = new TemplateBundleService();
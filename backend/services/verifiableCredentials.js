@@ -0,0 +1,280 @@
+const crypto = require('crypto');
+const signingKeys = require('./signingKeys');
+
+const CREDENTIAL_CONTEXT = [
+  'https://www.w3.org/ns/credentials/v2',
+  'https://purl.imsglobal.org/spec/ob/v3p0/context-3.0.3.json'
+];
+const MULTIKEY_CONTEXT = 'https://w3id.org/security/multikey/v1';
+
+const PROOF_TYPE = 'DataIntegrityProof';
+const CRYPTOSUITE = 'eddsa-jcs-2022';
+const PROOF_PURPOSE = 'assertionMethod';
+const KEY_FRAGMENT = 'key-1';
+
+/**
+ * Serialize JSON with sorted keys and no whitespace (RFC 8785 JSON Canonicalization Scheme),
+ * so the signed bytes do not depend on how a document was formatted
+ */
+const canonicalize = (value) => {
+  if (value === null || typeof value !== 'object') {
+    return JSON.stringify(value);
+  }
+  if (Array.isArray(value)) {
+    return `[${value.map(item => (item === undefined ? 'null' : canonicalize(item))).join(',')}]`;
+  }
+  return `{${Object.keys(value)
+    .filter(key => value[key] !== undefined)
+    .sort()
+    .map(key => `${JSON.stringify(key)}:${canonicalize(value[key])}`)
+    .join(',')}}`;
+};
+
+const sha256 = (data) => crypto.createHash('sha256').update(data).digest();
+
+// eddsa-jcs-2022 signs the hash of the proof options followed by the hash of the document
+const getSignedBytes = (document, proofOptions) => Buffer.concat([
+  sha256(canonicalize({ ...proofOptions, '@context': document['@context'] })),
+  sha256(canonicalize(document))
+]);
+
+// Builds Open Badges 3.0 credentials (W3C Verifiable Credentials) for certificates and
+// signs them with the issuing admin's Ed25519 key
+class VerifiableCredentialService {
+  getApiUrl() {
+    return process.env.PUBLIC_API_URL || `http://localhost:${process.env.PORT || 5000}/api`;
+  }
+
+  /**
+   * Public URL of an admin's issuer profile, which lists the key that verifies their credentials
+   */
+  getIssuerId(adminId) {
+    return `${this.getApiUrl()}/verify/issuers/${adminId}`;
+  }
+
+  /**
+   * Credential ID of a certificate; it resolves to the certificate's public verification
+   */
+  getCredentialId(certificateId) {
+    return `${this.getApiUrl()}/verify/${encodeURIComponent(certificateId)}`;
+  }
+
+  /**
+   * Issuer details of an admin, falling back to the admin's name and the app URL
+   */
+  resolveIssuerProfile(admin) {
+    const profile = admin.issuerProfile || {};
+    return {
+      name: profile.name || admin.name,
+      url: profile.url || process.env.FRONTEND_URL || 'http://localhost:3000',
+      email: profile.email || null,
+      description: profile.description || null,
+      imageUrl: profile.imageUrl || null
+    };
+  }
+
+  /**
+   * Issuer `Profile` as embedded in credentials
+   */
+  buildIssuer(admin) {
+    const profile = this.resolveIssuerProfile(admin);
+    return {
+      id: this.getIssuerId(admin._id),
+      type: ['Profile'],
+      name: profile.name,
+      url: profile.url,
+      email: profile.email || undefined,
+      description: profile.description || undefined,
+      image: profile.imageUrl ? { id: profile.imageUrl, type: 'Image' } : undefined
+    };
+  }
+
+  /**
+   * Issuer profile document served at the issuer ID, with the admin's public key
+   * when they have issued a credential
+   */
+  async buildIssuerDocument(admin) {
+    const issuer = this.buildIssuer(admin);
+    const keyPair = await signingKeys.loadKeyPair(admin._id);
+
+    const document = {
+      '@context': [...CREDENTIAL_CONTEXT, MULTIKEY_CONTEXT],
+      ...issuer
+    };
+
+    if (keyPair) {
+      const verificationMethod = `${issuer.id}#${KEY_FRAGMENT}`;
+      document.verificationMethod = [{
+        id: verificationMethod,
+        type: 'Multikey',
+        controller: issuer.id,
+        publicKeyMultibase: signingKeys.toMultibase(keyPair.publicKey)
+      }];
+      document.assertionMethod = [verificationMethod];
+    }
+
+    return JSON.parse(JSON.stringify(document));
+  }
+
+  /**
+   * Unsigned OpenBadgeCredential for a certificate
+   * @param {Object} certificate - Certificate document
+   * @param {Object} admin - Admin who issued the certificate
+   * @param {Object} [template] - Template the certificate was issued from, for its description
+   */
+  buildCredential(certificate, admin, template) {
+    const issuer = this.buildIssuer(admin);
+    const name = certificate.templateSnapshot?.name || template?.name || 'Certificate';
+    const templateId = String(template?._id || certificate.template);
+
+    const identifier = [{
+      type: 'IdentityObject',
+      identityHash: certificate.participantName,
+      identityType: 'name',
+      hashed: false
+    }];
+
+    // Email addresses are only published salted and hashed, as Open Badges recommends
+    if (certificate.recipientEmail) {
+      const salt = crypto.randomBytes(16).toString('hex');
+      identifier.push({
+        type: 'IdentityObject',
+        identityHash: `sha256$${sha256(certificate.recipientEmail.toLowerCase() + salt).toString('hex')}`,
+        identityType: 'emailAddress',
+        hashed: true,
+        salt
+      });
+    }
+
+    const credential = {
+      '@context': CREDENTIAL_CONTEXT,
+      id: this.getCredentialId(certificate.certificateId),
+      type: ['VerifiableCredential', 'OpenBadgeCredential'],
+      issuer,
+      validFrom: new Date(certificate.issuedDate).toISOString(),
+      validUntil: certificate.expiryDate ? new Date(certificate.expiryDate).toISOString() : undefined,
+      name,
+      credentialSubject: {
+        type: ['AchievementSubject'],
+        identifier,
+        achievement: {
+          id: this.getAchievementId(issuer.id, templateId),
+          type: ['Achievement'],
+          name,
+          description: template?.description || `${name} issued by ${issuer.name}`,
+          criteria: {
+            narrative: `Awarded the ${name} certificate by ${issuer.name}.`
+          }
+        }
+      }
+    };
+
+    return JSON.parse(JSON.stringify(credential));
+  }
+
+  /**
+   * Stable achievement ID for a template, scoped to its issuer
+   */
+  getAchievementId(issuerId, templateId) {
+    const hex = sha256(`${issuerId}/achievements/${templateId}`).toString('hex');
+    // Laid out as a version 8 (custom) UUID
+    const variant = ((parseInt(hex[16], 16) & 0x3) | 0x8).toString(16);
+    return `urn:uuid:${hex.slice(0, 8)}-${hex.slice(8, 12)}-8${hex.slice(13, 16)}-${variant}${hex.slice(17, 20)}-${hex.slice(20, 32)}`;
+  }
+
+  /**
+   * Attach a Data Integrity proof made with the issuing admin's key
+   * @returns {Promise<Object>} The signed credential
+   */
+  async signCredential(credential, adminId) {
+    const { privateKey } = await signingKeys.getKeyPair(adminId);
+
+    const proofOptions = {
+      type: PROOF_TYPE,
+      cryptosuite: CRYPTOSUITE,
+      created: new Date().toISOString().replace(/\.\d{3}Z$/, 'Z'),
+      verificationMethod: `${this.getIssuerId(adminId)}#${KEY_FRAGMENT}`,
+      proofPurpose: PROOF_PURPOSE
+    };
+    const signature = crypto.sign(null, getSignedBytes(credential, proofOptions), privateKey);
+
+    return {
+      ...credential,
+      proof: {
+        ...proofOptions,
+        proofValue: signingKeys.encodeMultibase(signature)
+      }
+    };
+  }
+
+  /**
+   * Check a credential's proof against the local key of the admin it names as issuer
+   * @returns {Promise<{verified: boolean, error: string|null, adminId: string|null, certificateId: string|null}>}
+   */
+  async verifyCredential(credential) {
+    const result = { verified: false, error: null, adminId: null, certificateId: null };
+
+    if (!credential || typeof credential !== 'object' || Array.isArray(credential)) {
+      return { ...result, error: 'Credential must be a JSON object' };
+    }
+
+    const { proof, ...document } = credential;
+    if (!proof || typeof proof !== 'object' || Array.isArray(proof)) {
+      return { ...result, error: 'Credential has no proof' };
+    }
+    if (proof.type !== PROOF_TYPE || proof.cryptosuite !== CRYPTOSUITE) {
+      return { ...result, error: `Unsupported proof; expected a ${PROOF_TYPE} using ${CRYPTOSUITE}` };
+    }
+    if (proof.proofPurpose !== PROOF_PURPOSE) {
+      return { ...result, error: `Proof purpose must be ${PROOF_PURPOSE}` };
+    }
+
+    const issuerPrefix = `${this.getApiUrl()}/verify/issuers/`;
+    // The issuer is an ID or a Profile object with one; anything else cannot be ours
+    const issuerId = typeof document.issuer === 'string' ? document.issuer : document.issuer?.id;
+    if (typeof issuerId !== 'string') {
+      return { ...result, error: 'Credential was not issued by this service' };
+    }
+    const verificationMethod = typeof proof.verificationMethod === 'string' ? proof.verificationMethod : '';
+    const adminId = issuerId.startsWith(issuerPrefix) ? issuerId.slice(issuerPrefix.length) : null;
+
+    if (!adminId || !/^[a-f\d]{24}$/i.test(adminId) || verificationMethod !== `${issuerId}#${KEY_FRAGMENT}`) {
+      return { ...result, error: 'Credential was not issued by this service' };
+    }
+
+    const credentialPrefix = `${this.getApiUrl()}/verify/`;
+    let certificateId = null;
+    if (typeof document.id === 'string' && document.id.startsWith(credentialPrefix)) {
+      try {
+        certificateId = decodeURIComponent(document.id.slice(credentialPrefix.length));
+      } catch {
+        return { ...result, adminId, error: 'Credential ID is malformed' };
+      }
+    }
+
+    const keyPair = await signingKeys.loadKeyPair(adminId);
+    if (!keyPair) {
+      return { ...result, adminId, certificateId, error: 'Issuer has no signing key' };
+    }
+
+    let signature;
+    try {
+      signature = signingKeys.decodeMultibase(proof.proofValue);
+    } catch {
+      return { ...result, adminId, certificateId, error: 'Proof value is not base58btc multibase encoded' };
+    }
+
+    const { proofValue, ...proofOptions } = proof;
+    const verified = signature.length === 64 &&
+      crypto.verify(null, getSignedBytes(document, proofOptions), keyPair.publicKey, signature);
+
+    return {
+      verified,
+      error: verified ? null : 'Proof signature does not match the credential',
+      adminId,
+      certificateId
+    };
+  }
+}
+
+module.exports = new VerifiableCredentialService();
@@ -140,6 +140,30 @@ class WebSocketService {
     });
   }
 
+  // Send batch generation progress
+  sendBatchProgress(adminId, progress) {
+    this.sendProgressUpdate(adminId, {
+      operation: 'batch_generate',
+      ...progress
+    });
+  }
+
+  // Send batch generation completion notification
+  sendBatchComplete(adminId, result) {
+    this.sendProgressUpdate(adminId, {
+      operation: 'batch_generate_complete',
+      ...result
+    });
+  }
+
+  // Send batch generation error notification
+  sendBatchError(adminId, error) {
+    this.sendProgressUpdate(adminId, {
+      operation: 'batch_generate_error',
+      error: error.message || 'Unknown error occurred'
+    });
+  }
+
   // Get connected clients count for admin
   getConnectedClientsCount(adminId) {
     const adminIdStr = adminId.toString();
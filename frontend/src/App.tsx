@@ -12,6 +12,7 @@ import Certificates from './pages/Certificates';
 import Generate from './pages/Generate';
 import Settings from './pages/Settings';
 import NotFound from './pages/NotFound';
+import Verify from './pages/Verify';
 
 function App() {
   return (
@@ -23,6 +24,7 @@ function App() {
               <Routes>
                 {/* Public routes */}
                 <Route path="/login" element={<Login />} />
+                <Route path="/verify/:certificateId" element={<Verify />} />
                 
                 {/* Protected routes */}
                 <Route path="/" element={
@@ -0,0 +1,53 @@
+import React, { useState, useEffect } from 'react';
+import LoadingSpinner from './LoadingSpinner';
+
+const AuthenticatedImage: React.FC<{ src: string; alt: string; className?: string; token: string }> = ({ src, alt, className, token }) => {
+  const [imageUrl, setImageUrl] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState(false);
+
+  useEffect(() => {
+    const fetchImage = async () => {
+      try {
+        setIsLoading(true);
+        const response = await fetch(src, {
+          headers: {
+            'Authorization': `Bearer ${token}`,
+          },
+        });
+
+        if (response.ok) {
+          const blob = await response.blob();
+          const url = URL.createObjectURL(blob);
+          setImageUrl(url);
+        } else {
+          setError(true);
+        }
+      } catch (err) {
+        setError(true);
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    fetchImage();
+
+    return () => {
+      if (imageUrl) {
+        URL.revokeObjectURL(imageUrl);
+      }
+    };
+  }, [src, token]);
+
+  if (isLoading) {
+    return <div className="flex items-center justify-center h-full"><LoadingSpinner size="sm" /></div>;
+  }
+
+  if (error || !imageUrl) {
+    return <div className="flex items-center justify-center h-full text-muted-foreground">Failed to load image</div>;
+  }
+
+  return <img src={imageUrl} alt={alt} className={className} draggable={false} />;
+};
+
+export default AuthenticatedImage;
@@ -0,0 +1,596 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useAuth } from '../contexts/AuthContext';
+import { useToast } from '../contexts/ToastContext';
+import { useWebSocket } from '../hooks/useWebSocket';
+import LoadingSpinner from './LoadingSpinner';
+import { createNetworkErrorMessage } from '../utils/errorHandler';
+import { Job, TemplateField } from '../types';
+
+type CoreField = 'participantName' | 'recipientEmail' | 'tags' | 'notes' | 'issuedDate' | 'expiryDate';
+
+interface ColumnMapping {
+  participantName: string | null;
+  recipientEmail: string | null;
+  tags: string | null;
+  notes: string | null;
+  issuedDate: string | null;
+  expiryDate: string | null;
+  fields: Record<string, string>;
+}
+
+interface RowError {
+  line: number;
+  participantName: string;
+  messages: string[];
+}
+
+interface BatchPreview {
+  headers: string[];
+  mapping: ColumnMapping;
+  mappingErrors: string[];
+  templateError: string | null;
+  fields: TemplateField[];
+  totalRows: number;
+  validRows: number;
+  errors: RowError[];
+  sampleRows: Array<Record<string, string>>;
+}
+
+interface BatchResult {
+  line: number;
+  participantName: string;
+  certificateId?: string;
+  _id?: string;
+  status: string;
+  jobId?: string;
+  emailQueued?: boolean;
+  error?: string;
+}
+
+interface BatchGenerateProps {
+  templateId: string;
+  templateName: string;
+}
+
+const CORE_FIELDS: Array<{ key: CoreField; label: string; required?: boolean }> = [
+  { key: 'participantName', label: 'Participant Name', required: true },
+  { key: 'recipientEmail', label: 'Recipient Email' },
+  { key: 'tags', label: 'Tags (separated by ; or |)' },
+  { key: 'notes', label: 'Notes' },
+  { key: 'issuedDate', label: 'Issued Date' },
+  { key: 'expiryDate', label: 'Expiry Date' },
+];
+
+const API_BASE_URL = import.meta.env.VITE_API_BASE_URL || 'http://localhost:5000/api';
+
+// Fallback check on the batch's jobs in case a WebSocket update is missed
+const BATCH_POLL_INTERVAL = 5000;
+
+const BatchGenerate: React.FC<BatchGenerateProps> = ({ templateId, templateName }) => {
+  const navigate = useNavigate();
+  const { token } = useAuth();
+  const { showToast } = useToast();
+  const { batchProgress } = useWebSocket();
+
+  const [step, setStep] = useState<'upload' | 'mapping' | 'generating' | 'done'>('upload');
+  const [file, setFile] = useState<File | null>(null);
+  const [preview, setPreview] = useState<BatchPreview | null>(null);
+  const [mapping, setMapping] = useState<ColumnMapping | null>(null);
+  const [isValidating, setIsValidating] = useState(false);
+  const [isValidated, setIsValidated] = useState(false);
+  const [results, setResults] = useState<BatchResult[]>([]);
+  const [sendEmail, setSendEmail] = useState(false);
+  const [batchId, setBatchId] = useState<string | null>(null);
+
+  const requestPreview = async (csvFile: File, columnMapping: ColumnMapping | null) => {
+    const formData = new FormData();
+    formData.append('file', csvFile);
+    formData.append('templateId', templateId);
+    if (columnMapping) {
+      formData.append('mapping', JSON.stringify(columnMapping));
+    }
+
+    const response = await fetch(`${API_BASE_URL}/certificate/batch/preview`, {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${token}`,
+      },
+      body: formData,
+    });
+
+    const data = await response.json();
+    if (!response.ok) {
+      throw new Error(data.message || 'Failed to read CSV file');
+    }
+    return data.data as BatchPreview;
+  };
+
+  const handleFileSelect = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = event.target.files?.[0];
+    event.target.value = '';
+    if (!selected) return;
+
+    try {
+      setIsValidating(true);
+      const result = await requestPreview(selected, null);
+      setFile(selected);
+      setPreview(result);
+      setMapping(result.mapping);
+      setIsValidated(false);
+      setStep('mapping');
+    } catch (error) {
+      console.error('Error reading CSV file:', error);
+      showToast(createNetworkErrorMessage('reading CSV file', error), 'error');
+    } finally {
+      setIsValidating(false);
+    }
+  };
+
+  const updateCoreMapping = (field: CoreField, column: string) => {
+    if (!mapping) return;
+    setMapping({ ...mapping, [field]: column || null });
+    setIsValidated(false);
+  };
+
+  const updateFieldMapping = (key: string, column: string) => {
+    if (!mapping) return;
+    const fields = { ...mapping.fields };
+    if (column) {
+      fields[key] = column;
+    } else {
+      delete fields[key];
+    }
+    setMapping({ ...mapping, fields });
+    setIsValidated(false);
+  };
+
+  const runDryRun = async () => {
+    if (!file || !mapping) return;
+
+    try {
+      setIsValidating(true);
+      const result = await requestPreview(file, mapping);
+      setPreview(result);
+      setMapping(result.mapping);
+      setIsValidated(true);
+
+      if (result.errors.length === 0 && result.mappingErrors.length === 0 && !result.templateError) {
+        showToast(`All ${result.totalRows} rows are valid`, 'success');
+      } else {
+        showToast('Some rows need attention before generating', 'warning');
+      }
+    } catch (error) {
+      console.error('Error validating batch:', error);
+      showToast(createNetworkErrorMessage('validating batch', error), 'error');
+    } finally {
+      setIsValidating(false);
+    }
+  };
+
+  const generateBatch = async () => {
+    if (!file || !mapping) return;
+
+    try {
+      setStep('generating');
+      const formData = new FormData();
+      formData.append('file', file);
+      formData.append('templateId', templateId);
+      formData.append('mapping', JSON.stringify(mapping));
+      formData.append('sendEmail', String(sendEmail && !!mapping.recipientEmail));
+
+      const response = await fetch(`${API_BASE_URL}/certificate/batch`, {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${token}`,
+        },
+        body: formData,
+      });
+
+      const data = await response.json();
+
+      if (response.ok) {
+        setResults(data.data.results || []);
+        if (data.data.summary.queued > 0) {
+          // Certificates are rendered by background jobs; results arrive when the batch completes
+          setBatchId(data.data.batchId);
+        } else {
+          setStep('done');
+          showToast(data.message || 'No certificates could be queued', 'error');
+        }
+      } else {
+        if (data.data?.errors) {
+          setPreview(prev => prev ? { ...prev, errors: data.data.errors, mappingErrors: data.data.mappingErrors || [] } : prev);
+        }
+        showToast(data.message || 'Failed to generate certificates', 'error');
+        setStep('mapping');
+      }
+    } catch (error) {
+      console.error('Error generating batch:', error);
+      showToast(createNetworkErrorMessage('generating certificates', error), 'error');
+      setStep('mapping');
+    }
+  };
+
+  const fetchBatchResults = useCallback(async (id: string) => {
+    try {
+      const response = await fetch(`${API_BASE_URL}/jobs/batches/${id}`, {
+        headers: {
+          'Authorization': `Bearer ${token}`,
+        },
+      });
+      const data = await response.json();
+
+      if (!response.ok || !data.data.isComplete) {
+        return;
+      }
+
+      const jobsById = new Map<string, Job>(data.data.jobs.map((job: Job) => [job._id, job]));
+      setResults(prev => prev.map(result => {
+        const job = result.jobId ? jobsById.get(result.jobId) : undefined;
+        if (!job) return result;
+        return {
+          ...result,
+          status: job.status === 'completed' ? 'generated' : 'failed',
+          emailQueued: !!job.result?.emailQueued,
+          error: job.status === 'failed' ? job.lastError || 'File generation failed' : undefined,
+        };
+      }));
+      setBatchId(null);
+      setStep('done');
+
+      const { completed, total } = data.data.summary;
+      showToast(`Generated ${completed} of ${total} certificates`, completed < total ? 'warning' : 'success');
+    } catch (error) {
+      console.error('Error fetching batch results:', error);
+    }
+  }, [token, showToast]);
+
+  useEffect(() => {
+    if (batchId && batchProgress?.operation === 'batch_generate_complete' && batchProgress.batchId === batchId) {
+      fetchBatchResults(batchId);
+    }
+  }, [batchId, batchProgress, fetchBatchResults]);
+
+  useEffect(() => {
+    if (!batchId) return;
+    const interval = window.setInterval(() => fetchBatchResults(batchId), BATCH_POLL_INTERVAL);
+    return () => window.clearInterval(interval);
+  }, [batchId, fetchBatchResults]);
+
+  const downloadReport = () => {
+    const escape = (value: string | number | undefined) => {
+      const text = value === undefined ? '' : String(value);
+      return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+    };
+
+    const lines = [
+      ['CSV Line', 'Participant Name', 'Certificate ID', 'Status', 'Email Queued', 'Error'].join(','),
+      ...results.map(result => [
+        result.line,
+        result.participantName,
+        result.certificateId,
+        result.status,
+        result.emailQueued ? 'yes' : 'no',
+        result.error,
+      ].map(escape).join(',')),
+    ];
+
+    const blob = new Blob([lines.join('\n')], { type: 'text/csv' });
+    const url = window.URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `batch-report-${new Date().toISOString().slice(0, 10)}.csv`;
+    document.body.appendChild(a);
+    a.click();
+    window.URL.revokeObjectURL(url);
+    document.body.removeChild(a);
+  };
+
+  const reset = () => {
+    setStep('upload');
+    setFile(null);
+    setPreview(null);
+    setMapping(null);
+    setIsValidated(false);
+    setResults([]);
+    setSendEmail(false);
+    setBatchId(null);
+  };
+
+  const hasProblems = !!preview && (preview.errors.length > 0 || preview.mappingErrors.length > 0 || !!preview.templateError);
+  const succeededCount = results.filter(result => result.status === 'generated').length;
+
+  return (
+    <div className="card">
+      <div className="card-header">
+        <h3 className="card-title">Batch Generation</h3>
+        <p className="card-description">
+          Issue one certificate per CSV row using {templateName}
+        </p>
+      </div>
+      <div className="card-content space-y-6">
+        {step === 'upload' && (
+          <div className="text-center py-8 border-2 border-dashed border-border rounded-lg">
+            <p className="text-muted-foreground mb-4">
+              Upload a CSV file with a header row. Include a participant name column, plus optional tags, notes, dates and template field columns.
+            </p>
+            <input
+              type="file"
+              id="batch-csv-upload"
+              accept=".csv,text/csv"
+              onChange={handleFileSelect}
+              className="hidden"
+              disabled={isValidating}
+            />
+            <label htmlFor="batch-csv-upload" className="btn btn-primary btn-md cursor-pointer">
+              {isValidating ? (
+                <div className="flex items-center">
+                  <LoadingSpinner size="sm" className="mr-2" />
+                  Reading CSV...
+                </div>
+              ) : (
+                'Choose CSV File'
+              )}
+            </label>
+          </div>
+        )}
+
+        {step === 'mapping' && preview && mapping && (
+          <>
+            <div className="flex items-center justify-between text-sm">
+              <span className="text-muted-foreground">
+                {file?.name} • {preview.totalRows} rows
+              </span>
+              <button onClick={reset} className="btn btn-outline btn-sm">
+                Choose Another File
+              </button>
+            </div>
+
+            {/* Column mapping */}
+            <div>
+              <h4 className="text-sm font-medium mb-2">Column Mapping</h4>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                {CORE_FIELDS.map(field => (
+                  <div key={field.key}>
+                    <label className="block text-xs font-medium mb-1 text-muted-foreground">
+                      {field.label}{field.required ? ' *' : ''}
+                    </label>
+                    <select
+                      value={mapping[field.key] || ''}
+                      onChange={(e) => updateCoreMapping(field.key, e.target.value)}
+                      className="input"
+                    >
+                      <option value="">{field.required ? 'Select a column' : 'Not mapped'}</option>
+                      {preview.headers.map(header => (
+                        <option key={header} value={header}>{header}</option>
+                      ))}
+                    </select>
+                  </div>
+                ))}
+              </div>
+            </div>
+
+            {/* Template fields */}
+            {preview.fields.length > 0 && (
+              <div>
+                <h4 className="text-sm font-medium mb-1">Template Fields</h4>
+                <p className="text-xs text-muted-foreground mb-2">
+                  Choose the column that fills each custom field. Unmapped fields use their default value.
+                </p>
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  {preview.fields.map(field => (
+                    <div key={field.key}>
+                      <label className="block text-xs font-medium mb-1 text-muted-foreground">
+                        {field.label}{field.required && !field.defaultValue ? ' *' : ''}
+                      </label>
+                      <select
+                        value={mapping.fields[field.key] || ''}
+                        onChange={(e) => updateFieldMapping(field.key, e.target.value)}
+                        className="input"
+                      >
+                        <option value="">{field.defaultValue ? `Default (${field.defaultValue})` : 'Not mapped'}</option>
+                        {preview.headers.map(header => (
+                          <option key={header} value={header}>{header}</option>
+                        ))}
+                      </select>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            {/* Sample rows */}
+            {preview.sampleRows.length > 0 && (
+              <div>
+                <h4 className="text-sm font-medium mb-2">Sample Rows</h4>
+                <div className="overflow-x-auto border border-border rounded-lg">
+                  <table className="w-full text-sm">
+                    <thead>
+                      <tr className="bg-secondary">
+                        {preview.headers.map(header => (
+                          <th key={header} className="text-left px-3 py-2 font-medium">{header}</th>
+                        ))}
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {preview.sampleRows.map((row, index) => (
+                        <tr key={index} className="border-t border-border">
+                          {preview.headers.map(header => (
+                            <td key={header} className="px-3 py-2 truncate max-w-xs">{row[header]}</td>
+                          ))}
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              </div>
+            )}
+
+            {/* Dry-run results */}
+            {isValidated && (
+              <div className={`p-4 rounded-lg border ${
+                hasProblems
+                  ? 'bg-red-50 border-red-200 dark:bg-red-900/20 dark:border-red-800'
+                  : 'bg-green-50 border-green-200 dark:bg-green-900/20 dark:border-green-800'
+              }`}>
+                <p className={`text-sm font-medium ${hasProblems ? 'text-red-700 dark:text-red-300' : 'text-green-700 dark:text-green-300'}`}>
+                  {preview.validRows} of {preview.totalRows} rows are valid
+                </p>
+                {preview.templateError && (
+                  <p className="text-sm text-red-700 dark:text-red-300 mt-2">{preview.templateError}</p>
+                )}
+                {preview.mappingErrors.map((message, index) => (
+                  <p key={index} className="text-sm text-red-700 dark:text-red-300 mt-2">{message}</p>
+                ))}
+                {preview.errors.length > 0 && (
+                  <div className="mt-3 max-h-64 overflow-y-auto">
+                    <table className="w-full text-sm">
+                      <thead>
+                        <tr>
+                          <th className="text-left py-1 pr-3 font-medium">Line</th>
+                          <th className="text-left py-1 pr-3 font-medium">Participant</th>
+                          <th className="text-left py-1 font-medium">Problems</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {preview.errors.map(error => (
+                          <tr key={error.line} className="border-t border-red-200 dark:border-red-800">
+                            <td className="py-1 pr-3 align-top">{error.line}</td>
+                            <td className="py-1 pr-3 align-top">{error.participantName || '—'}</td>
+                            <td className="py-1">{error.messages.join('; ')}</td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                )}
+              </div>
+            )}
+
+            <label className="flex items-center text-sm">
+              <input
+                type="checkbox"
+                checked={sendEmail && !!mapping.recipientEmail}
+                onChange={(e) => setSendEmail(e.target.checked)}
+                disabled={!mapping.recipientEmail}
+                className="mr-2"
+              />
+              Email each certificate to its recipient
+              {!mapping.recipientEmail && (
+                <span className="ml-1 text-muted-foreground">(map a Recipient Email column first)</span>
+              )}
+            </label>
+
+            <div className="flex justify-end space-x-3">
+              <button
+                onClick={runDryRun}
+                disabled={isValidating}
+                className="btn btn-outline btn-md"
+              >
+                {isValidating ? (
+                  <div className="flex items-center">
+                    <LoadingSpinner size="sm" className="mr-2" />
+                    Validating...
+                  </div>
+                ) : (
+                  'Validate (Dry Run)'
+                )}
+              </button>
+              <button
+                onClick={generateBatch}
+                disabled={!isValidated || hasProblems || isValidating}
+                className="btn btn-primary btn-md"
+              >
+                Generate {preview.totalRows} Certificates
+              </button>
+            </div>
+          </>
+        )}
+
+        {step === 'generating' && (
+          <div className="py-6">
+            <div className="flex justify-between items-center text-sm mb-2">
+              <span className="font-medium">
+                {batchProgress?.message || 'Starting batch generation...'}
+              </span>
+              <span className="text-muted-foreground">
+                {batchProgress ? `${batchProgress.processed} / ${batchProgress.total}` : ''}
+              </span>
+            </div>
+            <div className="w-full bg-gray-200 dark:bg-gray-700 rounded-full h-3">
+              <div
+                className="bg-primary h-3 rounded-full transition-all duration-500 ease-out"
+                style={{ width: `${batchProgress?.percentage || 0}%` }}
+              />
+            </div>
+            {batchProgress && batchProgress.failed > 0 && (
+              <p className="text-xs text-red-600 dark:text-red-400 mt-1">
+                {batchProgress.failed} failed so far
+              </p>
+            )}
+          </div>
+        )}
+
+        {step === 'done' && (
+          <>
+            <div className="grid grid-cols-3 gap-4 text-center">
+              <div className="p-3 border border-border rounded-lg">
+                <div className="text-lg font-bold">{results.length}</div>
+                <div className="text-xs text-muted-foreground">Total</div>
+              </div>
+              <div className="p-3 border border-border rounded-lg">
+                <div className="text-lg font-bold text-green-600">{succeededCount}</div>
+                <div className="text-xs text-muted-foreground">Generated</div>
+              </div>
+              <div className="p-3 border border-border rounded-lg">
+                <div className="text-lg font-bold text-red-600">{results.length - succeededCount}</div>
+                <div className="text-xs text-muted-foreground">Failed</div>
+              </div>
+            </div>
+
+            <div className="overflow-x-auto max-h-80 overflow-y-auto border border-border rounded-lg">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="bg-secondary">
+                    <th className="text-left px-3 py-2 font-medium">Line</th>
+                    <th className="text-left px-3 py-2 font-medium">Participant</th>
+                    <th className="text-left px-3 py-2 font-medium">Certificate ID</th>
+                    <th className="text-left px-3 py-2 font-medium">Status</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {results.map(result => (
+                    <tr key={result.line} className="border-t border-border">
+                      <td className="px-3 py-2">{result.line}</td>
+                      <td className="px-3 py-2">{result.participantName}</td>
+                      <td className="px-3 py-2">{result.certificateId || '—'}</td>
+                      <td className={`px-3 py-2 ${result.status === 'generated' ? 'text-green-600' : 'text-red-600'}`}>
+                        {result.status}{result.error ? ` (${result.error})` : ''}
+                        {result.emailQueued && <span className="ml-2 text-muted-foreground">· email queued</span>}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+
+            <div className="flex justify-end space-x-3">
+              <button onClick={reset} className="btn btn-outline btn-md">
+                New Batch
+              </button>
+              <button onClick={downloadReport} className="btn btn-outline btn-md">
+                Download Report
+              </button>
+              <button onClick={() => navigate('/certificates')} className="btn btn-primary btn-md">
+                View Certificates
+              </button>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default BatchGenerate;
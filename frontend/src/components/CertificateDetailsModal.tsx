@@ -0,0 +1,438 @@
+import React, { useState, useEffect } from 'react';
+import { useAuth } from '../contexts/AuthContext';
+import { useToast } from '../contexts/ToastContext';
+import LoadingSpinner from './LoadingSpinner';
+import AuthenticatedImage from './AuthenticatedImage';
+import ImageFieldInput from './ImageFieldInput';
+import RenewCertificateModal from './RenewCertificateModal';
+import { createNetworkErrorMessage } from '../utils/errorHandler';
+import { Certificate, CertificateVersion } from '../types';
+
+interface CertificateDetailsModalProps {
+  // Database ID of the certificate to show, or null when closed
+  certificateId: string | null;
+  onClose: () => void;
+  onUpdated: () => void;
+}
+
+const API_BASE_URL = import.meta.env.VITE_API_BASE_URL || 'http://localhost:5000/api';
+
+const formatDateTime = (dateString?: string) => {
+  if (!dateString) return '—';
+  return new Date(dateString).toLocaleString('en-US', {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+};
+
+// Issue and expiry dates are calendar days stored at midnight UTC
+const formatDay = (dateString?: string) => {
+  if (!dateString) return '—';
+  return new Date(dateString).toLocaleDateString('en-US', {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+    timeZone: 'UTC',
+  });
+};
+
+// Renewal links are populated with the linked certificate's ID
+const getLinkedCertificate = (link: Certificate['renewalOf'] | Certificate['renewedAs']) =>
+  link && typeof link !== 'string' ? link : null;
+
+const getAdminName = (admin: CertificateVersion['supersededBy']) => {
+  if (!admin) return 'Unknown';
+  return typeof admin === 'string' ? admin : admin.name;
+};
+
+const getChangeLabel = (field: string, certificate: Certificate) => {
+  if (field === 'participantName') return 'Name';
+  const key = field.replace(/^fieldValues\./, '');
+  return certificate.templateSnapshot.fields?.find(f => f.key === key)?.label || key;
+};
+
+const CertificateDetailsModal: React.FC<CertificateDetailsModalProps> = ({ certificateId, onClose, onUpdated }) => {
+  const { token } = useAuth();
+  const { showToast } = useToast();
+
+  const [certificate, setCertificate] = useState<Certificate | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isEditing, setIsEditing] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [participantName, setParticipantName] = useState('');
+  const [fieldValues, setFieldValues] = useState<Record<string, string>>({});
+  const [reason, setReason] = useState('');
+  const [isRenewing, setIsRenewing] = useState(false);
+
+  useEffect(() => {
+    if (!certificateId) {
+      setCertificate(null);
+      return;
+    }
+    setIsEditing(false);
+    fetchCertificate(certificateId);
+  }, [certificateId]);
+
+  const fetchCertificate = async (id: string) => {
+    try {
+      setIsLoading(true);
+      const response = await fetch(`${API_BASE_URL}/certificate/${id}`, {
+        headers: {
+          'Authorization': `Bearer ${token}`,
+          'Content-Type': 'application/json',
+        },
+      });
+      const data = await response.json();
+
+      if (response.ok) {
+        setCertificate(data.data.certificate);
+      } else {
+        showToast(data.message || 'Failed to load certificate', 'error');
+        onClose();
+      }
+    } catch (error) {
+      console.error('Error fetching certificate:', error);
+      showToast(createNetworkErrorMessage('loading certificate', error), 'error');
+      onClose();
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const startEditing = () => {
+    if (!certificate) return;
+    setParticipantName(certificate.participantName);
+    setFieldValues({ ...(certificate.fieldValues || {}) });
+    setReason('');
+    setIsEditing(true);
+  };
+
+  const saveCorrection = async () => {
+    if (!certificate) return;
+
+    try {
+      setIsSaving(true);
+      const response = await fetch(`${API_BASE_URL}/certificate/${certificate._id}`, {
+        method: 'PUT',
+        headers: {
+          'Authorization': `Bearer ${token}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          participantName: participantName.trim(),
+          fieldValues,
+          reason: reason.trim() || undefined,
+        }),
+      });
+      const data = await response.json();
+
+      if (response.ok) {
+        setCertificate(data.data.certificate);
+        setIsEditing(false);
+        showToast(data.message, 'success');
+        onUpdated();
+      } else {
+        showToast(data.errors?.[0]?.message || data.message || 'Failed to reissue certificate', 'error');
+      }
+    } catch (error) {
+      console.error('Error reissuing certificate:', error);
+      showToast(createNetworkErrorMessage('reissuing certificate', error), 'error');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const downloadVersion = async (version: CertificateVersion, format: 'pdf' | 'png') => {
+    if (!certificate) return;
+
+    try {
+      const response = await fetch(
+        `${API_BASE_URL}/certificate/${certificate._id}/versions/${version.version}/download/${format}`,
+        { headers: { 'Authorization': `Bearer ${token}` } }
+      );
+
+      if (response.ok) {
+        const blob = await response.blob();
+        const url = window.URL.createObjectURL(blob);
+        const a = document.createElement('a');
+        a.href = url;
+        a.download = version.files?.[format]?.filename || `${certificate.certificateId}-v${version.version}.${format}`;
+        document.body.appendChild(a);
+        a.click();
+        window.URL.revokeObjectURL(url);
+        document.body.removeChild(a);
+      } else {
+        const data = await response.json();
+        showToast(data.message || 'Failed to download version', 'error');
+      }
+    } catch (error) {
+      console.error('Error downloading certificate version:', error);
+      showToast(createNetworkErrorMessage('downloading certificate version', error), 'error');
+    }
+  };
+
+  if (!certificateId) return null;
+
+  const fields = certificate?.templateSnapshot.fields || [];
+  const renewalOf = getLinkedCertificate(certificate?.renewalOf);
+  const renewedAs = getLinkedCertificate(certificate?.renewedAs);
+  const canRenew = !!certificate && !certificate.revocation?.isRevoked && !certificate.renewedAs && (
+    certificate.status === 'expired' || (certificate.status === 'generated' && !!certificate.expiryDate)
+  );
+  const versions = [...(certificate?.versions || [])].reverse();
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white dark:bg-gray-800 rounded-lg p-6 max-w-2xl w-full mx-4 max-h-[90vh] overflow-y-auto">
+        <div className="flex items-start justify-between mb-4">
+          <div>
+            <h3 className="text-lg font-semibold text-gray-900 dark:text-gray-100">Certificate Details</h3>
+            {certificate && (
+              <p className="text-sm font-mono text-gray-600 dark:text-gray-400">
+                {certificate.certificateId} · version {certificate.version || 1}
+              </p>
+            )}
+          </div>
+          <button
+            onClick={onClose}
+            className="text-gray-500 hover:text-gray-700 dark:hover:text-gray-300"
+            title="Close"
+          >
+            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        {isLoading || !certificate ? (
+          <div className="flex justify-center py-8">
+            <LoadingSpinner size="md" />
+          </div>
+        ) : (
+          <div className="space-y-6">
+            {isEditing ? (
+              <div className="space-y-4">
+                <p className="text-sm text-gray-600 dark:text-gray-400">
+                  Saving reissues the certificate under the same ID. The current files are kept as version {certificate.version || 1}.
+                </p>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">Participant Name</label>
+                  <input
+                    type="text"
+                    value={participantName}
+                    onChange={(e) => setParticipantName(e.target.value)}
+                    className="input"
+                  />
+                </div>
+                {fields.map(field => (
+                  <div key={field.key}>
+                    <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">{field.label}</label>
+                    {field.dataType === 'image' ? (
+                      <ImageFieldInput
+                        value={fieldValues[field.key] || ''}
+                        label={field.label}
+                        onChange={(value) => setFieldValues(prev => ({ ...prev, [field.key]: value }))}
+                      />
+                    ) : (
+                      <input
+                        type={field.dataType === 'text' ? 'text' : field.dataType}
+                        value={fieldValues[field.key] || ''}
+                        onChange={(e) => setFieldValues(prev => ({ ...prev, [field.key]: e.target.value }))}
+                        className="input"
+                      />
+                    )}
+                  </div>
+                ))}
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">Reason for Correction</label>
+                  <input
+                    type="text"
+                    value={reason}
+                    onChange={(e) => setReason(e.target.value)}
+                    maxLength={500}
+                    placeholder="e.g. Name misspelled"
+                    className="input"
+                  />
+                </div>
+                <div className="flex justify-end space-x-3">
+                  <button onClick={() => setIsEditing(false)} className="btn btn-outline btn-sm">
+                    Cancel
+                  </button>
+                  <button
+                    onClick={saveCorrection}
+                    disabled={isSaving || participantName.trim().length < 2}
+                    className="btn btn-primary btn-sm"
+                  >
+                    {isSaving ? 'Reissuing...' : 'Save & Reissue'}
+                  </button>
+                </div>
+              </div>
+            ) : (
+              <div className="space-y-4">
+                <dl className="grid grid-cols-1 sm:grid-cols-2 gap-4 text-sm">
+                  <div>
+                    <dt className="text-gray-500 dark:text-gray-400">Participant</dt>
+                    <dd className="font-semibold text-gray-900 dark:text-gray-100">{certificate.participantName}</dd>
+                  </div>
+                  <div>
+                    <dt className="text-gray-500 dark:text-gray-400">Template</dt>
+                    <dd className="text-gray-900 dark:text-gray-100">
+                      {certificate.templateSnapshot?.name || certificate.template?.name}
+                      {certificate.templateSnapshot?.version && (
+                        <span className="text-gray-500 dark:text-gray-400"> (version {certificate.templateSnapshot.version})</span>
+                      )}
+                    </dd>
+                  </div>
+                  <div>
+                    <dt className="text-gray-500 dark:text-gray-400">Issued</dt>
+                    <dd className="text-gray-900 dark:text-gray-100">{formatDateTime(certificate.issuedDate)}</dd>
+                  </div>
+                  <div>
+                    <dt className="text-gray-500 dark:text-gray-400">Expires</dt>
+                    <dd className={certificate.status === 'expired' ? 'text-orange-600 dark:text-orange-400 font-medium' : 'text-gray-900 dark:text-gray-100'}>
+                      {certificate.expiryDate ? formatDay(certificate.expiryDate) : 'Never'}
+                    </dd>
+                  </div>
+                  {renewalOf && (
+                    <div>
+                      <dt className="text-gray-500 dark:text-gray-400">Renewal Of</dt>
+                      <dd>
+                        <button onClick={() => fetchCertificate(renewalOf._id)} className="font-mono text-primary hover:underline">
+                          {renewalOf.certificateId}
+                        </button>
+                      </dd>
+                    </div>
+                  )}
+                  {renewedAs && (
+                    <div>
+                      <dt className="text-gray-500 dark:text-gray-400">Renewed As</dt>
+                      <dd>
+                        <button onClick={() => fetchCertificate(renewedAs._id)} className="font-mono text-primary hover:underline">
+                          {renewedAs.certificateId}
+                        </button>
+                        <span className="text-gray-500 dark:text-gray-400"> · {formatDateTime(certificate.renewedAt)}</span>
+                      </dd>
+                    </div>
+                  )}
+                  <div>
+                    <dt className="text-gray-500 dark:text-gray-400">Status</dt>
+                    <dd className="text-gray-900 dark:text-gray-100 capitalize">
+                      {certificate.revocation?.isRevoked ? 'Revoked' : certificate.status}
+                    </dd>
+                  </div>
+                  <div>
+                    <dt className="text-gray-500 dark:text-gray-400">Recipient Email</dt>
+                    <dd className="text-gray-900 dark:text-gray-100">{certificate.recipientEmail || '—'}</dd>
+                  </div>
+                  <div>
+                    <dt className="text-gray-500 dark:text-gray-400">Email Delivery</dt>
+                    <dd className="text-gray-900 dark:text-gray-100">
+                      {certificate.delivery?.status ? (
+                        <>
+                          <span className="capitalize">{certificate.delivery.status}</span>
+                          {' '}to {certificate.delivery.to} · {formatDateTime(
+                            certificate.delivery.sentAt || certificate.delivery.bouncedAt || certificate.delivery.failedAt || certificate.delivery.queuedAt
+                          )}
+                          {certificate.delivery.lastError && (
+                            <span className="block text-xs text-red-600 dark:text-red-400">{certificate.delivery.lastError}</span>
+                          )}
+                        </>
+                      ) : 'Not sent'}
+                    </dd>
+                  </div>
+                  {fields.map(field => (
+                    <div key={field.key}>
+                      <dt className="text-gray-500 dark:text-gray-400">{field.label}</dt>
+                      <dd className="text-gray-900 dark:text-gray-100">
+                        {field.dataType === 'image' && certificate.fieldValues?.[field.key] && token ? (
+                          <div className="w-16 h-16">
+                            <AuthenticatedImage
+                              src={`${API_BASE_URL}/image/${certificate.fieldValues[field.key]}/file`}
+                              alt={field.label}
+                              className="w-full h-full object-contain"
+                              token={token}
+                            />
+                          </div>
+                        ) : certificate.fieldValues?.[field.key] || '—'}
+                      </dd>
+                    </div>
+                  ))}
+                </dl>
+                <div className="flex justify-end space-x-3">
+                  {canRenew && (
+                    <button onClick={() => setIsRenewing(true)} className="btn btn-outline btn-sm">
+                      Renew
+                    </button>
+                  )}
+                  <button onClick={startEditing} className="btn btn-primary btn-sm">
+                    Edit & Reissue
+                  </button>
+                </div>
+              </div>
+            )}
+
+            <div>
+              <h4 className="font-medium text-gray-900 dark:text-gray-100 mb-2">Previous Versions</h4>
+              {versions.length === 0 ? (
+                <p className="text-sm text-gray-500 dark:text-gray-400">This certificate has not been corrected.</p>
+              ) : (
+                <ul className="space-y-3">
+                  {versions.map(version => (
+                    <li key={version.version} className="p-3 border border-gray-200 dark:border-gray-700 rounded text-sm">
+                      <div className="flex items-center justify-between">
+                        <div>
+                          <span className="font-medium text-gray-900 dark:text-gray-100">Version {version.version}</span>
+                          <span className="ml-2 text-gray-600 dark:text-gray-400">{version.participantName}</span>
+                        </div>
+                        <div className="flex gap-2">
+                          {version.files?.pdf && (
+                            <button onClick={() => downloadVersion(version, 'pdf')} className="btn btn-outline btn-sm">
+                              PDF
+                            </button>
+                          )}
+                          {version.files?.png && (
+                            <button onClick={() => downloadVersion(version, 'png')} className="btn btn-outline btn-sm">
+                              PNG
+                            </button>
+                          )}
+                        </div>
+                      </div>
+                      <p className="mt-1 text-gray-600 dark:text-gray-400">
+                        Replaced {formatDateTime(version.supersededAt)} by {getAdminName(version.supersededBy)}
+                        {version.reason ? ` — ${version.reason}` : ''}
+                      </p>
+                      {version.changes.length > 0 && (
+                        <ul className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+                          {version.changes.map(change => (
+                            <li key={change.field}>
+                              {getChangeLabel(change.field, certificate)}: "{change.from}" → "{change.to}"
+                            </li>
+                          ))}
+                        </ul>
+                      )}
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          </div>
+        )}
+      </div>
+
+      <RenewCertificateModal
+        certificate={isRenewing ? certificate : null}
+        onClose={() => setIsRenewing(false)}
+        onRenewed={(successor) => {
+          setIsRenewing(false);
+          fetchCertificate(successor._id);
+          onUpdated();
+        }}
+      />
+    </div>
+  );
+};
+
+export default CertificateDetailsModal;
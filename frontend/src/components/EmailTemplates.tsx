@@ -0,0 +1,289 @@
+import React, { useState, useEffect } from 'react';
+import { useAuth } from '../contexts/AuthContext';
+import { useToast } from '../contexts/ToastContext';
+import LoadingSpinner from './LoadingSpinner';
+import { createNetworkErrorMessage } from '../utils/errorHandler';
+import { EmailTemplate } from '../types';
+
+type EmailTemplateDraft = Pick<EmailTemplate, 'name' | 'subject' | 'body' | 'deliveryMethod' | 'isDefault'>;
+
+const API_BASE_URL = import.meta.env.VITE_API_BASE_URL || 'http://localhost:5000/api';
+
+const EMPTY_DRAFT: EmailTemplateDraft = {
+  name: '',
+  subject: 'Your certificate {certificateId}',
+  body: 'Hello {participantName},\n\nPlease find your certificate "{templateName}" attached.\n\nVerify it at any time: {verificationUrl}',
+  deliveryMethod: 'attachment',
+  isDefault: false,
+};
+
+const EmailTemplates: React.FC = () => {
+  const { token } = useAuth();
+  const { showToast } = useToast();
+
+  const [emailTemplates, setEmailTemplates] = useState<EmailTemplate[]>([]);
+  const [mergeFields, setMergeFields] = useState<string[]>([]);
+  const [isConfigured, setIsConfigured] = useState(true);
+  const [isLoading, setIsLoading] = useState(true);
+  // ID of the template being edited; 'new' for an unsaved one, null when the form is closed
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draft, setDraft] = useState<EmailTemplateDraft>(EMPTY_DRAFT);
+  const [isSaving, setIsSaving] = useState(false);
+  const [testingId, setTestingId] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchEmailTemplates();
+  }, []);
+
+  const fetchEmailTemplates = async () => {
+    try {
+      setIsLoading(true);
+      const response = await fetch(`${API_BASE_URL}/email-template`, {
+        headers: {
+          'Authorization': `Bearer ${token}`,
+          'Content-Type': 'application/json',
+        },
+      });
+      const data = await response.json();
+
+      if (response.ok) {
+        setEmailTemplates(data.data.emailTemplates || []);
+        setMergeFields(data.data.mergeFields || []);
+        setIsConfigured(data.data.isConfigured);
+      } else {
+        showToast(data.message || 'Failed to load email templates', 'error');
+      }
+    } catch (error) {
+      console.error('Error fetching email templates:', error);
+      showToast(createNetworkErrorMessage('loading email templates', error), 'error');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const startEditing = (emailTemplate?: EmailTemplate) => {
+    setEditingId(emailTemplate ? emailTemplate._id : 'new');
+    setDraft(emailTemplate
+      ? {
+        name: emailTemplate.name,
+        subject: emailTemplate.subject,
+        body: emailTemplate.body,
+        deliveryMethod: emailTemplate.deliveryMethod,
+        isDefault: emailTemplate.isDefault,
+      }
+      : { ...EMPTY_DRAFT, isDefault: emailTemplates.length === 0 });
+  };
+
+  const saveTemplate = async () => {
+    if (!editingId) return;
+
+    try {
+      setIsSaving(true);
+      const isNew = editingId === 'new';
+      const response = await fetch(`${API_BASE_URL}/email-template${isNew ? '' : `/${editingId}`}`, {
+        method: isNew ? 'POST' : 'PUT',
+        headers: {
+          'Authorization': `Bearer ${token}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(draft),
+      });
+      const data = await response.json();
+
+      if (response.ok) {
+        showToast(data.message, 'success');
+        setEditingId(null);
+        fetchEmailTemplates();
+      } else {
+        showToast(data.errors?.[0]?.message || data.message || 'Failed to save email template', 'error');
+      }
+    } catch (error) {
+      console.error('Error saving email template:', error);
+      showToast(createNetworkErrorMessage('saving email template', error), 'error');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const deleteTemplate = async (emailTemplate: EmailTemplate) => {
+    if (!window.confirm(`Delete the email template "${emailTemplate.name}"?`)) {
+      return;
+    }
+
+    try {
+      const response = await fetch(`${API_BASE_URL}/email-template/${emailTemplate._id}`, {
+        method: 'DELETE',
+        headers: {
+          'Authorization': `Bearer ${token}`,
+        },
+      });
+      const data = await response.json();
+
+      if (response.ok) {
+        showToast(data.message, 'success');
+        fetchEmailTemplates();
+      } else {
+        showToast(data.message || 'Failed to delete email template', 'error');
+      }
+    } catch (error) {
+      console.error('Error deleting email template:', error);
+      showToast(createNetworkErrorMessage('deleting email template', error), 'error');
+    }
+  };
+
+  const sendTest = async (emailTemplate: EmailTemplate) => {
+    try {
+      setTestingId(emailTemplate._id);
+      const response = await fetch(`${API_BASE_URL}/email-template/${emailTemplate._id}/test`, {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${token}`,
+        },
+      });
+      const data = await response.json();
+      showToast(data.message || 'Failed to send test email', response.ok ? 'success' : 'error');
+    } catch (error) {
+      console.error('Error sending test email:', error);
+      showToast(createNetworkErrorMessage('sending test email', error), 'error');
+    } finally {
+      setTestingId(null);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-8">
+        <LoadingSpinner size="md" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      {!isConfigured && (
+        <div className="p-3 rounded bg-yellow-50 dark:bg-yellow-900/20 text-sm text-yellow-800 dark:text-yellow-200">
+          Email delivery is not configured on the server. Set SMTP_URL or SMTP_HOST to send certificates.
+        </div>
+      )}
+
+      {emailTemplates.length === 0 && !editingId && (
+        <p className="text-sm text-muted-foreground">
+          No email templates yet. Certificates are sent with the built-in message until you add one.
+        </p>
+      )}
+
+      <ul className="space-y-2">
+        {emailTemplates.map(emailTemplate => (
+          <li key={emailTemplate._id} className="flex items-center justify-between p-3 border border-border rounded">
+            <div>
+              <p className="font-medium">
+                {emailTemplate.name}
+                {emailTemplate.isDefault && (
+                  <span className="ml-2 px-2 py-0.5 rounded-full text-xs bg-primary text-primary-foreground">Default</span>
+                )}
+              </p>
+              <p className="text-xs text-muted-foreground">
+                {emailTemplate.subject} · {emailTemplate.deliveryMethod === 'link' ? 'Download link' : 'PDF attachment'}
+              </p>
+            </div>
+            <div className="flex gap-2">
+              <button
+                onClick={() => sendTest(emailTemplate)}
+                disabled={!isConfigured || testingId === emailTemplate._id}
+                className="btn btn-outline btn-sm"
+                title="Send a sample to your own address"
+              >
+                {testingId === emailTemplate._id ? 'Sending...' : 'Test'}
+              </button>
+              <button onClick={() => startEditing(emailTemplate)} className="btn btn-outline btn-sm">
+                Edit
+              </button>
+              <button onClick={() => deleteTemplate(emailTemplate)} className="btn btn-outline btn-sm text-red-600">
+                Delete
+              </button>
+            </div>
+          </li>
+        ))}
+      </ul>
+
+      {editingId ? (
+        <div className="space-y-4 p-4 border border-border rounded">
+          <div className="grid grid-cols-2 gap-2">
+            <div>
+              <label className="block text-sm font-medium mb-2">Name</label>
+              <input
+                type="text"
+                value={draft.name}
+                onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                maxLength={100}
+                className="input"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium mb-2">Delivery</label>
+              <select
+                value={draft.deliveryMethod}
+                onChange={(e) => setDraft({ ...draft, deliveryMethod: e.target.value as EmailTemplate['deliveryMethod'] })}
+                className="input"
+              >
+                <option value="attachment">Attach PDF</option>
+                <option value="link">Send download link</option>
+              </select>
+            </div>
+          </div>
+          <div>
+            <label className="block text-sm font-medium mb-2">Subject</label>
+            <input
+              type="text"
+              value={draft.subject}
+              onChange={(e) => setDraft({ ...draft, subject: e.target.value })}
+              maxLength={200}
+              className="input"
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium mb-2">Message</label>
+            <textarea
+              value={draft.body}
+              onChange={(e) => setDraft({ ...draft, body: e.target.value })}
+              rows={8}
+              className="input font-mono text-sm"
+            />
+            <p className="text-xs text-muted-foreground mt-1">
+              Merge fields: {mergeFields.map(field => `{${field}}`).join(', ')}
+            </p>
+          </div>
+          <label className="flex items-center text-sm">
+            <input
+              type="checkbox"
+              checked={draft.isDefault}
+              onChange={(e) => setDraft({ ...draft, isDefault: e.target.checked })}
+              className="mr-2"
+            />
+            Use when no email template is chosen
+          </label>
+          <div className="flex justify-end space-x-3">
+            <button onClick={() => setEditingId(null)} className="btn btn-outline btn-sm">
+              Cancel
+            </button>
+            <button
+              onClick={saveTemplate}
+              disabled={isSaving || !draft.name.trim() || !draft.subject.trim() || !draft.body.trim()}
+              className="btn btn-primary btn-sm"
+            >
+              {isSaving ? 'Saving...' : 'Save Template'}
+            </button>
+          </div>
+        </div>
+      ) : (
+        <div className="flex justify-end">
+          <button onClick={() => startEditing()} className="btn btn-primary btn-sm">
+            New Email Template
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default EmailTemplates;
@@ -0,0 +1,143 @@
+import React, { useState, useEffect } from 'react';
+import { useAuth } from '../contexts/AuthContext';
+import { useToast } from '../contexts/ToastContext';
+import LoadingSpinner from './LoadingSpinner';
+import RenewCertificateModal from './RenewCertificateModal';
+import { createNetworkErrorMessage } from '../utils/errorHandler';
+import { Certificate } from '../types';
+
+const WINDOWS = [30, 60, 90];
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const API_BASE_URL = import.meta.env.VITE_API_BASE_URL || 'http://localhost:5000/api';
+
+// Calendar days until the expiry date, counted in UTC like the server; 0 means it expires at the end of today
+const getDaysLeft = (expiryDate: string) => {
+  const now = new Date();
+  const today = Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate());
+  return Math.max(0, Math.round((Date.parse(expiryDate.slice(0, 10)) - today) / DAY_MS));
+};
+
+// Dashboard card listing certificates that expire soon and have not been renewed
+const ExpiringCertificates: React.FC = () => {
+  const { token } = useAuth();
+  const { showToast } = useToast();
+
+  const [certificates, setCertificates] = useState<Certificate[]>([]);
+  const [days, setDays] = useState(30);
+  const [isLoading, setIsLoading] = useState(true);
+  const [renewTarget, setRenewTarget] = useState<Certificate | null>(null);
+
+  useEffect(() => {
+    fetchExpiring();
+  }, []);
+
+  // One request for the widest window; the narrower ones are filtered here
+  const fetchExpiring = async () => {
+    try {
+      setIsLoading(true);
+      const response = await fetch(`${API_BASE_URL}/certificate/expiring?days=${WINDOWS[WINDOWS.length - 1]}`, {
+        headers: {
+          'Authorization': `Bearer ${token}`,
+          'Content-Type': 'application/json',
+        },
+      });
+      const data = await response.json();
+
+      if (response.ok) {
+        setCertificates(data.data.certificates);
+      } else {
+        showToast(data.message || 'Failed to load expiring certificates', 'error');
+      }
+    } catch (error) {
+      console.error('Error fetching expiring certificates:', error);
+      showToast(createNetworkErrorMessage('loading expiring certificates', error), 'error');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const countWithin = (window: number) =>
+    certificates.filter(certificate => certificate.expiryDate && getDaysLeft(certificate.expiryDate) <= window).length;
+  const visible = certificates.filter(certificate => certificate.expiryDate && getDaysLeft(certificate.expiryDate) <= days);
+
+  return (
+    <div className="card">
+      <div className="card-header">
+        <div className="flex items-center justify-between">
+          <div>
+            <h3 className="card-title">Expiring Soon</h3>
+            <p className="card-description">Certificates that expire in the next {days} days and have not been renewed</p>
+          </div>
+          <div className="flex space-x-1">
+            {WINDOWS.map(window => (
+              <button
+                key={window}
+                onClick={() => setDays(window)}
+                className={`btn btn-sm ${days === window ? 'btn-primary' : 'btn-outline'}`}
+              >
+                {window} days ({countWithin(window)})
+              </button>
+            ))}
+          </div>
+        </div>
+      </div>
+      <div className="card-content">
+        {isLoading ? (
+          <div className="flex justify-center py-6">
+            <LoadingSpinner size="md" />
+          </div>
+        ) : visible.length > 0 ? (
+          <div className="space-y-3 max-h-96 overflow-y-auto">
+            {visible.map(certificate => {
+              const daysLeft = getDaysLeft(certificate.expiryDate!);
+              return (
+                <div key={certificate._id} className="flex items-center justify-between p-3 border border-border rounded-lg">
+                  <div>
+                    <h4 className="font-medium text-foreground">{certificate.participantName}</h4>
+                    <p className="text-sm text-muted-foreground">
+                      {certificate.certificateId} • {certificate.template?.name}
+                    </p>
+                  </div>
+                  <div className="flex items-center space-x-3">
+                    <span className={`px-2 py-1 text-xs font-medium rounded-full ${
+                      daysLeft <= 7
+                        ? 'text-red-600 bg-red-100 dark:text-red-400 dark:bg-red-900/20'
+                        : 'text-yellow-600 bg-yellow-100 dark:text-yellow-400 dark:bg-yellow-900/20'
+                    }`}>
+                      {daysLeft === 0 ? 'Expires today' : `${daysLeft} day${daysLeft === 1 ? '' : 's'} left`}
+                    </span>
+                    <span className="text-sm text-muted-foreground">
+                      {new Date(certificate.expiryDate!).toLocaleDateString('en-US', {
+                        year: 'numeric',
+                        month: 'short',
+                        day: 'numeric',
+                        timeZone: 'UTC',
+                      })}
+                    </span>
+                    <button onClick={() => setRenewTarget(certificate)} className="btn btn-outline btn-sm">
+                      Renew
+                    </button>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        ) : (
+          <p className="text-center py-6 text-muted-foreground">No certificates expire in the next {days} days</p>
+        )}
+      </div>
+
+      <RenewCertificateModal
+        certificate={renewTarget}
+        onClose={() => setRenewTarget(null)}
+        onRenewed={() => {
+          setRenewTarget(null);
+          fetchExpiring();
+        }}
+      />
+    </div>
+  );
+};
+
+export default ExpiringCertificates;
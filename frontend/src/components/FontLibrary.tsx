@@ -0,0 +1,195 @@
+import React, { useState } from 'react';
+import { useAuth } from '../contexts/AuthContext';
+import { useToast } from '../contexts/ToastContext';
+import LoadingSpinner from './LoadingSpinner';
+import { createNetworkErrorMessage } from '../utils/errorHandler';
+import { CustomFont } from '../types';
+
+interface FontLibraryProps {
+  fonts: CustomFont[];
+  onChange: () => void;
+}
+
+const API_BASE_URL = import.meta.env.VITE_API_BASE_URL || 'http://localhost:5000/api';
+
+const WEIGHT_LABELS: Record<string, string> = {
+  normal: 'Regular',
+  bold: 'Bold',
+  '100': 'Thin',
+  '200': 'Extra Light',
+  '300': 'Light',
+  '400': 'Regular',
+  '500': 'Medium',
+  '600': 'Semi Bold',
+  '700': 'Bold',
+  '800': 'Extra Bold',
+  '900': 'Black',
+};
+
+const FontLibrary: React.FC<FontLibraryProps> = ({ fonts, onChange }) => {
+  const { token } = useAuth();
+  const { showToast } = useToast();
+
+  const [file, setFile] = useState<File | null>(null);
+  const [family, setFamily] = useState('');
+  const [weight, setWeight] = useState('normal');
+  const [style, setStyle] = useState('normal');
+  const [isUploading, setIsUploading] = useState(false);
+
+  const handleFileSelect = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = event.target.files?.[0] || null;
+    setFile(selected);
+    // Suggest a family name from the file name, e.g. "GreatVibes-Regular.ttf" -> "GreatVibes"
+    if (selected && !family) {
+      setFamily(selected.name.replace(/\.[^.]+$/, '').split('-')[0]);
+    }
+  };
+
+  const uploadFont = async () => {
+    if (!file || !family.trim()) {
+      showToast('Choose a font file and enter its family name', 'error');
+      return;
+    }
+
+    try {
+      setIsUploading(true);
+      const formData = new FormData();
+      formData.append('font', file);
+      formData.append('family', family.trim());
+      formData.append('weight', weight);
+      formData.append('style', style);
+
+      const response = await fetch(`${API_BASE_URL}/font/upload`, {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${token}`,
+        },
+        body: formData,
+      });
+      const data = await response.json();
+
+      if (response.ok) {
+        showToast(`Font "${family.trim()}" uploaded`, 'success');
+        setFile(null);
+        setFamily('');
+        setWeight('normal');
+        setStyle('normal');
+        onChange();
+      } else {
+        showToast(data.message || 'Failed to upload font', 'error');
+      }
+    } catch (error) {
+      console.error('Error uploading font:', error);
+      showToast(createNetworkErrorMessage('uploading font', error), 'error');
+    } finally {
+      setIsUploading(false);
+    }
+  };
+
+  const deleteFont = async (font: CustomFont) => {
+    try {
+      const response = await fetch(`${API_BASE_URL}/font/${font._id}`, {
+        method: 'DELETE',
+        headers: {
+          'Authorization': `Bearer ${token}`,
+        },
+      });
+
+      if (response.ok) {
+        showToast(`Font "${font.family}" removed`, 'success');
+        onChange();
+      } else {
+        const data = await response.json();
+        showToast(data.message || 'Failed to delete font', 'error');
+      }
+    } catch (error) {
+      console.error('Error deleting font:', error);
+      showToast(createNetworkErrorMessage('deleting font', error), 'error');
+    }
+  };
+
+  return (
+    <div className="card">
+      <div className="card-header">
+        <h3 className="card-title">Font Library</h3>
+        <p className="card-description">
+          Upload TTF, OTF or WOFF files to use them in certificates
+        </p>
+      </div>
+      <div className="card-content space-y-4">
+        {fonts.length > 0 && (
+          <div className="space-y-2">
+            {fonts.map(font => (
+              <div key={font._id} className="flex items-center justify-between p-2 border border-border rounded">
+                <div className="min-w-0">
+                  <p
+                    className="text-sm truncate"
+                    style={{ fontFamily: `"${font.family}"`, fontWeight: font.weight, fontStyle: font.style }}
+                  >
+                    {font.family}
+                  </p>
+                  <p className="text-xs text-muted-foreground">
+                    {WEIGHT_LABELS[font.weight] || font.weight}{font.style !== 'normal' ? ` ${font.style}` : ''} • {font.format.toUpperCase()}
+                  </p>
+                </div>
+                <button
+                  onClick={() => deleteFont(font)}
+                  className="text-red-500 hover:text-red-700 ml-2"
+                  title="Remove font"
+                >
+                  <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
+                  </svg>
+                </button>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <div className="space-y-2">
+          <input
+            type="file"
+            accept=".ttf,.otf,.woff"
+            onChange={handleFileSelect}
+            className="block w-full text-sm"
+            disabled={isUploading}
+          />
+          <input
+            type="text"
+            value={family}
+            onChange={(e) => setFamily(e.target.value)}
+            placeholder="Family name, e.g. Great Vibes"
+            className="input"
+          />
+          <div className="grid grid-cols-2 gap-2">
+            <select value={weight} onChange={(e) => setWeight(e.target.value)} className="input">
+              {['normal', 'bold', '100', '200', '300', '500', '600', '800', '900'].map(value => (
+                <option key={value} value={value}>{WEIGHT_LABELS[value]}{/^\d/.test(value) ? ` (${value})` : ''}</option>
+              ))}
+            </select>
+            <select value={style} onChange={(e) => setStyle(e.target.value)} className="input">
+              <option value="normal">Normal</option>
+              <option value="italic">Italic</option>
+            </select>
+          </div>
+          <button
+            onClick={uploadFont}
+            disabled={isUploading || !file}
+            className="btn btn-primary btn-sm w-full"
+          >
+            {isUploading ? (
+              <div className="flex items-center">
+                <LoadingSpinner size="sm" className="mr-2" />
+                Uploading...
+              </div>
+            ) : (
+              'Upload Font'
+            )}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default FontLibrary;
@@ -0,0 +1,120 @@
+import React from 'react';
+import { CertificateIdScheme } from '../types';
+import { DEFAULT_ID_SCHEME, formatExampleId, isValidIdFormat } from '../utils/idScheme';
+
+interface IdSchemeFormProps {
+  value: CertificateIdScheme | null | undefined;
+  onChange: (value: CertificateIdScheme | null) => void;
+  // Describes what applies when no scheme is set, e.g. "Use my default scheme"
+  inheritLabel: string;
+}
+
+const IdSchemeForm: React.FC<IdSchemeFormProps> = ({ value, onChange, inheritLabel }) => {
+  const scheme = value ? { ...DEFAULT_ID_SCHEME, ...value } : null;
+
+  const update = (updates: Partial<CertificateIdScheme>) => {
+    if (!scheme) return;
+    onChange({ ...scheme, ...updates });
+  };
+
+  const formatIsValid = !scheme || isValidIdFormat(scheme.format);
+
+  return (
+    <div className="space-y-4">
+      <label className="flex items-center text-sm">
+        <input
+          type="checkbox"
+          checked={!scheme}
+          onChange={(e) => onChange(e.target.checked ? null : { ...DEFAULT_ID_SCHEME })}
+          className="mr-2"
+        />
+        {inheritLabel}
+      </label>
+
+      {scheme && (
+        <>
+          <div className="grid grid-cols-2 gap-2">
+            <div>
+              <label className="block text-sm font-medium mb-2">Mode</label>
+              <select
+                value={scheme.mode}
+                onChange={(e) => update({ mode: e.target.value as CertificateIdScheme['mode'] })}
+                className="input"
+              >
+                <option value="sequential">Sequential</option>
+                <option value="random">Random</option>
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium mb-2">Prefix</label>
+              <input
+                type="text"
+                value={scheme.prefix}
+                onChange={(e) => update({ prefix: e.target.value.toUpperCase().replace(/[^A-Z0-9]/g, '').slice(0, 20) })}
+                className="input font-mono"
+              />
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium mb-2">Format</label>
+            <input
+              type="text"
+              value={scheme.format}
+              onChange={(e) => update({ format: e.target.value.toUpperCase() })}
+              className={`input font-mono ${formatIsValid ? '' : 'border-red-500'}`}
+            />
+            <p className={`text-xs mt-1 ${formatIsValid ? 'text-muted-foreground' : 'text-red-600'}`}>
+              Use {'{PREFIX}'}, {'{YYYY}'}, {'{YY}'}, {'{MM}'} and exactly one {'{SEQ}'}, separated by letters, numbers or hyphens
+            </p>
+          </div>
+
+          <div className="grid grid-cols-2 gap-2">
+            {scheme.mode === 'sequential' ? (
+              <div>
+                <label className="block text-sm font-medium mb-2">Minimum Digits</label>
+                <input
+                  type="number"
+                  min={1}
+                  max={12}
+                  value={scheme.padding}
+                  onChange={(e) => update({ padding: Math.min(12, Math.max(1, parseInt(e.target.value) || 1)) })}
+                  className="input"
+                />
+              </div>
+            ) : (
+              <div>
+                <label className="block text-sm font-medium mb-2">Random Characters</label>
+                <input
+                  type="number"
+                  min={6}
+                  max={32}
+                  value={scheme.randomLength}
+                  onChange={(e) => update({ randomLength: Math.min(32, Math.max(6, parseInt(e.target.value) || 6)) })}
+                  className="input"
+                />
+              </div>
+            )}
+            <label className="flex items-center text-sm mt-7">
+              <input
+                type="checkbox"
+                checked={scheme.checkDigit}
+                onChange={(e) => update({ checkDigit: e.target.checked })}
+                className="mr-2"
+              />
+              Check digit
+            </label>
+          </div>
+
+          {formatIsValid && (
+            <p className="text-sm text-muted-foreground">
+              Example: <span className="font-mono text-foreground">{formatExampleId(scheme, 42)}</span>
+            </p>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default IdSchemeForm;
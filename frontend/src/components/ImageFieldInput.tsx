@@ -0,0 +1,75 @@
+import React, { useState } from 'react';
+import { useAuth } from '../contexts/AuthContext';
+import { useToast } from '../contexts/ToastContext';
+import LoadingSpinner from './LoadingSpinner';
+import AuthenticatedImage from './AuthenticatedImage';
+import { uploadImage } from '../hooks/useImageLibrary';
+import { getErrorMessage } from '../utils/errorHandler';
+
+interface ImageFieldInputProps {
+  // ID of the uploaded image, or '' when none is set
+  value: string;
+  label: string;
+  onChange: (value: string) => void;
+}
+
+const API_BASE_URL = import.meta.env.VITE_API_BASE_URL || 'http://localhost:5000/api';
+
+// Value of an image field: uploads the chosen file for this certificate and stores its ID
+const ImageFieldInput: React.FC<ImageFieldInputProps> = ({ value, label, onChange }) => {
+  const { token } = useAuth();
+  const { showToast } = useToast();
+  const [isUploading, setIsUploading] = useState(false);
+
+  const handleFileSelect = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file || !token) return;
+
+    try {
+      setIsUploading(true);
+      const image = await uploadImage(token, file, 'certificate', label);
+      onChange(image._id);
+    } catch (error) {
+      console.error('Error uploading image:', error);
+      showToast(getErrorMessage(error), 'error');
+    } finally {
+      setIsUploading(false);
+    }
+  };
+
+  return (
+    <div className="flex items-center space-x-3">
+      <div className="w-12 h-12 flex-shrink-0 border border-border rounded overflow-hidden">
+        {isUploading ? (
+          <LoadingSpinner size="sm" />
+        ) : value && token ? (
+          <AuthenticatedImage
+            src={`${API_BASE_URL}/image/${value}/file`}
+            alt={label}
+            className="w-full h-full object-cover"
+            token={token}
+          />
+        ) : null}
+      </div>
+      <input
+        type="file"
+        accept="image/png,image/jpeg,image/webp,image/gif"
+        onChange={handleFileSelect}
+        className="block w-full text-sm"
+        disabled={isUploading}
+      />
+      {value && (
+        <button
+          type="button"
+          onClick={() => onChange('')}
+          className="text-xs text-red-500 hover:text-red-700"
+        >
+          Remove
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default ImageFieldInput;
@@ -0,0 +1,153 @@
+import React, { useState } from 'react';
+import { useAuth } from '../contexts/AuthContext';
+import { useToast } from '../contexts/ToastContext';
+import LoadingSpinner from './LoadingSpinner';
+import AuthenticatedImage from './AuthenticatedImage';
+import { uploadImage } from '../hooks/useImageLibrary';
+import { createNetworkErrorMessage, getErrorMessage } from '../utils/errorHandler';
+import { ImageAsset } from '../types';
+
+interface ImageLibraryProps {
+  images: ImageAsset[];
+  onChange: () => void;
+}
+
+const API_BASE_URL = import.meta.env.VITE_API_BASE_URL || 'http://localhost:5000/api';
+
+const ImageLibrary: React.FC<ImageLibraryProps> = ({ images, onChange }) => {
+  const { token } = useAuth();
+  const { showToast } = useToast();
+
+  const [file, setFile] = useState<File | null>(null);
+  const [name, setName] = useState('');
+  const [isUploading, setIsUploading] = useState(false);
+
+  const handleFileSelect = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = event.target.files?.[0] || null;
+    setFile(selected);
+    if (selected && !name) {
+      setName(selected.name.replace(/\.[^.]+$/, ''));
+    }
+  };
+
+  const upload = async () => {
+    if (!file || !token) {
+      showToast('Choose an image file', 'error');
+      return;
+    }
+
+    try {
+      setIsUploading(true);
+      const image = await uploadImage(token, file, 'library', name.trim());
+      showToast(`Image "${image.name}" uploaded`, 'success');
+      setFile(null);
+      setName('');
+      onChange();
+    } catch (error) {
+      console.error('Error uploading image:', error);
+      showToast(getErrorMessage(error), 'error');
+    } finally {
+      setIsUploading(false);
+    }
+  };
+
+  const deleteImage = async (image: ImageAsset) => {
+    try {
+      const response = await fetch(`${API_BASE_URL}/image/${image._id}`, {
+        method: 'DELETE',
+        headers: {
+          'Authorization': `Bearer ${token}`,
+        },
+      });
+
+      if (response.ok) {
+        showToast(`Image "${image.name}" removed`, 'success');
+        onChange();
+      } else {
+        const data = await response.json();
+        showToast(data.message || 'Failed to delete image', 'error');
+      }
+    } catch (error) {
+      console.error('Error deleting image:', error);
+      showToast(createNetworkErrorMessage('deleting image', error), 'error');
+    }
+  };
+
+  return (
+    <div className="card">
+      <div className="card-header">
+        <h3 className="card-title">Image Library</h3>
+        <p className="card-description">
+          Signatures, logos and seals for image placeholders. Transparent PNGs work best.
+        </p>
+      </div>
+      <div className="card-content space-y-4">
+        {images.length > 0 && token && (
+          <div className="space-y-2">
+            {images.map(image => (
+              <div key={image._id} className="flex items-center justify-between p-2 border border-border rounded">
+                <div className="flex items-center min-w-0">
+                  <div className="w-10 h-10 flex-shrink-0 mr-2 bg-[repeating-conic-gradient(#e5e7eb_0%_25%,transparent_0%_50%)] bg-[length:8px_8px] rounded">
+                    <AuthenticatedImage
+                      src={`${API_BASE_URL}/image/${image._id}/file`}
+                      alt={image.name}
+                      className="w-full h-full object-contain"
+                      token={token}
+                    />
+                  </div>
+                  <div className="min-w-0">
+                    <p className="text-sm truncate">{image.name}</p>
+                    <p className="text-xs text-muted-foreground">{image.width} × {image.height}px</p>
+                  </div>
+                </div>
+                <button
+                  onClick={() => deleteImage(image)}
+                  className="text-red-500 hover:text-red-700 ml-2"
+                  title="Remove image"
+                >
+                  <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
+                  </svg>
+                </button>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <div className="space-y-2">
+          <input
+            type="file"
+            accept="image/png,image/jpeg,image/webp,image/gif,image/svg+xml"
+            onChange={handleFileSelect}
+            className="block w-full text-sm"
+            disabled={isUploading}
+          />
+          <input
+            type="text"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="Name, e.g. Director signature"
+            className="input"
+            maxLength={100}
+          />
+          <button
+            onClick={upload}
+            disabled={isUploading || !file}
+            className="btn btn-primary btn-sm w-full"
+          >
+            {isUploading ? (
+              <div className="flex items-center">
+                <LoadingSpinner size="sm" className="mr-2" />
+                Uploading...
+              </div>
+            ) : (
+              'Upload Image'
+            )}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ImageLibrary;
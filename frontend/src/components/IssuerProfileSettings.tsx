@@ -0,0 +1,194 @@
+import React, { useState, useEffect } from 'react';
+import { useAuth } from '../contexts/AuthContext';
+import { useToast } from '../contexts/ToastContext';
+import LoadingSpinner from './LoadingSpinner';
+import { createNetworkErrorMessage } from '../utils/errorHandler';
+import { IssuerProfile } from '../types';
+
+interface IssuerProfileData {
+  issuerProfile: IssuerProfile | null;
+  // Profile with the fallbacks credentials are issued with
+  resolved: IssuerProfile;
+  issuerId: string;
+  // Created with the first credential export
+  publicKeyMultibase: string | null;
+}
+
+const API_BASE_URL = import.meta.env.VITE_API_BASE_URL || 'http://localhost:5000/api';
+
+const EMPTY_PROFILE: IssuerProfile = { name: '', url: '', email: '', description: '', imageUrl: '' };
+
+// Settings form for the issuer named in exported Open Badges credentials
+const IssuerProfileSettings: React.FC = () => {
+  const { token } = useAuth();
+  const { showToast } = useToast();
+
+  const [profile, setProfile] = useState<IssuerProfile>(EMPTY_PROFILE);
+  const [data, setData] = useState<IssuerProfileData | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    fetchIssuerProfile();
+  }, []);
+
+  const applyData = (next: IssuerProfileData) => {
+    setData(next);
+    setProfile({ ...EMPTY_PROFILE, ...next.issuerProfile });
+  };
+
+  const fetchIssuerProfile = async () => {
+    try {
+      setIsLoading(true);
+      const response = await fetch(`${API_BASE_URL}/auth/issuer-profile`, {
+        headers: {
+          'Authorization': `Bearer ${token}`,
+          'Content-Type': 'application/json',
+        },
+      });
+      const result = await response.json();
+
+      if (response.ok) {
+        applyData(result.data);
+      } else {
+        showToast(result.message || 'Failed to load issuer profile', 'error');
+      }
+    } catch (error) {
+      console.error('Error fetching issuer profile:', error);
+      showToast(createNetworkErrorMessage('loading issuer profile', error), 'error');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const saveIssuerProfile = async () => {
+    try {
+      setIsSaving(true);
+      const response = await fetch(`${API_BASE_URL}/auth/issuer-profile`, {
+        method: 'PUT',
+        headers: {
+          'Authorization': `Bearer ${token}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ issuerProfile: profile }),
+      });
+      const result = await response.json();
+
+      if (response.ok) {
+        applyData(result.data);
+        showToast('Issuer profile updated successfully!', 'success');
+      } else {
+        showToast(result.errors?.[0]?.message || result.message || 'Failed to update issuer profile', 'error');
+      }
+    } catch (error) {
+      console.error('Error saving issuer profile:', error);
+      showToast(createNetworkErrorMessage('saving issuer profile', error), 'error');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-6">
+        <LoadingSpinner size="md" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div>
+          <label className="block text-sm font-medium mb-2">Issuer Name</label>
+          <input
+            type="text"
+            value={profile.name}
+            onChange={(e) => setProfile(prev => ({ ...prev, name: e.target.value }))}
+            placeholder={data?.resolved.name}
+            className="input"
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium mb-2">Website</label>
+          <input
+            type="url"
+            value={profile.url}
+            onChange={(e) => setProfile(prev => ({ ...prev, url: e.target.value }))}
+            placeholder={data?.resolved.url}
+            className="input"
+          />
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div>
+          <label className="block text-sm font-medium mb-2">Contact Email</label>
+          <input
+            type="email"
+            value={profile.email}
+            onChange={(e) => setProfile(prev => ({ ...prev, email: e.target.value }))}
+            placeholder="Not published"
+            className="input"
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium mb-2">Logo URL</label>
+          <input
+            type="url"
+            value={profile.imageUrl}
+            onChange={(e) => setProfile(prev => ({ ...prev, imageUrl: e.target.value }))}
+            placeholder="https://example.com/logo.png"
+            className="input"
+          />
+        </div>
+      </div>
+
+      <div>
+        <label className="block text-sm font-medium mb-2">Description</label>
+        <textarea
+          value={profile.description}
+          onChange={(e) => setProfile(prev => ({ ...prev, description: e.target.value }))}
+          rows={3}
+          maxLength={500}
+          className="input"
+        />
+      </div>
+
+      {data && (
+        <div className="text-xs text-muted-foreground space-y-1">
+          <p>
+            Issuer ID: <span className="font-mono break-all">{data.issuerId}</span>
+          </p>
+          <p>
+            Signing key:{' '}
+            {data.publicKeyMultibase ? (
+              <span className="font-mono break-all">{data.publicKeyMultibase}</span>
+            ) : (
+              'created with your first credential export'
+            )}
+          </p>
+        </div>
+      )}
+
+      <div className="flex justify-end">
+        <button
+          onClick={saveIssuerProfile}
+          disabled={isSaving}
+          className="btn btn-primary btn-md"
+        >
+          {isSaving ? (
+            <div className="flex items-center">
+              <LoadingSpinner size="sm" className="mr-2" />
+              Saving...
+            </div>
+          ) : (
+            'Save Issuer Profile'
+          )}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default IssuerProfileSettings;
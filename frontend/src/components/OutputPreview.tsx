@@ -0,0 +1,205 @@
+import React, { useState } from 'react';
+import { useAuth } from '../contexts/AuthContext';
+import { useToast } from '../contexts/ToastContext';
+import LoadingSpinner from './LoadingSpinner';
+import { ImageAsset, Template, TemplateField } from '../types';
+import { createNetworkErrorMessage } from '../utils/errorHandler';
+
+interface OutputPreviewProps {
+  templateId: string;
+  placeholders: Template['placeholders'];
+  fields: TemplateField[];
+  sampleNames: string[];
+  images: ImageAsset[];
+}
+
+interface RenderedPreview {
+  image: string;
+  values: Record<string, string>;
+  warnings: string[];
+  renderTime: number;
+}
+
+// Renders the current (unsaved) layout through the real certificate generator, so
+// font substitution and scaling show up before any certificate is issued
+const OutputPreview: React.FC<OutputPreviewProps> = ({ templateId, placeholders, fields, sampleNames, images }) => {
+  const [values, setValues] = useState<Record<string, string>>({});
+  const [preview, setPreview] = useState<RenderedPreview | null>(null);
+  const [isRendering, setIsRendering] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const { token } = useAuth();
+  const { showToast } = useToast();
+
+  const API_BASE_URL = import.meta.env.VITE_API_BASE_URL || 'http://localhost:5000/api';
+
+  const setValue = (key: string, value: string) => {
+    setValues(prev => ({ ...prev, [key]: value }));
+  };
+
+  const renderPreview = async () => {
+    try {
+      setIsRendering(true);
+      setError(null);
+
+      const response = await fetch(`${API_BASE_URL}/template/${templateId}/preview`, {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${token}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          placeholders,
+          fields,
+          // Blank inputs fall back to sample values on the server
+          values: Object.fromEntries(Object.entries(values).filter(([, value]) => value.trim())),
+        }),
+      });
+      const data = await response.json();
+
+      if (response.ok) {
+        setPreview(data.data);
+      } else {
+        let message = data.message || 'Failed to render preview';
+        if (data.errors && data.errors.length > 0) {
+          message += ': ' + data.errors.map((err: { message: string }) => err.message).join(', ');
+        }
+        setError(message);
+      }
+    } catch (err) {
+      console.error('Error rendering preview:', err);
+      showToast(createNetworkErrorMessage('rendering preview', err), 'error');
+    } finally {
+      setIsRendering(false);
+    }
+  };
+
+  return (
+    <div className="card">
+      <div className="card-header">
+        <h3 className="card-title">Preview Actual Output</h3>
+        <p className="card-description">
+          Render the current layout with the certificate generator. Nothing is issued and no ID is used.
+        </p>
+      </div>
+      <div className="card-content space-y-4">
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+          <div>
+            <label className="block text-sm font-medium mb-1">Name</label>
+            <input
+              type="text"
+              list="output-preview-names"
+              value={values.name || ''}
+              onChange={(e) => setValue('name', e.target.value)}
+              placeholder="Sample name"
+              maxLength={500}
+              className="input w-full"
+            />
+            <datalist id="output-preview-names">
+              {sampleNames.map(name => (
+                <option key={name} value={name} />
+              ))}
+            </datalist>
+          </div>
+          <div>
+            <label className="block text-sm font-medium mb-1">Certificate ID</label>
+            <input
+              type="text"
+              value={values.id || ''}
+              onChange={(e) => setValue('id', e.target.value)}
+              placeholder="Sample from the ID scheme"
+              maxLength={500}
+              className="input w-full"
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium mb-1">Issued Date</label>
+            <input
+              type="date"
+              value={values.issuedDate || ''}
+              onChange={(e) => setValue('issuedDate', e.target.value)}
+              className="input w-full"
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium mb-1">Expiry Date</label>
+            <input
+              type="date"
+              value={values.expiryDate || ''}
+              onChange={(e) => setValue('expiryDate', e.target.value)}
+              min={values.issuedDate || undefined}
+              className="input w-full"
+            />
+          </div>
+          {fields.map(field => (
+            <div key={field.key}>
+              <label className="block text-sm font-medium mb-1">{field.label || field.key}</label>
+              {field.dataType === 'image' ? (
+                <select
+                  value={values[field.key] || ''}
+                  onChange={(e) => setValue(field.key, e.target.value)}
+                  className="input w-full"
+                >
+                  <option value="">Placeholder's own image</option>
+                  {images.map(image => (
+                    <option key={image._id} value={image._id}>{image.name}</option>
+                  ))}
+                </select>
+              ) : (
+              <input
+                type={field.dataType === 'date' ? 'date' : field.dataType === 'number' ? 'number' : 'text'}
+                value={values[field.key] || ''}
+                onChange={(e) => setValue(field.key, e.target.value)}
+                placeholder={field.defaultValue || 'Sample value'}
+                maxLength={500}
+                className="input w-full"
+              />
+              )}
+            </div>
+          ))}
+        </div>
+
+        <button
+          onClick={renderPreview}
+          disabled={isRendering}
+          className="btn btn-primary btn-sm"
+        >
+          {isRendering ? (
+            <div className="flex items-center">
+              <LoadingSpinner size="sm" className="mr-2" />
+              Rendering...
+            </div>
+          ) : (
+            preview ? 'Render Again' : 'Render Preview'
+          )}
+        </button>
+
+        {error && (
+          <p className="text-sm text-red-600">{error}</p>
+        )}
+
+        {preview && (
+          <div className="space-y-2">
+            {preview.warnings.length > 0 && (
+              <ul className="text-sm text-yellow-700 bg-yellow-50 border border-yellow-200 rounded p-2 space-y-1">
+                {preview.warnings.map(warning => (
+                  <li key={warning}>{warning}</li>
+                ))}
+              </ul>
+            )}
+            <img
+              src={preview.image}
+              alt="Rendered certificate preview"
+              className="w-full border border-border rounded-lg"
+            />
+            <p className="text-xs text-muted-foreground">
+              Rendered in {preview.renderTime}ms with {Object.entries(preview.values).map(([key, value]) => `${key}: ${value}`).join(', ')}
+            </p>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default OutputPreview;
@@ -0,0 +1,138 @@
+import React, { useState, useEffect } from 'react';
+import { useAuth } from '../contexts/AuthContext';
+import { useToast } from '../contexts/ToastContext';
+import { createNetworkErrorMessage } from '../utils/errorHandler';
+import { Certificate } from '../types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+interface RenewCertificateModalProps {
+  // Certificate to renew, or null when closed
+  certificate: Pick<Certificate, '_id' | 'certificateId' | 'participantName' | 'issuedDate' | 'expiryDate'> | null;
+  onClose: () => void;
+  onRenewed: (successor: Certificate) => void;
+}
+
+const API_BASE_URL = import.meta.env.VITE_API_BASE_URL || 'http://localhost:5000/api';
+
+// The original's validity period in calendar days counted from the new issue date,
+// as the server does when no expiry date is given
+const getDefaultExpiryDate = (certificate: NonNullable<RenewCertificateModalProps['certificate']>, issuedDate: string) => {
+  if (!certificate.expiryDate || !issuedDate) return '';
+  const validityDays = Math.round(
+    (Date.parse(certificate.expiryDate.slice(0, 10)) - Date.parse(certificate.issuedDate.slice(0, 10))) / DAY_MS
+  );
+  return new Date(Date.parse(issuedDate) + validityDays * DAY_MS).toISOString().slice(0, 10);
+};
+
+const RenewCertificateModal: React.FC<RenewCertificateModalProps> = ({ certificate, onClose, onRenewed }) => {
+  const { token } = useAuth();
+  const { showToast } = useToast();
+
+  const [issuedDate, setIssuedDate] = useState('');
+  const [expiryDate, setExpiryDate] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  useEffect(() => {
+    if (certificate) {
+      const today = new Date().toISOString().slice(0, 10);
+      setIssuedDate(today);
+      setExpiryDate(getDefaultExpiryDate(certificate, today));
+    }
+  }, [certificate]);
+
+  if (!certificate) return null;
+
+  const renew = async () => {
+    try {
+      setIsSubmitting(true);
+      const response = await fetch(`${API_BASE_URL}/certificate/${certificate._id}/renew`, {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${token}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          issuedDate,
+          expiryDate: expiryDate || null,
+        }),
+      });
+      const data = await response.json();
+
+      if (response.ok) {
+        showToast(data.message, 'success');
+        onRenewed(data.data.certificate);
+      } else {
+        showToast(data.errors?.[0]?.message || data.message || 'Failed to renew certificate', 'error');
+      }
+    } catch (error) {
+      console.error('Error renewing certificate:', error);
+      showToast(createNetworkErrorMessage('renewing certificate', error), 'error');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const isConfirmDisabled = !issuedDate || (!!expiryDate && expiryDate < issuedDate) || isSubmitting;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg p-6 max-w-md w-full mx-4">
+        <h3 className="text-lg font-semibold text-gray-900 mb-2">Renew Certificate</h3>
+        <p className="text-sm text-gray-700 mb-4">
+          A new certificate for {certificate.participantName} is issued from the template's current layout,
+          with a new ID linked to {certificate.certificateId}.
+        </p>
+
+        <div className="mb-4">
+          <label className="block text-sm font-medium text-gray-700 mb-2">Issued Date</label>
+          <input
+            type="date"
+            value={issuedDate}
+            onChange={(e) => {
+              setIssuedDate(e.target.value);
+              setExpiryDate(getDefaultExpiryDate(certificate, e.target.value));
+            }}
+            className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          />
+        </div>
+
+        <div className="mb-6">
+          <label className="block text-sm font-medium text-gray-700 mb-2">Expiry Date</label>
+          <input
+            type="date"
+            value={expiryDate}
+            onChange={(e) => setExpiryDate(e.target.value)}
+            min={issuedDate || undefined}
+            className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          />
+          <p className="text-xs text-gray-500 mt-1">
+            Defaults to the same validity period as the original. Leave empty for a certificate that does not expire.
+          </p>
+        </div>
+
+        <div className="flex justify-end space-x-3">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 text-gray-700 bg-gray-200 rounded-md hover:bg-gray-300 focus:outline-none focus:ring-2 focus:ring-gray-500"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={renew}
+            disabled={isConfirmDisabled}
+            className={`px-4 py-2 text-white rounded-md focus:outline-none focus:ring-2 ${
+              isConfirmDisabled
+                ? 'bg-gray-400 cursor-not-allowed'
+                : 'bg-blue-600 hover:bg-blue-700 focus:ring-blue-500'
+            }`}
+          >
+            {isSubmitting ? 'Renewing...' : 'Renew'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default RenewCertificateModal;
@@ -0,0 +1,89 @@
+import React, { useState, useEffect } from 'react';
+
+interface RevokeCertificateModalProps {
+  isOpen: boolean;
+  certificateId: string;
+  participantName: string;
+  isSubmitting?: boolean;
+  onClose: () => void;
+  onConfirm: (reason: string, effectiveDate: string) => void;
+}
+
+const RevokeCertificateModal: React.FC<RevokeCertificateModalProps> = ({
+  isOpen,
+  certificateId,
+  participantName,
+  isSubmitting = false,
+  onClose,
+  onConfirm
+}) => {
+  const [reason, setReason] = useState('');
+  const [effectiveDate, setEffectiveDate] = useState('');
+
+  useEffect(() => {
+    if (isOpen) {
+      setReason('');
+      setEffectiveDate('');
+    }
+  }, [isOpen, certificateId]);
+
+  if (!isOpen) return null;
+
+  const isConfirmDisabled = reason.trim().length < 3 || isSubmitting;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg p-6 max-w-md w-full mx-4">
+        <h3 className="text-lg font-semibold text-gray-900 mb-2">Revoke Certificate</h3>
+        <p className="text-sm text-gray-700 mb-4">
+          {certificateId} issued to {participantName} will be reported as revoked by the verification page.
+        </p>
+
+        <div className="mb-4">
+          <label className="block text-sm font-medium text-gray-700 mb-2">Reason</label>
+          <textarea
+            value={reason}
+            onChange={(e) => setReason(e.target.value)}
+            rows={3}
+            maxLength={500}
+            className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent resize-none"
+            placeholder="e.g. Issued in error, course requirements not met"
+          />
+        </div>
+
+        <div className="mb-6">
+          <label className="block text-sm font-medium text-gray-700 mb-2">Effective Date (optional)</label>
+          <input
+            type="date"
+            value={effectiveDate}
+            onChange={(e) => setEffectiveDate(e.target.value)}
+            className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          />
+          <p className="text-xs text-gray-500 mt-1">Leave empty to revoke immediately.</p>
+        </div>
+
+        <div className="flex justify-end space-x-3">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 text-gray-700 bg-gray-200 rounded-md hover:bg-gray-300 focus:outline-none focus:ring-2 focus:ring-gray-500"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={() => onConfirm(reason.trim(), effectiveDate)}
+            disabled={isConfirmDisabled}
+            className={`px-4 py-2 text-white rounded-md focus:outline-none focus:ring-2 ${
+              isConfirmDisabled
+                ? 'bg-gray-400 cursor-not-allowed'
+                : 'bg-red-600 hover:bg-red-700 focus:ring-red-500'
+            }`}
+          >
+            {isSubmitting ? 'Revoking...' : 'Revoke'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default RevokeCertificateModal;
@@ -0,0 +1,471 @@
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+import { useAuth } from '../contexts/AuthContext';
+import { useToast } from '../contexts/ToastContext';
+import AuthenticatedImage from './AuthenticatedImage';
+import ConfirmationModal from './ConfirmationModal';
+import LoadingSpinner from './LoadingSpinner';
+import { Template, TemplateField, TemplateVersion } from '../types';
+import { createNetworkErrorMessage } from '../utils/errorHandler';
+
+type Placeholder = Template['placeholders'][number];
+
+interface TemplateVersionHistoryProps {
+  isOpen: boolean;
+  template: Template;
+  onClose: () => void;
+  onRestored: (template: Template) => void;
+}
+
+interface PlaceholderDiff {
+  key: string;
+  label: string;
+  before?: Placeholder;
+  after?: Placeholder;
+  changes: string[];
+}
+
+const COMPARED_PROPERTIES: Array<keyof Placeholder> = [
+  'x', 'y', 'fontSize', 'fontFamily', 'color', 'fontWeight', 'fontStyle', 'textAlign', 'rotation', 'width', 'height',
+  'overflow', 'minFontSize', 'lineHeight', 'qrUrlTemplate', 'assetId', 'fit', 'opacity', 'dateFormat', 'locale'
+];
+
+const DEFAULT_QR_SIZE = 120;
+
+const getPlaceholderLabel = (placeholder: Placeholder, fields: TemplateField[] = []) => {
+  switch (placeholder.type) {
+    case 'name':
+      return 'Name';
+    case 'qr':
+      return 'QR Code';
+    case 'issuedDate':
+      return 'Issued Date';
+    case 'expiryDate':
+      return 'Expiry Date';
+    case 'image':
+      return placeholder.fieldKey
+        ? `${fields.find(field => field.key === placeholder.fieldKey)?.label || placeholder.fieldKey} (image)`
+        : 'Image';
+    case 'field':
+      return fields.find(field => field.key === placeholder.fieldKey)?.label || placeholder.fieldKey || 'Custom Field';
+    default:
+      return 'ID';
+  }
+};
+
+// Placeholders have no stable IDs, so match them across versions by what they
+// render and their order among placeholders that render the same thing
+const keyPlaceholders = (placeholders: Placeholder[]) => {
+  const counts = new Map<string, number>();
+  return placeholders.map(placeholder => {
+    const base = `${placeholder.type}:${placeholder.fieldKey || ''}`;
+    const occurrence = counts.get(base) || 0;
+    counts.set(base, occurrence + 1);
+    return { key: `${base}#${occurrence}`, placeholder };
+  });
+};
+
+const formatValue = (value: unknown) => (value === undefined || value === null || value === '' ? 'none' : String(value));
+
+const diffPlaceholders = (before: TemplateVersion, after: TemplateVersion): PlaceholderDiff[] => {
+  const beforeByKey = new Map(keyPlaceholders(before.placeholders).map(({ key, placeholder }) => [key, placeholder]));
+  const afterByKey = new Map(keyPlaceholders(after.placeholders).map(({ key, placeholder }) => [key, placeholder]));
+  const keys = [...new Set([...beforeByKey.keys(), ...afterByKey.keys()])];
+
+  return keys.map(key => {
+    const beforePlaceholder = beforeByKey.get(key);
+    const afterPlaceholder = afterByKey.get(key);
+    const label = afterPlaceholder
+      ? getPlaceholderLabel(afterPlaceholder, after.fields)
+      : getPlaceholderLabel(beforePlaceholder!, before.fields);
+
+    if (!beforePlaceholder) {
+      return { key, label, after: afterPlaceholder, changes: ['Added'] };
+    }
+    if (!afterPlaceholder) {
+      return { key, label, before: beforePlaceholder, changes: ['Removed'] };
+    }
+
+    const changes = COMPARED_PROPERTIES
+      .filter(property => formatValue(beforePlaceholder[property]) !== formatValue(afterPlaceholder[property]))
+      .map(property => `${property}: ${formatValue(beforePlaceholder[property])} → ${formatValue(afterPlaceholder[property])}`);
+    return { key, label, before: beforePlaceholder, after: afterPlaceholder, changes };
+  });
+};
+
+const diffLayout = (before: TemplateVersion, after: TemplateVersion) => {
+  const changes: string[] = [];
+
+  const beforeFields = new Map((before.fields || []).map(field => [field.key, field]));
+  const afterFields = new Map((after.fields || []).map(field => [field.key, field]));
+  afterFields.forEach((field, key) => {
+    const previous = beforeFields.get(key);
+    if (!previous) {
+      changes.push(`Field "${field.label}" added`);
+    } else if (previous.label !== field.label || previous.dataType !== field.dataType || previous.required !== field.required || (previous.defaultValue || '') !== (field.defaultValue || '')) {
+      changes.push(`Field "${field.label}" changed`);
+    }
+  });
+  beforeFields.forEach((field, key) => {
+    if (!afterFields.has(key)) {
+      changes.push(`Field "${field.label}" removed`);
+    }
+  });
+
+  if (JSON.stringify(before.idScheme || null) !== JSON.stringify(after.idScheme || null)) {
+    changes.push('Certificate ID scheme changed');
+  }
+  if (before.filename !== after.filename) {
+    changes.push('Background image changed');
+  }
+
+  return changes;
+};
+
+const formatDateTime = (dateString: string) => new Date(dateString).toLocaleString('en-US', {
+  year: 'numeric',
+  month: 'short',
+  day: 'numeric',
+  hour: '2-digit',
+  minute: '2-digit'
+});
+
+const TemplateVersionHistory: React.FC<TemplateVersionHistoryProps> = ({
+  isOpen,
+  template,
+  onClose,
+  onRestored
+}) => {
+  const [versions, setVersions] = useState<TemplateVersion[]>([]);
+  const [currentVersion, setCurrentVersion] = useState(0);
+  const [isLoading, setIsLoading] = useState(true);
+  const [beforeVersion, setBeforeVersion] = useState<number | null>(null);
+  const [afterVersion, setAfterVersion] = useState<number | null>(null);
+  const [restoreTarget, setRestoreTarget] = useState<number | null>(null);
+  const [isRestoring, setIsRestoring] = useState(false);
+  const [previewWidth, setPreviewWidth] = useState(0);
+  const previewRef = useRef<HTMLDivElement>(null);
+
+  const { token } = useAuth();
+  const { showToast } = useToast();
+
+  const API_BASE_URL = import.meta.env.VITE_API_BASE_URL || 'http://localhost:5000/api';
+
+  const fetchVersions = async () => {
+    try {
+      setIsLoading(true);
+      const response = await fetch(`${API_BASE_URL}/template/${template._id}/versions`, {
+        headers: {
+          'Authorization': `Bearer ${token}`,
+        },
+      });
+      const data = await response.json();
+
+      if (response.ok) {
+        const list: TemplateVersion[] = data.data.versions;
+        setVersions(list);
+        setCurrentVersion(data.data.currentVersion || 0);
+        // Newest first: compare the latest save with the one before it
+        setAfterVersion(list[0]?.version ?? null);
+        setBeforeVersion(list[1]?.version ?? list[0]?.version ?? null);
+      } else {
+        showToast(data.message || 'Failed to load template versions', 'error');
+      }
+    } catch (error) {
+      console.error('Error fetching template versions:', error);
+      showToast(createNetworkErrorMessage('loading template versions', error), 'error');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    if (isOpen) {
+      fetchVersions();
+    }
+  }, [isOpen, template._id]);
+
+  useEffect(() => {
+    const container = previewRef.current;
+    if (!container) return;
+    const observer = new ResizeObserver(() => setPreviewWidth(container.clientWidth));
+    observer.observe(container);
+    return () => observer.disconnect();
+  }, [isOpen, isLoading]);
+
+  const before = versions.find(version => version.version === beforeVersion);
+  const after = versions.find(version => version.version === afterVersion);
+
+  const placeholderDiffs = useMemo(
+    () => (before && after ? diffPlaceholders(before, after) : []),
+    [before, after]
+  );
+  const layoutChanges = useMemo(
+    () => (before && after ? diffLayout(before, after) : []),
+    [before, after]
+  );
+
+  const handleRestore = async () => {
+    if (restoreTarget === null) return;
+
+    try {
+      setIsRestoring(true);
+      const response = await fetch(`${API_BASE_URL}/template/${template._id}/versions/${restoreTarget}/restore`, {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${token}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({}),
+      });
+      const data = await response.json();
+
+      if (response.ok) {
+        showToast(data.message || 'Template version restored', 'success');
+        onRestored(data.data.template);
+        await fetchVersions();
+      } else {
+        showToast(data.message || 'Failed to restore template version', 'error');
+      }
+    } catch (error) {
+      console.error('Error restoring template version:', error);
+      showToast(createNetworkErrorMessage('restoring template version', error), 'error');
+    } finally {
+      setIsRestoring(false);
+      setRestoreTarget(null);
+    }
+  };
+
+  if (!isOpen) return null;
+
+  // Each version is drawn in proportion to the background it was laid out on,
+  // which is how a rollback scales it onto the current background
+  const renderPlaceholder = (placeholder: Placeholder, version: TemplateVersion, variant: 'before' | 'after' | 'unchanged', key: string) => {
+    const dimensions = version.dimensions || template.dimensions;
+    if (!dimensions?.width || !dimensions?.height || !previewWidth) return null;
+
+    const scale = previewWidth / dimensions.width;
+    const variantClass = {
+      before: 'border-2 border-blue-500 bg-blue-100/60 text-blue-800',
+      after: 'border-2 border-dashed border-red-500 bg-red-100/60 text-red-800',
+      unchanged: 'border border-gray-400 bg-gray-100/60 text-gray-700',
+    }[variant];
+
+    // QR codes and images are boxes with a size of their own
+    if (placeholder.type === 'qr' || placeholder.type === 'image') {
+      const size = (placeholder.width || DEFAULT_QR_SIZE) * scale;
+      return (
+        <div
+          key={key}
+          className={`absolute rounded text-[10px] flex items-center justify-center ${variantClass}`}
+          style={{
+            left: `${(placeholder.x / dimensions.width) * 100}%`,
+            top: `${(placeholder.y / dimensions.height) * 100}%`,
+            width: size,
+            height: (placeholder.height || placeholder.width || DEFAULT_QR_SIZE) * scale,
+            transform: placeholder.rotation ? `rotate(${placeholder.rotation}deg)` : undefined,
+            transformOrigin: 'top left',
+          }}
+        >
+          {placeholder.type === 'qr' ? 'QR' : getPlaceholderLabel(placeholder, version.fields)}
+        </div>
+      );
+    }
+
+    const transforms: string[] = [];
+    if (placeholder.rotation) {
+      transforms.push(`rotate(${placeholder.rotation}deg)`);
+    }
+    if (!placeholder.width && placeholder.textAlign === 'center') {
+      transforms.push('translateX(-50%)');
+    } else if (!placeholder.width && placeholder.textAlign === 'right') {
+      transforms.push('translateX(-100%)');
+    }
+
+    return (
+      <div
+        key={key}
+        className={`absolute rounded px-1 whitespace-nowrap ${variantClass}`}
+        style={{
+          left: `${(placeholder.x / dimensions.width) * 100}%`,
+          top: `${(placeholder.y / dimensions.height) * 100}%`,
+          fontSize: Math.max(8, placeholder.fontSize * scale),
+          width: placeholder.width ? placeholder.width * scale : undefined,
+          textAlign: placeholder.textAlign as React.CSSProperties['textAlign'],
+          transform: transforms.length > 0 ? transforms.join(' ') : undefined,
+          transformOrigin: 'top left',
+        }}
+      >
+        {getPlaceholderLabel(placeholder, version.fields)}
+      </div>
+    );
+  };
+
+  const isSameVersion = beforeVersion === afterVersion;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white dark:bg-gray-800 rounded-lg max-w-6xl w-full mx-4 max-h-[90vh] flex flex-col">
+        <div className="flex items-center justify-between p-6 border-b border-gray-200 dark:border-gray-700">
+          <div>
+            <h3 className="text-lg font-semibold text-gray-900 dark:text-gray-100">Version History</h3>
+            <p className="text-sm text-gray-500 dark:text-gray-400">
+              {template.name}{currentVersion ? ` — current version ${currentVersion}` : ''}
+            </p>
+          </div>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-600 dark:hover:text-gray-300"
+            title="Close"
+          >
+            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        {isLoading ? (
+          <div className="flex items-center justify-center h-64">
+            <LoadingSpinner size="lg" text="Loading versions..." />
+          </div>
+        ) : versions.length === 0 ? (
+          <div className="p-6 text-center text-gray-500 dark:text-gray-400">
+            No versions yet. A version is recorded each time the template layout is saved.
+          </div>
+        ) : (
+          <div className="flex-1 overflow-y-auto p-6 grid grid-cols-1 lg:grid-cols-3 gap-6">
+            <div className="space-y-2">
+              <div className="grid grid-cols-[auto_auto_1fr] gap-x-2 text-xs font-medium text-gray-500 dark:text-gray-400 px-2">
+                <span className="text-blue-600">A</span>
+                <span className="text-red-600">B</span>
+                <span>Version</span>
+              </div>
+              {versions.map(version => (
+                <div
+                  key={version._id}
+                  className="grid grid-cols-[auto_auto_1fr] gap-x-2 items-start p-2 rounded border border-gray-200 dark:border-gray-700"
+                >
+                  <input
+                    type="radio"
+                    name="version-before"
+                    checked={beforeVersion === version.version}
+                    onChange={() => setBeforeVersion(version.version)}
+                    className="mt-1"
+                    title={`Compare from version ${version.version}`}
+                  />
+                  <input
+                    type="radio"
+                    name="version-after"
+                    checked={afterVersion === version.version}
+                    onChange={() => setAfterVersion(version.version)}
+                    className="mt-1"
+                    title={`Compare to version ${version.version}`}
+                  />
+                  <div className="text-sm">
+                    <div className="flex items-center justify-between">
+                      <span className="font-medium text-gray-900 dark:text-gray-100">
+                        Version {version.version}
+                        {version.version === currentVersion && (
+                          <span className="ml-2 px-2 py-0.5 text-xs rounded-full text-green-600 bg-green-100 dark:text-green-400 dark:bg-green-900/20">
+                            Current
+                          </span>
+                        )}
+                      </span>
+                      {version.version !== currentVersion && template.isActive && (
+                        <button
+                          onClick={() => setRestoreTarget(version.version)}
+                          disabled={isRestoring}
+                          className="btn btn-outline btn-sm"
+                        >
+                          Roll back
+                        </button>
+                      )}
+                    </div>
+                    <div className="text-xs text-gray-500 dark:text-gray-400">
+                      {formatDateTime(version.createdAt)}
+                      {version.createdBy && ` by ${version.createdBy.name}`}
+                    </div>
+                    {version.note && (
+                      <div className="text-xs text-gray-700 dark:text-gray-300 mt-1">{version.note}</div>
+                    )}
+                  </div>
+                </div>
+              ))}
+            </div>
+
+            <div className="lg:col-span-2 space-y-4">
+              <div className="flex items-center space-x-4 text-xs text-gray-600 dark:text-gray-400">
+                <span className="flex items-center"><span className="inline-block w-3 h-3 mr-1 border-2 border-blue-500 bg-blue-100" />Version {beforeVersion}</span>
+                <span className="flex items-center"><span className="inline-block w-3 h-3 mr-1 border-2 border-dashed border-red-500 bg-red-100" />Version {afterVersion}</span>
+                <span className="flex items-center"><span className="inline-block w-3 h-3 mr-1 border border-gray-400 bg-gray-100" />Unchanged</span>
+              </div>
+
+              <div
+                ref={previewRef}
+                className="relative border border-gray-200 dark:border-gray-700 rounded-lg overflow-hidden bg-white"
+                style={{
+                  width: '100%',
+                  aspectRatio: template.dimensions
+                    ? `${template.dimensions.width} / ${template.dimensions.height}`
+                    : '16 / 9',
+                }}
+              >
+                {token && template.isActive && (
+                  <AuthenticatedImage
+                    src={`${API_BASE_URL}/template/${template._id}/preview`}
+                    alt={template.name}
+                    className="w-full h-full object-contain"
+                    token={token}
+                  />
+                )}
+                {before && after && placeholderDiffs.map(diff => {
+                  if (diff.changes.length === 0 || isSameVersion) {
+                    return renderPlaceholder((diff.after || diff.before)!, after, 'unchanged', diff.key);
+                  }
+                  return (
+                    <React.Fragment key={diff.key}>
+                      {diff.before && renderPlaceholder(diff.before, before, 'before', `${diff.key}-before`)}
+                      {diff.after && renderPlaceholder(diff.after, after, 'after', `${diff.key}-after`)}
+                    </React.Fragment>
+                  );
+                })}
+              </div>
+
+              <div>
+                <h4 className="text-sm font-semibold text-gray-900 dark:text-gray-100 mb-2">
+                  Changes from version {beforeVersion} to version {afterVersion}
+                </h4>
+                {isSameVersion ? (
+                  <p className="text-sm text-gray-500 dark:text-gray-400">Select two different versions to compare.</p>
+                ) : placeholderDiffs.every(diff => diff.changes.length === 0) && layoutChanges.length === 0 ? (
+                  <p className="text-sm text-gray-500 dark:text-gray-400">The layouts are identical.</p>
+                ) : (
+                  <ul className="text-sm text-gray-700 dark:text-gray-300 space-y-1">
+                    {layoutChanges.map(change => (
+                      <li key={change}>{change}</li>
+                    ))}
+                    {placeholderDiffs.filter(diff => diff.changes.length > 0).map(diff => (
+                      <li key={diff.key}>
+                        <span className="font-medium">{diff.label}:</span> {diff.changes.join(', ')}
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+            </div>
+          </div>
+        )}
+      </div>
+
+      <ConfirmationModal
+        isOpen={restoreTarget !== null}
+        onClose={() => setRestoreTarget(null)}
+        onConfirm={handleRestore}
+        title="Roll Back Template"
+        message={`Restore the layout of version ${restoreTarget}? It will be saved as a new version; certificates already issued keep the layout they were generated with.`}
+        confirmButtonText={isRestoring ? 'Restoring...' : 'Roll Back'}
+      />
+    </div>
+  );
+};
+
+export default TemplateVersionHistory;
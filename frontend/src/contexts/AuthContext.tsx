@@ -1,5 +1,6 @@
 import React, { createContext, useContext, useState, useEffect, ReactNode } from 'react';
 import { useToast } from './ToastContext';
+import { CertificateIdScheme, IssuerProfile } from '../types';
 
 interface Admin {
   _id: string;
@@ -8,6 +9,8 @@ interface Admin {
   role: 'admin' | 'super_admin';
   isActive: boolean;
   lastLogin?: Date;
+  idScheme?: CertificateIdScheme | null;
+  issuerProfile?: IssuerProfile | null;
 }
 
 interface AuthContextType {
@@ -18,6 +21,7 @@ interface AuthContextType {
   logout: () => void;
   refreshToken: () => Promise<boolean>;
   updateProfile: (data: Partial<Admin>) => Promise<boolean>;
+  updateIdScheme: (idScheme: CertificateIdScheme | null) => Promise<boolean>;
 }
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
@@ -171,6 +175,34 @@ export const AuthProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
     }
   };
 
+  const updateIdScheme = async (idScheme: CertificateIdScheme | null): Promise<boolean> => {
+    try {
+      const response = await fetch(`${API_BASE_URL}/auth/id-scheme`, {
+        method: 'PUT',
+        headers: {
+          'Authorization': `Bearer ${token}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ idScheme }),
+      });
+
+      const data = await response.json();
+
+      if (response.ok) {
+        setAdmin(data.data.admin);
+        showToast('Certificate ID scheme updated successfully!', 'success');
+        return true;
+      } else {
+        showToast(data.errors?.[0]?.message || data.message || 'Failed to update certificate ID scheme', 'error');
+        return false;
+      }
+    } catch (error) {
+      console.error('ID scheme update error:', error);
+      showToast('Network error while updating certificate ID scheme', 'error');
+      return false;
+    }
+  };
+
   const value: AuthContextType = {
     admin,
     token,
@@ -179,6 +211,7 @@ export const AuthProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
     logout,
     refreshToken,
     updateProfile,
+    updateIdScheme,
   };
 
   return (
@@ -0,0 +1,95 @@
+import { useState, useEffect, useCallback } from 'react';
+import { useAuth } from '../contexts/AuthContext';
+import { CustomFont } from '../types';
+
+interface UseCustomFontsReturn {
+  fonts: CustomFont[];
+  families: string[];
+  isLoading: boolean;
+  refresh: () => Promise<void>;
+}
+
+const API_BASE_URL = import.meta.env.VITE_API_BASE_URL || 'http://localhost:5000/api';
+
+// Faces already added to document.fonts, shared across hook instances
+const loadedFaces = new Set<string>();
+
+/**
+ * Fetch the admin's uploaded fonts and register them with the browser via
+ * FontFace so previews render with the same files the server embeds.
+ */
+export const useCustomFonts = (): UseCustomFontsReturn => {
+  const { token } = useAuth();
+  const [fonts, setFonts] = useState<CustomFont[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const loadFace = async (font: CustomFont) => {
+    if (loadedFaces.has(font._id)) return;
+
+    // Font files require authentication, so fetch them instead of using a url() source
+    const response = await fetch(`${API_BASE_URL}/font/${font._id}/file`, {
+      headers: {
+        'Authorization': `Bearer ${token}`,
+      },
+    });
+    if (!response.ok) {
+      throw new Error(`Failed to load font file for ${font.family}`);
+    }
+
+    const face = new FontFace(font.family, await response.arrayBuffer(), {
+      weight: font.weight,
+      style: font.style,
+    });
+    await face.load();
+    document.fonts.add(face);
+    loadedFaces.add(font._id);
+  };
+
+  const refresh = useCallback(async () => {
+    if (!token) return;
+
+    try {
+      setIsLoading(true);
+      const response = await fetch(`${API_BASE_URL}/font`, {
+        headers: {
+          'Authorization': `Bearer ${token}`,
+          'Content-Type': 'application/json',
+        },
+      });
+
+      if (!response.ok) {
+        setFonts([]);
+        return;
+      }
+
+      const data = await response.json();
+      const list: CustomFont[] = data.data.fonts || [];
+      setFonts(list);
+
+      const results = await Promise.allSettled(list.map(loadFace));
+      results
+        .filter((result): result is PromiseRejectedResult => result.status === 'rejected')
+        .forEach(result => console.error('Error loading custom font:', result.reason));
+    } catch (error) {
+      console.error('Error fetching fonts:', error);
+      setFonts([]);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [token]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const families = Array.from(new Set(fonts.map(font => font.family))).sort();
+
+  return {
+    fonts,
+    families,
+    isLoading,
+    refresh,
+  };
+};
+
+export default useCustomFonts;
@@ -0,0 +1,91 @@
+import { useState, useEffect, useCallback } from 'react';
+import { useAuth } from '../contexts/AuthContext';
+import { ImageAsset } from '../types';
+
+interface UseImageLibraryReturn {
+  images: ImageAsset[];
+  isLoading: boolean;
+  refresh: () => Promise<void>;
+}
+
+const API_BASE_URL = import.meta.env.VITE_API_BASE_URL || 'http://localhost:5000/api';
+
+/**
+ * Upload an image for the library, or for a single certificate's image field
+ * @throws {Error} With the server's message when the upload is rejected
+ */
+export const uploadImage = async (
+  token: string,
+  file: File,
+  purpose: ImageAsset['purpose'],
+  name?: string
+): Promise<ImageAsset> => {
+  const formData = new FormData();
+  formData.append('image', file);
+  formData.append('purpose', purpose);
+  if (name) {
+    formData.append('name', name);
+  }
+
+  const response = await fetch(`${API_BASE_URL}/image/upload`, {
+    method: 'POST',
+    headers: {
+      'Authorization': `Bearer ${token}`,
+    },
+    body: formData,
+  });
+  const data = await response.json();
+
+  if (!response.ok) {
+    throw new Error(data.message || 'Failed to upload image');
+  }
+  return data.data.image;
+};
+
+/**
+ * Fetch the admin's library images, the signatures and logos image placeholders draw
+ */
+export const useImageLibrary = (): UseImageLibraryReturn => {
+  const { token } = useAuth();
+  const [images, setImages] = useState<ImageAsset[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const refresh = useCallback(async () => {
+    if (!token) return;
+
+    try {
+      setIsLoading(true);
+      const response = await fetch(`${API_BASE_URL}/image`, {
+        headers: {
+          'Authorization': `Bearer ${token}`,
+          'Content-Type': 'application/json',
+        },
+      });
+
+      if (!response.ok) {
+        setImages([]);
+        return;
+      }
+
+      const data = await response.json();
+      setImages(data.data.images || []);
+    } catch (error) {
+      console.error('Error fetching images:', error);
+      setImages([]);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [token]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  return {
+    images,
+    isLoading,
+    refresh,
+  };
+};
+
+export default useImageLibrary;
@@ -1,5 +1,6 @@
 import { useEffect, useRef, useState, useCallback } from 'react';
 import { useAuth } from '../contexts/AuthContext';
+import { JobStatus, JobType } from '../types';
 
 interface WebSocketMessage {
   type: string;
@@ -20,11 +21,39 @@ interface BulkDownloadProgress {
   error?: string;
 }
 
+export interface BatchGenerateProgress {
+  operation: string;
+  batchId?: string;
+  status: string;
+  total: number;
+  processed: number;
+  succeeded: number;
+  failed: number;
+  currentParticipant?: string;
+  message: string;
+  percentage: number;
+  error?: string;
+}
+
+export interface JobUpdate {
+  operation: 'job';
+  jobId: string;
+  type: JobType;
+  status: JobStatus;
+  attempts: number;
+  maxAttempts: number;
+  certificateId?: string;
+  batchId?: string;
+  error?: string;
+}
+
 interface UseWebSocketReturn {
   isConnected: boolean;
   lastMessage: WebSocketMessage | null;
   sendMessage: (message: any) => void;
   bulkDownloadProgress: BulkDownloadProgress | null;
+  batchProgress: BatchGenerateProgress | null;
+  jobUpdate: JobUpdate | null;
 }
 
 export const useWebSocket = (): UseWebSocketReturn => {
@@ -33,6 +62,8 @@ export const useWebSocket = (): UseWebSocketReturn => {
   const [isConnected, setIsConnected] = useState(false);
   const [lastMessage, setLastMessage] = useState<WebSocketMessage | null>(null);
   const [bulkDownloadProgress, setBulkDownloadProgress] = useState<BulkDownloadProgress | null>(null);
+  const [batchProgress, setBatchProgress] = useState<BatchGenerateProgress | null>(null);
+  const [jobUpdate, setJobUpdate] = useState<JobUpdate | null>(null);
   const reconnectTimeoutRef = useRef<number | null>(null);
   const reconnectAttempts = useRef(0);
   const maxReconnectAttempts = 5;
@@ -71,6 +102,14 @@ export const useWebSocket = (): UseWebSocketReturn => {
             if (operation === 'bulk_download' || operation === 'bulk_download_complete' || operation === 'bulk_download_error') {
               setBulkDownloadProgress(message.data);
             }
+
+            if (operation === 'batch_generate' || operation === 'batch_generate_complete' || operation === 'batch_generate_error') {
+              setBatchProgress(message.data);
+            }
+
+            if (operation === 'job') {
+              setJobUpdate(message.data);
+            }
           }
         } catch (error) {
           console.error('Error parsing WebSocket message:', error);
@@ -86,7 +125,7 @@ export const useWebSocket = (): UseWebSocketReturn => {
           const delay = Math.min(1000 * Math.pow(2, reconnectAttempts.current), 30000);
           console.log(`Attempting to reconnect in ${delay}ms (attempt ${reconnectAttempts.current + 1}/${maxReconnectAttempts})`);
           
-          reconnectTimeoutRef.current = setTimeout(() => {
+          reconnectTimeoutRef.current = window.setTimeout(() => {
             reconnectAttempts.current++;
             connect();
           }, delay);
@@ -120,6 +159,8 @@ export const useWebSocket = (): UseWebSocketReturn => {
     setIsConnected(false);
     setLastMessage(null);
     setBulkDownloadProgress(null);
+    setBatchProgress(null);
+    setJobUpdate(null);
   }, []);
 
   const sendMessage = useCallback((message: any) => {
@@ -146,7 +187,9 @@ export const useWebSocket = (): UseWebSocketReturn => {
     isConnected,
     lastMessage,
     sendMessage,
-    bulkDownloadProgress
+    bulkDownloadProgress,
+    batchProgress,
+    jobUpdate
   };
 };
 
@@ -5,10 +5,13 @@ import { useToast } from '../contexts/ToastContext';
 import { createNetworkErrorMessage } from '../utils/errorHandler';
 
 import ConfirmationModal from '../components/ConfirmationModal';
+import RevokeCertificateModal from '../components/RevokeCertificateModal';
+import RenewCertificateModal from '../components/RenewCertificateModal';
+import CertificateDetailsModal from '../components/CertificateDetailsModal';
 import BulkDownloadProgress from '../components/BulkDownloadProgress';
 import { CertificateTableRowSkeleton } from '../components/SkeletonLoader';
 import { useWebSocket } from '../hooks/useWebSocket';
-import { Certificate } from '../types';
+import { Certificate, EmailTemplate } from '../types';
 
 
 
@@ -23,7 +26,7 @@ interface PaginationInfo {
 const Certificates: React.FC = () => {
   const { token } = useAuth();
   const { showToast } = useToast();
-  const { isConnected, bulkDownloadProgress } = useWebSocket();
+  const { isConnected, bulkDownloadProgress, jobUpdate } = useWebSocket();
   
   const [certificates, setCertificates] = useState<Certificate[]>([]);
   const [isLoading, setIsLoading] = useState(true);
@@ -38,12 +41,16 @@ const Certificates: React.FC = () => {
   // Bulk download state
   const [selectedCertificates, setSelectedCertificates] = useState<Set<string>>(new Set());
   const [isBulkDownloading, setIsBulkDownloading] = useState(false);
+  const [isRegenerating, setIsRegenerating] = useState(false);
+  // Layout regenerated files use: the one stored at issue time or the template's current one
+  const [regenerateSource, setRegenerateSource] = useState<'snapshot' | 'template'>('snapshot');
   const [showBulkProgress, setShowBulkProgress] = useState(false);
   const [bulkDownloadFormat, setBulkDownloadFormat] = useState<'pdf' | 'png'>('pdf');
   
   // Filters
   const [searchTerm, setSearchTerm] = useState('');
   const [statusFilter, setStatusFilter] = useState<string>('all');
+  const [deliveryFilter, setDeliveryFilter] = useState<string>('all');
   const [templateFilter, setTemplateFilter] = useState<string>('all');
   const [sortBy, setSortBy] = useState('createdAt');
   const [sortOrder, setSortOrder] = useState<'asc' | 'desc'>('desc');
@@ -55,12 +62,39 @@ const Certificates: React.FC = () => {
   const [showConfirmModal, setShowConfirmModal] = useState(false);
   const [confirmationInput, setConfirmationInput] = useState('');
   
+  // Certificate shown in the details modal
+  const [detailsCertificateId, setDetailsCertificateId] = useState<string | null>(null);
+  
+  // Revocation state
+  const [revokeTarget, setRevokeTarget] = useState<Certificate | null>(null);
+  const [isRevoking, setIsRevoking] = useState(false);
+
+  // Certificate being renewed
+  const [renewTarget, setRenewTarget] = useState<Certificate | null>(null);
+  
+  // Email delivery state
+  const [emailTemplates, setEmailTemplates] = useState<EmailTemplate[]>([]);
+  const [emailTemplateId, setEmailTemplateId] = useState('');
+  const [isSending, setIsSending] = useState(false);
+  
   const API_BASE_URL = import.meta.env.VITE_API_BASE_URL || 'http://localhost:5000/api';
 
   useEffect(() => {
     fetchCertificates();
     fetchTemplates();
-  }, [pagination.currentPage, searchTerm, statusFilter, templateFilter, sortBy, sortOrder]);
+  }, [pagination.currentPage, searchTerm, statusFilter, deliveryFilter, templateFilter, sortBy, sortOrder]);
+
+  useEffect(() => {
+    fetchEmailTemplates();
+  }, []);
+
+  // Generation and email jobs finish in the background; refresh listed certificates they touch
+  useEffect(() => {
+    if (!jobUpdate?.certificateId || !['completed', 'failed'].includes(jobUpdate.status)) return;
+    if (certificates.some(certificate => certificate._id === jobUpdate.certificateId)) {
+      refreshCertificate(jobUpdate.certificateId);
+    }
+  }, [jobUpdate]);
 
   const fetchCertificates = async () => {
     try {
@@ -81,6 +115,7 @@ const Certificates: React.FC = () => {
       
       if (searchTerm) params.append('search', searchTerm);
       if (statusFilter !== 'all') params.append('status', statusFilter);
+      if (deliveryFilter !== 'all') params.append('deliveryStatus', deliveryFilter);
       if (templateFilter !== 'all') params.append('template', templateFilter);
       
       const response = await fetch(`${API_BASE_URL}/certificate?${params}`, {
@@ -107,6 +142,26 @@ const Certificates: React.FC = () => {
     }
   };
 
+  const refreshCertificate = async (id: string) => {
+    try {
+      const response = await fetch(`${API_BASE_URL}/certificate/${id}`, {
+        headers: {
+          'Authorization': `Bearer ${token}`,
+          'Content-Type': 'application/json',
+        },
+      });
+
+      if (response.ok) {
+        const data = await response.json();
+        setCertificates(prev => prev.map(certificate => (
+          certificate._id === id ? data.data.certificate : certificate
+        )));
+      }
+    } catch (error) {
+      console.error('Error refreshing certificate:', error);
+    }
+  };
+
   const fetchTemplates = async () => {
     try {
       const response = await fetch(`${API_BASE_URL}/template?limit=100&status=active`, {
@@ -125,7 +180,121 @@ const Certificates: React.FC = () => {
     }
   };
 
-  const downloadCertificate = async (certificateId: string, format: 'pdf' | 'png') => {
+  const fetchEmailTemplates = async () => {
+    try {
+      const response = await fetch(`${API_BASE_URL}/email-template`, {
+        headers: {
+          'Authorization': `Bearer ${token}`,
+          'Content-Type': 'application/json',
+        },
+      });
+
+      if (response.ok) {
+        const data = await response.json();
+        setEmailTemplates(data.data.emailTemplates || []);
+      }
+    } catch (error) {
+      console.error('Error fetching email templates:', error);
+    }
+  };
+
+  const sendCertificate = async (certificate: Certificate) => {
+    let recipientEmail = certificate.recipientEmail;
+    if (!recipientEmail) {
+      const entered = window.prompt(`Email ${certificate.certificateId} to:`, '');
+      if (!entered?.trim()) {
+        return;
+      }
+      recipientEmail = entered.trim();
+    }
+
+    try {
+      setIsSending(true);
+      const response = await fetch(`${API_BASE_URL}/certificate/${certificate._id}/send`, {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${token}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          recipientEmail,
+          emailTemplateId: emailTemplateId || undefined,
+        }),
+      });
+      const data = await response.json();
+
+      if (response.ok) {
+        showToast(data.message, 'success');
+        fetchCertificates();
+      } else {
+        showToast(data.errors?.[0]?.message || data.message || 'Failed to send certificate', 'error');
+      }
+    } catch (error) {
+      console.error('Error sending certificate:', error);
+      showToast(createNetworkErrorMessage('sending certificate', error), 'error');
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  const handleBulkSend = async () => {
+    if (selectedCertificates.size === 0) {
+      showToast('Please select certificates to send', 'error');
+      return;
+    }
+
+    try {
+      setIsSending(true);
+      const response = await fetch(`${API_BASE_URL}/certificate/bulk-send`, {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${token}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          certificateIds: Array.from(selectedCertificates),
+          emailTemplateId: emailTemplateId || undefined,
+        }),
+      });
+      const data = await response.json();
+
+      if (response.ok) {
+        const { queued, skipped } = data.data.summary;
+        showToast(
+          skipped > 0 ? `${queued} queued, ${skipped} skipped (no recipient email or files)` : data.message,
+          skipped > 0 ? 'warning' : 'success'
+        );
+        setSelectedCertificates(new Set());
+        fetchCertificates();
+      } else {
+        showToast(data.errors?.[0]?.message || data.message || 'Failed to send certificates', 'error');
+      }
+    } catch (error) {
+      console.error('Error sending certificates:', error);
+      showToast(createNetworkErrorMessage('sending certificates', error), 'error');
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  const getDeliveryTitle = (certificate: Certificate) => {
+    const delivery = certificate.delivery;
+    if (!delivery?.status) return '';
+    const timestamp = {
+      queued: delivery.queuedAt,
+      sent: delivery.sentAt,
+      bounced: delivery.bouncedAt,
+      failed: delivery.failedAt,
+    }[delivery.status];
+    return [
+      `${delivery.status} to ${delivery.to}${timestamp ? ` on ${new Date(timestamp).toLocaleString()}` : ''}`,
+      `Attempts: ${delivery.attempts}`,
+      delivery.lastError,
+    ].filter(Boolean).join('\n');
+  };
+
+  // 'vc' downloads a signed Open Badges 3.0 credential instead of a rendered file
+  const downloadCertificate = async (certificateId: string, format: 'pdf' | 'png' | 'vc') => {
     try {
       const response = await fetch(`${API_BASE_URL}/certificate/${certificateId}/download/${format}`, {
         headers: {
@@ -138,13 +307,16 @@ const Certificates: React.FC = () => {
         const url = window.URL.createObjectURL(blob);
         const a = document.createElement('a');
         a.href = url;
-        a.download = `certificate_${certificateId}.${format}`;
+        a.download = `certificate_${certificateId}.${format === 'vc' ? 'credential.json' : format}`;
         document.body.appendChild(a);
         a.click();
         window.URL.revokeObjectURL(url);
         document.body.removeChild(a);
         
-        showToast(`Certificate downloaded as ${format.toUpperCase()}`, 'success');
+        showToast(
+          format === 'vc' ? 'Certificate downloaded as a verifiable credential' : `Certificate downloaded as ${format.toUpperCase()}`,
+          'success'
+        );
         fetchCertificates(); // Refresh to update download count
       } else {
         showToast('Failed to download certificate', 'error');
@@ -218,6 +390,71 @@ const Certificates: React.FC = () => {
     }
   };
 
+  const revokeCertificate = async (reason: string, effectiveDate: string) => {
+    if (!revokeTarget) return;
+    
+    try {
+      setIsRevoking(true);
+      const response = await fetch(`${API_BASE_URL}/certificate/${revokeTarget._id}/revoke`, {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${token}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ reason, effectiveDate: effectiveDate || undefined }),
+      });
+      const data = await response.json();
+
+      if (response.ok) {
+        showToast(`Certificate ${revokeTarget.certificateId} revoked`, 'success');
+        setRevokeTarget(null);
+        fetchCertificates();
+      } else {
+        showToast(data.errors?.[0]?.message || data.message || 'Failed to revoke certificate', 'error');
+      }
+    } catch (error) {
+      console.error('Error revoking certificate:', error);
+      showToast(createNetworkErrorMessage('revoking certificate', error), 'error');
+    } finally {
+      setIsRevoking(false);
+    }
+  };
+
+  const reinstateCertificate = async (certificate: Certificate) => {
+    const reason = window.prompt(`Reinstate ${certificate.certificateId}? Optionally note why:`, '');
+    if (reason === null) {
+      return;
+    }
+    
+    try {
+      const response = await fetch(`${API_BASE_URL}/certificate/${certificate._id}/reinstate`, {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${token}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ reason: reason.trim() || undefined }),
+      });
+      const data = await response.json();
+
+      if (response.ok) {
+        showToast(`Certificate ${certificate.certificateId} reinstated`, 'success');
+        fetchCertificates();
+      } else {
+        showToast(data.message || 'Failed to reinstate certificate', 'error');
+      }
+    } catch (error) {
+      console.error('Error reinstating certificate:', error);
+      showToast(createNetworkErrorMessage('reinstating certificate', error), 'error');
+    }
+  };
+
+  const getRevocationTitle = (certificate: Certificate) => {
+    return (certificate.statusHistory || [])
+      .map(entry => `${formatDate(entry.performedAt)}: ${entry.action}${entry.reason ? ` - ${entry.reason}` : ''}`)
+      .join('\n');
+  };
+
   const handlePageChange = (newPage: number) => {
     setPagination(prev => ({ ...prev, currentPage: newPage }));
   };
@@ -363,6 +600,74 @@ const Certificates: React.FC = () => {
     setSelectedCertificates(newSelected);
   };
 
+  const regenerateCertificate = async (certificate: Certificate) => {
+    try {
+      setIsRegenerating(true);
+      const response = await fetch(`${API_BASE_URL}/certificate/${certificate._id}/regenerate`, {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${token}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ source: 'snapshot' }),
+      });
+      const data = await response.json();
+
+      if (response.ok) {
+        showToast(`Certificate ${certificate.certificateId} queued for regeneration`, 'success');
+      } else {
+        showToast(data.message || 'Failed to regenerate certificate', 'error');
+      }
+      fetchCertificates();
+    } catch (error) {
+      console.error('Error regenerating certificate:', error);
+      showToast(createNetworkErrorMessage('regenerating certificate', error), 'error');
+    } finally {
+      setIsRegenerating(false);
+    }
+  };
+
+  const handleBulkRegenerate = async (failedOnly = false) => {
+    if (!failedOnly && selectedCertificates.size === 0) {
+      showToast('Please select certificates to regenerate', 'error');
+      return;
+    }
+
+    try {
+      setIsRegenerating(true);
+      const response = await fetch(`${API_BASE_URL}/certificate/bulk-regenerate`, {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${token}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(failedOnly
+          ? { failedOnly: true, source: regenerateSource }
+          : { certificateIds: Array.from(selectedCertificates), source: regenerateSource }),
+      });
+      const data = await response.json();
+
+      if (response.ok) {
+        const { queued, failed } = data.data.summary;
+        showToast(
+          failed > 0
+            ? `${queued} queued for regeneration, ${failed} could not be queued`
+            : `${queued} certificate${queued === 1 ? '' : 's'} queued for regeneration`,
+          failed > 0 ? 'warning' : 'success'
+        );
+        setSelectedCertificates(new Set());
+        fetchCertificates();
+      } else {
+        showToast(data.errors?.[0]?.message || data.message || 'Failed to regenerate certificates', 'error');
+      }
+    } catch (error) {
+      console.error('Error regenerating certificates:', error);
+      showToast(createNetworkErrorMessage('regenerating certificates', error), 'error');
+    } finally {
+      setIsRegenerating(false);
+    }
+  };
+
   const handleSelectAll = () => {
     if (selectedCertificates.size === certificates.length) {
       setSelectedCertificates(new Set());
@@ -489,7 +794,7 @@ const Certificates: React.FC = () => {
       {/* Filters */}
       <div className="card-glass animate-slide-up">
         <div className="card-content">
-          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-5 gap-6">
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-6 gap-6">
             {/* Search */}
             <div className="lg:col-span-2">
               <label className="block text-sm font-semibold mb-2 text-gray-700 dark:text-gray-300">Search Certificates</label>
@@ -500,7 +805,7 @@ const Certificates: React.FC = () => {
                   </svg>
                   <input
                     type="text"
-                    placeholder="Search by participant name or certificate ID..."
+                    placeholder="Search by participant, email or certificate ID..."
                     value={searchTerm}
                     onChange={(e) => setSearchTerm(e.target.value)}
                     className="input pl-10 shadow-sm border-gray-300 focus:border-blue-500 focus:ring-blue-500"
@@ -538,6 +843,56 @@ const Certificates: React.FC = () => {
                     </button>
                   </div>
                 )}
+                {/* Regenerate Controls */}
+                {(selectedCertificates.size > 0 || statusFilter === 'failed') && (
+                  <div className="flex items-center gap-3 animate-scale-in">
+                    <select
+                      value={regenerateSource}
+                      onChange={(e) => setRegenerateSource(e.target.value as 'snapshot' | 'template')}
+                      className="input shadow-sm border-gray-300 focus:border-blue-500 focus:ring-blue-500"
+                      title="Layout to render with"
+                    >
+                      <option value="snapshot">Issued Layout</option>
+                      <option value="template">Current Template Layout</option>
+                    </select>
+                    <button
+                      onClick={() => handleBulkRegenerate(selectedCertificates.size === 0)}
+                      disabled={isRegenerating}
+                      className="btn btn-outline btn-sm whitespace-nowrap hover-lift"
+                    >
+                      {isRegenerating
+                        ? 'Regenerating...'
+                        : selectedCertificates.size > 0
+                          ? `Regenerate ${selectedCertificates.size} Selected`
+                          : 'Retry All Failed'}
+                    </button>
+                  </div>
+                )}
+                {/* Email Controls */}
+                {selectedCertificates.size > 0 && (
+                  <div className="flex items-center gap-3 animate-scale-in">
+                    <select
+                      value={emailTemplateId}
+                      onChange={(e) => setEmailTemplateId(e.target.value)}
+                      className="input shadow-sm border-gray-300 focus:border-blue-500 focus:ring-blue-500"
+                      title="Email template to send with"
+                    >
+                      <option value="">Default Email</option>
+                      {emailTemplates.map(emailTemplate => (
+                        <option key={emailTemplate._id} value={emailTemplate._id}>
+                          {emailTemplate.name}
+                        </option>
+                      ))}
+                    </select>
+                    <button
+                      onClick={handleBulkSend}
+                      disabled={isSending}
+                      className="btn btn-outline btn-sm whitespace-nowrap hover-lift"
+                    >
+                      {isSending ? 'Sending...' : `Email ${selectedCertificates.size} Selected`}
+                    </button>
+                  </div>
+                )}
               </div>
             </div>
             
@@ -552,7 +907,27 @@ const Certificates: React.FC = () => {
                 <option value="all">All Status</option>
                 <option value="generated">Generated</option>
                 <option value="downloaded">Downloaded</option>
+                <option value="failed">Failed</option>
                 <option value="archived">Archived</option>
+                <option value="expired">Expired</option>
+                <option value="revoked">Revoked</option>
+              </select>
+            </div>
+            
+            {/* Email Delivery Filter */}
+            <div>
+              <label className="block text-sm font-medium mb-1">Email</label>
+              <select
+                value={deliveryFilter}
+                onChange={(e) => setDeliveryFilter(e.target.value)}
+                className="input"
+              >
+                <option value="all">All Deliveries</option>
+                <option value="unsent">Not Sent</option>
+                <option value="queued">Queued</option>
+                <option value="sent">Sent</option>
+                <option value="bounced">Bounced</option>
+                <option value="failed">Failed</option>
               </select>
             </div>
             
@@ -849,6 +1224,23 @@ const Certificates: React.FC = () => {
                           </div>
                           <div>
                             <p className="font-semibold text-gray-900 dark:text-gray-100">{certificate.participantName}</p>
+                            {certificate.recipientEmail && (
+                              <div className="flex items-center mt-1">
+                                <span className="text-xs text-gray-600 dark:text-gray-400">{certificate.recipientEmail}</span>
+                                {certificate.delivery?.status && (
+                                  <span
+                                    className={`ml-2 px-2 py-0.5 rounded-full text-xs font-medium ${
+                                      certificate.delivery.status === 'sent' ? 'bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200' :
+                                      certificate.delivery.status === 'queued' ? 'bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-200' :
+                                      'bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-200'
+                                    }`}
+                                    title={getDeliveryTitle(certificate)}
+                                  >
+                                    {certificate.delivery.status.charAt(0).toUpperCase() + certificate.delivery.status.slice(1)}
+                                  </span>
+                                )}
+                              </div>
+                            )}
                             {certificate.tags.length > 0 && (
                               <div className="flex flex-wrap gap-1 mt-1">
                                 {certificate.tags.slice(0, 2).map((tag, index) => (
@@ -881,17 +1273,44 @@ const Certificates: React.FC = () => {
                             certificate.status === 'generated' ? 'bg-gradient-to-r from-green-100 to-emerald-100 text-green-800 dark:from-green-900 dark:to-emerald-900 dark:text-green-200' :
                             certificate.status === 'downloaded' ? 'bg-gradient-to-r from-blue-100 to-cyan-100 text-blue-800 dark:from-blue-900 dark:to-cyan-900 dark:text-blue-200' :
                             certificate.status === 'archived' ? 'bg-gradient-to-r from-gray-100 to-slate-100 text-gray-800 dark:from-gray-900 dark:to-slate-900 dark:text-gray-200' :
+                            certificate.status === 'expired' ? 'bg-gradient-to-r from-orange-100 to-red-100 text-orange-800 dark:from-orange-900 dark:to-red-900 dark:text-orange-200' :
                             'bg-gradient-to-r from-yellow-100 to-orange-100 text-yellow-800 dark:from-yellow-900 dark:to-orange-900 dark:text-yellow-200'
                           }`}>
                             <div className={`w-2 h-2 rounded-full mr-2 ${
                               certificate.status === 'generated' ? 'bg-green-500 animate-pulse' :
                               certificate.status === 'downloaded' ? 'bg-blue-500' :
                               certificate.status === 'archived' ? 'bg-gray-500' :
+                              certificate.status === 'expired' ? 'bg-orange-500' :
                               'bg-yellow-500 animate-pulse'
                             }`}></div>
                             {certificate.status.charAt(0).toUpperCase() + certificate.status.slice(1)}
                           </div>
+                          {certificate.revocation?.isRevoked && (
+                            <span
+                              className="ml-2 inline-flex items-center px-2 py-1 bg-red-100 dark:bg-red-900 text-red-800 dark:text-red-200 rounded-full text-xs font-semibold"
+                              title={getRevocationTitle(certificate)}
+                            >
+                              {certificate.revocation.effectiveDate && new Date(certificate.revocation.effectiveDate) > new Date()
+                                ? `Revokes ${formatDate(certificate.revocation.effectiveDate)}`
+                                : 'Revoked'}
+                            </span>
+                          )}
+                          {certificate.renderWarnings && certificate.renderWarnings.length > 0 && (
+                            <span
+                              className="ml-2 text-yellow-600 dark:text-yellow-400"
+                              title={certificate.renderWarnings.join('\n')}
+                            >
+                              <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 9v2m0 4h.01m-6.938 4h13.856c1.54 0 2.502-1.667 1.732-2.5L13.732 4c-.77-.833-1.964-.833-2.732 0L3.732 16.5c-.77.833.192 2.5 1.732 2.5z" />
+                              </svg>
+                            </span>
+                          )}
                         </div>
+                        {certificate.revocation?.isRevoked && certificate.revocation.reason && (
+                          <p className="text-xs text-red-600 dark:text-red-400 mt-1 ml-1 max-w-xs truncate" title={certificate.revocation.reason}>
+                            {certificate.revocation.reason}
+                          </p>
+                        )}
                       </td>
                       <td className="py-4 px-6">
                         <div className="flex items-center">
@@ -918,11 +1337,26 @@ const Certificates: React.FC = () => {
                             </svg>
                             <span className="text-xs text-gray-600 dark:text-gray-400">Issued: {formatDate(certificate.issuedDate)}</span>
                           </div>
+                          {certificate.expiryDate && (
+                            <div className="flex items-center ml-6">
+                              <span className={`text-xs ${certificate.status === 'expired' ? 'text-orange-600 dark:text-orange-400 font-medium' : 'text-gray-600 dark:text-gray-400'}`}>
+                                Expires: {formatDate(certificate.expiryDate)}
+                                {certificate.renewedAs && ' · renewed'}
+                              </span>
+                            </div>
+                          )}
                         </div>
                       </td>
                       <td className="py-4 px-6">
                         <div className="flex items-center justify-end space-x-2">
-                          {certificate.status !== 'archived' && certificate.status === 'generated' && (
+                          <button
+                            onClick={() => setDetailsCertificateId(certificate._id)}
+                            className="btn btn-outline btn-sm hover-lift transition-all duration-200"
+                            title="Details, corrections and previous versions"
+                          >
+                            Details
+                          </button>
+                          {['generated', 'expired'].includes(certificate.status) && (
                             <>
                               {certificate.generatedFiles?.pdf && (
                                 <button
@@ -948,8 +1382,57 @@ const Certificates: React.FC = () => {
                                   PNG
                                 </button>
                               )}
+                              {!certificate.revocation?.isRevoked && (
+                                <button
+                                  onClick={() => downloadCertificate(certificate._id, 'vc')}
+                                  className="btn btn-outline btn-sm hover-lift shadow-glow transition-all duration-200"
+                                  title="Download as a signed Open Badges 3.0 credential"
+                                >
+                                  <svg className="w-3 h-3 mr-1" fill="currentColor" viewBox="0 0 20 20">
+                                    <path fillRule="evenodd" d="M2.166 4.999A11.954 11.954 0 0010 1.944 11.954 11.954 0 0017.834 5c.11.65.166 1.32.166 2.001 0 5.225-3.34 9.67-8 11.317C5.34 16.67 2 12.225 2 7c0-.682.057-1.35.166-2.001zm11.541 3.708a1 1 0 00-1.414-1.414L9 10.586 7.707 9.293a1 1 0 00-1.414 1.414l2 2a1 1 0 001.414 0l4-4z" clipRule="evenodd" />
+                                  </svg>
+                                  VC
+                                </button>
+                              )}
                             </>
                           )}
+                          {certificate.status === 'generated' && !certificate.revocation?.isRevoked && (
+                            <button
+                              onClick={() => sendCertificate(certificate)}
+                              disabled={isSending}
+                              className="btn btn-outline btn-sm hover-lift transition-all duration-200"
+                              title={certificate.recipientEmail ? `Email to ${certificate.recipientEmail}` : 'Email to a recipient'}
+                            >
+                              <svg className="w-3 h-3 mr-1" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 8l7.89 5.26a2 2 0 002.22 0L21 8M5 19h14a2 2 0 002-2V7a2 2 0 00-2-2H5a2 2 0 00-2 2v10a2 2 0 002 2z" />
+                              </svg>
+                              {certificate.delivery?.status ? 'Resend' : 'Send'}
+                            </button>
+                          )}
+                          {!certificate.revocation?.isRevoked && !certificate.renewedAs && (
+                            certificate.status === 'expired' || (certificate.status === 'generated' && certificate.expiryDate)
+                          ) && (
+                            <button
+                              onClick={() => setRenewTarget(certificate)}
+                              className="btn btn-outline btn-sm hover-lift transition-all duration-200"
+                              title="Issue a new certificate that replaces this one"
+                            >
+                              Renew
+                            </button>
+                          )}
+                          {certificate.status === 'failed' && (
+                            <button
+                              onClick={() => regenerateCertificate(certificate)}
+                              disabled={isRegenerating}
+                              className="btn btn-outline btn-sm text-yellow-700 hover:text-yellow-800 hover-lift transition-all duration-200 hover:scale-105"
+                              title="Render the certificate files again"
+                            >
+                              <svg className="w-3 h-3 mr-1" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15" />
+                              </svg>
+                              Retry
+                            </button>
+                          )}
                           {certificate.status !== 'archived' && (
                             <button
                               onClick={() => archiveCertificate(certificate._id)}
@@ -962,6 +1445,23 @@ const Certificates: React.FC = () => {
                               Archive
                             </button>
                           )}
+                          {certificate.revocation?.isRevoked ? (
+                            <button
+                              onClick={() => reinstateCertificate(certificate)}
+                              className="btn btn-outline btn-sm hover-lift transition-all duration-200 hover:scale-105"
+                              title="Reinstate Certificate"
+                            >
+                              Reinstate
+                            </button>
+                          ) : (
+                            <button
+                              onClick={() => setRevokeTarget(certificate)}
+                              className="btn btn-outline btn-sm text-red-600 hover:text-red-700 hover-lift transition-all duration-200 hover:scale-105"
+                              title="Revoke Certificate"
+                            >
+                              Revoke
+                            </button>
+                          )}
                         </div>
                       </td>
                     </tr>
@@ -1046,6 +1546,33 @@ const Certificates: React.FC = () => {
         onInputChange={setConfirmationInput}
       />
       
+      {/* Certificate Details Modal */}
+      <CertificateDetailsModal
+        certificateId={detailsCertificateId}
+        onClose={() => setDetailsCertificateId(null)}
+        onUpdated={fetchCertificates}
+      />
+      
+      {/* Revoke Certificate Modal */}
+      <RevokeCertificateModal
+        isOpen={!!revokeTarget}
+        certificateId={revokeTarget?.certificateId || ''}
+        participantName={revokeTarget?.participantName || ''}
+        isSubmitting={isRevoking}
+        onClose={() => setRevokeTarget(null)}
+        onConfirm={revokeCertificate}
+      />
+
+      {/* Renew Certificate Modal */}
+      <RenewCertificateModal
+        certificate={renewTarget}
+        onClose={() => setRenewTarget(null)}
+        onRenewed={() => {
+          setRenewTarget(null);
+          fetchCertificates();
+        }}
+      />
+      
       {/* Bulk Download Progress Modal */}
       {showBulkProgress && (
         <BulkDownloadProgress
@@ -3,6 +3,7 @@ import { Link } from 'react-router-dom';
 import { useAuth } from '../contexts/AuthContext';
 import { useToast } from '../contexts/ToastContext';
 import LoadingSpinner from '../components/LoadingSpinner';
+import ExpiringCertificates from '../components/ExpiringCertificates';
 
 interface DashboardStats {
   overview: {
@@ -85,6 +86,8 @@ const Dashboard: React.FC = () => {
         return 'text-gray-600 bg-gray-100 dark:text-gray-400 dark:bg-gray-900/20';
       case 'pending':
         return 'text-yellow-600 bg-yellow-100 dark:text-yellow-400 dark:bg-yellow-900/20';
+      case 'expired':
+        return 'text-orange-600 bg-orange-100 dark:text-orange-400 dark:bg-orange-900/20';
       default:
         return 'text-gray-600 bg-gray-100 dark:text-gray-400 dark:bg-gray-900/20';
     }
@@ -245,6 +248,9 @@ const Dashboard: React.FC = () => {
         </div>
       </div>
 
+      {/* Certificates expiring in the next 30/60/90 days */}
+      <ExpiringCertificates />
+
       {/* Recent Certificates */}
       <div className="card">
         <div className="card-header">
@@ -1,9 +1,13 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { useAuth } from '../contexts/AuthContext';
 import { useToast } from '../contexts/ToastContext';
 import LoadingSpinner from '../components/LoadingSpinner';
+import BatchGenerate from '../components/BatchGenerate';
+import ImageFieldInput from '../components/ImageFieldInput';
 import { createNetworkErrorMessage } from '../utils/errorHandler';
+import { formatDate } from '../utils/dateFormat';
+import { TemplateField } from '../types';
 
 interface Template {
   _id: string;
@@ -17,6 +21,7 @@ interface Template {
     width: number;
     height: number;
   };
+  coordinateSpace?: 'template';
   placeholders: Array<{
     type: string;
     x: number;
@@ -30,7 +35,11 @@ interface Template {
     rotation: number;
     width?: number;
     height?: number;
+    fieldKey?: string;
+    dateFormat?: string;
+    locale?: string;
   }>;
+  fields?: TemplateField[];
   isActive: boolean;
   usageCount: number;
   createdAt: string;
@@ -56,30 +65,60 @@ const Generate: React.FC = () => {
   const [selectedTemplate, setSelectedTemplate] = useState<Template | null>(null);
   const [isLoadingTemplates, setIsLoadingTemplates] = useState(true);
   const [isGenerating, setIsGenerating] = useState(false);
+  const [mode, setMode] = useState<'single' | 'batch'>('single');
   
   // Form data
   const [participantName, setParticipantName] = useState('');
+  const [recipientEmail, setRecipientEmail] = useState('');
+  const [sendEmail, setSendEmail] = useState(false);
   const [placeholderValues, setPlaceholderValues] = useState<PlaceholderValue[]>([]);
+  const [fieldValues, setFieldValues] = useState<Record<string, string>>({});
   const [tags, setTags] = useState<string[]>([]);
   const [tagInput, setTagInput] = useState('');
   const [notes, setNotes] = useState('');
   const [issuedDate, setIssuedDate] = useState(new Date().toISOString().split('T')[0]);
   const [expiryDate, setExpiryDate] = useState('');
+  const [previewWidth, setPreviewWidth] = useState(800);
+  const previewRef = useRef<HTMLDivElement>(null);
   
   const API_BASE_URL = import.meta.env.VITE_API_BASE_URL || 'http://localhost:5000/api';
 
+  // Placeholders are in template pixels; templates not yet migrated use the 800px editor canvas
+  const previewScale = selectedTemplate?.coordinateSpace === 'template' && selectedTemplate.dimensions?.width
+    ? previewWidth / selectedTemplate.dimensions.width
+    : previewWidth / 800;
+
   useEffect(() => {
     fetchTemplates();
   }, []);
 
+  useEffect(() => {
+    const container = previewRef.current;
+    if (!container) return;
+    const observer = new ResizeObserver(() => setPreviewWidth(container.clientWidth));
+    observer.observe(container);
+    return () => observer.disconnect();
+  }, [selectedTemplate, mode]);
+
   useEffect(() => {
     if (selectedTemplate) {
-      // Initialize placeholder values when template is selected
+      // Initialize placeholder values when template is selected; QR codes are generated,
+      // and custom fields and images are filled in below
       setPlaceholderValues(
-        selectedTemplate.placeholders.map((_, index) => ({
-          placeholderIndex: index,
-          value: '',
-        }))
+        selectedTemplate.placeholders
+          .map((placeholder, index) => ({ placeholder, index }))
+          .filter(({ placeholder }) => placeholder.type === 'name' || placeholder.type === 'id')
+          .map(({ index }) => ({
+            placeholderIndex: index,
+            value: '',
+          }))
+      );
+      // Custom fields start from their template defaults
+      setFieldValues(
+        (selectedTemplate.fields || []).reduce((acc, field) => {
+          acc[field.key] = field.defaultValue || '';
+          return acc;
+        }, {} as Record<string, string>)
       );
     }
   }, [selectedTemplate]);
@@ -147,6 +186,16 @@ const Generate: React.FC = () => {
       showToast('Please enter participant name', 'error');
       return false;
     }
+
+    if (sendEmail && !recipientEmail.trim()) {
+      showToast('Please enter a recipient email to send the certificate', 'error');
+      return false;
+    }
+
+    if (expiryDate && expiryDate < issuedDate) {
+      showToast('Expiry date cannot be before the issue date', 'error');
+      return false;
+    }
     
     // Check if all placeholders have values
     const emptyPlaceholders = placeholderValues.filter(pv => !pv.value.trim());
@@ -154,6 +203,14 @@ const Generate: React.FC = () => {
       showToast('Please fill in all placeholder values', 'error');
       return false;
     }
+
+    const missingFields = (selectedTemplate?.fields || []).filter(
+      field => field.required && !fieldValues[field.key]?.trim()
+    );
+    if (missingFields.length > 0) {
+      showToast(`Please fill in: ${missingFields.map(field => field.label).join(', ')}`, 'error');
+      return false;
+    }
     
     return true;
   };
@@ -164,27 +221,17 @@ const Generate: React.FC = () => {
     try {
       setIsGenerating(true);
       
-      // Get actual container dimensions from the template preview
-      const templateContainer = document.querySelector('[data-template-container]') as HTMLElement;
-      let containerDimensions = { width: 800, height: 600 }; // fallback
-      
-      if (templateContainer) {
-        const rect = templateContainer.getBoundingClientRect();
-        containerDimensions = {
-          width: rect.width,
-          height: rect.height
-        };
-      }
-      
       const requestData = {
         templateId: selectedTemplate!._id,
         participantName: participantName.trim(),
+        recipientEmail: recipientEmail.trim() || undefined,
+        sendEmail: sendEmail && !!recipientEmail.trim(),
         placeholderValues: placeholderValues.reduce((acc, pv) => {
           const placeholder = selectedTemplate!.placeholders[pv.placeholderIndex];
           acc[placeholder.type] = pv.value.trim();
           return acc;
         }, {} as Record<string, string>),
-        containerDimensions,
+        fieldValues,
         tags,
         notes: notes.trim(),
         issuedDate,
@@ -201,12 +248,19 @@ const Generate: React.FC = () => {
       });
 
       if (response.ok) {
-        await response.json();
-        showToast('Certificate generated successfully!', 'success');
+        showToast(
+          sendEmail && recipientEmail.trim()
+            ? `Certificate queued for generation and delivery to ${recipientEmail.trim()}`
+            : 'Certificate queued for generation',
+          'success'
+        );
         
         // Reset form
         setParticipantName('');
+        setRecipientEmail('');
+        setSendEmail(false);
         setPlaceholderValues([]);
+        setFieldValues({});
         setTags([]);
         setNotes('');
         setIssuedDate(new Date().toISOString().split('T')[0]);
@@ -217,7 +271,8 @@ const Generate: React.FC = () => {
         navigate('/certificates');
       } else {
         const data = await response.json();
-        showToast(data.message || 'Failed to generate certificate', 'error');
+        const details = data.errors?.map((err: { message: string }) => err.message).join(', ');
+        showToast(details || data.message || 'Failed to generate certificate', 'error');
       }
     } catch (error) {
       console.error('Error generating certificate:', error);
@@ -246,6 +301,20 @@ const Generate: React.FC = () => {
             Create a new certificate from a template
           </p>
         </div>
+        <div className="flex items-center space-x-2">
+          <button
+            onClick={() => setMode('single')}
+            className={`btn btn-sm ${mode === 'single' ? 'btn-primary' : 'btn-outline'}`}
+          >
+            Single
+          </button>
+          <button
+            onClick={() => setMode('batch')}
+            className={`btn btn-sm ${mode === 'batch' ? 'btn-primary' : 'btn-outline'}`}
+          >
+            Batch
+          </button>
+        </div>
       </div>
 
       <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
@@ -323,6 +392,12 @@ const Generate: React.FC = () => {
                 </div>
               </div>
             </div>
+          ) : mode === 'batch' ? (
+            <BatchGenerate
+              key={selectedTemplate._id}
+              templateId={selectedTemplate._id}
+              templateName={selectedTemplate.name}
+            />
           ) : (
             <div className="space-y-6">
               {/* Template Preview */}
@@ -335,8 +410,8 @@ const Generate: React.FC = () => {
                 </div>
                 <div className="card-content">
                   <div 
+                    ref={previewRef}
                     className="relative border border-border rounded-lg overflow-hidden bg-white"
-                    data-template-container
                     style={{
                       maxWidth: '800px',
                       aspectRatio: selectedTemplate.dimensions 
@@ -345,28 +420,74 @@ const Generate: React.FC = () => {
                     }}
                   >
                     <img
-                      src={`${API_BASE_URL}/template/${selectedTemplate._id}/file`}
+                      src={`${API_BASE_URL}/template/${selectedTemplate._id}/preview`}
                       alt={selectedTemplate.name}
                       className="w-full h-auto max-h-96 object-contain"
                     />
                     
                     {/* Placeholder overlays */}
                     {selectedTemplate.placeholders.map((placeholder, index) => {
+                      if (placeholder.type === 'image') {
+                        const imageField = selectedTemplate.fields?.find(f => f.key === placeholder.fieldKey);
+                        return (
+                          <div
+                            key={index}
+                            className="absolute border-2 border-dashed border-primary bg-primary/10 rounded pointer-events-none flex items-center justify-center text-xs text-primary text-center"
+                            style={{
+                              left: placeholder.x * previewScale,
+                              top: placeholder.y * previewScale,
+                              width: (placeholder.width || 120) * previewScale,
+                              height: (placeholder.height || placeholder.width || 120) * previewScale,
+                              transform: placeholder.rotation ? `rotate(${placeholder.rotation}deg)` : undefined,
+                              transformOrigin: 'top left',
+                            }}
+                          >
+                            {imageField ? imageField.label : 'Image'}
+                          </div>
+                        );
+                      }
+                      if (placeholder.type === 'qr') {
+                        return (
+                          <div
+                            key={index}
+                            className="absolute border-2 border-dashed border-primary bg-primary/10 rounded pointer-events-none flex items-center justify-center text-xs text-primary"
+                            style={{
+                              left: placeholder.x * previewScale,
+                              top: placeholder.y * previewScale,
+                              width: (placeholder.width || 120) * previewScale,
+                              height: (placeholder.height || placeholder.width || 120) * previewScale,
+                            }}
+                          >
+                            QR Code
+                          </div>
+                        );
+                      }
                       const placeholderValue = placeholderValues.find(pv => pv.placeholderIndex === index);
+                      const field = placeholder.type === 'field'
+                        ? selectedTemplate.fields?.find(f => f.key === placeholder.fieldKey)
+                        : undefined;
                       return (
                         <div
                           key={index}
                           className="absolute border-2 border-primary bg-primary/10 px-2 py-1 rounded pointer-events-none"
                           style={{
-                            left: placeholder.x,
-                            top: placeholder.y,
-                            fontSize: Math.max(8, placeholder.fontSize * 0.5), // Scale down for preview
+                            left: placeholder.x * previewScale,
+                            top: placeholder.y * previewScale,
+                            fontSize: Math.max(8, placeholder.fontSize * previewScale),
                             fontFamily: placeholder.fontFamily,
                             color: placeholder.color,
                             fontWeight: placeholder.fontWeight,
                           }}
                         >
-                          {placeholderValue?.value || (placeholder.type === 'name' ? 'Name' : 'ID')}
+                          {placeholder.type === 'issuedDate'
+                            ? formatDate(issuedDate, placeholder.dateFormat, placeholder.locale) || 'Issued Date'
+                            : placeholder.type === 'expiryDate'
+                              ? formatDate(expiryDate, placeholder.dateFormat, placeholder.locale) || 'Expiry Date'
+                              : placeholder.type === 'field'
+                                ? (field?.dataType === 'date'
+                                  ? formatDate(fieldValues[placeholder.fieldKey || ''], placeholder.dateFormat, placeholder.locale)
+                                  : fieldValues[placeholder.fieldKey || '']) || field?.label || placeholder.fieldKey
+                                : placeholderValue?.value || (placeholder.type === 'name' ? 'Name' : 'ID')}
                         </div>
                       );
                     })}
@@ -396,12 +517,35 @@ const Generate: React.FC = () => {
                     />
                   </div>
 
+                  {/* Recipient Email */}
+                  <div>
+                    <label className="block text-sm font-medium mb-2">Recipient Email (Optional)</label>
+                    <input
+                      type="email"
+                      value={recipientEmail}
+                      onChange={(e) => setRecipientEmail(e.target.value)}
+                      placeholder="participant@example.com"
+                      className="input"
+                    />
+                    <label className="flex items-center text-sm mt-2">
+                      <input
+                        type="checkbox"
+                        checked={sendEmail}
+                        onChange={(e) => setSendEmail(e.target.checked)}
+                        disabled={!recipientEmail.trim()}
+                        className="mr-2"
+                      />
+                      Email the certificate once it is generated
+                    </label>
+                  </div>
+
                   {/* Placeholder Values */}
-                  {selectedTemplate.placeholders.length > 0 && (
+                  {selectedTemplate.placeholders.some(placeholder => placeholder.type === 'name' || placeholder.type === 'id') && (
                     <div>
                       <label className="block text-sm font-medium mb-2">Placeholder Values *</label>
                       <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                         {selectedTemplate.placeholders.map((placeholder, index) => {
+                          if (placeholder.type !== 'name' && placeholder.type !== 'id') return null;
                           const placeholderValue = placeholderValues.find(pv => pv.placeholderIndex === index);
                           const displayName = placeholder.type === 'name' ? 'Name' : 'ID';
                           return (
@@ -424,6 +568,38 @@ const Generate: React.FC = () => {
                     </div>
                   )}
 
+                  {/* Custom Fields */}
+                  {selectedTemplate.fields && selectedTemplate.fields.length > 0 && (
+                    <div>
+                      <label className="block text-sm font-medium mb-2">Certificate Fields</label>
+                      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                        {selectedTemplate.fields.map(field => (
+                          <div key={field.key}>
+                            <label className="block text-xs font-medium mb-1 text-muted-foreground">
+                              {field.label}{field.required ? ' *' : ''}
+                            </label>
+                            {field.dataType === 'image' ? (
+                              <ImageFieldInput
+                                value={fieldValues[field.key] || ''}
+                                label={field.label}
+                                onChange={(value) => setFieldValues(prev => ({ ...prev, [field.key]: value }))}
+                              />
+                            ) : (
+                              <input
+                                type={field.dataType === 'text' ? 'text' : field.dataType}
+                                value={fieldValues[field.key] || ''}
+                                onChange={(e) => setFieldValues(prev => ({ ...prev, [field.key]: e.target.value }))}
+                                placeholder={field.dataType === 'text' ? `Enter ${field.label.toLowerCase()}` : undefined}
+                                className="input"
+                                required={field.required}
+                              />
+                            )}
+                          </div>
+                        ))}
+                      </div>
+                    </div>
+                  )}
+
                   {/* Dates */}
                   <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                     <div>
@@ -506,7 +682,10 @@ const Generate: React.FC = () => {
                       onClick={() => {
                         setSelectedTemplate(null);
                         setParticipantName('');
+                        setRecipientEmail('');
+                        setSendEmail(false);
                         setPlaceholderValues([]);
+                        setFieldValues({});
                         setTags([]);
                         setNotes('');
                         setIssuedDate(new Date().toISOString().split('T')[0]);
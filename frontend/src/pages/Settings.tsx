@@ -3,6 +3,11 @@ import { useAuth } from '../contexts/AuthContext';
 import { useTheme } from '../contexts/ThemeContext';
 import { useToast } from '../contexts/ToastContext';
 import LoadingSpinner from '../components/LoadingSpinner';
+import IdSchemeForm from '../components/IdSchemeForm';
+import EmailTemplates from '../components/EmailTemplates';
+import IssuerProfileSettings from '../components/IssuerProfileSettings';
+import { CertificateIdScheme } from '../types';
+import { isValidIdFormat } from '../utils/idScheme';
 
 interface ProfileData {
   name: string;
@@ -19,11 +24,11 @@ interface PasswordData {
 }
 
 const Settings: React.FC = () => {
-  const { admin, token, updateProfile } = useAuth();
+  const { admin, token, updateProfile, updateIdScheme } = useAuth();
   const { theme, toggleTheme } = useTheme();
   const { showToast } = useToast();
   
-  const [activeTab, setActiveTab] = useState<'profile' | 'security' | 'preferences'>('profile');
+  const [activeTab, setActiveTab] = useState<'profile' | 'security' | 'certificates' | 'email' | 'preferences'>('profile');
   const [isSaving, setIsSaving] = useState(false);
   
   // Profile form
@@ -42,6 +47,9 @@ const Settings: React.FC = () => {
     confirmPassword: '',
   });
   
+  // Default certificate ID scheme; null uses CERT-YYYY-NNN
+  const [idScheme, setIdScheme] = useState<CertificateIdScheme | null>(null);
+  
   const [showPasswords, setShowPasswords] = useState({
     current: false,
     new: false,
@@ -59,6 +67,7 @@ const Settings: React.FC = () => {
         lastLogin: admin.lastLogin ? admin.lastLogin.toString() : '',
         createdAt: '',
       });
+      setIdScheme(admin.idScheme || null);
     }
   }, [admin]);
 
@@ -151,6 +160,17 @@ const Settings: React.FC = () => {
     }
   };
 
+  const saveIdScheme = async () => {
+    if (idScheme && !isValidIdFormat(idScheme.format)) {
+      showToast('ID format must contain {SEQ} once and only letters, numbers, hyphens and supported tokens', 'error');
+      return;
+    }
+    
+    setIsSaving(true);
+    await updateIdScheme(idScheme);
+    setIsSaving(false);
+  };
+
   const formatDate = (dateString: string) => {
     if (!dateString) return 'Never';
     return new Date(dateString).toLocaleString('en-US', {
@@ -172,6 +192,8 @@ const Settings: React.FC = () => {
   const tabs = [
     { id: 'profile' as const, name: 'Profile', icon: 'user' },
     { id: 'security' as const, name: 'Security', icon: 'shield' },
+    { id: 'certificates' as const, name: 'Certificate IDs', icon: 'hash' },
+    { id: 'email' as const, name: 'Email', icon: 'mail' },
     { id: 'preferences' as const, name: 'Preferences', icon: 'settings' },
   ];
 
@@ -189,6 +211,18 @@ const Settings: React.FC = () => {
             <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 12l2 2 4-4m5.618-4.016A11.955 11.955 0 0112 2.944a11.955 11.955 0 01-8.618 3.04A12.02 12.02 0 003 9c0 5.591 3.824 10.29 9 11.622 5.176-1.332 9-6.03 9-11.622 0-1.042-.133-2.052-.382-3.016z" />
           </svg>
         );
+      case 'hash':
+        return (
+          <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M7 20l4-16m2 16l4-16M6 9h14M4 15h14" />
+          </svg>
+        );
+      case 'mail':
+        return (
+          <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 8l7.89 5.26a2 2 0 002.22 0L21 8M5 19h14a2 2 0 002-2V7a2 2 0 00-2-2H5a2 2 0 00-2 2v10a2 2 0 002 2z" />
+          </svg>
+        );
       case 'settings':
         return (
           <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
@@ -454,6 +488,71 @@ const Settings: React.FC = () => {
             </div>
           )}
 
+          {activeTab === 'certificates' && (
+            <div className="space-y-6">
+              <div className="card">
+                <div className="card-header">
+                  <h3 className="card-title">Certificate ID Scheme</h3>
+                  <p className="card-description">
+                    How certificates you issue are numbered, unless their template sets its own scheme
+                  </p>
+                </div>
+                <div className="card-content space-y-4">
+                  <IdSchemeForm
+                    value={idScheme}
+                    onChange={setIdScheme}
+                    inheritLabel="Use the default scheme (CERT-YYYY-NNN)"
+                  />
+                  
+                  <div className="flex justify-end">
+                    <button
+                      onClick={saveIdScheme}
+                      disabled={isSaving}
+                      className="btn btn-primary btn-md"
+                    >
+                      {isSaving ? (
+                        <div className="flex items-center">
+                          <LoadingSpinner size="sm" className="mr-2" />
+                          Saving...
+                        </div>
+                      ) : (
+                        'Save Scheme'
+                      )}
+                    </button>
+                  </div>
+                </div>
+              </div>
+
+              <div className="card">
+                <div className="card-header">
+                  <h3 className="card-title">Credential Issuer</h3>
+                  <p className="card-description">
+                    How you appear as the issuer of certificates exported as Open Badges credentials
+                  </p>
+                </div>
+                <div className="card-content">
+                  <IssuerProfileSettings />
+                </div>
+              </div>
+            </div>
+          )}
+
+          {activeTab === 'email' && (
+            <div className="space-y-6">
+              <div className="card">
+                <div className="card-header">
+                  <h3 className="card-title">Email Templates</h3>
+                  <p className="card-description">
+                    Messages certificates are emailed to recipients with
+                  </p>
+                </div>
+                <div className="card-content">
+                  <EmailTemplates />
+                </div>
+              </div>
+            </div>
+          )}
+
           {activeTab === 'preferences' && (
             <div className="space-y-6">
               {/* Appearance */}
@@ -1,57 +1,144 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+import QRCode from 'qrcode';
 import { useParams, useNavigate } from 'react-router-dom';
 import { useAuth } from '../contexts/AuthContext';
 import { useToast } from '../contexts/ToastContext';
 import LoadingSpinner from '../components/LoadingSpinner';
+import AuthenticatedImage from '../components/AuthenticatedImage';
+import FontLibrary from '../components/FontLibrary';
+import ImageLibrary from '../components/ImageLibrary';
+import IdSchemeForm from '../components/IdSchemeForm';
+import OutputPreview from '../components/OutputPreview';
+import { useCustomFonts } from '../hooks/useCustomFonts';
+import { useImageLibrary } from '../hooks/useImageLibrary';
 import { createNetworkErrorMessage, getErrorMessage } from '../utils/errorHandler';
+import { CertificateIdScheme, ImageAsset, TemplateField } from '../types';
+import { fitText, createCanvasMeasure } from '../utils/textFit';
+import { isValidIdFormat } from '../utils/idScheme';
+import { DATE_FORMAT_PRESETS, formatDate, isValidLocale, todayAsDate } from '../utils/dateFormat';
 
-const AuthenticatedImage: React.FC<{ src: string; alt: string; className?: string; token: string }> = ({ src, alt, className, token }) => {
-  const [imageUrl, setImageUrl] = useState<string | null>(null);
-  const [isLoading, setIsLoading] = useState(true);
-  const [error, setError] = useState(false);
+const QRPreview: React.FC<{ value: string; color: string; className?: string }> = ({ value, color, className }) => {
+  const [dataUrl, setDataUrl] = useState<string | null>(null);
 
   useEffect(() => {
-    const fetchImage = async () => {
-      try {
-        setIsLoading(true);
-        const response = await fetch(src, {
-          headers: {
-            'Authorization': `Bearer ${token}`,
-          },
-        });
-
-        if (response.ok) {
-          const blob = await response.blob();
-          const url = URL.createObjectURL(blob);
-          setImageUrl(url);
-        } else {
-          setError(true);
-        }
-      } catch (err) {
-        setError(true);
-      } finally {
-        setIsLoading(false);
-      }
+    let cancelled = false;
+    QRCode.toDataURL(value, { margin: 1, width: 256, color: { dark: color || '#000000', light: '#ffffff' } })
+      .then(url => {
+        if (!cancelled) setDataUrl(url);
+      })
+      .catch(() => {
+        if (!cancelled) setDataUrl(null);
+      });
+    return () => {
+      cancelled = true;
     };
+  }, [value, color]);
 
-    fetchImage();
+  if (!dataUrl) {
+    return <div className={`flex items-center justify-center text-xs text-muted-foreground ${className || ''}`}>QR</div>;
+  }
 
-    return () => {
-      if (imageUrl) {
-        URL.revokeObjectURL(imageUrl);
-      }
-    };
-  }, [src, token]);
+  return <img src={dataUrl} alt="QR code preview" className={className} draggable={false} />;
+};
 
-  if (isLoading) {
-    return <div className="flex items-center justify-center h-full"><LoadingSpinner size="sm" /></div>;
+// Certificate ID used to render sample QR codes in the editor
+const SAMPLE_CERTIFICATE_ID = 'CERT-2024-001';
+const DEFAULT_QR_SIZE = 120;
+const DEFAULT_SAMPLE_NAMES = [
+  'John Doe',
+  'Maria Fernanda Gonzalez-Rodriguez',
+  'Alexandria Montgomery-Fitzwilliam Featherstonehaugh',
+].join('\n');
+// Families the server can render without an uploaded font file
+const BUILT_IN_FONTS = ['Arial', 'Helvetica', 'Times New Roman', 'Times', 'Georgia', 'Verdana', 'Courier New'];
+const MIN_QR_SIZE = 40;
+const DEFAULT_IMAGE_WIDTH = 160;
+const MIN_IMAGE_SIZE = 10;
+// How the editor shows each fit mode; mirrors layoutImage in the certificate generator
+const IMAGE_FIT_CLASSES: Record<NonNullable<Placeholder['fit']>, string> = {
+  contain: 'object-contain',
+  cover: 'object-cover',
+  stretch: 'object-fill',
+};
+// Width the editor canvas is laid out at. Default sizes are chosen for this width, and
+// templates saved before coordinates were stored in template pixels were positioned on it.
+const EDITOR_WIDTH = 800;
+
+// Convert a template saved on the legacy editor canvas to template coordinates
+const toTemplateCoordinates = (template: Template): Template => {
+  if (template.coordinateSpace === 'template') return template;
+
+  const factor = template.dimensions.width / EDITOR_WIDTH;
+  const scale = (value: number) => Math.round(value * factor * 100) / 100;
+  return {
+    ...template,
+    coordinateSpace: 'template',
+    placeholders: template.placeholders.map(p => ({
+      ...p,
+      x: scale(p.x),
+      y: scale(p.y),
+      width: p.width ? scale(p.width) : p.width,
+      height: p.height ? scale(p.height) : p.height,
+      fontSize: Math.max(4, Math.round(p.fontSize * factor)),
+      minFontSize: p.minFontSize ? Math.max(4, Math.round(p.minFontSize * factor)) : p.minFontSize,
+    })),
+  };
+};
+
+// Mirror the generator's text layout: (x, y) is the anchor of the text box and the
+// rotation origin; without a box width, alignment is relative to the anchor
+const getTextPlaceholderTransform = (placeholder: Placeholder) => {
+  const transforms: string[] = [];
+  if (placeholder.rotation) {
+    transforms.push(`rotate(${placeholder.rotation}deg)`);
+  }
+  if (!placeholder.width && placeholder.textAlign === 'center') {
+    transforms.push('translateX(-50%)');
+  } else if (!placeholder.width && placeholder.textAlign === 'right') {
+    transforms.push('translateX(-100%)');
   }
+  return transforms.length > 0 ? transforms.join(' ') : undefined;
+};
 
-  if (error || !imageUrl) {
-    return <div className="flex items-center justify-center h-full text-muted-foreground">Failed to load image</div>;
+const getPlaceholderLabel = (placeholder: Placeholder, fields: TemplateField[] = [], images: ImageAsset[] = []) => {
+  switch (placeholder.type) {
+    case 'name':
+      return 'Name';
+    case 'qr':
+      return 'QR Code';
+    case 'issuedDate':
+      return 'Issued Date';
+    case 'expiryDate':
+      return 'Expiry Date';
+    case 'image':
+      if (placeholder.fieldKey) {
+        return `${fields.find(field => field.key === placeholder.fieldKey)?.label || placeholder.fieldKey} (image)`;
+      }
+      return images.find(image => image._id === placeholder.assetId)?.name || 'Image';
+    case 'field':
+      return fields.find(field => field.key === placeholder.fieldKey)?.label || placeholder.fieldKey || 'Custom Field';
+    default:
+      return 'ID';
   }
+};
 
-  return <img src={imageUrl} alt={alt} className={className} draggable={false} />;
+// Issue and expiry dates, and custom fields holding a date, print through a date format
+const isDatePlaceholder = (placeholder: Placeholder, fields: TemplateField[] = []) =>
+  placeholder.type === 'issuedDate' || placeholder.type === 'expiryDate' || (
+    placeholder.type === 'field' && fields.find(field => field.key === placeholder.fieldKey)?.dataType === 'date'
+  );
+
+// The date shown in the editor preview: today for the issue date, a year on for the expiry date
+const getSampleDate = (placeholder: Placeholder, fields: TemplateField[] = []) => {
+  const today = todayAsDate();
+  if (placeholder.type === 'expiryDate') {
+    return new Date(Date.UTC(today.getUTCFullYear() + 1, today.getUTCMonth(), today.getUTCDate()));
+  }
+  if (placeholder.type === 'field') {
+    const defaultValue = fields.find(field => field.key === placeholder.fieldKey)?.defaultValue;
+    return defaultValue && !isNaN(new Date(defaultValue).getTime()) ? defaultValue : today;
+  }
+  return today;
 };
 
 interface Placeholder {
@@ -67,6 +154,24 @@ interface Placeholder {
   rotation: number;
   width?: number;
   height?: number;
+  fieldKey?: string;
+  qrUrlTemplate?: string;
+  overflow?: 'none' | 'shrink' | 'wrap' | 'ellipsis';
+  minFontSize?: number;
+  lineHeight?: number;
+  // Image placeholders: a library image, and/or an image field filled per certificate
+  assetId?: string;
+  fit?: 'contain' | 'cover' | 'stretch';
+  opacity?: number;
+  // Date placeholders: a pattern such as "D MMMM YYYY" (the locale's long date when empty)
+  dateFormat?: string;
+  locale?: string;
+}
+
+interface OverflowWarning {
+  sample: string;
+  message: string;
+  severity: 'error' | 'warning';
 }
 
 interface Template {
@@ -81,7 +186,13 @@ interface Template {
     width: number;
     height: number;
   };
+  // Placeholders are in pixels of `dimensions`; absent on templates saved before that
+  coordinateSpace?: 'template';
   placeholders: Placeholder[];
+  fields?: TemplateField[];
+  // Numbering for certificates issued from this template; null falls back to the admin's scheme
+  idScheme?: CertificateIdScheme | null;
+  currentVersion?: number;
   isActive: boolean;
   usageCount: number;
   createdAt: string;
@@ -98,22 +209,76 @@ const TemplateEditor: React.FC = () => {
   const navigate = useNavigate();
   const { token } = useAuth();
   const { showToast } = useToast();
+  const { fonts: customFonts, families: customFamilies, refresh: refreshFonts } = useCustomFonts();
+  const { images, refresh: refreshImages } = useImageLibrary();
   
   const [template, setTemplate] = useState<Template | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [isSaving, setIsSaving] = useState(false);
+  const [versionNote, setVersionNote] = useState('');
+  const [isReplacingBackground, setIsReplacingBackground] = useState(false);
   const [selectedPlaceholder, setSelectedPlaceholder] = useState<number | null>(null);
   const [isDragging, setIsDragging] = useState(false);
+  const [isResizing, setIsResizing] = useState(false);
   const [dragOffset, setDragOffset] = useState({ x: 0, y: 0 });
+  const [sampleNames, setSampleNames] = useState(DEFAULT_SAMPLE_NAMES);
+  const [containerWidth, setContainerWidth] = useState(800);
+  const containerRef = useRef<HTMLDivElement>(null);
   
   const API_BASE_URL = import.meta.env.VITE_API_BASE_URL || 'http://localhost:5000/api';
 
+  // Placeholders are stored in template pixels; the canvas shows them at `displayScale`
+  const displayScale = template?.dimensions?.width ? containerWidth / template.dimensions.width : 1;
+  // Defaults scaled so new placeholders look the same on any image size
+  const defaultScale = template?.dimensions?.width ? template.dimensions.width / EDITOR_WIDTH : 1;
+  const scaledDefault = (value: number) => Math.round(value * defaultScale);
+  const minQRSize = scaledDefault(MIN_QR_SIZE);
+  const minImageSize = scaledDefault(MIN_IMAGE_SIZE);
+  const imageFields = (template?.fields || []).filter(field => field.dataType === 'image');
+
   useEffect(() => {
     if (id) {
       fetchTemplate();
     }
   }, [id]);
 
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+    const observer = new ResizeObserver(() => setContainerWidth(container.clientWidth));
+    observer.observe(container);
+    return () => observer.disconnect();
+  }, [template !== null]);
+
+  // Predict, for each name placeholder, whether the longest sample name fits its box
+  const overflowWarnings = useMemo(() => {
+    const warnings = new Map<number, OverflowWarning>();
+    if (!template) return warnings;
+
+    const samples = sampleNames.split('\n').map(name => name.trim()).filter(Boolean);
+    if (samples.length === 0) return warnings;
+
+    template.placeholders.forEach((placeholder, index) => {
+      if (placeholder.type !== 'name') return;
+
+      const measure = createCanvasMeasure(placeholder.fontFamily, placeholder.fontWeight, placeholder.fontStyle);
+      const longest = samples.reduce((widest, name) =>
+        measure(name, placeholder.fontSize) > measure(widest, placeholder.fontSize) ? name : widest
+      );
+      const result = fitText(longest, placeholder, measure);
+
+      if (result.overflows) {
+        warnings.set(index, { sample: longest, severity: 'error', message: `"${longest}" overflows the ${placeholder.width}px box` });
+      } else if (!placeholder.width && placeholder.x + measure(longest, placeholder.fontSize) > template.dimensions.width) {
+        warnings.set(index, { sample: longest, severity: 'error', message: `"${longest}" runs past the edge of the certificate. Set a box width and an overflow mode.` });
+      } else if (result.truncated) {
+        warnings.set(index, { sample: longest, severity: 'warning', message: `"${longest}" will be shortened to "${result.lines[result.lines.length - 1]}"` });
+      }
+    });
+
+    return warnings;
+  }, [template, sampleNames]);
+
   const fetchTemplate = async () => {
     try {
       setIsLoading(true);
@@ -126,7 +291,7 @@ const TemplateEditor: React.FC = () => {
 
       if (response.ok) {
         const data = await response.json();
-        setTemplate(data.data.template);
+        setTemplate(toTemplateCoordinates(data.data.template));
       } else {
         showToast('Failed to load template', 'error');
         navigate('/templates');
@@ -141,6 +306,45 @@ const TemplateEditor: React.FC = () => {
     }
   };
 
+  const replaceBackground = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file || !template) return;
+
+    if (!window.confirm('Replace the background image? Placeholders are rescaled to the new image and saved as a new version. Unsaved layout changes are discarded.')) {
+      return;
+    }
+
+    try {
+      setIsReplacingBackground(true);
+      const formData = new FormData();
+      formData.append('template', file);
+
+      const response = await fetch(`${API_BASE_URL}/template/${id}/file`, {
+        method: 'PUT',
+        headers: {
+          'Authorization': `Bearer ${token}`,
+        },
+        body: formData,
+      });
+      const data = await response.json();
+
+      if (response.ok) {
+        setTemplate(toTemplateCoordinates(data.data.template));
+        setSelectedPlaceholder(null);
+        showToast(data.message || 'Background replaced', 'success');
+      } else {
+        showToast(data.message || 'Failed to replace background', 'error');
+      }
+    } catch (error) {
+      console.error('Error replacing background:', error);
+      const errorMessage = createNetworkErrorMessage('replacing background', error);
+      showToast(errorMessage, 'error');
+    } finally {
+      setIsReplacingBackground(false);
+    }
+  };
+
   const addPlaceholder = () => {
     if (!template) return;
     
@@ -152,9 +356,9 @@ const TemplateEditor: React.FC = () => {
     
     const newPlaceholder: Placeholder = {
       type: placeholderType,
-      x: 100,
-      y: 100,
-      fontSize: 24,
+      x: scaledDefault(100),
+      y: scaledDefault(100),
+      fontSize: scaledDefault(24),
       fontFamily: 'Arial',
       color: '#000000',
       fontWeight: 'normal',
@@ -169,6 +373,163 @@ const TemplateEditor: React.FC = () => {
     });
   };
 
+  const addQRPlaceholder = () => {
+    if (!template) return;
+
+    const newPlaceholder: Placeholder = {
+      type: 'qr',
+      x: scaledDefault(100),
+      y: scaledDefault(100),
+      fontSize: scaledDefault(24),
+      fontFamily: 'Arial',
+      color: '#000000',
+      fontWeight: 'normal',
+      fontStyle: 'normal',
+      textAlign: 'left',
+      rotation: 0,
+      width: scaledDefault(DEFAULT_QR_SIZE),
+      height: scaledDefault(DEFAULT_QR_SIZE),
+    };
+
+    setTemplate({
+      ...template,
+      placeholders: [...template.placeholders, newPlaceholder],
+    });
+    setSelectedPlaceholder(template.placeholders.length);
+  };
+
+  // Image boxes start at the image's aspect ratio; resize them freely afterwards
+  const createImagePlaceholder = (assetId?: string, fieldKey?: string): Placeholder => {
+    const image = images.find(item => item._id === assetId);
+    const width = scaledDefault(DEFAULT_IMAGE_WIDTH);
+    return {
+      type: 'image',
+      assetId,
+      fieldKey,
+      x: scaledDefault(100),
+      y: scaledDefault(100),
+      fontSize: scaledDefault(24),
+      fontFamily: 'Arial',
+      color: '#000000',
+      fontWeight: 'normal',
+      fontStyle: 'normal',
+      textAlign: 'left',
+      rotation: 0,
+      width,
+      height: image ? Math.round(width * image.height / image.width) : width,
+      fit: 'contain',
+      opacity: 1,
+    };
+  };
+
+  const addImagePlaceholder = () => {
+    if (!template) return;
+
+    if (images.length === 0 && imageFields.length === 0) {
+      showToast('Upload an image to the image library below, or add an image field, first', 'error');
+      return;
+    }
+
+    const newPlaceholder = images.length > 0
+      ? createImagePlaceholder(images[0]._id)
+      : createImagePlaceholder(undefined, imageFields[0].key);
+
+    setTemplate({
+      ...template,
+      placeholders: [...template.placeholders, newPlaceholder],
+    });
+    setSelectedPlaceholder(template.placeholders.length);
+  };
+
+  const addField = () => {
+    if (!template) return;
+
+    const fields = template.fields || [];
+    let counter = fields.length + 1;
+    while (fields.some(field => field.key === `field${counter}`)) {
+      counter++;
+    }
+
+    setTemplate({
+      ...template,
+      fields: [
+        ...fields,
+        { key: `field${counter}`, label: `Field ${counter}`, dataType: 'text', required: false, defaultValue: '' },
+      ],
+    });
+  };
+
+  const updateField = (fieldIndex: number, updates: Partial<TemplateField>) => {
+    if (!template) return;
+
+    const fields = template.fields || [];
+    const previousKey = fields[fieldIndex].key;
+    const nextKey = updates.key ?? previousKey;
+
+    setTemplate({
+      ...template,
+      fields: fields.map((field, index) => (index === fieldIndex ? { ...field, ...updates } : field)),
+      // Keep placeholders bound to the field when its key is renamed
+      placeholders: nextKey === previousKey
+        ? template.placeholders
+        : template.placeholders.map(p => (
+          (p.type === 'field' || p.type === 'image') && p.fieldKey === previousKey ? { ...p, fieldKey: nextKey } : p
+        )),
+    });
+  };
+
+  const deleteField = (fieldIndex: number) => {
+    if (!template) return;
+
+    const fields = template.fields || [];
+    const key = fields[fieldIndex].key;
+    // Image placeholders with a library image of their own keep it and only lose the binding
+    const isRemoved = (p: Placeholder) => p.fieldKey === key && (p.type === 'field' || (p.type === 'image' && !p.assetId));
+    const bound = template.placeholders.filter(isRemoved).length;
+    if (bound > 0 && !window.confirm(`Removing this field also removes ${bound} placeholder(s) that display it. Continue?`)) {
+      return;
+    }
+
+    setTemplate({
+      ...template,
+      fields: fields.filter((_, index) => index !== fieldIndex),
+      placeholders: template.placeholders
+        .filter(p => !isRemoved(p))
+        .map(p => (p.type === 'image' && p.fieldKey === key ? { ...p, fieldKey: undefined } : p)),
+    });
+    setSelectedPlaceholder(null);
+  };
+
+  const addFieldPlaceholder = (fieldKey: string) => {
+    if (!template) return;
+
+    const field = template.fields?.find(item => item.key === fieldKey);
+    const newPlaceholder: Placeholder = field?.dataType === 'image' ? createImagePlaceholder(undefined, fieldKey) : {
+      type: 'field',
+      fieldKey,
+      x: scaledDefault(100),
+      y: scaledDefault(100),
+      fontSize: scaledDefault(24),
+      fontFamily: 'Arial',
+      color: '#000000',
+      fontWeight: 'normal',
+      fontStyle: 'normal',
+      textAlign: 'left',
+      rotation: 0,
+    };
+
+    setTemplate({
+      ...template,
+      placeholders: [...template.placeholders, newPlaceholder],
+    });
+    setSelectedPlaceholder(template.placeholders.length);
+  };
+
+  const getSampleVerificationUrl = (placeholder: Placeholder) => {
+    const urlTemplate = placeholder.qrUrlTemplate || `${window.location.origin}/verify/{certificateId}`;
+    return urlTemplate.split('{certificateId}').join(SAMPLE_CERTIFICATE_ID);
+  };
+
   const updatePlaceholder = (placeholderIndex: number, updates: Partial<Placeholder>) => {
     if (!template) return;
     
@@ -201,30 +562,64 @@ const TemplateEditor: React.FC = () => {
     setSelectedPlaceholder(placeholderIndex);
     setIsDragging(true);
     
-    const rect = e.currentTarget.getBoundingClientRect();
+    // Measure from the anchor rather than the element box, which moves when rotated or aligned
+    const container = e.currentTarget.parentElement as HTMLElement;
+    const rect = container.getBoundingClientRect();
     setDragOffset({
-      x: e.clientX - rect.left,
-      y: e.clientY - rect.top,
+      x: e.clientX - rect.left - placeholder.x * displayScale,
+      y: e.clientY - rect.top - placeholder.y * displayScale,
     });
   };
 
+  const handleResizeMouseDown = (e: React.MouseEvent, placeholderIndex: number) => {
+    e.preventDefault();
+    e.stopPropagation();
+    setSelectedPlaceholder(placeholderIndex);
+    setIsResizing(true);
+  };
+
   const handleMouseMove = (e: React.MouseEvent) => {
-    if (!isDragging || selectedPlaceholder === null || !template) return;
+    if ((!isDragging && !isResizing) || selectedPlaceholder === null || !template) return;
     
     const container = e.currentTarget as HTMLElement;
     const rect = container.getBoundingClientRect();
     
-    const newX = e.clientX - rect.left - dragOffset.x;
-    const newY = e.clientY - rect.top - dragOffset.y;
+    if (isResizing) {
+      const placeholder = template.placeholders[selectedPlaceholder];
+      if (placeholder.type === 'image') {
+        updatePlaceholder(selectedPlaceholder, {
+          width: Math.round(Math.max((e.clientX - rect.left) / displayScale - placeholder.x, minImageSize)),
+          height: Math.round(Math.max((e.clientY - rect.top) / displayScale - placeholder.y, minImageSize)),
+        });
+        return;
+      }
+
+      // QR codes are square, so follow whichever axis the pointer moved further along
+      const size = Math.max(
+        (e.clientX - rect.left) / displayScale - placeholder.x,
+        (e.clientY - rect.top) / displayScale - placeholder.y,
+        minQRSize
+      );
+      updatePlaceholder(selectedPlaceholder, {
+        width: Math.round(size),
+        height: Math.round(size),
+      });
+      return;
+    }
+    
+    // Convert the pointer position back to template pixels
+    const newX = (e.clientX - rect.left - dragOffset.x) / displayScale;
+    const newY = (e.clientY - rect.top - dragOffset.y) / displayScale;
     
     updatePlaceholder(selectedPlaceholder, {
-      x: Math.max(0, newX),
-      y: Math.max(0, newY),
+      x: Math.max(0, Math.round(newX)),
+      y: Math.max(0, Math.round(newY)),
     });
   };
 
   const handleMouseUp = () => {
     setIsDragging(false);
+    setIsResizing(false);
   };
 
   const saveTemplate = async () => {
@@ -272,6 +667,42 @@ const TemplateEditor: React.FC = () => {
       return;
     }
     
+    const fieldKeys = (template.fields || []).map(field => field.key);
+    const invalidFieldKeys = fieldKeys.filter(key => !/^[a-zA-Z][a-zA-Z0-9_]*$/.test(key));
+    if (invalidFieldKeys.length > 0) {
+      showToast(`Field keys must start with a letter and contain only letters, numbers and underscores: ${invalidFieldKeys.join(', ')}`, 'error');
+      return;
+    }
+    if (new Set(fieldKeys).size !== fieldKeys.length) {
+      showToast('Field keys must be unique', 'error');
+      return;
+    }
+    const unboundPlaceholders = template.placeholders.filter(p => p.type === 'field' && !fieldKeys.includes(p.fieldKey || ''));
+    if (unboundPlaceholders.length > 0) {
+      showToast('Every custom field placeholder must be bound to a field', 'error');
+      return;
+    }
+    const imageFieldKeys = imageFields.map(field => field.key);
+    if (template.placeholders.some(p => p.type === 'field' && imageFieldKeys.includes(p.fieldKey || ''))) {
+      showToast('Image fields can only be placed with image placeholders', 'error');
+      return;
+    }
+    const emptyImages = template.placeholders.filter(p => p.type === 'image' && (
+      p.fieldKey ? !imageFieldKeys.includes(p.fieldKey) : !p.assetId
+    ));
+    if (emptyImages.length > 0) {
+      showToast('Every image placeholder needs a library image or an image field', 'error');
+      return;
+    }
+    if (template.placeholders.some(p => p.locale && !isValidLocale(p.locale))) {
+      showToast('Date placeholders must use a supported locale, such as en-GB or de-DE', 'error');
+      return;
+    }
+    if (template.idScheme && !isValidIdFormat(template.idScheme.format)) {
+      showToast('Certificate ID format must contain {SEQ} once and only letters, numbers, hyphens and supported tokens', 'error');
+      return;
+    }
+
     console.log('Validation passed, proceeding with save...');
     console.log('=== END DEBUG ===');
     
@@ -280,7 +711,9 @@ const TemplateEditor: React.FC = () => {
       
       const requestData = {
         placeholders: template.placeholders,
-        dimensions: template.dimensions,
+        fields: template.fields || [],
+        idScheme: template.idScheme || null,
+        note: versionNote.trim() || undefined,
       };
       
       console.log('=== API REQUEST DEBUG ===');
@@ -326,7 +759,9 @@ const TemplateEditor: React.FC = () => {
       if (response.ok) {
         const responseData = await response.json();
         console.log('Success response data:', responseData);
-        showToast('Template saved successfully!', 'success');
+        setTemplate(prev => prev ? { ...prev, currentVersion: responseData.data.version.version } : prev);
+        setVersionNote('');
+        showToast(responseData.message || 'Template saved successfully!', 'success');
       } else {
         let errorData;
         try {
@@ -385,10 +820,34 @@ const TemplateEditor: React.FC = () => {
           <h1 className="text-2xl font-bold text-foreground">Template Editor</h1>
           <p className="text-muted-foreground mt-1">
             Editing: {template.name}
+            {template.currentVersion ? ` (version ${template.currentVersion})` : ''}
           </p>
         </div>
         
         <div className="flex items-center space-x-3">
+          <input
+            type="file"
+            id="background-replace"
+            accept=".jpg,.jpeg,.png,.gif,.bmp,.webp,.svg,.tiff,.tif,.pdf"
+            onChange={replaceBackground}
+            className="hidden"
+            disabled={isReplacingBackground}
+          />
+          <label
+            htmlFor="background-replace"
+            className={`btn btn-outline btn-md cursor-pointer ${isReplacingBackground ? 'opacity-50 cursor-not-allowed' : ''}`}
+            title="Upload a new background image; placeholders keep their relative positions"
+          >
+            {isReplacingBackground ? 'Replacing...' : 'Replace Background'}
+          </label>
+          <input
+            type="text"
+            value={versionNote}
+            onChange={(e) => setVersionNote(e.target.value)}
+            maxLength={200}
+            placeholder="Version note (optional)"
+            className="input w-56"
+          />
           <button
             onClick={() => navigate('/templates')}
             className="btn btn-outline btn-md"
@@ -424,7 +883,6 @@ const TemplateEditor: React.FC = () => {
               try {
                 const testData = {
                   placeholders: [{ type: 'name', x: 100, y: 100, fontSize: 16, fontFamily: 'Arial', color: '#000000', fontWeight: 'normal', fontStyle: 'normal', textAlign: 'left', rotation: 0 }],
-                  dimensions: { width: 800, height: 600 }
                 };
                 
                 const response = await fetch(`${API_BASE_URL}/template/${id}/placeholders`, {
@@ -497,7 +955,7 @@ const TemplateEditor: React.FC = () => {
       </div>
 
       <div className="grid grid-cols-1 lg:grid-cols-4 gap-6">
-        <div className="lg:col-span-3">
+        <div className="lg:col-span-3 space-y-6">
           <div className="card">
             <div className="card-header">
               <h3 className="card-title">Template Preview</h3>
@@ -507,6 +965,7 @@ const TemplateEditor: React.FC = () => {
             </div>
             <div className="card-content">
               <div 
+                ref={containerRef}
                 className="relative border-2 border-dashed border-border rounded-lg overflow-hidden bg-white"
                 style={{
                   width: '100%',
@@ -521,7 +980,7 @@ const TemplateEditor: React.FC = () => {
               >
                 {token ? (
                   <AuthenticatedImage
-                    src={`${API_BASE_URL}/template/${template._id}/file`}
+                    src={`${API_BASE_URL}/template/${template._id}/preview?v=${encodeURIComponent(template.updatedAt)}`}
                     alt={template.name}
                     className="w-full h-full object-contain"
                     token={token}
@@ -530,31 +989,129 @@ const TemplateEditor: React.FC = () => {
                   <div className="flex items-center justify-center h-full text-muted-foreground">Please log in to view template</div>
                 )}
                 
-                {template.placeholders.map((placeholder, index) => (
+                {template.placeholders.map((placeholder, index) => placeholder.type === 'image' ? (
                   <div
                     key={index}
-                    className={`absolute cursor-move border-2 px-2 py-1 rounded ${
+                    className={`absolute cursor-move border-2 border-dashed ${
+                      selectedPlaceholder === index
+                        ? 'border-primary'
+                        : 'border-gray-400'
+                    }`}
+                    style={{
+                      left: placeholder.x * displayScale,
+                      top: placeholder.y * displayScale,
+                      width: (placeholder.width || scaledDefault(DEFAULT_IMAGE_WIDTH)) * displayScale,
+                      height: (placeholder.height || placeholder.width || scaledDefault(DEFAULT_IMAGE_WIDTH)) * displayScale,
+                      transform: placeholder.rotation ? `rotate(${placeholder.rotation}deg)` : undefined,
+                      transformOrigin: 'top left',
+                    }}
+                    onMouseDown={(e) => handleMouseDown(e, index)}
+                    onClick={() => setSelectedPlaceholder(index)}
+                    title={getPlaceholderLabel(placeholder, template.fields, images)}
+                  >
+                    {placeholder.assetId && token ? (
+                      <div className="w-full h-full overflow-hidden" style={{ opacity: placeholder.opacity ?? 1 }}>
+                        <AuthenticatedImage
+                          src={`${API_BASE_URL}/image/${placeholder.assetId}/file`}
+                          alt={getPlaceholderLabel(placeholder, template.fields, images)}
+                          className={`w-full h-full ${IMAGE_FIT_CLASSES[placeholder.fit || 'contain']}`}
+                          token={token}
+                        />
+                      </div>
+                    ) : (
+                      <div className="w-full h-full flex items-center justify-center text-center text-xs text-muted-foreground bg-gray-100/80 p-1">
+                        {getPlaceholderLabel(placeholder, template.fields, images)}
+                      </div>
+                    )}
+                    {selectedPlaceholder === index && (
+                      <div
+                        className="absolute -right-1.5 -bottom-1.5 w-3 h-3 bg-primary rounded-sm cursor-se-resize"
+                        onMouseDown={(e) => handleResizeMouseDown(e, index)}
+                      />
+                    )}
+                  </div>
+                ) : placeholder.type === 'qr' ? (
+                  <div
+                    key={index}
+                    className={`absolute cursor-move border-2 rounded ${
                       selectedPlaceholder === index
-                        ? 'border-primary bg-primary/10'
-                        : 'border-gray-400 bg-gray-100/80'
+                        ? 'border-primary'
+                        : 'border-gray-400'
                     }`}
                     style={{
-                      left: placeholder.x,
-                      top: placeholder.y,
-                      fontSize: placeholder.fontSize,
+                      left: placeholder.x * displayScale,
+                      top: placeholder.y * displayScale,
+                      width: (placeholder.width || scaledDefault(DEFAULT_QR_SIZE)) * displayScale,
+                      height: (placeholder.height || placeholder.width || scaledDefault(DEFAULT_QR_SIZE)) * displayScale,
+                    }}
+                    onMouseDown={(e) => handleMouseDown(e, index)}
+                    onClick={() => setSelectedPlaceholder(index)}
+                  >
+                    <QRPreview
+                      value={getSampleVerificationUrl(placeholder)}
+                      color={placeholder.color}
+                      className="w-full h-full"
+                    />
+                    {selectedPlaceholder === index && (
+                      <div
+                        className="absolute -right-1.5 -bottom-1.5 w-3 h-3 bg-primary rounded-sm cursor-se-resize"
+                        onMouseDown={(e) => handleResizeMouseDown(e, index)}
+                      />
+                    )}
+                  </div>
+                ) : (
+                  <div
+                    key={index}
+                    className={`absolute cursor-move border-2 px-2 py-1 rounded ${
+                      overflowWarnings.get(index)?.severity === 'error'
+                        ? 'border-red-500 bg-red-100/80'
+                        : selectedPlaceholder === index
+                          ? 'border-primary bg-primary/10'
+                          : 'border-gray-400 bg-gray-100/80'
+                    }`}
+                    style={{
+                      left: placeholder.x * displayScale,
+                      top: placeholder.y * displayScale,
+                      fontSize: placeholder.fontSize * displayScale,
                       fontFamily: placeholder.fontFamily,
                       color: placeholder.color,
                       fontWeight: placeholder.fontWeight,
+                      fontStyle: placeholder.fontStyle,
+                      width: placeholder.width ? placeholder.width * displayScale : undefined,
+                      textAlign: placeholder.textAlign as React.CSSProperties['textAlign'],
+                      height: placeholder.overflow === 'wrap' && placeholder.height ? placeholder.height * displayScale : undefined,
+                      whiteSpace: 'nowrap',
+                      transform: getTextPlaceholderTransform(placeholder),
+                      transformOrigin: 'top left',
                     }}
                     onMouseDown={(e) => handleMouseDown(e, index)}
                     onClick={() => setSelectedPlaceholder(index)}
+                    title={overflowWarnings.get(index)?.message}
                   >
-                    {placeholder.type === 'name' ? 'Name' : 'ID'}
+                    {getPlaceholderLabel(placeholder, template.fields)}
+                    {overflowWarnings.has(index) && (
+                      <span
+                        className={`absolute -top-2 -right-2 w-4 h-4 rounded-full text-white text-[10px] leading-4 text-center font-bold ${
+                          overflowWarnings.get(index)!.severity === 'error' ? 'bg-red-500' : 'bg-yellow-500'
+                        }`}
+                        style={{ fontFamily: 'Arial', fontStyle: 'normal', fontWeight: 'bold' }}
+                      >
+                        !
+                      </span>
+                    )}
                   </div>
                 ))}
               </div>
             </div>
           </div>
+
+          <OutputPreview
+            templateId={template._id}
+            placeholders={template.placeholders}
+            fields={template.fields || []}
+            sampleNames={sampleNames.split('\n').map(name => name.trim()).filter(Boolean)}
+            images={images}
+          />
         </div>
 
         <div className="space-y-6">
@@ -572,6 +1129,24 @@ const TemplateEditor: React.FC = () => {
                 </svg>
                 Add Placeholder
               </button>
+              <button
+                onClick={addQRPlaceholder}
+                className="btn btn-outline btn-sm w-full mb-4"
+              >
+                <svg className="w-4 h-4 mr-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 4h6v6H4V4zm10 0h6v6h-6V4zM4 14h6v6H4v-6zm10 0h2m4 0v2m-6 4h2m2-2h2v2" />
+                </svg>
+                Add QR Code
+              </button>
+              <button
+                onClick={addImagePlaceholder}
+                className="btn btn-outline btn-sm w-full mb-4"
+              >
+                <svg className="w-4 h-4 mr-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16l4.586-4.586a2 2 0 012.828 0L16 16m-2-2l1.586-1.586a2 2 0 012.828 0L20 14m-6-6h.01M6 20h12a2 2 0 002-2V6a2 2 0 00-2-2H6a2 2 0 00-2 2v12a2 2 0 002 2z" />
+                </svg>
+                Add Image
+              </button>
               
               <div className="space-y-2">
                 {template.placeholders.map((placeholder, index) => (
@@ -585,7 +1160,7 @@ const TemplateEditor: React.FC = () => {
                     onClick={() => setSelectedPlaceholder(index)}
                   >
                     <div className="flex items-center justify-between">
-                      <span className="text-sm font-medium">{placeholder.type === 'name' ? 'Name' : 'ID'}</span>
+                      <span className="text-sm font-medium">{getPlaceholderLabel(placeholder, template.fields, images)}</span>
                       <button
                         onClick={(e) => {
                           e.stopPropagation();
@@ -604,6 +1179,113 @@ const TemplateEditor: React.FC = () => {
             </div>
           </div>
 
+          <div className="card">
+            <div className="card-header">
+              <h3 className="card-title">Custom Fields</h3>
+              <p className="card-description">
+                Extra values entered for each certificate, such as course or grade
+              </p>
+            </div>
+            <div className="card-content space-y-4">
+              {(template.fields || []).map((field, index) => (
+                <div key={index} className="p-3 border border-border rounded space-y-2">
+                  <div className="flex items-center justify-between">
+                    <input
+                      type="text"
+                      value={field.label}
+                      onChange={(e) => updateField(index, { label: e.target.value })}
+                      placeholder="Label"
+                      className="input"
+                    />
+                    <button
+                      onClick={() => deleteField(index)}
+                      className="ml-2 text-red-500 hover:text-red-700"
+                      title="Remove field"
+                    >
+                      <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
+                      </svg>
+                    </button>
+                  </div>
+                  <div className="grid grid-cols-2 gap-2">
+                    <input
+                      type="text"
+                      value={field.key}
+                      onChange={(e) => updateField(index, { key: e.target.value.replace(/[^a-zA-Z0-9_]/g, '') })}
+                      placeholder="key"
+                      className="input font-mono text-xs"
+                    />
+                    <select
+                      value={field.dataType}
+                      onChange={(e) => updateField(index, { dataType: e.target.value as TemplateField['dataType'] })}
+                      className="input"
+                    >
+                      <option value="text">Text</option>
+                      <option value="date">Date</option>
+                      <option value="number">Number</option>
+                      <option value="image">Image</option>
+                    </select>
+                  </div>
+                  {field.dataType === 'image' ? (
+                    <p className="text-xs text-muted-foreground">
+                      An image uploaded for each certificate, such as a participant photo
+                    </p>
+                  ) : (
+                    <input
+                      type={field.dataType === 'text' ? 'text' : field.dataType}
+                      value={field.defaultValue || ''}
+                      onChange={(e) => updateField(index, { defaultValue: e.target.value })}
+                      placeholder="Default value (optional)"
+                      className="input"
+                    />
+                  )}
+                  <div className="flex items-center justify-between">
+                    <label className="flex items-center text-sm">
+                      <input
+                        type="checkbox"
+                        checked={field.required}
+                        onChange={(e) => updateField(index, { required: e.target.checked })}
+                        className="mr-2"
+                      />
+                      Required
+                    </label>
+                    <button
+                      onClick={() => addFieldPlaceholder(field.key)}
+                      className="btn btn-outline btn-sm"
+                    >
+                      Place on Template
+                    </button>
+                  </div>
+                </div>
+              ))}
+              <button
+                onClick={addField}
+                className="btn btn-outline btn-sm w-full"
+              >
+                <svg className="w-4 h-4 mr-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 6v6m0 0v6m0-6h6m-6 0H6" />
+                </svg>
+                Add Field
+              </button>
+            </div>
+          </div>
+
+          <div className="card">
+            <div className="card-header">
+              <h3 className="card-title">Certificate IDs</h3>
+              <p className="card-description">
+                How certificates issued from this template are numbered
+              </p>
+            </div>
+            <div className="card-content">
+              <IdSchemeForm
+                value={template.idScheme}
+                onChange={(idScheme) => setTemplate(prev => prev ? { ...prev, idScheme } : prev)}
+                inheritLabel="Use my default ID scheme (Settings)"
+              />
+            </div>
+          </div>
+
           {selectedPlaceholderData && (
             <div className="card">
               <div className="card-header">
@@ -614,13 +1296,104 @@ const TemplateEditor: React.FC = () => {
                   <label className="block text-sm font-medium mb-1">Type</label>
                   <select
                     value={selectedPlaceholderData.type}
-                    onChange={(e) => updatePlaceholder(selectedPlaceholder!, { type: e.target.value })}
+                    onChange={(e) => updatePlaceholder(selectedPlaceholder!, e.target.value === 'qr'
+                      ? {
+                          type: e.target.value,
+                          width: selectedPlaceholderData.width || scaledDefault(DEFAULT_QR_SIZE),
+                          height: selectedPlaceholderData.height || scaledDefault(DEFAULT_QR_SIZE),
+                        }
+                      : e.target.value === 'field'
+                        ? { type: e.target.value, fieldKey: template.fields?.find(field => field.dataType !== 'image')?.key }
+                        : e.target.value === 'image'
+                          ? {
+                              ...createImagePlaceholder(images[0]?._id, images.length > 0 ? undefined : imageFields[0]?.key),
+                              x: selectedPlaceholderData.x,
+                              y: selectedPlaceholderData.y,
+                            }
+                          : { type: e.target.value })}
                     className="input"
                   >
                     <option value="name">Name</option>
                     <option value="id">ID</option>
+                    <option value="qr">QR Code</option>
+                    <option value="issuedDate">Issued Date</option>
+                    <option value="expiryDate">Expiry Date</option>
+                    {(template.fields?.some(field => field.dataType !== 'image') || selectedPlaceholderData.type === 'field') && (
+                      <option value="field">Custom Field</option>
+                    )}
+                    {(images.length > 0 || imageFields.length > 0 || selectedPlaceholderData.type === 'image') && (
+                      <option value="image">Image</option>
+                    )}
                   </select>
                 </div>
+
+                {selectedPlaceholderData.type === 'field' && (
+                  <div>
+                    <label className="block text-sm font-medium mb-1">Field</label>
+                    <select
+                      value={selectedPlaceholderData.fieldKey || ''}
+                      onChange={(e) => updatePlaceholder(selectedPlaceholder!, { fieldKey: e.target.value })}
+                      className="input"
+                    >
+                      <option value="" disabled>Select a field</option>
+                      {(template.fields || []).filter(field => field.dataType !== 'image').map(field => (
+                        <option key={field.key} value={field.key}>{field.label}</option>
+                      ))}
+                    </select>
+                  </div>
+                )}
+
+                {isDatePlaceholder(selectedPlaceholderData, template.fields) && (
+                  <>
+                    <div>
+                      <label className="block text-sm font-medium mb-1">Date Format</label>
+                      <select
+                        value={DATE_FORMAT_PRESETS.some(preset => preset.pattern === (selectedPlaceholderData.dateFormat || ''))
+                          ? selectedPlaceholderData.dateFormat || ''
+                          : 'custom'}
+                        onChange={(e) => updatePlaceholder(selectedPlaceholder!, {
+                          dateFormat: e.target.value === 'custom' ? selectedPlaceholderData.dateFormat || 'D MMMM YYYY' : e.target.value || undefined,
+                        })}
+                        className="input"
+                      >
+                        {DATE_FORMAT_PRESETS.map(preset => (
+                          <option key={preset.pattern} value={preset.pattern}>{preset.label}</option>
+                        ))}
+                        <option value="custom">Custom pattern</option>
+                      </select>
+                    </div>
+
+                    <div>
+                      <label className="block text-sm font-medium mb-1">Pattern</label>
+                      <input
+                        type="text"
+                        value={selectedPlaceholderData.dateFormat || ''}
+                        onChange={(e) => updatePlaceholder(selectedPlaceholder!, { dateFormat: e.target.value || undefined })}
+                        placeholder="Locale default"
+                        className="input font-mono"
+                        maxLength={100}
+                      />
+                      <p className="text-xs text-muted-foreground mt-1">
+                        D, DD, Do (18th), Dw (eighteenth); M, MM, MMM, MMMM; YY, YYYY, YYYYw (in words); ddd, dddd (weekday). Text in [brackets] is printed as is.
+                      </p>
+                    </div>
+
+                    <div>
+                      <label className="block text-sm font-medium mb-1">Locale</label>
+                      <input
+                        type="text"
+                        value={selectedPlaceholderData.locale || ''}
+                        onChange={(e) => updatePlaceholder(selectedPlaceholder!, { locale: e.target.value.trim() || undefined })}
+                        placeholder="en-US"
+                        className="input"
+                        maxLength={35}
+                      />
+                      {selectedPlaceholderData.locale && !isValidLocale(selectedPlaceholderData.locale) && (
+                        <p className="text-xs text-red-500 mt-1">Unknown locale. Use a language tag such as de-DE or fr.</p>
+                      )}
+                    </div>
+                  </>
+                )}
                 
                 <div className="grid grid-cols-2 gap-2">
                   <div>
@@ -642,16 +1415,185 @@ const TemplateEditor: React.FC = () => {
                     />
                   </div>
                 </div>
+                <p className="text-xs text-muted-foreground -mt-2">
+                  Positions and sizes are in {template.mimeType === 'application/pdf' ? 'points of the' : 'pixels of the'} {template.dimensions.width} × {template.dimensions.height} template {template.mimeType === 'application/pdf' ? 'page' : 'image'}.
+                </p>
                 
+                {selectedPlaceholderData.type === 'image' ? (
+                  <>
+                    <div>
+                      <label className="block text-sm font-medium mb-1">Image</label>
+                      <select
+                        value={selectedPlaceholderData.assetId || ''}
+                        onChange={(e) => updatePlaceholder(selectedPlaceholder!, { assetId: e.target.value || undefined })}
+                        className="input"
+                      >
+                        <option value="">None</option>
+                        {images.map(image => (
+                          <option key={image._id} value={image._id}>{image.name}</option>
+                        ))}
+                        {selectedPlaceholderData.assetId && !images.some(image => image._id === selectedPlaceholderData.assetId) && (
+                          <option value={selectedPlaceholderData.assetId}>Deleted image</option>
+                        )}
+                      </select>
+                      {selectedPlaceholderData.assetId && !images.some(image => image._id === selectedPlaceholderData.assetId) && (
+                        <p className="text-xs text-yellow-600 dark:text-yellow-400 mt-1">
+                          This image was removed from the library and is left out of new certificates.
+                        </p>
+                      )}
+                    </div>
+
+                    <div>
+                      <label className="block text-sm font-medium mb-1">Per-Certificate Image</label>
+                      <select
+                        value={selectedPlaceholderData.fieldKey || ''}
+                        onChange={(e) => updatePlaceholder(selectedPlaceholder!, { fieldKey: e.target.value || undefined })}
+                        className="input"
+                      >
+                        <option value="">None</option>
+                        {imageFields.map(field => (
+                          <option key={field.key} value={field.key}>{field.label}</option>
+                        ))}
+                      </select>
+                      <p className="text-xs text-muted-foreground mt-1">
+                        {imageFields.length > 0
+                          ? 'An image field uploaded with each certificate, such as a photo. The image above is used when none is supplied.'
+                          : 'Add a custom field of type Image to draw a different image on each certificate.'}
+                      </p>
+                    </div>
+
+                    <div className="grid grid-cols-2 gap-2">
+                      <div>
+                        <label className="block text-sm font-medium mb-1">Width</label>
+                        <input
+                          type="number"
+                          value={selectedPlaceholderData.width || scaledDefault(DEFAULT_IMAGE_WIDTH)}
+                          onChange={(e) => updatePlaceholder(selectedPlaceholder!, {
+                            width: Math.max(parseInt(e.target.value) || minImageSize, minImageSize),
+                          })}
+                          className="input"
+                          min={minImageSize}
+                        />
+                      </div>
+                      <div>
+                        <label className="block text-sm font-medium mb-1">Height</label>
+                        <input
+                          type="number"
+                          value={selectedPlaceholderData.height || selectedPlaceholderData.width || scaledDefault(DEFAULT_IMAGE_WIDTH)}
+                          onChange={(e) => updatePlaceholder(selectedPlaceholder!, {
+                            height: Math.max(parseInt(e.target.value) || minImageSize, minImageSize),
+                          })}
+                          className="input"
+                          min={minImageSize}
+                        />
+                      </div>
+                    </div>
+
+                    <div className="grid grid-cols-2 gap-2">
+                      <div>
+                        <label className="block text-sm font-medium mb-1">Fit</label>
+                        <select
+                          value={selectedPlaceholderData.fit || 'contain'}
+                          onChange={(e) => updatePlaceholder(selectedPlaceholder!, { fit: e.target.value as Placeholder['fit'] })}
+                          className="input"
+                        >
+                          <option value="contain">Contain</option>
+                          <option value="cover">Cover (crop)</option>
+                          <option value="stretch">Stretch</option>
+                        </select>
+                      </div>
+                      <div>
+                        <label className="block text-sm font-medium mb-1">Rotation (°)</label>
+                        <input
+                          type="number"
+                          value={selectedPlaceholderData.rotation || 0}
+                          onChange={(e) => updatePlaceholder(selectedPlaceholder!, {
+                            rotation: Math.max(-360, Math.min(360, parseInt(e.target.value) || 0)),
+                          })}
+                          className="input"
+                          min="-360"
+                          max="360"
+                        />
+                      </div>
+                    </div>
+
+                    <div>
+                      <label className="block text-sm font-medium mb-1">
+                        Opacity ({Math.round((selectedPlaceholderData.opacity ?? 1) * 100)}%)
+                      </label>
+                      <input
+                        type="range"
+                        value={selectedPlaceholderData.opacity ?? 1}
+                        onChange={(e) => updatePlaceholder(selectedPlaceholder!, { opacity: parseFloat(e.target.value) })}
+                        className="w-full"
+                        min="0"
+                        max="1"
+                        step="0.05"
+                      />
+                    </div>
+                    <p className="text-xs text-muted-foreground -mt-2">
+                      Contain shows the whole image, cover fills the box and crops the rest. Rotation turns around the top-left corner.
+                    </p>
+                  </>
+                ) : selectedPlaceholderData.type === 'qr' ? (
+                  <>
+                    <div>
+                      <label className="block text-sm font-medium mb-1">Size</label>
+                      <input
+                        type="number"
+                        value={selectedPlaceholderData.width || scaledDefault(DEFAULT_QR_SIZE)}
+                        onChange={(e) => {
+                          const size = Math.max(parseInt(e.target.value) || minQRSize, minQRSize);
+                          updatePlaceholder(selectedPlaceholder!, { width: size, height: size });
+                        }}
+                        className="input"
+                        min={minQRSize}
+                      />
+                    </div>
+
+                    <div>
+                      <label className="block text-sm font-medium mb-1">Color</label>
+                      <input
+                        type="color"
+                        value={selectedPlaceholderData.color}
+                        onChange={(e) => updatePlaceholder(selectedPlaceholder!, { color: e.target.value })}
+                        className="input h-10"
+                      />
+                    </div>
+
+                    <div>
+                      <label className="block text-sm font-medium mb-1">Verification URL</label>
+                      <input
+                        type="text"
+                        value={selectedPlaceholderData.qrUrlTemplate || ''}
+                        onChange={(e) => updatePlaceholder(selectedPlaceholder!, { qrUrlTemplate: e.target.value })}
+                        placeholder={`${window.location.origin}/verify/{certificateId}`}
+                        className="input"
+                      />
+                      <p className="text-xs text-muted-foreground mt-1">
+                        Leave empty to link to the built-in verification page. Custom URLs must contain {'{certificateId}'}.
+                      </p>
+                      {selectedPlaceholderData.qrUrlTemplate && !selectedPlaceholderData.qrUrlTemplate.includes('{certificateId}') && (
+                        <p className="text-xs text-red-500 mt-1">URL must contain {'{certificateId}'}</p>
+                      )}
+                    </div>
+
+                    <div className="p-3 border rounded bg-background">
+                      <p className="text-sm text-muted-foreground mb-1">Encodes:</p>
+                      <p className="text-xs font-mono break-all">{getSampleVerificationUrl(selectedPlaceholderData)}</p>
+                    </div>
+                  </>
+                ) : (
+                <>
                 <div>
                   <label className="block text-sm font-medium mb-1">Font Size</label>
                   <input
                     type="number"
                     value={selectedPlaceholderData.fontSize}
-                    onChange={(e) => updatePlaceholder(selectedPlaceholder!, { fontSize: parseInt(e.target.value) || 12 })}
+                    onChange={(e) => updatePlaceholder(selectedPlaceholder!, { fontSize: parseInt(e.target.value) || scaledDefault(12) })}
                     className="input"
-                    min="8"
-                    max="72"
+                    min="4"
+                    max="1000"
                   />
                 </div>
                 
@@ -663,6 +1605,14 @@ const TemplateEditor: React.FC = () => {
                     className="input"
                     style={{ fontFamily: selectedPlaceholderData.fontFamily }}
                   >
+                    {customFamilies.length > 0 && (
+                      <optgroup label="Your Fonts">
+                        {customFamilies.map(family => (
+                          <option key={family} value={family} style={{ fontFamily: family }}>{family}</option>
+                        ))}
+                      </optgroup>
+                    )}
+                    
                     {/* Sans-serif fonts */}
                     <option value="Arial" style={{ fontFamily: 'Arial' }}>Arial</option>
                     <option value="Helvetica" style={{ fontFamily: 'Helvetica' }}>Helvetica</option>
@@ -725,6 +1675,13 @@ const TemplateEditor: React.FC = () => {
                     <option value="Righteous" style={{ fontFamily: 'Righteous' }}>Righteous</option>
                   </select>
                   
+                  {!customFamilies.includes(selectedPlaceholderData.fontFamily) &&
+                    !BUILT_IN_FONTS.includes(selectedPlaceholderData.fontFamily) && (
+                    <p className="text-xs text-yellow-600 dark:text-yellow-400 mt-1">
+                      {selectedPlaceholderData.fontFamily} is not in your font library. Generated certificates will use a substitute font; upload it below to render it exactly.
+                    </p>
+                  )}
+                  
                   {/* Font Preview */}
                   <div className="mt-2 p-3 border rounded bg-background">
                     <p className="text-sm text-muted-foreground mb-1">Preview:</p>
@@ -737,7 +1694,13 @@ const TemplateEditor: React.FC = () => {
                       }}
                       className="truncate"
                     >
-                      {selectedPlaceholderData.type === 'name' ? 'John Doe' : 'CERT-2024-001'}
+                      {selectedPlaceholderData.type === 'name'
+                        ? 'John Doe'
+                        : isDatePlaceholder(selectedPlaceholderData, template.fields)
+                          ? formatDate(getSampleDate(selectedPlaceholderData, template.fields), selectedPlaceholderData.dateFormat, selectedPlaceholderData.locale)
+                          : selectedPlaceholderData.type === 'field'
+                            ? getPlaceholderLabel(selectedPlaceholderData, template.fields)
+                            : 'CERT-2024-001'}
                     </p>
                   </div>
                 </div>
@@ -751,9 +1714,160 @@ const TemplateEditor: React.FC = () => {
                   >
                     <option value="normal">Normal</option>
                     <option value="bold">Bold</option>
+                    <option value="100">Thin (100)</option>
+                    <option value="200">Extra Light (200)</option>
+                    <option value="300">Light (300)</option>
+                    <option value="500">Medium (500)</option>
+                    <option value="600">Semi Bold (600)</option>
+                    <option value="800">Extra Bold (800)</option>
+                    <option value="900">Black (900)</option>
                   </select>
                 </div>
                 
+                <div className="grid grid-cols-2 gap-2">
+                  <div>
+                    <label className="block text-sm font-medium mb-1">Font Style</label>
+                    <select
+                      value={selectedPlaceholderData.fontStyle || 'normal'}
+                      onChange={(e) => updatePlaceholder(selectedPlaceholder!, { fontStyle: e.target.value })}
+                      className="input"
+                    >
+                      <option value="normal">Normal</option>
+                      <option value="italic">Italic</option>
+                      <option value="oblique">Oblique</option>
+                    </select>
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium mb-1">Alignment</label>
+                    <select
+                      value={selectedPlaceholderData.textAlign || 'left'}
+                      onChange={(e) => updatePlaceholder(selectedPlaceholder!, { textAlign: e.target.value })}
+                      className="input"
+                    >
+                      <option value="left">Left</option>
+                      <option value="center">Center</option>
+                      <option value="right">Right</option>
+                    </select>
+                  </div>
+                </div>
+                
+                <div className="grid grid-cols-2 gap-2">
+                  <div>
+                    <label className="block text-sm font-medium mb-1">Box Width</label>
+                    <input
+                      type="number"
+                      value={selectedPlaceholderData.width ?? ''}
+                      onChange={(e) => updatePlaceholder(selectedPlaceholder!, { width: parseInt(e.target.value) || undefined })}
+                      placeholder="Auto"
+                      className="input"
+                      min="1"
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium mb-1">Rotation (°)</label>
+                    <input
+                      type="number"
+                      value={selectedPlaceholderData.rotation || 0}
+                      onChange={(e) => updatePlaceholder(selectedPlaceholder!, {
+                        rotation: Math.max(-360, Math.min(360, parseInt(e.target.value) || 0)),
+                      })}
+                      className="input"
+                      min="-360"
+                      max="360"
+                    />
+                  </div>
+                </div>
+                <p className="text-xs text-muted-foreground -mt-2">
+                  With a box width, text is aligned inside the box. Rotation turns around the top-left corner.
+                </p>
+                
+                <div>
+                  <label className="block text-sm font-medium mb-1">When Text Is Too Long</label>
+                  <select
+                    value={selectedPlaceholderData.overflow || 'none'}
+                    onChange={(e) => updatePlaceholder(selectedPlaceholder!, { overflow: e.target.value as Placeholder['overflow'] })}
+                    className="input"
+                    disabled={!selectedPlaceholderData.width}
+                  >
+                    <option value="none">Let it overflow</option>
+                    <option value="shrink">Shrink to fit</option>
+                    <option value="wrap">Wrap onto more lines</option>
+                    <option value="ellipsis">Cut off with …</option>
+                  </select>
+                  {!selectedPlaceholderData.width && (
+                    <p className="text-xs text-muted-foreground mt-1">Set a box width to choose an overflow mode.</p>
+                  )}
+                </div>
+                
+                {selectedPlaceholderData.width && (selectedPlaceholderData.overflow === 'shrink' || selectedPlaceholderData.overflow === 'wrap') && (
+                  <div className="grid grid-cols-2 gap-2">
+                    <div>
+                      <label className="block text-sm font-medium mb-1">Min Font Size</label>
+                      <input
+                        type="number"
+                        value={selectedPlaceholderData.minFontSize ?? 8}
+                        onChange={(e) => updatePlaceholder(selectedPlaceholder!, { minFontSize: parseInt(e.target.value) || 8 })}
+                        className="input"
+                        min="4"
+                        max={selectedPlaceholderData.fontSize}
+                      />
+                    </div>
+                    {selectedPlaceholderData.overflow === 'wrap' && (
+                      <div>
+                        <label className="block text-sm font-medium mb-1">Line Height</label>
+                        <input
+                          type="number"
+                          value={selectedPlaceholderData.lineHeight ?? 1.2}
+                          onChange={(e) => updatePlaceholder(selectedPlaceholder!, { lineHeight: parseFloat(e.target.value) || 1.2 })}
+                          className="input"
+                          min="0.5"
+                          max="3"
+                          step="0.1"
+                        />
+                      </div>
+                    )}
+                  </div>
+                )}
+                
+                {selectedPlaceholderData.width && selectedPlaceholderData.overflow === 'wrap' && (
+                  <div>
+                    <label className="block text-sm font-medium mb-1">Box Height</label>
+                    <input
+                      type="number"
+                      value={selectedPlaceholderData.height ?? ''}
+                      onChange={(e) => updatePlaceholder(selectedPlaceholder!, { height: parseInt(e.target.value) || undefined })}
+                      placeholder="Unlimited"
+                      className="input"
+                      min="1"
+                    />
+                  </div>
+                )}
+                
+                {selectedPlaceholderData.type === 'name' && (
+                  <div>
+                    <label className="block text-sm font-medium mb-1">Sample Names</label>
+                    <textarea
+                      value={sampleNames}
+                      onChange={(e) => setSampleNames(e.target.value)}
+                      rows={3}
+                      className="input resize-none text-xs"
+                      placeholder="One name per line"
+                    />
+                    <p className="text-xs text-muted-foreground mt-1">
+                      The longest name is checked against the box. Paste names from your participant list.
+                    </p>
+                    {selectedPlaceholder !== null && overflowWarnings.has(selectedPlaceholder) && (
+                      <p className={`text-xs mt-1 ${
+                        overflowWarnings.get(selectedPlaceholder)!.severity === 'error'
+                          ? 'text-red-600 dark:text-red-400'
+                          : 'text-yellow-600 dark:text-yellow-400'
+                      }`}>
+                        {overflowWarnings.get(selectedPlaceholder)!.message}
+                      </p>
+                    )}
+                  </div>
+                )}
+                
                 <div>
                   <label className="block text-sm font-medium mb-1">Color</label>
                   <input
@@ -763,9 +1877,15 @@ const TemplateEditor: React.FC = () => {
                     className="input h-10"
                   />
                 </div>
+                </>
+                )}
               </div>
             </div>
           )}
+
+          <FontLibrary fonts={customFonts} onChange={refreshFonts} />
+
+          <ImageLibrary images={images} onChange={refreshImages} />
         </div>
       </div>
     </div>
@@ -3,6 +3,7 @@ import { Link } from 'react-router-dom';
 import { useAuth } from '../contexts/AuthContext';
 import { useToast } from '../contexts/ToastContext';
 import LoadingSpinner from '../components/LoadingSpinner';
+import TemplateVersionHistory from '../components/TemplateVersionHistory';
 import { Template } from '../types';
 import { createNetworkErrorMessage } from '../utils/errorHandler';
 
@@ -15,6 +16,8 @@ const Templates: React.FC = () => {
   const [totalPages, setTotalPages] = useState(1);
   const [isUploading, setIsUploading] = useState(false);
   const [templateName, setTemplateName] = useState('');
+  const [historyTemplate, setHistoryTemplate] = useState<Template | null>(null);
+  const [isImporting, setIsImporting] = useState(false);
   
   const { token } = useAuth();
   const { showToast } = useToast();
@@ -122,6 +125,112 @@ const Templates: React.FC = () => {
     }
   };
 
+  const handleBundleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+
+    try {
+      setIsImporting(true);
+      const formData = new FormData();
+      formData.append('bundle', file);
+
+      const response = await fetch(`${API_BASE_URL}/template/import`, {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${token}`,
+        },
+        body: formData,
+      });
+
+      const data = await response.json();
+
+      if (response.ok) {
+        const { imported, skipped } = data.data.fonts;
+        const images = data.data.images;
+        const summary = [
+          imported.length > 0 && `${imported.length} font${imported.length === 1 ? '' : 's'}`,
+          images.imported.length > 0 && `${images.imported.length} image${images.imported.length === 1 ? '' : 's'}`,
+        ].filter(Boolean).join(' and ');
+        showToast(`${data.message}${summary ? ` with ${summary}` : ''}`, 'success');
+        if (skipped.length > 0) {
+          showToast(`Fonts not imported: ${skipped.join(', ')}`, 'warning');
+        }
+        if (images.skipped.length > 0) {
+          showToast(`Images not imported: ${images.skipped.join(', ')}`, 'warning');
+        }
+        fetchTemplates();
+      } else {
+        showToast(data.message || 'Failed to import template', 'error');
+      }
+    } catch (error) {
+      console.error('Error importing template:', error);
+      const errorMessage = createNetworkErrorMessage('importing template', error);
+      showToast(errorMessage, 'error');
+    } finally {
+      setIsImporting(false);
+      event.target.value = '';
+    }
+  };
+
+  const duplicateTemplate = async (templateId: string) => {
+    try {
+      const response = await fetch(`${API_BASE_URL}/template/${templateId}/duplicate`, {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${token}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({}),
+      });
+
+      const data = await response.json();
+
+      if (response.ok) {
+        showToast(data.message || 'Template duplicated', 'success');
+        fetchTemplates();
+      } else {
+        showToast(data.message || 'Failed to duplicate template', 'error');
+      }
+    } catch (error) {
+      console.error('Error duplicating template:', error);
+      const errorMessage = createNetworkErrorMessage('duplicating template', error);
+      showToast(errorMessage, 'error');
+    }
+  };
+
+  const exportTemplate = async (template: Template) => {
+    try {
+      const response = await fetch(`${API_BASE_URL}/template/${template._id}/export`, {
+        headers: {
+          'Authorization': `Bearer ${token}`,
+        },
+      });
+
+      if (response.ok) {
+        const blob = await response.blob();
+        const url = window.URL.createObjectURL(blob);
+        const a = document.createElement('a');
+        a.href = url;
+
+        const contentDisposition = response.headers.get('Content-Disposition');
+        const filenameMatch = contentDisposition?.match(/filename="(.+)"/);
+        a.download = filenameMatch ? filenameMatch[1] : 'template.template.json';
+
+        document.body.appendChild(a);
+        a.click();
+        window.URL.revokeObjectURL(url);
+        document.body.removeChild(a);
+      } else {
+        const data = await response.json().catch(() => null);
+        showToast(data?.message || 'Failed to export template', 'error');
+      }
+    } catch (error) {
+      console.error('Error exporting template:', error);
+      const errorMessage = createNetworkErrorMessage('exporting template', error);
+      showToast(errorMessage, 'error');
+    }
+  };
+
   const toggleTemplateStatus = async (templateId: string, currentStatus: boolean) => {
     try {
       const response = await fetch(`${API_BASE_URL}/template/${templateId}`, {
@@ -228,6 +337,28 @@ const Templates: React.FC = () => {
               </div>
             )}
           </label>
+          <input
+            type="file"
+            id="template-import"
+            accept=".json,application/json"
+            onChange={handleBundleImport}
+            className="hidden"
+            disabled={isImporting}
+          />
+          <label
+            htmlFor="template-import"
+            className={`btn btn-outline btn-md cursor-pointer ${isImporting ? 'opacity-50 cursor-not-allowed' : ''}`}
+            title="Import a template bundle exported from another environment"
+          >
+            {isImporting ? (
+              <div className="flex items-center">
+                <LoadingSpinner size="sm" className="mr-2" />
+                Importing...
+              </div>
+            ) : (
+              'Import'
+            )}
+          </label>
         </div>
       </div>
 
@@ -300,6 +431,10 @@ const Templates: React.FC = () => {
                     <span>Placeholders:</span>
                     <span>{template.placeholders.length}</span>
                   </div>
+                  <div className="flex justify-between">
+                    <span>Version:</span>
+                    <span>{template.currentVersion || '—'}</span>
+                  </div>
                   <div className="flex justify-between">
                     <span>Usage:</span>
                     <span>{template.usageCount} times</span>
@@ -311,13 +446,35 @@ const Templates: React.FC = () => {
                 </div>
 
                 <div className="flex items-center justify-between pt-4 border-t border-border">
-                  <div className="flex space-x-2">
+                  <div className="flex flex-wrap gap-2">
                     <Link
                       to={`/templates/${template._id}/edit`}
                       className="btn btn-outline btn-sm"
                     >
                       Edit
                     </Link>
+                    <button
+                      onClick={() => setHistoryTemplate(template)}
+                      className="btn btn-outline btn-sm"
+                    >
+                      History
+                    </button>
+                    {template.isActive && (
+                      <>
+                        <button
+                          onClick={() => duplicateTemplate(template._id)}
+                          className="btn btn-outline btn-sm"
+                        >
+                          Duplicate
+                        </button>
+                        <button
+                          onClick={() => exportTemplate(template)}
+                          className="btn btn-outline btn-sm"
+                        >
+                          Export
+                        </button>
+                      </>
+                    )}
                     <button
                       onClick={() => toggleTemplateStatus(template._id, template.isActive)}
                       className={`btn btn-sm ${
@@ -395,6 +552,18 @@ const Templates: React.FC = () => {
           </button>
         </div>
       )}
+
+      {historyTemplate && (
+        <TemplateVersionHistory
+          isOpen={historyTemplate !== null}
+          template={historyTemplate}
+          onClose={() => setHistoryTemplate(null)}
+          onRestored={(restored) => {
+            setHistoryTemplate(restored);
+            setTemplates(prev => prev.map(t => t._id === restored._id ? restored : t));
+          }}
+        />
+      )}
     </div>
   );
 };
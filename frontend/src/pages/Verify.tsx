@@ -0,0 +1,249 @@
+import React, { useState, useEffect } from 'react';
+import { Link, useParams, useNavigate } from 'react-router-dom';
+import LoadingSpinner from '../components/LoadingSpinner';
+import { CertificateVerification } from '../types';
+import { getErrorMessage } from '../utils/errorHandler';
+
+const STATE_DETAILS: Record<CertificateVerification['state'], { title: string; description: string }> = {
+  valid: {
+    title: 'Valid Certificate',
+    description: 'This certificate was issued by us and is currently valid.',
+  },
+  expired: {
+    title: 'Certificate Expired',
+    description: 'This certificate was genuinely issued but is past its expiry date.',
+  },
+  revoked: {
+    title: 'Certificate Revoked',
+    description: 'This certificate was revoked by the issuer and is no longer valid.',
+  },
+  archived: {
+    title: 'Certificate Withdrawn',
+    description: 'This certificate has been withdrawn by the issuer and is no longer valid.',
+  },
+  unavailable: {
+    title: 'Certificate Not Issued',
+    description: 'This certificate was never successfully issued and is not valid.',
+  },
+};
+
+const Verify: React.FC = () => {
+  const { certificateId } = useParams<{ certificateId: string }>();
+  const navigate = useNavigate();
+
+  const [certificate, setCertificate] = useState<CertificateVerification | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [lookupId, setLookupId] = useState('');
+
+  const API_BASE_URL = import.meta.env.VITE_API_BASE_URL || 'http://localhost:5000/api';
+
+  useEffect(() => {
+    if (certificateId) {
+      fetchVerification();
+    }
+  }, [certificateId]);
+
+  const fetchVerification = async () => {
+    try {
+      setIsLoading(true);
+      setError(null);
+      setCertificate(null);
+
+      const response = await fetch(`${API_BASE_URL}/verify/${encodeURIComponent(certificateId!)}`);
+      const data = await response.json();
+
+      if (response.ok) {
+        setCertificate(data.data.certificate);
+      } else {
+        setError(data.message || 'Certificate could not be verified');
+      }
+    } catch (err) {
+      console.error('Error verifying certificate:', err);
+      setError(`Could not reach the verification service: ${getErrorMessage(err)}`);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleLookup = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (lookupId.trim()) {
+      navigate(`/verify/${encodeURIComponent(lookupId.trim())}`);
+      setLookupId('');
+    }
+  };
+
+  const formatDate = (dateString: string) => {
+    return new Date(dateString).toLocaleDateString('en-US', {
+      year: 'numeric',
+      month: 'long',
+      day: 'numeric',
+    });
+  };
+
+  const details = certificate ? STATE_DETAILS[certificate.state] : null;
+
+  return (
+    <div className="min-h-screen bg-gray-50 dark:bg-gray-900 py-12 px-4 sm:px-6 lg:px-8">
+      <div className="max-w-2xl mx-auto space-y-6">
+        <div className="text-center">
+          <h1 className="text-3xl font-bold text-gray-900 dark:text-gray-100">Certificate Verification</h1>
+          <p className="mt-2 text-sm text-gray-600 dark:text-gray-400">
+            Confirm that a certificate is genuine and still valid
+          </p>
+        </div>
+
+        {isLoading ? (
+          <div className="flex items-center justify-center py-16">
+            <LoadingSpinner size="lg" text="Verifying certificate..." />
+          </div>
+        ) : error ? (
+          <div className="card">
+            <div className="card-content text-center py-10">
+              <div className="mx-auto flex items-center justify-center h-16 w-16 rounded-full bg-red-100 dark:bg-red-900/20 mb-4">
+                <svg className="h-8 w-8 text-red-600 dark:text-red-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                </svg>
+              </div>
+              <h2 className="text-xl font-semibold text-gray-900 dark:text-gray-100">Not Verified</h2>
+              <p className="mt-2 text-sm text-gray-600 dark:text-gray-400">{error}</p>
+              <p className="mt-1 text-sm font-mono text-gray-500">{certificateId}</p>
+            </div>
+          </div>
+        ) : certificate && details ? (
+          <div className="card">
+            <div className={`p-6 rounded-t-lg border-b ${
+              certificate.isValid
+                ? 'bg-green-50 border-green-200 dark:bg-green-900/20 dark:border-green-800'
+                : 'bg-red-50 border-red-200 dark:bg-red-900/20 dark:border-red-800'
+            }`}>
+              <div className="flex items-center">
+                <div className={`flex items-center justify-center h-12 w-12 rounded-full mr-4 ${
+                  certificate.isValid ? 'bg-green-100 dark:bg-green-900/40' : 'bg-red-100 dark:bg-red-900/40'
+                }`}>
+                  {certificate.isValid ? (
+                    <svg className="h-6 w-6 text-green-600 dark:text-green-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 13l4 4L19 7" />
+                    </svg>
+                  ) : (
+                    <svg className="h-6 w-6 text-red-600 dark:text-red-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 9v2m0 4h.01m-6.938 4h13.856c1.54 0 2.502-1.667 1.732-2.5L13.732 4c-.77-.833-1.964-.833-2.732 0L3.732 16.5c-.77.833.192 2.5 1.732 2.5z" />
+                    </svg>
+                  )}
+                </div>
+                <div>
+                  <h2 className={`text-xl font-semibold ${
+                    certificate.isValid ? 'text-green-800 dark:text-green-200' : 'text-red-800 dark:text-red-200'
+                  }`}>
+                    {details.title}
+                  </h2>
+                  <p className={`text-sm ${
+                    certificate.isValid ? 'text-green-700 dark:text-green-300' : 'text-red-700 dark:text-red-300'
+                  }`}>
+                    {details.description}
+                  </p>
+                </div>
+              </div>
+            </div>
+
+            <div className="card-content space-y-6 pt-6">
+              <dl className="grid grid-cols-1 sm:grid-cols-2 gap-4 text-sm">
+                <div>
+                  <dt className="text-gray-500 dark:text-gray-400">Participant</dt>
+                  <dd className="font-semibold text-gray-900 dark:text-gray-100">{certificate.participantName}</dd>
+                </div>
+                <div>
+                  <dt className="text-gray-500 dark:text-gray-400">Certificate ID</dt>
+                  <dd className="font-mono text-gray-900 dark:text-gray-100">{certificate.certificateId}</dd>
+                </div>
+                {certificate.templateName && (
+                  <div>
+                    <dt className="text-gray-500 dark:text-gray-400">Certificate</dt>
+                    <dd className="text-gray-900 dark:text-gray-100">{certificate.templateName}</dd>
+                  </div>
+                )}
+                <div>
+                  <dt className="text-gray-500 dark:text-gray-400">Issued</dt>
+                  <dd className="text-gray-900 dark:text-gray-100">{formatDate(certificate.issuedDate)}</dd>
+                </div>
+                {certificate.expiryDate && (
+                  <div>
+                    <dt className="text-gray-500 dark:text-gray-400">Expires</dt>
+                    <dd className={certificate.isExpired ? 'text-red-600 dark:text-red-400 font-medium' : 'text-gray-900 dark:text-gray-100'}>
+                      {formatDate(certificate.expiryDate)}
+                    </dd>
+                  </div>
+                )}
+                {certificate.reissuedAt && (
+                  <div>
+                    <dt className="text-gray-500 dark:text-gray-400">Corrected</dt>
+                    <dd className="text-gray-900 dark:text-gray-100">
+                      {formatDate(certificate.reissuedAt)} (version {certificate.version})
+                    </dd>
+                  </div>
+                )}
+                {certificate.renewalOf && (
+                  <div>
+                    <dt className="text-gray-500 dark:text-gray-400">Renewal Of</dt>
+                    <dd className="font-mono">
+                      <Link to={`/verify/${encodeURIComponent(certificate.renewalOf)}`} className="text-primary hover:underline">
+                        {certificate.renewalOf}
+                      </Link>
+                    </dd>
+                  </div>
+                )}
+                {certificate.renewedAs && (
+                  <div>
+                    <dt className="text-gray-500 dark:text-gray-400">Renewed As</dt>
+                    <dd className="font-mono">
+                      <Link to={`/verify/${encodeURIComponent(certificate.renewedAs)}`} className="text-primary hover:underline">
+                        {certificate.renewedAs}
+                      </Link>
+                    </dd>
+                  </div>
+                )}
+              </dl>
+
+              {certificate.revocation && (
+                <div className="p-4 rounded-lg border border-red-200 bg-red-50 dark:border-red-800 dark:bg-red-900/20 text-sm">
+                  <p className="font-medium text-red-800 dark:text-red-200">
+                    Revoked on {formatDate(certificate.revocation.effectiveDate)}
+                  </p>
+                  {certificate.revocation.reason && (
+                    <p className="mt-1 text-red-700 dark:text-red-300">Reason: {certificate.revocation.reason}</p>
+                  )}
+                </div>
+              )}
+
+              {certificate.hasThumbnail && (
+                <div className={`border border-border rounded-lg overflow-hidden ${certificate.isValid ? '' : 'opacity-60 grayscale'}`}>
+                  <img
+                    src={`${API_BASE_URL}/verify/${encodeURIComponent(certificate.certificateId)}/thumbnail`}
+                    alt={`Certificate ${certificate.certificateId}`}
+                    className="w-full h-auto"
+                  />
+                </div>
+              )}
+            </div>
+          </div>
+        ) : null}
+
+        <form onSubmit={handleLookup} className="flex space-x-2">
+          <input
+            type="text"
+            value={lookupId}
+            onChange={(e) => setLookupId(e.target.value)}
+            placeholder="Verify another certificate ID"
+            className="input flex-1"
+          />
+          <button type="submit" disabled={!lookupId.trim()} className="btn btn-primary btn-md">
+            Verify
+          </button>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default Verify;
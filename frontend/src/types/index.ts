@@ -1,3 +1,31 @@
+export interface TemplateField {
+  key: string;
+  label: string;
+  // Image fields hold the ID of an image uploaded for the certificate
+  dataType: 'text' | 'date' | 'number' | 'image';
+  required: boolean;
+  defaultValue?: string;
+}
+
+// How certificate IDs are built; `format` uses {PREFIX}, {YYYY}, {YY}, {MM} and {SEQ}
+export interface CertificateIdScheme {
+  mode: 'sequential' | 'random';
+  prefix: string;
+  format: string;
+  padding: number;
+  randomLength: number;
+  checkDigit: boolean;
+}
+
+// Issuer shown in exported verifiable credentials; empty fields fall back to the admin's name and the app URL
+export interface IssuerProfile {
+  name?: string;
+  url?: string;
+  email?: string;
+  description?: string;
+  imageUrl?: string;
+}
+
 export interface Template {
   _id: string;
   name: string;
@@ -10,6 +38,7 @@ export interface Template {
     width: number;
     height: number;
   };
+  coordinateSpace?: 'template';
   placeholders: Array<{
     type: string;
     x: number;
@@ -23,7 +52,20 @@ export interface Template {
     rotation: number;
     width?: number;
     height?: number;
+    fieldKey?: string;
+    qrUrlTemplate?: string;
+    overflow?: 'none' | 'shrink' | 'wrap' | 'ellipsis';
+    minFontSize?: number;
+    lineHeight?: number;
+    assetId?: string;
+    fit?: 'contain' | 'cover' | 'stretch';
+    opacity?: number;
+    dateFormat?: string;
+    locale?: string;
   }>;
+  fields?: TemplateField[];
+  idScheme?: CertificateIdScheme | null;
+  currentVersion?: number;
   isActive: boolean;
   usageCount: number;
   createdAt: string;
@@ -35,17 +77,40 @@ export interface Template {
   };
 }
 
+export interface TemplateVersion {
+  _id: string;
+  template: string;
+  version: number;
+  placeholders: Template['placeholders'];
+  fields: TemplateField[];
+  idScheme?: CertificateIdScheme | null;
+  filename?: string;
+  dimensions?: {
+    width: number;
+    height: number;
+  };
+  coordinateSpace?: 'template';
+  note?: string;
+  restoredFrom?: number;
+  createdBy?: { _id: string; name: string; email: string };
+  createdAt: string;
+}
+
 export interface Certificate {
   _id: string;
   certificateId: string;
+  idScheme?: CertificateIdScheme;
   participantName: string;
+  recipientEmail?: string;
   template: {
     _id: string;
     name: string;
   };
   templateSnapshot: {
     name: string;
+    version?: number;
     filename: string;
+    fields?: Array<Pick<TemplateField, 'key' | 'label' | 'dataType'>>;
   };
   generatedFiles: {
     pdf: {
@@ -59,16 +124,133 @@ export interface Certificate {
       size: number;
     };
   };
-  status: 'generated' | 'downloaded' | 'archived';
+  status: 'pending' | 'generated' | 'downloaded' | 'failed' | 'archived' | 'expired';
+  expiredAt?: string;
+  // Renewals are new certificates linked to the one they replace
+  renewalOf?: string | Pick<Certificate, '_id' | 'certificateId'>;
+  renewedAs?: string | Pick<Certificate, '_id' | 'certificateId' | 'status'>;
+  renewedAt?: string;
   metadata: {
     generationTime: number;
     downloadCount: number;
+    regenerationCount?: number;
+    lastRegenerated?: string;
   };
   issuedDate: string;
   expiryDate?: string;
   isActive: boolean;
   tags: string[];
   notes?: string;
+  fieldValues?: Record<string, string>;
+  renderWarnings?: string[];
+  revocation?: CertificateRevocation;
+  statusHistory?: CertificateStatusChange[];
+  version?: number;
+  versions?: CertificateVersion[];
+  delivery?: CertificateDelivery;
+  createdAt: string;
+}
+
+// A superseded issue of a certificate, replaced by a correction
+export interface CertificateVersion {
+  version: number;
+  participantName: string;
+  fieldValues?: Record<string, string>;
+  files?: {
+    pdf?: { filename: string; size: number };
+    png?: { filename: string; size: number };
+  };
+  issuedAt?: string;
+  supersededAt: string;
+  supersededBy?: string | { _id: string; name: string; email: string };
+  reason?: string;
+  changes: Array<{ field: string; from: string; to: string }>;
+}
+
+export type DeliveryStatus = 'queued' | 'sent' | 'bounced' | 'failed';
+
+export interface CertificateDelivery {
+  status?: DeliveryStatus;
+  method?: EmailTemplate['deliveryMethod'];
+  to?: string;
+  attempts: number;
+  lastError?: string;
+  queuedAt?: string;
+  sentAt?: string;
+  bouncedAt?: string;
+  failedAt?: string;
+}
+
+export interface EmailTemplate {
+  _id: string;
+  name: string;
+  subject: string;
+  body: string;
+  deliveryMethod: 'attachment' | 'link';
+  isDefault: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type JobType = 'certificate.generate' | 'certificate.email';
+
+export type JobStatus = 'queued' | 'running' | 'completed' | 'failed';
+
+export interface Job {
+  _id: string;
+  type: JobType;
+  status: JobStatus;
+  certificate?: string | Pick<Certificate, '_id' | 'certificateId' | 'participantName' | 'status'>;
+  batchId?: string;
+  result?: { certificateId?: string; status?: string; emailQueued?: boolean; skipped?: boolean };
+  attempts: number;
+  maxAttempts: number;
+  runAt: string;
+  lastError?: string;
+  startedAt?: string;
+  completedAt?: string;
+  failedAt?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface CertificateRevocation {
+  isRevoked: boolean;
+  reason?: string;
+  effectiveDate?: string;
+  revokedBy?: string;
+  revokedAt?: string;
+}
+
+export interface CertificateStatusChange {
+  action: 'revoked' | 'reinstated';
+  reason?: string;
+  effectiveDate?: string;
+  performedBy?: string | { _id: string; name: string; email: string };
+  performedAt: string;
+}
+
+export interface CustomFont {
+  _id: string;
+  family: string;
+  weight: string;
+  style: 'normal' | 'italic' | 'oblique';
+  format: 'ttf' | 'otf' | 'woff';
+  originalName: string;
+  fileSize: number;
+  createdAt: string;
+}
+
+// An uploaded image drawn by image placeholders; `certificate` images belong to one certificate
+export interface ImageAsset {
+  _id: string;
+  name: string;
+  purpose: 'library' | 'certificate';
+  filename: string;
+  originalName: string;
+  fileSize: number;
+  width: number;
+  height: number;
   createdAt: string;
 }
 
@@ -86,4 +268,24 @@ export interface ApiResponse<T = any> {
   message: string;
   data?: T;
   errors?: Array<{ message: string; field?: string }>;
-}
\ No newline at end of file
+}
+
+export interface CertificateVerification {
+  certificateId: string;
+  participantName: string;
+  templateName: string | null;
+  issuedDate: string;
+  expiryDate: string | null;
+  status: string;
+  state: 'valid' | 'expired' | 'revoked' | 'archived' | 'unavailable';
+  isValid: boolean;
+  isArchived: boolean;
+  isRevoked: boolean;
+  revocation: { reason?: string; effectiveDate: string } | null;
+  isExpired: boolean;
+  version: number;
+  reissuedAt: string | null;
+  renewalOf: string | null;
+  renewedAs: string | null;
+  hasThumbnail: boolean;
+}
@@ -0,0 +1,109 @@
+// Browser mirror of the date patterns in backend/models/dateFormat.js, used to
+// preview how date placeholders will print.
+
+export const DEFAULT_DATE_LOCALE = 'en-US';
+
+export const DATE_FORMAT_PRESETS = [
+  { label: 'Locale default (October 18, 2026)', pattern: '' },
+  { label: '18 October 2026', pattern: 'D MMMM YYYY' },
+  { label: 'October 18th, 2026', pattern: 'MMMM Do, YYYY' },
+  { label: '18.10.2026', pattern: 'DD.MM.YYYY' },
+  { label: '2026-10-18', pattern: 'YYYY-MM-DD' },
+  { label: 'the eighteenth day of October, two thousand twenty-six', pattern: '[the] Dw [day of] MMMM, YYYYw' },
+];
+
+const DATE_FORMAT_TOKENS = /\[([^\]]*)\]|YYYYw|YYYY|YY|MMMM|MMM|MM|M|dddd|ddd|Dw|Do|DD|D/g;
+
+const ONES = [
+  'zero', 'one', 'two', 'three', 'four', 'five', 'six', 'seven', 'eight', 'nine', 'ten',
+  'eleven', 'twelve', 'thirteen', 'fourteen', 'fifteen', 'sixteen', 'seventeen', 'eighteen', 'nineteen',
+];
+const TENS = ['', '', 'twenty', 'thirty', 'forty', 'fifty', 'sixty', 'seventy', 'eighty', 'ninety'];
+const ORDINAL_WORDS: Record<string, string> = {
+  one: 'first', two: 'second', three: 'third', five: 'fifth', eight: 'eighth', nine: 'ninth', twelve: 'twelfth',
+};
+
+export const isValidLocale = (locale?: string) => {
+  if (!locale) return false;
+  try {
+    return Intl.DateTimeFormat.supportedLocalesOf([locale]).length > 0;
+  } catch {
+    return false;
+  }
+};
+
+const numberToWords = (value: number): string => {
+  if (value < 20) return ONES[value];
+  if (value < 100) {
+    return TENS[Math.floor(value / 10)] + (value % 10 ? `-${ONES[value % 10]}` : '');
+  }
+  if (value < 1000) {
+    return `${ONES[Math.floor(value / 100)]} hundred` + (value % 100 ? ` ${numberToWords(value % 100)}` : '');
+  }
+  return `${numberToWords(Math.floor(value / 1000))} thousand` + (value % 1000 ? ` ${numberToWords(value % 1000)}` : '');
+};
+
+const ordinalWords = (value: number) => {
+  const parts = numberToWords(value).split('-');
+  const last = parts.pop() as string;
+  const ordinal = ORDINAL_WORDS[last] || (last.endsWith('y') ? `${last.slice(0, -1)}ieth` : `${last}th`);
+  return [...parts, ordinal].join('-');
+};
+
+const ordinalSuffix = (value: number) => {
+  if (value % 100 >= 11 && value % 100 <= 13) return `${value}th`;
+  return `${value}${({ 1: 'st', 2: 'nd', 3: 'rd' } as Record<number, string>)[value % 10] || 'th'}`;
+};
+
+/**
+ * Format a date the way the certificate renderer does. Dates are calendar days,
+ * so they are read in UTC.
+ */
+export const formatDate = (value: Date | string | undefined, pattern?: string, locale?: string) => {
+  if (!value) return '';
+  const date = value instanceof Date ? value : new Date(value);
+  if (isNaN(date.getTime())) return '';
+
+  const resolvedLocale = isValidLocale(locale) ? locale as string : DEFAULT_DATE_LOCALE;
+  const intl = (options: Intl.DateTimeFormatOptions) =>
+    new Intl.DateTimeFormat(resolvedLocale, { ...options, timeZone: 'UTC' }).format(date);
+  const monthName = (month: 'long' | 'short') => {
+    const part = new Intl.DateTimeFormat(resolvedLocale, { day: 'numeric', month, timeZone: 'UTC' })
+      .formatToParts(date)
+      .find(item => item.type === 'month');
+    return part && !/^\d+$/.test(part.value) ? part.value : intl({ month });
+  };
+
+  if (!pattern) {
+    return intl({ year: 'numeric', month: 'long', day: 'numeric' });
+  }
+
+  const day = date.getUTCDate();
+  const month = date.getUTCMonth() + 1;
+  const year = date.getUTCFullYear();
+
+  return pattern.replace(DATE_FORMAT_TOKENS, (token: string, literal?: string) => {
+    if (literal !== undefined) return literal;
+    switch (token) {
+      case 'YYYYw': return numberToWords(year);
+      case 'YYYY': return String(year);
+      case 'YY': return String(year % 100).padStart(2, '0');
+      case 'MMMM': return monthName('long');
+      case 'MMM': return monthName('short');
+      case 'MM': return String(month).padStart(2, '0');
+      case 'M': return String(month);
+      case 'dddd': return intl({ weekday: 'long' });
+      case 'ddd': return intl({ weekday: 'short' });
+      case 'Dw': return ordinalWords(day);
+      case 'Do': return ordinalSuffix(day);
+      case 'DD': return String(day).padStart(2, '0');
+      default: return String(day);
+    }
+  });
+};
+
+// Today as a calendar day (midnight UTC), the issue date certificates get by default
+export const todayAsDate = () => {
+  const now = new Date();
+  return new Date(Date.UTC(now.getFullYear(), now.getMonth(), now.getDate()));
+};
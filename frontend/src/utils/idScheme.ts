@@ -0,0 +1,57 @@
+// Browser mirror of the certificate ID schemes in backend/models/idScheme.js,
+// used to preview the IDs a scheme will produce.
+
+import { CertificateIdScheme } from '../types';
+
+export const DEFAULT_ID_SCHEME: CertificateIdScheme = {
+  mode: 'sequential',
+  prefix: 'CERT',
+  format: '{PREFIX}-{YYYY}-{SEQ}',
+  padding: 3,
+  randomLength: 10,
+  checkDigit: false,
+};
+
+const ID_FORMAT_TOKENS = /\{(PREFIX|YYYY|YY|MM|SEQ)\}/g;
+const RANDOM_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+const CHECK_ALPHABET = '0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZ';
+
+export const isValidIdFormat = (format: string) => {
+  const sequenceTokens = format.match(/\{SEQ\}/g) || [];
+  return sequenceTokens.length === 1 && /^[A-Z0-9-]*$/.test(format.replace(ID_FORMAT_TOKENS, ''));
+};
+
+export const computeCheckDigit = (value: string) => {
+  const base = CHECK_ALPHABET.length;
+  const codes = Array.from(value.toUpperCase())
+    .map(char => CHECK_ALPHABET.indexOf(char))
+    .filter(code => code >= 0);
+
+  let sum = 0;
+  let factor = 2;
+  for (let i = codes.length - 1; i >= 0; i--) {
+    const addend = factor * codes[i];
+    sum += Math.floor(addend / base) + (addend % base);
+    factor = factor === 2 ? 1 : 2;
+  }
+  return CHECK_ALPHABET[(base - (sum % base)) % base];
+};
+
+/**
+ * Example ID for a scheme; sequential schemes show `sequence`, random schemes a random draw
+ */
+export const formatExampleId = (scheme: CertificateIdScheme, sequence = 1, date = new Date()) => {
+  const year = String(date.getFullYear());
+  const values: Record<string, string> = {
+    PREFIX: scheme.prefix || '',
+    YYYY: year,
+    YY: year.slice(-2),
+    MM: String(date.getMonth() + 1).padStart(2, '0'),
+    SEQ: scheme.mode === 'random'
+      ? Array.from({ length: scheme.randomLength }, () => RANDOM_ALPHABET[Math.floor(Math.random() * RANDOM_ALPHABET.length)]).join('')
+      : String(sequence).padStart(scheme.padding, '0'),
+  };
+
+  const id = scheme.format.replace(ID_FORMAT_TOKENS, (_token, name: string) => values[name]);
+  return scheme.checkDigit ? `${id}-${computeCheckDigit(id)}` : id;
+};
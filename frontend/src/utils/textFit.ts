@@ -0,0 +1,148 @@
+// Browser mirror of the generator's text layout (backend/services/certificateGenerator.js
+// layoutText), used by the editor to predict how sample values will render.
+
+export type OverflowMode = 'none' | 'shrink' | 'wrap' | 'ellipsis';
+
+export interface FitOptions {
+  fontSize: number;
+  minFontSize?: number;
+  width?: number;
+  height?: number;
+  lineHeight?: number;
+  overflow?: OverflowMode | string;
+}
+
+export interface FitResult {
+  fontSize: number;
+  lines: string[];
+  // Text still runs past the box after applying the overflow mode
+  overflows: boolean;
+  // Text was cut short with an ellipsis
+  truncated: boolean;
+}
+
+type Measure = (text: string, fontSize: number) => number;
+
+const ELLIPSIS = '…';
+
+const shrinkToFit = (maxSize: number, minSize: number, fits: (size: number) => boolean) => {
+  if (fits(maxSize)) return maxSize;
+  if (!fits(minSize)) return minSize;
+
+  let low = minSize;
+  let high = maxSize;
+  while (high - low > 0.5) {
+    const mid = (low + high) / 2;
+    if (fits(mid)) {
+      low = mid;
+    } else {
+      high = mid;
+    }
+  }
+  return low;
+};
+
+export const wrapText = (text: string, maxWidth: number, measure: (text: string) => number) => {
+  const lines: string[] = [];
+  let current = '';
+
+  text.split(/\s+/).filter(Boolean).forEach(word => {
+    const candidate = current ? `${current} ${word}` : word;
+    if (measure(candidate) <= maxWidth) {
+      current = candidate;
+      return;
+    }
+    if (current) {
+      lines.push(current);
+    }
+    current = '';
+    for (const char of word) {
+      if (current && measure(current + char) > maxWidth) {
+        lines.push(current);
+        current = '';
+      }
+      current += char;
+    }
+  });
+
+  if (current) {
+    lines.push(current);
+  }
+  return lines.length > 0 ? lines : [''];
+};
+
+export const truncateWithEllipsis = (text: string, maxWidth: number, measure: (text: string) => number) => {
+  if (measure(text) <= maxWidth) return text;
+
+  const chars = Array.from(text.replace(/…$/, ''));
+  let low = 0;
+  let high = chars.length;
+  while (low < high) {
+    const mid = Math.ceil((low + high) / 2);
+    if (measure(chars.slice(0, mid).join('').trimEnd() + ELLIPSIS) <= maxWidth) {
+      low = mid;
+    } else {
+      high = mid - 1;
+    }
+  }
+  return chars.slice(0, low).join('').trimEnd() + ELLIPSIS;
+};
+
+export const fitText = (text: string, options: FitOptions, measure: Measure): FitResult => {
+  const width = options.width || 0;
+  const height = options.height || 0;
+  const lineHeight = options.lineHeight || 1.2;
+  const maxFontSize = options.fontSize;
+  const minFontSize = Math.min(options.minFontSize || 8, maxFontSize);
+  const overflow = width ? options.overflow || 'none' : 'none';
+
+  let fontSize = maxFontSize;
+  let lines = [text];
+  let truncated = false;
+
+  if (overflow === 'shrink') {
+    fontSize = shrinkToFit(fontSize, minFontSize, size => measure(text, size) <= width);
+    if (measure(text, fontSize) > width) {
+      lines = [truncateWithEllipsis(text, width, t => measure(t, fontSize))];
+      truncated = true;
+    }
+  } else if (overflow === 'wrap') {
+    const fits = (size: number) => {
+      const wrapped = wrapText(text, width, t => measure(t, size));
+      return !height || wrapped.length * size * lineHeight <= height;
+    };
+    fontSize = shrinkToFit(fontSize, minFontSize, fits);
+    lines = wrapText(text, width, t => measure(t, fontSize));
+
+    if (height && lines.length * fontSize * lineHeight > height) {
+      const maxLines = Math.max(1, Math.floor(height / (fontSize * lineHeight)));
+      const kept = lines.slice(0, maxLines);
+      kept[maxLines - 1] = truncateWithEllipsis(`${kept[maxLines - 1]}${ELLIPSIS}`, width, t => measure(t, fontSize));
+      lines = kept;
+      truncated = true;
+    }
+  } else if (overflow === 'ellipsis') {
+    lines = [truncateWithEllipsis(text, width, t => measure(t, fontSize))];
+    truncated = lines[0] !== text;
+  }
+
+  const overflows = overflow === 'none' && width > 0 && measure(text, fontSize) > width;
+
+  return { fontSize, lines, overflows, truncated };
+};
+
+let measureContext: CanvasRenderingContext2D | null = null;
+
+/**
+ * Measure text with the browser's canvas using the same font shorthand as the generator
+ */
+export const createCanvasMeasure = (fontFamily: string, fontWeight = 'normal', fontStyle = 'normal'): Measure => {
+  if (!measureContext) {
+    measureContext = document.createElement('canvas').getContext('2d');
+  }
+  return (text: string, fontSize: number) => {
+    if (!measureContext) return text.length * fontSize * 0.5;
+    measureContext.font = `${fontStyle} ${fontWeight} ${fontSize}px "${fontFamily}"`;
+    return measureContext.measureText(text).width;
+  };
+};